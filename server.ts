@@ -0,0 +1,97 @@
+import dotenv from 'dotenv';
+import express, { type ErrorRequestHandler } from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { createAdminRouter } from './server/admin';
+import { createAnalyticsRouter, createAnalyticsStore } from './server/analytics';
+import { createAssistantRouter } from './server/assistant';
+import { createAdminAuth } from './server/auth';
+import { createBookingStore, createBookingsRouter, seedDesigners } from './server/bookings';
+import { createClientStore } from './server/clients';
+import { createCobrowseHub, createCobrowseRouter } from './server/cobrowse';
+import { createContentRouter, createContentStore, seedContent } from './server/content';
+import { openDatabase } from './server/db';
+import { createLayoutStore, createLayoutsRouter } from './server/layouts';
+import { createLeadsRouter } from './server/leads';
+import { createPortalAuth, createPortalRouter } from './server/portal';
+import { createProjectStore, createProjectsRouter, seedProjects } from './server/projects';
+import { createCodeSender } from './server/providers/codeSender';
+import { createDesignAssistant } from './server/providers/designAssistant';
+import { createQuotesRouter } from './server/quotes';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+  const db = openDatabase();
+  seedProjects(db);
+  seedContent(db);
+  seedDesigners(db);
+  const projects = createProjectStore(db);
+  const content = createContentStore(db);
+  const bookings = createBookingStore(db);
+  const analytics = createAnalyticsStore(db);
+  const layouts = createLayoutStore(db);
+  const clients = createClientStore(db);
+  const codeSender = createCodeSender();
+  const cobrowse = createCobrowseHub();
+
+  app.set('trust proxy', 1);
+  app.use(express.json({ limit: '100kb' }));
+
+  // --- API Routes ---
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+  app.use('/api/leads', createLeadsRouter(db));
+  app.use('/api/quotes', createQuotesRouter(db, projects));
+  app.use('/api/projects', createProjectsRouter(projects));
+  app.use('/api/content', createContentRouter(content));
+  app.use('/api/bookings', createBookingsRouter(bookings));
+  app.use('/api/analytics', createAnalyticsRouter(analytics));
+  app.use('/api/layouts', createLayoutsRouter(layouts, projects));
+  app.use('/api/cobrowse', createCobrowseRouter(cobrowse));
+  app.use('/api/portal', createPortalRouter(clients, createPortalAuth(db, codeSender), codeSender.name));
+  app.use('/api/admin', createAdminRouter(db, createAdminAuth(db), projects, content, bookings, analytics, clients));
+  app.use('/api/assistant', createAssistantRouter(createDesignAssistant(), projects));
+
+  app.use('/api', (_req, res) => {
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  const handleApiError: ErrorRequestHandler = (err, _req, res, _next) => {
+    const status = typeof err.status === 'number' ? err.status : 500;
+    if (status >= 500) console.error(err);
+    res.status(status).json({ error: status >= 500 ? 'Something went wrong. Please try again.' : err.message });
+  };
+  app.use('/api', handleApiError);
+
+  // --- Frontend ---
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  const server = app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+
+  // Co-browsing sessions are the only WebSockets served here (Vite's dev
+  // server runs its own for hot reload).
+  server.on('upgrade', (req, socket, head) => {
+    if (!cobrowse.handleUpgrade(req, socket, head)) socket.destroy();
+  });
+}
+
+startServer();
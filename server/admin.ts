@@ -0,0 +1,274 @@
+import { Router, type Response } from 'express';
+import { REPORT_PERIODS } from '../src/lib/analytics';
+import { BOOKING_STATUSES, addDays, isValidDate, validateDesigner } from '../src/lib/bookings';
+import { validateHeroStats, validateTestimonial } from '../src/lib/content';
+import { LEAD_STATUSES, PROPERTY_TYPES } from '../src/lib/leads';
+import { validateClient } from '../src/lib/portal';
+import { validateProject, type ProjectInput } from '../src/lib/projects';
+import { checkSceneLayout } from '../src/scene/sceneCheck';
+import type { AnalyticsStore } from './analytics';
+import { bearerToken, type AdminAuth } from './auth';
+import type { BookingStore } from './bookings';
+import type { ClientStore } from './clients';
+import type { ContentStore } from './content';
+import type { Db } from './db';
+import { createLeadStore } from './leads';
+import type { ProjectStore } from './projects';
+import { createRateLimiter } from './rateLimit';
+
+const isUniqueViolation = (err: unknown) =>
+  err instanceof Error && (err as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE';
+
+// Tours are also checked for what the schema cannot catch: furniture that
+// overlaps or goes through a wall, lights outside their room, a camera path
+// through a wall. Reported like validateProject's scene errors.
+const sceneLayoutErrors = ({ scene }: ProjectInput) => {
+  const issues = scene ? checkSceneLayout(scene) : [];
+  return issues.length > 0 ? { scene: issues.slice(0, 5).join('; ') } : null;
+};
+
+const notFound = (res: Response, what: string) => {
+  res.status(404).json({ error: `That ${what} no longer exists.` });
+};
+
+// The calendar shows at most a few weeks at a time.
+const MAX_CALENDAR_DAYS = 42;
+
+const readDate = (value: unknown) => (typeof value === 'string' && isValidDate(value) ? value : null);
+
+export const createAdminRouter = (
+  db: Db,
+  auth: AdminAuth,
+  projects: ProjectStore,
+  content: ContentStore,
+  bookings: BookingStore,
+  analytics: AnalyticsStore,
+  clients: ClientStore
+) => {
+  const router = Router();
+  const leads = createLeadStore(db);
+
+  // --- Session ---
+  router.post('/login', createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, message: 'Too many sign-in attempts. Please try again later.' }), (req, res) => {
+    if (!auth.isConfigured()) {
+      res.status(503).json({ error: 'Admin access is not configured on this server.' });
+      return;
+    }
+    const token = auth.login(typeof req.body?.password === 'string' ? req.body.password : '');
+    if (!token) {
+      res.status(401).json({ error: 'That password is not correct.' });
+      return;
+    }
+    res.json({ token });
+  });
+
+  router.use(auth.requireAdmin);
+
+  router.post('/logout', (req, res) => {
+    auth.logout(bearerToken(req.headers.authorization)!);
+    res.status(204).end();
+  });
+
+  // --- Leads ---
+  router.get('/leads', (req, res) => {
+    const status = LEAD_STATUSES.find(s => s === req.query.status);
+    const propertyType = PROPERTY_TYPES.find(type => type === req.query.propertyType);
+    const search = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 80) : '';
+    res.json({ leads: leads.list({ status, propertyType, search }) });
+  });
+
+  router.patch('/leads/:id', (req, res) => {
+    const status = LEAD_STATUSES.find(s => s === req.body?.status);
+    if (!status) {
+      res.status(400).json({ error: `Status must be one of: ${LEAD_STATUSES.join(', ')}.` });
+      return;
+    }
+    if (!leads.setStatus(Number(req.params.id), status)) return notFound(res, 'lead');
+    res.json({ id: Number(req.params.id), status });
+  });
+
+  // --- Bookings ---
+  router.get('/bookings', (req, res) => {
+    const from = readDate(req.query.from);
+    const to = readDate(req.query.to);
+    if (!from || !to || to < from || to > addDays(from, MAX_CALENDAR_DAYS - 1)) {
+      res.status(400).json({ error: `Pick a range of up to ${MAX_CALENDAR_DAYS} days.` });
+      return;
+    }
+    res.json({ bookings: bookings.list(from, to) });
+  });
+
+  router.patch('/bookings/:id', (req, res) => {
+    const status = BOOKING_STATUSES.find(s => s === req.body?.status);
+    if (!status) {
+      res.status(400).json({ error: `Status must be one of: ${BOOKING_STATUSES.join(', ')}.` });
+      return;
+    }
+    const result = bookings.setStatus(Number(req.params.id), status);
+    if (result === 'not-found') return notFound(res, 'booking');
+    if (result === 'slot-taken') {
+      res.status(409).json({ error: 'That slot is already taken by another booking for this designer.' });
+      return;
+    }
+    res.json({ id: Number(req.params.id), status });
+  });
+
+  // --- Designers ---
+  router.get('/designers', (_req, res) => {
+    res.json({ designers: bookings.designers({ activeOnly: false }) });
+  });
+
+  router.post('/designers', (req, res) => {
+    const { designer, errors } = validateDesigner(req.body ?? {});
+    if (!designer) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    res.status(201).json({ designer: { id: bookings.insertDesigner(designer), ...designer } });
+  });
+
+  router.put('/designers/:id', (req, res) => {
+    const { designer, errors } = validateDesigner(req.body ?? {});
+    if (!designer) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    const id = Number(req.params.id);
+    if (!bookings.updateDesigner(id, designer)) return notFound(res, 'designer');
+    res.json({ designer: { id, ...designer } });
+  });
+
+  // --- Testimonials ---
+  router.get('/testimonials', (_req, res) => {
+    res.json({ testimonials: content.testimonials({ publishedOnly: false }) });
+  });
+
+  router.post('/testimonials', (req, res) => {
+    const { testimonial, errors } = validateTestimonial(req.body ?? {});
+    if (!testimonial) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    res.status(201).json({ testimonial: { id: content.insertTestimonial(testimonial), ...testimonial } });
+  });
+
+  router.put('/testimonials/:id', (req, res) => {
+    const { testimonial, errors } = validateTestimonial(req.body ?? {});
+    if (!testimonial) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    const id = Number(req.params.id);
+    if (!content.updateTestimonial(id, testimonial)) return notFound(res, 'testimonial');
+    res.json({ testimonial: { id, ...testimonial } });
+  });
+
+  router.delete('/testimonials/:id', (req, res) => {
+    if (!content.removeTestimonial(Number(req.params.id))) return notFound(res, 'testimonial');
+    res.status(204).end();
+  });
+
+  // --- Projects ---
+  router.get('/projects', (_req, res) => {
+    res.json({ projects: projects.list() });
+  });
+
+  router.post('/projects', (req, res) => {
+    const { project, errors } = validateProject(req.body ?? {});
+    const layoutErrors = project && sceneLayoutErrors(project);
+    if (!project || layoutErrors) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: layoutErrors ?? errors });
+      return;
+    }
+    try {
+      projects.insert(project);
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+      res.status(409).json({ error: 'Another project already uses that slug.', fields: { slug: 'Already in use.' } });
+      return;
+    }
+    res.status(201).json({ project: projects.find(project.slug) });
+  });
+
+  router.put('/projects/:slug', (req, res) => {
+    const { project, errors } = validateProject(req.body ?? {});
+    const layoutErrors = project && sceneLayoutErrors(project);
+    if (!project || layoutErrors) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: layoutErrors ?? errors });
+      return;
+    }
+    try {
+      if (!projects.update(req.params.slug, project)) return notFound(res, 'project');
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+      res.status(409).json({ error: 'Another project already uses that slug.', fields: { slug: 'Already in use.' } });
+      return;
+    }
+    res.json({ project: projects.find(project.slug) });
+  });
+
+  router.delete('/projects/:slug', (req, res) => {
+    if (!projects.remove(req.params.slug)) return notFound(res, 'project');
+    res.status(204).end();
+  });
+
+  // --- Clients ---
+  router.get('/clients', (_req, res) => {
+    res.json({ clients: clients.list() });
+  });
+
+  router.post('/clients', (req, res) => {
+    const { client, errors } = validateClient(req.body ?? {});
+    if (!client) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    try {
+      res.status(201).json({ client: clients.insert(client) });
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+      res.status(409).json({ error: 'Another client already uses that phone number or email.', fields: { phone: 'Check this is not a repeat.' } });
+    }
+  });
+
+  router.put('/clients/:id', (req, res) => {
+    const { client, errors } = validateClient(req.body ?? {});
+    if (!client) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    const id = Number(req.params.id);
+    try {
+      if (!clients.update(id, client)) return notFound(res, 'client');
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+      res.status(409).json({ error: 'Another client already uses that phone number or email.', fields: { phone: 'Check this is not a repeat.' } });
+      return;
+    }
+    res.json({ client: clients.find(id) });
+  });
+
+  router.delete('/clients/:id', (req, res) => {
+    if (!clients.remove(Number(req.params.id))) return notFound(res, 'client');
+    res.status(204).end();
+  });
+
+  // --- Analytics ---
+  router.get('/analytics', (req, res) => {
+    const days = REPORT_PERIODS.find(period => String(period) === req.query.days) ?? 30;
+    res.json({ report: analytics.report(days) });
+  });
+
+  // --- Hero Stats ---
+  router.put('/content/hero-stats', (req, res) => {
+    const { stats, error } = validateHeroStats(req.body?.stats);
+    if (!stats) {
+      res.status(400).json({ error });
+      return;
+    }
+    content.setHeroStats(stats);
+    res.json({ heroStats: stats });
+  });
+
+  return router;
+};
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import {
+  CONVERSION_FORMS,
+  CTA_TARGETS,
+  FINISHED_DEPTH,
+  HALFWAY_DEPTH,
+  validateAnalyticsBatch,
+  type AnalyticsEvent,
+  type AnalyticsReport,
+  type ConversionForm,
+  type CtaTarget,
+  type ReportPeriod,
+  type RoomDwell,
+} from '../src/lib/analytics';
+import type { Db } from './db';
+import { createRateLimiter } from './rateLimit';
+
+// Events older than this are deleted; the report looks back 90 days at most.
+const RETENTION = '-180 days';
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface SessionRow {
+  depth: number | null;
+  clicked: number;
+  converted: number;
+}
+
+// One row per event: `name` is the room, CTA or form, `value` the dwell ms or depth.
+const toRow = (sessionId: string, event: AnalyticsEvent) => ({
+  sessionId,
+  type: event.type,
+  page: event.page,
+  name: event.type === 'dwell' ? event.room : event.type === 'cta' ? event.target : event.type === 'conversion' ? event.form : '',
+  value: event.type === 'dwell' ? event.ms : event.type === 'depth' ? event.depth : 0,
+});
+
+export const createAnalyticsStore = (db: Db) => {
+  const insert = db.prepare(
+    `INSERT INTO analytics_events (session_id, type, page, name, value) VALUES (@sessionId, @type, @page, @name, @value)`
+  );
+  const purge = db.prepare(`DELETE FROM analytics_events WHERE created_at < datetime('now', ?)`);
+  const sessions = db.prepare<[string], SessionRow>(
+    `SELECT MAX(CASE WHEN type = 'depth' AND page = '/' THEN value END) AS depth,
+            MAX(type = 'cta') AS clicked,
+            MAX(type = 'conversion') AS converted
+     FROM analytics_events
+     WHERE created_at >= datetime('now', ?)
+     GROUP BY session_id`
+  );
+  const rooms = db.prepare<[string], RoomDwell>(
+    `SELECT page, name AS room, COUNT(DISTINCT session_id) AS sessions, SUM(value) AS totalMs
+     FROM analytics_events
+     WHERE type = 'dwell' AND created_at >= datetime('now', ?)
+     GROUP BY page, name
+     ORDER BY page, totalMs DESC`
+  );
+  const actions = db.prepare<[string], { type: 'cta' | 'conversion'; name: string; total: number }>(
+    `SELECT type, name, COUNT(*) AS total
+     FROM analytics_events
+     WHERE type IN ('cta', 'conversion') AND created_at >= datetime('now', ?)
+     GROUP BY type, name`
+  );
+
+  let purgedAt = 0;
+  const record = db.transaction((sessionId: string, events: AnalyticsEvent[]) => {
+    events.forEach(event => insert.run(toRow(sessionId, event)));
+    if (Date.now() - purgedAt > PURGE_INTERVAL_MS) {
+      purge.run(RETENTION);
+      purgedAt = Date.now();
+    }
+  });
+
+  const report = (days: ReportPeriod): AnalyticsReport => {
+    const since = `-${days} days`;
+    const visits = sessions.all(since);
+    const dropOff = Array.from({ length: 10 }, () => 0);
+    visits.forEach(visit => {
+      if (visit.depth !== null) dropOff[Math.min(9, Math.floor(visit.depth * 10))] += 1;
+    });
+
+    const ctas = Object.fromEntries(CTA_TARGETS.map(target => [target, 0])) as Record<CtaTarget, number>;
+    const conversions = Object.fromEntries(CONVERSION_FORMS.map(form => [form, 0])) as Record<ConversionForm, number>;
+    actions.all(since).forEach(({ type, name, total }) => {
+      const counts: Record<string, number> = type === 'cta' ? ctas : conversions;
+      if (name in counts) counts[name] = total;
+    });
+
+    return {
+      days,
+      funnel: {
+        visited: visits.length,
+        halfway: visits.filter(visit => (visit.depth ?? 0) >= HALFWAY_DEPTH).length,
+        finished: visits.filter(visit => (visit.depth ?? 0) >= FINISHED_DEPTH).length,
+        clicked: visits.filter(visit => visit.clicked === 1).length,
+        converted: visits.filter(visit => visit.converted === 1).length,
+      },
+      dropOff,
+      rooms: rooms.all(since),
+      ctas,
+      conversions,
+    };
+  };
+
+  return { record, report };
+};
+
+export type AnalyticsStore = ReturnType<typeof createAnalyticsStore>;
+
+export const createAnalyticsRouter = (analytics: AnalyticsStore) => {
+  const router = Router();
+
+  // Batches arrive every few seconds at most, and on leaving the page.
+  router.post('/', createRateLimiter({ windowMs: 60 * 1000, max: 30 }), (req, res) => {
+    const batch = validateAnalyticsBatch(req.body ?? {});
+    if (!batch) {
+      res.status(400).json({ error: 'That is not a valid analytics batch.' });
+      return;
+    }
+    analytics.record(batch.sessionId, batch.events);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { MAX_CHAT_MESSAGES, MAX_MESSAGE_LENGTH, type ChatMessage } from '../src/lib/assistant';
+import apartmentDefinition from '../src/scene/apartments/siriz-showflat.json';
+import { roomFinishSlots } from '../src/scene/finishes';
+import { validateScene } from '../src/scene/validate';
+import type { ProjectStore } from './projects';
+import type { DesignAssistantProvider } from './providers/designAssistant';
+import { createRateLimiter } from './rateLimit';
+
+const APARTMENT = validateScene(apartmentDefinition);
+
+/** The chat so far, or null unless it is 1–MAX_CHAT_MESSAGES well-formed messages ending with the visitor's. */
+export const readMessages = (value: unknown): ChatMessage[] | null => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CHAT_MESSAGES) return null;
+  const messages = value.filter((m): m is ChatMessage =>
+    typeof m === 'object' && m !== null &&
+    (m.role === 'user' || m.role === 'assistant') &&
+    typeof m.content === 'string' && m.content.trim() !== '' && m.content.length <= MAX_MESSAGE_LENGTH
+  );
+  return messages.length === value.length && messages[messages.length - 1].role === 'user' ? messages : null;
+};
+
+/** Proxies chat to the configured provider so API keys stay on the server. */
+export const createAssistantRouter = (provider: DesignAssistantProvider, projects: ProjectStore) => {
+  const router = Router();
+
+  router.post('/chat', createRateLimiter({ windowMs: 10 * 60 * 1000, max: 20, message: 'You have sent a lot of messages. Please wait a few minutes.' }), async (req, res) => {
+    const messages = readMessages(req.body?.messages);
+    if (!messages) {
+      res.status(400).json({ error: `Send between 1 and ${MAX_CHAT_MESSAGES} messages, ending with yours.` });
+      return;
+    }
+
+    // Visitors on a project tour are asking about that project's rooms.
+    const slug = req.body?.projectSlug;
+    const apartment = (typeof slug === 'string' && projects.find(slug)?.scene) || APARTMENT;
+    const room = apartment.rooms.find(r => r.id === req.body?.roomId) ?? apartment.rooms[0];
+    try {
+      const reply = await provider.reply(messages, { roomId: room.id, roomName: room.name, slots: roomFinishSlots(apartment, room.id) });
+      res.json({ ...reply, roomId: room.id });
+    } catch (err) {
+      console.error(`Design assistant (${provider.name}) failed:`, err);
+      res.status(502).json({ error: 'Our design assistant is unavailable right now. Please try again shortly.' });
+    }
+  });
+
+  return router;
+};
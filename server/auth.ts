@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+import type { Db } from './db';
+
+const SESSION_TTL = '+12 hours';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Compares digests so the check takes the same time whatever the input length.
+const passwordMatches = (attempt: string, password: string) =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(attempt).digest(),
+    crypto.createHash('sha256').update(password).digest()
+  );
+
+/** Returns the bearer token from the Authorization header, if any. */
+export const bearerToken = (header: string | undefined) => header?.match(/^Bearer ([a-f0-9]{64})$/)?.[1] ?? null;
+
+/**
+ * Password login for the admin console. The password comes from
+ * ADMIN_PASSWORD; sessions are random bearer tokens stored hashed in SQLite.
+ */
+export const createAdminAuth = (db: Db, password = process.env.ADMIN_PASSWORD ?? '') => {
+  const insert = db.prepare(`INSERT INTO admin_sessions (token_hash, expires_at) VALUES (?, datetime('now', ?))`);
+  const find = db.prepare<[string], { token_hash: string }>(
+    `SELECT token_hash FROM admin_sessions WHERE token_hash = ? AND expires_at > datetime('now')`
+  );
+  const remove = db.prepare(`DELETE FROM admin_sessions WHERE token_hash = ?`);
+  const removeExpired = db.prepare(`DELETE FROM admin_sessions WHERE expires_at <= datetime('now')`);
+
+  const isConfigured = () => password !== '';
+
+  return {
+    isConfigured,
+    /** Returns a new session token, or null if the password is wrong. */
+    login: (attempt: string) => {
+      if (!isConfigured() || !passwordMatches(attempt, password)) return null;
+      removeExpired.run();
+      const token = crypto.randomBytes(32).toString('hex');
+      insert.run(hashToken(token), SESSION_TTL);
+      return token;
+    },
+    logout: (token: string) => {
+      remove.run(hashToken(token));
+    },
+    requireAdmin: ((req, res, next) => {
+      const token = bearerToken(req.headers.authorization);
+      if (!token || !find.get(hashToken(token))) {
+        res.status(401).json({ error: 'Please sign in again.' });
+        return;
+      }
+      next();
+    }) as RequestHandler,
+  };
+};
+
+export type AdminAuth = ReturnType<typeof createAdminAuth>;
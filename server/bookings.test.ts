@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { addDays, showroomNow, type BookingInput } from '../src/lib/bookings';
+import { createBookingStore } from './bookings';
+import { openDatabase } from './db';
+
+const ALL_WEEK = Array.from({ length: 7 }, (_, weekday) => ({ weekday, start: '10:00', end: '12:00' }));
+
+// Bookings are relative to today, so tests book from tomorrow on.
+const tomorrow = addDays(showroomNow().date, 1);
+
+const setup = (designers = 1) => {
+  const bookings = createBookingStore(openDatabase(':memory:'));
+  for (let i = 0; i < designers; i++) bookings.insertDesigner({ name: `Designer ${i + 1}`, availability: ALL_WEEK, active: true });
+  return bookings;
+};
+
+const request = (overrides: Partial<BookingInput> = {}): BookingInput => ({
+  name: 'Asha',
+  phone: '+919876543210',
+  propertyType: '2 BHK',
+  type: 'showroom',
+  date: tomorrow,
+  time: '10:00',
+  address: '',
+  notes: '',
+  ...overrides,
+});
+
+describe('booking store', () => {
+  test('offers each start time within designers\' hours', () => {
+    const day = setup().openSlots().find(slot => slot.date === tomorrow);
+    assert.deepEqual(day?.times, ['10:00', '11:00']);
+  });
+
+  test('refuses slots outside working hours or the booking window', () => {
+    const bookings = setup();
+    assert.equal(bookings.book(request({ time: '12:00' }), null), null);
+    assert.equal(bookings.book(request({ date: addDays(tomorrow, 30) }), null), null);
+  });
+
+  test('gives a slot to another designer until everyone is booked', () => {
+    const bookings = setup(2);
+    const first = bookings.book(request(), null);
+    const second = bookings.book(request(), null);
+    assert.ok(first && second);
+    assert.notEqual(first.booking.designer, second.booking.designer);
+    assert.equal(bookings.book(request(), null), null);
+    assert.deepEqual(bookings.openSlots().find(slot => slot.date === tomorrow)?.times, ['11:00']);
+  });
+
+  test('will not confirm a cancelled booking whose slot was taken again', () => {
+    const bookings = setup();
+    const first = bookings.book(request(), null)!;
+    assert.equal(bookings.setStatus(first.booking.id, 'cancelled'), 'updated');
+    assert.ok(bookings.book(request(), null));
+    assert.equal(bookings.setStatus(first.booking.id, 'confirmed'), 'slot-taken');
+    assert.equal(bookings.setStatus(999, 'cancelled'), 'not-found');
+  });
+
+  test('treats setting the status a booking already has as done', () => {
+    const bookings = setup();
+    const { token, booking } = bookings.book(request(), null)!;
+    bookings.cancel(token);
+    assert.equal(bookings.setStatus(booking.id, 'cancelled'), 'updated');
+    assert.equal(bookings.find(token)?.status, 'cancelled');
+  });
+});
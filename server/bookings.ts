@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import { Router, type Request } from 'express';
+import {
+  BOOKING_WINDOW_DAYS,
+  CONSULTATION_LABELS,
+  MIN_NOTICE_MINUTES,
+  SHOWROOM_ADDRESS,
+  SLOT_MINUTES,
+  addDays,
+  bookingPath,
+  bookingReference,
+  formatSlotDate,
+  formatSlotTime,
+  fromMinutes,
+  showroomNow,
+  slotInstant,
+  toMinutes,
+  validateBooking,
+  validateSlot,
+  weekdayOf,
+  type Booking,
+  type BookingInput,
+  type BookingRecord,
+  type BookingStatus,
+  type Designer,
+  type DesignerInput,
+  type Slot,
+  type SlotDay,
+} from '../src/lib/bookings';
+import { toIcs } from './calendar';
+import type { Db } from './db';
+import { createLeadStore, leadRateLimiter } from './leads';
+import { createRateLimiter } from './rateLimit';
+
+// Mon–Sat, 10 AM to 6 PM, until the team sets its own hours in /admin.
+const DEFAULT_DESIGNER: DesignerInput = {
+  name: 'SIRIZ Design Team',
+  availability: [1, 2, 3, 4, 5, 6].map(weekday => ({ weekday, start: '10:00', end: '18:00' })),
+  active: true,
+};
+
+interface DesignerRow {
+  id: number;
+  name: string;
+  availability: string;
+  active: number;
+}
+
+interface BookingRow {
+  id: number;
+  type: BookingRecord['type'];
+  starts_at: string;
+  address: string;
+  notes: string;
+  status: BookingStatus;
+  sequence: number;
+  token_hash: string;
+  name: string;
+  phone: string;
+  property_type: BookingRecord['propertyType'];
+  designer: string;
+  designer_id: number;
+}
+
+const toDesigner = (row: DesignerRow): Designer => ({
+  id: row.id,
+  name: row.name,
+  availability: JSON.parse(row.availability),
+  active: row.active === 1,
+});
+
+// starts_at is stored as "YYYY-MM-DD HH:MM" so bookings sort and compare as text.
+const toStartsAt = ({ date, time }: Slot) => `${date} ${time}`;
+
+const toBooking = (row: BookingRow): BookingRecord => ({
+  id: row.id,
+  reference: bookingReference(row.id),
+  name: row.name,
+  phone: row.phone,
+  propertyType: row.property_type,
+  type: row.type,
+  date: row.starts_at.slice(0, 10),
+  time: row.starts_at.slice(11),
+  address: row.address,
+  notes: row.notes,
+  status: row.status,
+  designer: row.designer,
+});
+
+const toPublic = ({ id: _id, ...booking }: BookingRecord): Booking => booking;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/** Start times a designer works on a date, e.g. 10:00, 11:00 … 17:00 for a 10–6 day. */
+const designerStarts = (designer: Designer, date: string) => {
+  const weekday = weekdayOf(date);
+  const starts = new Set<string>();
+  designer.availability
+    .filter(window => window.weekday === weekday)
+    .forEach(window => {
+      for (let m = toMinutes(window.start); m + SLOT_MINUTES <= toMinutes(window.end); m += SLOT_MINUTES) starts.add(fromMinutes(m));
+    });
+  return starts;
+};
+
+/** Slots can be booked from MIN_NOTICE_MINUTES from now until the end of the booking window. */
+const isBookable = (slot: Slot) => {
+  const now = showroomNow();
+  if (slot.date < now.date || slot.date > addDays(now.date, BOOKING_WINDOW_DAYS - 1)) return false;
+  return slot.date > now.date || toMinutes(slot.time) >= now.minutes + MIN_NOTICE_MINUTES;
+};
+
+const hasStarted = (booking: BookingRecord) => slotInstant(booking).getTime() <= Date.now();
+
+export const createBookingStore = (db: Db) => {
+  const leads = createLeadStore(db);
+
+  const listDesigners = db.prepare<[number], DesignerRow>(`SELECT * FROM designers WHERE active >= ? ORDER BY id`);
+  const countDesigners = db.prepare<[], { total: number }>(`SELECT COUNT(*) AS total FROM designers`);
+  const insertDesigner = db.prepare(
+    `INSERT INTO designers (name, availability, active) VALUES (@name, @availability, @active)`
+  );
+  const updateDesigner = db.prepare(
+    `UPDATE designers SET name = @name, availability = @availability, active = @active WHERE id = @id`
+  );
+
+  const selectBooking = `SELECT b.*, l.name, l.phone, l.property_type, d.name AS designer
+    FROM bookings b JOIN leads l ON l.id = b.lead_id JOIN designers d ON d.id = b.designer_id`;
+  const findById = db.prepare<[number], BookingRow>(`${selectBooking} WHERE b.id = ?`);
+  const findByToken = db.prepare<[string], BookingRow>(`${selectBooking} WHERE b.token_hash = ?`);
+  const listBetween = db.prepare<[string, string], BookingRow>(
+    `${selectBooking} WHERE b.starts_at >= ? AND b.starts_at < ? ORDER BY b.starts_at, b.id`
+  );
+  const takenBetween = db.prepare<[string, string], { designer_id: number; starts_at: string }>(
+    `SELECT designer_id, starts_at FROM bookings WHERE status = 'confirmed' AND starts_at >= ? AND starts_at < ?`
+  );
+  const takenAt = db.prepare<[string, number], { designer_id: number }>(
+    `SELECT designer_id FROM bookings WHERE status = 'confirmed' AND starts_at = ? AND id != ?`
+  );
+  const insertBooking = db.prepare(
+    `INSERT INTO bookings (lead_id, designer_id, type, starts_at, address, notes, token_hash)
+     VALUES (@leadId, @designerId, @type, @startsAt, @address, @notes, @tokenHash)`
+  );
+  const moveBooking = db.prepare(
+    `UPDATE bookings SET starts_at = ?, designer_id = ?, sequence = sequence + 1, updated_at = datetime('now') WHERE id = ?`
+  );
+  const setStatus = db.prepare(
+    `UPDATE bookings SET status = ?, sequence = sequence + 1, updated_at = datetime('now') WHERE id = ? AND status != ?`
+  );
+
+  const designers = ({ activeOnly }: { activeOnly: boolean }) => listDesigners.all(activeOnly ? 1 : 0).map(toDesigner);
+  const toParams = (designer: DesignerInput) => ({
+    ...designer,
+    availability: JSON.stringify(designer.availability),
+    active: designer.active ? 1 : 0,
+  });
+
+  /** A designer free at this slot (preferring `preferredId`), or null if it is taken or outside working hours. */
+  const freeDesigner = (slot: Slot, { ignoreBookingId = 0, preferredId = 0 } = {}) => {
+    if (!isBookable(slot)) return null;
+    const taken = new Set(takenAt.all(toStartsAt(slot), ignoreBookingId).map(row => row.designer_id));
+    const free = designers({ activeOnly: true }).filter(d => !taken.has(d.id) && designerStarts(d, slot.date).has(slot.time));
+    return (free.find(d => d.id === preferredId) ?? free[0])?.id ?? null;
+  };
+
+  const findRow = (token: string) => findByToken.get(hashToken(token));
+
+  return {
+    designers,
+    countDesigners: () => countDesigners.get()!.total,
+    insertDesigner: (designer: DesignerInput) => Number(insertDesigner.run(toParams(designer)).lastInsertRowid),
+    updateDesigner: (id: number, designer: DesignerInput) => updateDesigner.run({ ...toParams(designer), id }).changes > 0,
+
+    /** Every open start time from today through the booking window. */
+    openSlots: (): SlotDay[] => {
+      const today = showroomNow().date;
+      const end = addDays(today, BOOKING_WINDOW_DAYS);
+      const taken = new Set(takenBetween.all(today, end).map(row => `${row.designer_id} ${row.starts_at}`));
+      const team = designers({ activeOnly: true });
+      return Array.from({ length: BOOKING_WINDOW_DAYS }, (_, i) => {
+        const date = addDays(today, i);
+        const times = new Set<string>();
+        team.forEach(designer =>
+          designerStarts(designer, date).forEach(time => {
+            if (!taken.has(`${designer.id} ${toStartsAt({ date, time })}`) && isBookable({ date, time })) times.add(time);
+          })
+        );
+        return { date, times: [...times].sort() };
+      });
+    },
+
+    /** Books the slot and records the customer as a lead; null if the slot is no longer open. */
+    book: (input: BookingInput, ip: string | null) =>
+      db.transaction(() => {
+        const designerId = freeDesigner(input);
+        if (designerId === null) return null;
+        const label = CONSULTATION_LABELS[input.type];
+        const leadId = leads.insert(
+          { ...input, message: [`${label} booked for ${formatSlotDate(input.date)}, ${formatSlotTime(input.time)}`, input.notes].filter(Boolean).join(': ') },
+          'booking',
+          ip
+        );
+        const token = crypto.randomBytes(32).toString('hex');
+        const result = insertBooking.run({
+          leadId,
+          designerId,
+          type: input.type,
+          startsAt: toStartsAt(input),
+          address: input.address,
+          notes: input.notes,
+          tokenHash: hashToken(token),
+        });
+        return { token, booking: toBooking(findById.get(Number(result.lastInsertRowid))!) };
+      })(),
+
+    find: (token: string) => {
+      const row = findRow(token);
+      return row ? toBooking(row) : null;
+    },
+    sequence: (token: string) => findRow(token)?.sequence ?? 0,
+
+    /** Moves a booking to a new slot, keeping its designer if they are free; null if the slot is not open. */
+    reschedule: (token: string, slot: Slot) =>
+      db.transaction(() => {
+        const row = findRow(token)!;
+        const designerId = freeDesigner(slot, { ignoreBookingId: row.id, preferredId: row.designer_id });
+        if (designerId === null) return null;
+        moveBooking.run(toStartsAt(slot), designerId, row.id);
+        return toBooking(findById.get(row.id)!);
+      })(),
+
+    cancel: (token: string) => {
+      const row = findRow(token)!;
+      setStatus.run('cancelled', row.id, 'cancelled');
+      return toBooking(findById.get(row.id)!);
+    },
+
+    /** Bookings of any status starting between two dates (inclusive), for the admin calendar. */
+    list: (from: string, to: string) => listBetween.all(`${from} 00:00`, `${addDays(to, 1)} 00:00`).map(toBooking),
+    /**
+     * Changes a booking's status; one already in that status is left as it is
+     * and still counts as updated. Confirming a cancelled booking fails with
+     * 'slot-taken' when its designer has since been booked at that time.
+     */
+    setStatus: (id: number, status: BookingStatus): 'updated' | 'not-found' | 'slot-taken' => {
+      if (!findById.get(id)) return 'not-found';
+      try {
+        setStatus.run(status, id, status);
+        return 'updated';
+      } catch (err) {
+        if ((err as { code?: string }).code !== 'SQLITE_CONSTRAINT_UNIQUE') throw err;
+        return 'slot-taken';
+      }
+    },
+  };
+};
+
+export type BookingStore = ReturnType<typeof createBookingStore>;
+
+/** Adds a default designer the first time the table is empty, so bookings work out of the box. */
+export const seedDesigners = (db: Db) => {
+  const bookings = createBookingStore(db);
+  if (bookings.countDesigners() > 0) return;
+  bookings.insertDesigner(DEFAULT_DESIGNER);
+};
+
+const siteOrigin = (req: Request) => `${req.protocol}://${req.get('host')}`;
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export const createBookingsRouter = (bookings: BookingStore) => {
+  const router = Router();
+  const manageLimiter = createRateLimiter({ windowMs: 60 * 1000, max: 30 });
+
+  router.get('/slots', createRateLimiter({ windowMs: 60 * 1000, max: 60 }), (_req, res) => {
+    res.json({ days: bookings.openSlots() });
+  });
+
+  router.post('/', leadRateLimiter(), (req, res) => {
+    const { booking, errors } = validateBooking(req.body ?? {});
+    if (!booking) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+    const result = bookings.book(booking, req.ip ?? null);
+    if (!result) {
+      res.status(409).json({ error: 'That time has just been taken. Please pick another slot.', fields: { time: 'No longer available.' } });
+      return;
+    }
+    res.status(201).json({ token: result.token, booking: toPublic(result.booking) });
+  });
+
+  // --- Manage Links ---
+  // The token in /booking/:token is the customer's only key to their booking.
+
+  router.use('/:token', manageLimiter, (req, res, next) => {
+    if (!TOKEN_PATTERN.test(req.params.token) || !bookings.find(req.params.token)) {
+      res.status(404).json({ error: 'We could not find that booking. Please check the link.' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/:token', (req, res) => {
+    res.json({ booking: toPublic(bookings.find(req.params.token)!) });
+  });
+
+  router.get('/:token/calendar.ics', (req, res) => {
+    const { token } = req.params;
+    const booking = bookings.find(token)!;
+    const label = CONSULTATION_LABELS[booking.type];
+    const manageUrl = `${siteOrigin(req)}${bookingPath(token)}`;
+    res.type('text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="siriz-${booking.reference}.ics"`);
+    res.send(
+      toIcs({
+        uid: `${booking.reference}@sirizinteriors.com`,
+        sequence: bookings.sequence(token),
+        start: slotInstant(booking),
+        minutes: SLOT_MINUTES,
+        summary: `SIRIZ Interiors · ${label}`,
+        description: `${label} with ${booking.designer} (${booking.reference}). Call +91 84384 23938 with any questions. Reschedule or cancel: ${manageUrl}`,
+        location: booking.type === 'site-visit' ? booking.address : SHOWROOM_ADDRESS,
+        url: manageUrl,
+        cancelled: booking.status === 'cancelled',
+      })
+    );
+  });
+
+  const checkChangeable = (booking: BookingRecord) => {
+    if (booking.status === 'cancelled') return 'This booking has been cancelled. Please make a new booking.';
+    if (hasStarted(booking)) return 'This consultation has already taken place.';
+    return null;
+  };
+
+  router.put('/:token', (req, res) => {
+    const { slot, errors } = validateSlot(req.body ?? {});
+    if (!slot) {
+      res.status(400).json({ error: 'Please pick a new date and time.', fields: errors });
+      return;
+    }
+    const error = checkChangeable(bookings.find(req.params.token)!);
+    if (error) {
+      res.status(409).json({ error });
+      return;
+    }
+    const booking = bookings.reschedule(req.params.token, slot);
+    if (!booking) {
+      res.status(409).json({ error: 'That time has just been taken. Please pick another slot.', fields: { time: 'No longer available.' } });
+      return;
+    }
+    res.json({ booking: toPublic(booking) });
+  });
+
+  router.delete('/:token', (req, res) => {
+    const error = checkChangeable(bookings.find(req.params.token)!);
+    if (error) {
+      res.status(409).json({ error });
+      return;
+    }
+    res.json({ booking: toPublic(bookings.cancel(req.params.token)) });
+  });
+
+  return router;
+};
@@ -0,0 +1,53 @@
+// --- iCalendar Files ---
+// Just enough of RFC 5545 for a single event that calendar apps can add,
+// update (same UID, higher SEQUENCE) or remove (STATUS:CANCELLED).
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  minutes: number;
+  summary: string;
+  description: string;
+  location: string;
+  url: string;
+  cancelled: boolean;
+}
+
+const stamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) => text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space.
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 74;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 74) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  return [...parts, rest].join('\r\n ');
+};
+
+export const toIcs = (event: CalendarEvent) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SIRIZ Interiors//Consultations//EN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${stamp(new Date())}`,
+    `DTSTART:${stamp(event.start)}`,
+    `DTEND:${stamp(new Date(event.start.getTime() + event.minutes * 60_000))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `URL:${event.url}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].map(fold).join('\r\n') + '\r\n';
@@ -0,0 +1,81 @@
+import { clientReference, type Client, type ClientInput } from '../src/lib/portal';
+import type { Db } from './db';
+
+interface ClientRow {
+  id: number;
+  name: string;
+  phone: string;
+  email: string;
+  project_name: string;
+  address: string;
+  start_date: string;
+  handover_date: string | null;
+  milestones: string;
+  designs: string;
+  photos: string;
+  payments: string;
+}
+
+// Rows are only ever written through validateClient, so the stored lists
+// already match the shared types.
+const toClient = (row: ClientRow): Client => ({
+  id: row.id,
+  reference: clientReference(row.id),
+  name: row.name,
+  phone: row.phone,
+  email: row.email,
+  projectName: row.project_name,
+  address: row.address,
+  startDate: row.start_date,
+  handoverDate: row.handover_date,
+  milestones: JSON.parse(row.milestones),
+  designs: JSON.parse(row.designs),
+  photos: JSON.parse(row.photos),
+  payments: JSON.parse(row.payments),
+});
+
+const toParams = (client: ClientInput) => ({
+  ...client,
+  milestones: JSON.stringify(client.milestones),
+  designs: JSON.stringify(client.designs),
+  photos: JSON.stringify(client.photos),
+  payments: JSON.stringify(client.payments),
+});
+
+export const createClientStore = (db: Db) => {
+  const list = db.prepare<[], ClientRow>(`SELECT * FROM clients ORDER BY start_date DESC, id DESC`);
+  const find = db.prepare<[number], ClientRow>(`SELECT * FROM clients WHERE id = ?`);
+  const findByPhone = db.prepare<[string], ClientRow>(`SELECT * FROM clients WHERE phone = ?`);
+  const findByEmail = db.prepare<[string], ClientRow>(`SELECT * FROM clients WHERE email = ? AND email != ''`);
+  const insert = db.prepare(
+    `INSERT INTO clients (name, phone, email, project_name, address, start_date, handover_date, milestones, designs, photos, payments)
+     VALUES (@name, @phone, @email, @projectName, @address, @startDate, @handoverDate, @milestones, @designs, @photos, @payments)`
+  );
+  const update = db.prepare(
+    `UPDATE clients SET name = @name, phone = @phone, email = @email, project_name = @projectName, address = @address,
+       start_date = @startDate, handover_date = @handoverDate, milestones = @milestones, designs = @designs,
+       photos = @photos, payments = @payments, updated_at = datetime('now')
+     WHERE id = @id`
+  );
+  const remove = db.prepare(`DELETE FROM clients WHERE id = ?`);
+
+  const findClient = (id: number) => {
+    const row = find.get(id);
+    return row ? toClient(row) : null;
+  };
+
+  return {
+    list: () => list.all().map(toClient),
+    find: findClient,
+    /** The client a sign-in phone number or email address belongs to. */
+    findByContact: (channel: 'sms' | 'email', address: string) => {
+      const row = channel === 'sms' ? findByPhone.get(address) : findByEmail.get(address);
+      return row ? toClient(row) : null;
+    },
+    insert: (client: ClientInput) => findClient(Number(insert.run(toParams(client)).lastInsertRowid))!,
+    update: (id: number, client: ClientInput) => update.run({ ...toParams(client), id }).changes > 0,
+    remove: (id: number) => remove.run(id).changes > 0,
+  };
+};
+
+export type ClientStore = ReturnType<typeof createClientStore>;
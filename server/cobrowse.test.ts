@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, describe, test } from 'node:test';
+import { WebSocket } from 'ws';
+import { COBROWSE_SOCKET_PATH } from '../src/lib/cobrowse';
+import { createCobrowseHub } from './cobrowse';
+
+const hub = createCobrowseHub();
+const server = http.createServer();
+server.on('upgrade', (req, socket, head) => {
+  if (!hub.handleUpgrade(req, socket, head)) socket.destroy();
+});
+
+const listening = new Promise<number>(resolve => server.listen(0, () => resolve((server.address() as AddressInfo).port)));
+after(() => server.close());
+
+const connect = async (code: string, token = '') => {
+  const port = await listening;
+  const socket = new WebSocket(`ws://localhost:${port}${COBROWSE_SOCKET_PATH}?code=${code}${token && `&token=${token}`}`);
+  const welcome = new Promise<{ type: string; role: string }>((resolve, reject) => {
+    socket.once('message', data => resolve(JSON.parse(data.toString())));
+    socket.once('error', reject);
+  });
+  return { socket, welcome };
+};
+
+describe('co-browsing relay', () => {
+  test('joins with the designer token as the designer, and without it as a client', async () => {
+    const { code, designerToken } = hub.create()!;
+    const designer = await connect(code, designerToken);
+    const client = await connect(code);
+    assert.equal((await designer.welcome).role, 'designer');
+    assert.equal((await client.welcome).role, 'client');
+    designer.socket.close();
+    client.socket.close();
+  });
+
+  test('drops a connection that sends an oversized frame and keeps accepting others', async () => {
+    const { code } = hub.create()!;
+    const first = await connect(code);
+    await first.welcome;
+    const closed = new Promise(resolve => first.socket.once('close', resolve));
+    first.socket.send('x'.repeat(20_000));
+    await closed;
+
+    const next = await connect(code);
+    assert.equal((await next.welcome).type, 'welcome');
+    next.socket.close();
+  });
+});
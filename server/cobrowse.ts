@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { Router } from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  COBROWSE_SOCKET_PATH, MAX_PARTICIPANTS, SESSION_CODE_ALPHABET, SESSION_CODE_LENGTH, normalizeSessionCode, readClientMessage,
+  type CobrowseRole, type CobrowseServerMessage, type CobrowseSessionStart, type CobrowseView,
+} from '../src/lib/cobrowse';
+import { createRateLimiter } from './rateLimit';
+
+const MAX_SESSIONS = 500;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+// Sessions live in memory; one nobody is in (yet, or any more) is closed after this.
+const EMPTY_SESSION_TTL_MS = 30 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+interface Member {
+  id: string;
+  role: CobrowseRole;
+  socket: WebSocket;
+  alive: boolean;
+}
+
+interface Session {
+  /** Hash of the token handed to whoever started the session. */
+  designerTokenHash: string;
+  members: Map<string, Member>;
+  leaderId: string | null;
+  /** The member the designer last handed the lead to, who may take it back later. */
+  delegateId: string | null;
+  /** The leader's latest view, so people joining later start where everyone else is. */
+  view: CobrowseView | null;
+  emptySince: number | null;
+}
+
+const newCode = () =>
+  Array.from({ length: SESSION_CODE_LENGTH }, () => SESSION_CODE_ALPHABET[crypto.randomInt(SESSION_CODE_ALPHABET.length)]).join('');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const isDesignerToken = (session: Session, token: string) =>
+  crypto.timingSafeEqual(Buffer.from(session.designerTokenHash, 'hex'), Buffer.from(hashToken(token), 'hex'));
+
+const refuse = (socket: Duplex, status: string) => {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+};
+
+/**
+ * Co-browsing sessions: an in-memory relay between the people in each
+ * session. It needs nothing beyond this server, and nothing is stored.
+ */
+export const createCobrowseHub = () => {
+  const sessions = new Map<string, Session>();
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const send = (member: Member, message: CobrowseServerMessage) => {
+    if (member.socket.readyState === WebSocket.OPEN) member.socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (session: Session, message: CobrowseServerMessage, exceptId?: string) => {
+    session.members.forEach(member => member.id !== exceptId && send(member, message));
+  };
+
+  const sendPresence = (session: Session) => {
+    const participants = [...session.members.values()].map(({ id, role }) => ({ id, role }));
+    broadcast(session, { type: 'presence', participants, leaderId: session.leaderId, delegateId: session.delegateId });
+  };
+
+  const join = (session: Session, socket: WebSocket, role: CobrowseRole) => {
+    const member: Member = { id: crypto.randomBytes(4).toString('hex'), role, socket, alive: true };
+    session.members.set(member.id, member);
+    session.emptySince = null;
+    // The designer leads until they hand over; clients never pick up the lead by joining.
+    if (role === 'designer') session.leaderId ??= member.id;
+    send(member, { type: 'welcome', id: member.id, role, view: session.view });
+    sendPresence(session);
+
+    socket.on('pong', () => {
+      member.alive = true;
+    });
+    // An oversized or malformed frame only ends this connection; 'close' then cleans up.
+    socket.on('error', () => socket.terminate());
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? null : readClientMessage(data.toString());
+      if (!message) return;
+      if (message.type === 'lead') {
+        if (member.role !== 'designer' && session.delegateId !== member.id) return;
+        session.leaderId = member.id;
+        sendPresence(session);
+      } else if (message.type === 'handOver') {
+        if (member.role !== 'designer' || !session.members.has(message.id)) return;
+        session.leaderId = message.id;
+        session.delegateId = message.id;
+        sendPresence(session);
+      } else if (message.type === 'view') {
+        if (session.leaderId !== member.id) return;
+        session.view = message.view;
+        broadcast(session, message, member.id);
+      } else {
+        broadcast(session, { type: 'pointer', id: member.id, pointer: message.pointer }, member.id);
+      }
+    });
+    socket.on('close', () => {
+      session.members.delete(member.id);
+      if (session.delegateId === member.id) session.delegateId = null;
+      if (session.leaderId === member.id) {
+        session.leaderId = [...session.members.values()].find(other => other.role === 'designer')?.id ?? null;
+      }
+      if (session.members.size === 0) session.emptySince = Date.now();
+      broadcast(session, { type: 'pointer', id: member.id, pointer: null });
+      sendPresence(session);
+    });
+  };
+
+  // Drops connections that stopped answering and sessions left empty.
+  const heartbeat = setInterval(() => {
+    const now = Date.now();
+    sessions.forEach((session, code) => {
+      if (session.emptySince !== null && now - session.emptySince > EMPTY_SESSION_TTL_MS) {
+        sessions.delete(code);
+        return;
+      }
+      session.members.forEach(member => {
+        if (!member.alive) {
+          member.socket.terminate();
+          return;
+        }
+        member.alive = false;
+        member.socket.ping();
+      });
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  return {
+    /** Opens a session and returns its code and designer token, or null when the server is at capacity. */
+    create: (): CobrowseSessionStart | null => {
+      if (sessions.size >= MAX_SESSIONS) return null;
+      let code = newCode();
+      while (sessions.has(code)) code = newCode();
+      const designerToken = crypto.randomBytes(32).toString('hex');
+      sessions.set(code, { designerTokenHash: hashToken(designerToken), members: new Map(), leaderId: null, delegateId: null, view: null, emptySince: Date.now() });
+      return { code, designerToken };
+    },
+    participants: (code: string) => sessions.get(code)?.members.size ?? null,
+    /**
+     * Takes WebSocket upgrades for COBROWSE_SOCKET_PATH (?code=…, plus
+     * &token=… for the designer) and returns false for any other path.
+     */
+    handleUpgrade: (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname !== COBROWSE_SOCKET_PATH) return false;
+      const code = normalizeSessionCode(url.searchParams.get('code'));
+      const session = code ? sessions.get(code) : undefined;
+      const token = url.searchParams.get('token');
+      const role: CobrowseRole = token ? 'designer' : 'client';
+      if (!session) refuse(socket, '404 Not Found');
+      else if (token && !isDesignerToken(session, token)) refuse(socket, '403 Forbidden');
+      else if (session.members.size >= MAX_PARTICIPANTS) refuse(socket, '409 Conflict');
+      else sockets.handleUpgrade(req, socket, head, ws => join(session, ws, role));
+      return true;
+    },
+  };
+};
+
+export type CobrowseHub = ReturnType<typeof createCobrowseHub>;
+
+export const createCobrowseRouter = (hub: CobrowseHub) => {
+  const router = Router();
+
+  router.post('/sessions', createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, message: 'Too many sessions started from this device. Please try again later.' }), (_req, res) => {
+    const started = hub.create();
+    if (!started) {
+      res.status(503).json({ error: 'Shared sessions are busy right now. Please try again in a few minutes.' });
+      return;
+    }
+    res.status(201).json(started);
+  });
+
+  // Lets the join form tell a mistyped code from a connection problem.
+  router.get('/sessions/:code', createRateLimiter({ windowMs: 60 * 1000, max: 30 }), (req, res) => {
+    const code = normalizeSessionCode(req.params.code);
+    const participants = code ? hub.participants(code) : null;
+    if (participants === null) {
+      res.status(404).json({ error: 'No session has that code.' });
+      return;
+    }
+    if (participants >= MAX_PARTICIPANTS) {
+      res.status(409).json({ error: 'This session is full.' });
+      return;
+    }
+    res.json({ code, participants });
+  });
+
+  return router;
+};
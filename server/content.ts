@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { DEFAULT_HERO_STATS, DEFAULT_TESTIMONIALS, type HeroStat, type Testimonial, type TestimonialInput } from '../src/lib/content';
+import type { Db } from './db';
+
+const HERO_STATS_KEY = 'hero-stats';
+
+interface TestimonialRow {
+  id: number;
+  author: string;
+  quote: string;
+  rating: number;
+  published: number;
+}
+
+const toTestimonial = (row: TestimonialRow): Testimonial => ({
+  id: row.id,
+  author: row.author,
+  quote: row.quote,
+  rating: row.rating,
+  published: row.published === 1,
+});
+
+export const createContentStore = (db: Db) => {
+  const getValue = db.prepare<[string], { value: string }>(`SELECT value FROM site_content WHERE key = ?`);
+  const setValue = db.prepare(
+    `INSERT INTO site_content (key, value) VALUES (?, ?)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')`
+  );
+  const listTestimonials = db.prepare<[number], TestimonialRow>(
+    `SELECT * FROM testimonials WHERE published >= ? ORDER BY id`
+  );
+  const insertTestimonial = db.prepare(
+    `INSERT INTO testimonials (author, quote, rating, published) VALUES (@author, @quote, @rating, @published)`
+  );
+  const updateTestimonial = db.prepare(
+    `UPDATE testimonials SET author = @author, quote = @quote, rating = @rating, published = @published WHERE id = @id`
+  );
+  const removeTestimonial = db.prepare(`DELETE FROM testimonials WHERE id = ?`);
+  const countTestimonials = db.prepare<[], { total: number }>(`SELECT COUNT(*) AS total FROM testimonials`);
+
+  const toParams = (testimonial: TestimonialInput) => ({ ...testimonial, published: testimonial.published ? 1 : 0 });
+
+  return {
+    heroStats: (): HeroStat[] => {
+      const row = getValue.get(HERO_STATS_KEY);
+      return row ? JSON.parse(row.value) : DEFAULT_HERO_STATS;
+    },
+    setHeroStats: (stats: HeroStat[]) => {
+      setValue.run(HERO_STATS_KEY, JSON.stringify(stats));
+    },
+    testimonials: ({ publishedOnly }: { publishedOnly: boolean }) =>
+      listTestimonials.all(publishedOnly ? 1 : 0).map(toTestimonial),
+    countTestimonials: () => countTestimonials.get()!.total,
+    insertTestimonial: (testimonial: TestimonialInput) =>
+      Number(insertTestimonial.run(toParams(testimonial)).lastInsertRowid),
+    updateTestimonial: (id: number, testimonial: TestimonialInput) =>
+      updateTestimonial.run({ ...toParams(testimonial), id }).changes > 0,
+    removeTestimonial: (id: number) => removeTestimonial.run(id).changes > 0,
+  };
+};
+
+export type ContentStore = ReturnType<typeof createContentStore>;
+
+/** Inserts the launch testimonials the first time the table is empty. */
+export const seedContent = (db: Db) => {
+  const content = createContentStore(db);
+  if (content.countTestimonials() > 0) return;
+  DEFAULT_TESTIMONIALS.forEach(({ id: _id, ...testimonial }) => content.insertTestimonial(testimonial));
+};
+
+export const createContentRouter = (content: ContentStore) => {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json({ heroStats: content.heroStats(), testimonials: content.testimonials({ publishedOnly: true }) });
+  });
+
+  return router;
+};
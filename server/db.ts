@@ -0,0 +1,146 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+// --- Schema Migrations ---
+// Applied in order; PRAGMA user_version records how many have run.
+const MIGRATIONS = [
+  `CREATE TABLE leads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    property_type TEXT NOT NULL,
+    message TEXT NOT NULL DEFAULT '',
+    source TEXT NOT NULL DEFAULT 'contact-form',
+    ip TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX leads_phone_created ON leads (phone, created_at);`,
+  `CREATE TABLE quotes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    lead_id INTEGER NOT NULL REFERENCES leads (id) ON DELETE CASCADE,
+    selection TEXT NOT NULL,
+    estimate TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );`,
+  `CREATE TABLE projects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    location TEXT NOT NULL,
+    bhk TEXT NOT NULL,
+    budget_band TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    gallery TEXT NOT NULL DEFAULT '[]',
+    scene TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );`,
+  `ALTER TABLE leads ADD COLUMN status TEXT NOT NULL DEFAULT 'new';
+  ALTER TABLE leads ADD COLUMN updated_at TEXT;
+  UPDATE leads SET updated_at = created_at;
+  CREATE TABLE testimonials (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    author TEXT NOT NULL,
+    quote TEXT NOT NULL,
+    rating INTEGER NOT NULL DEFAULT 5,
+    published INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE site_content (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE admin_sessions (
+    token_hash TEXT PRIMARY KEY,
+    expires_at TEXT NOT NULL
+  );`,
+  `CREATE TABLE designers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    availability TEXT NOT NULL DEFAULT '[]',
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE bookings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    lead_id INTEGER NOT NULL REFERENCES leads (id) ON DELETE CASCADE,
+    designer_id INTEGER NOT NULL REFERENCES designers (id),
+    type TEXT NOT NULL,
+    starts_at TEXT NOT NULL,
+    address TEXT NOT NULL DEFAULT '',
+    notes TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'confirmed',
+    sequence INTEGER NOT NULL DEFAULT 0,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX bookings_designer_slot ON bookings (designer_id, starts_at) WHERE status = 'confirmed';`,
+  `CREATE TABLE analytics_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    page TEXT NOT NULL,
+    name TEXT NOT NULL DEFAULT '',
+    value REAL NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX analytics_events_created ON analytics_events (created_at);`,
+  `CREATE TABLE layouts (
+    id TEXT PRIMARY KEY,
+    scene_id TEXT NOT NULL,
+    rooms TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );`,
+  `CREATE TABLE clients (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    phone TEXT NOT NULL UNIQUE,
+    email TEXT NOT NULL DEFAULT '',
+    project_name TEXT NOT NULL,
+    address TEXT NOT NULL DEFAULT '',
+    start_date TEXT NOT NULL,
+    handover_date TEXT,
+    milestones TEXT NOT NULL DEFAULT '[]',
+    designs TEXT NOT NULL DEFAULT '[]',
+    photos TEXT NOT NULL DEFAULT '[]',
+    payments TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE UNIQUE INDEX clients_email ON clients (email) WHERE email != '';
+  CREATE TABLE client_codes (
+    client_id INTEGER PRIMARY KEY REFERENCES clients (id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL
+  );
+  CREATE TABLE client_sessions (
+    token_hash TEXT PRIMARY KEY,
+    client_id INTEGER NOT NULL REFERENCES clients (id) ON DELETE CASCADE,
+    expires_at TEXT NOT NULL
+  );`,
+  `ALTER TABLE projects ADD COLUMN scene_invalid INTEGER NOT NULL DEFAULT 0;`,
+];
+
+export const openDatabase = (file = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'siriz.db')) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(applied).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${applied + i + 1}`);
+    })();
+  });
+
+  return db;
+};
+
+export type Db = ReturnType<typeof openDatabase>;
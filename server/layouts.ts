@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { validateLayout, type Layout, type LayoutInput } from '../src/lib/layouts';
+import type { Db } from './db';
+import { SHOWFLAT_SCENE } from './pricing';
+import { projectScenes, type ProjectStore } from './projects';
+import { createRateLimiter } from './rateLimit';
+
+interface LayoutRow {
+  id: string;
+  scene_id: string;
+  rooms: string;
+  created_at: string;
+}
+
+const toLayout = (row: LayoutRow): Layout => ({
+  id: row.id,
+  sceneId: row.scene_id,
+  rooms: JSON.parse(row.rooms),
+  createdAt: row.created_at,
+});
+
+const ID_PATTERN = /^[\w-]{8}$/;
+
+export const createLayoutStore = (db: Db) => {
+  const insert = db.prepare(`INSERT INTO layouts (id, scene_id, rooms) VALUES (?, ?, ?)`);
+  const find = db.prepare<[string], LayoutRow>(`SELECT * FROM layouts WHERE id = ?`);
+
+  return {
+    /** Saved layouts are immutable; each save gets a new short id for its link. */
+    insert: (layout: LayoutInput) => {
+      const id = crypto.randomBytes(6).toString('base64url');
+      insert.run(id, layout.sceneId, JSON.stringify(layout.rooms));
+      return toLayout(find.get(id)!);
+    },
+    find: (id: string) => {
+      const row = find.get(id);
+      return row ? toLayout(row) : null;
+    },
+  };
+};
+
+export type LayoutStore = ReturnType<typeof createLayoutStore>;
+
+export const createLayoutsRouter = (layouts: LayoutStore, projects: ProjectStore) => {
+  const router = Router();
+  // Layouts can be made on the show flat or on any project tour.
+  const findScene = (id: string) => [SHOWFLAT_SCENE, ...projectScenes(projects)].find(scene => scene.id === id);
+
+  router.post('/', createRateLimiter({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many layouts saved from this device. Please try again in a few minutes.' }), (req, res) => {
+    const { layout, error } = validateLayout(req.body ?? {});
+    if (!layout) {
+      res.status(400).json({ error });
+      return;
+    }
+    const scene = findScene(layout.sceneId);
+    if (!scene) {
+      res.status(400).json({ error: 'That tour is no longer available.' });
+      return;
+    }
+    const unknown = Object.keys(layout.rooms).find(roomId => !scene.rooms.some(room => room.id === roomId));
+    if (unknown) {
+      res.status(400).json({ error: `The tour has no room "${unknown}".` });
+      return;
+    }
+    res.status(201).json({ layout: layouts.insert(layout) });
+  });
+
+  router.get('/:id', createRateLimiter({ windowMs: 60 * 1000, max: 60 }), (req, res) => {
+    const layout = ID_PATTERN.test(req.params.id) ? layouts.find(req.params.id) : null;
+    if (!layout) {
+      res.status(404).json({ error: 'We could not find that layout. Please check the link.' });
+      return;
+    }
+    res.json({ layout });
+  });
+
+  return router;
+};
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { LEAD_SOURCES, validateLead, type LeadInput, type LeadRecord, type LeadSource, type LeadStatus } from '../src/lib/leads';
+import type { Db } from './db';
+import { createRateLimiter } from './rateLimit';
+
+// An enquiry from the same phone number within this window is treated as a duplicate.
+const DUPLICATE_WINDOW = '-1 day';
+
+export interface LeadFilters {
+  status?: LeadStatus;
+  propertyType?: string;
+  search?: string;
+}
+
+interface LeadRow {
+  id: number;
+  name: string;
+  phone: string;
+  property_type: LeadRecord['propertyType'];
+  message: string;
+  source: string;
+  status: LeadStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+const toLead = (row: LeadRow): LeadRecord => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone,
+  propertyType: row.property_type,
+  message: row.message,
+  // Leads saved before sources were fixed came through the contact form,
+  // whatever the request claimed.
+  source: LEAD_SOURCES.find(source => source === row.source) ?? 'contact-form',
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const createLeadStore = (db: Db) => {
+  const findRecent = db.prepare<[string, string], { id: number }>(
+    `SELECT id FROM leads WHERE phone = ? AND created_at >= datetime('now', ?) LIMIT 1`
+  );
+  const insert = db.prepare(
+    `INSERT INTO leads (name, phone, property_type, message, source, ip, updated_at)
+     VALUES (@name, @phone, @propertyType, @message, @source, @ip, datetime('now'))`
+  );
+  // Unset filters are passed as null and match everything.
+  const list = db.prepare<{ status: string | null; propertyType: string | null; search: string | null }, LeadRow>(
+    `SELECT * FROM leads
+     WHERE (@status IS NULL OR status = @status)
+       AND (@propertyType IS NULL OR property_type = @propertyType)
+       AND (@search IS NULL OR name LIKE @search OR phone LIKE @search OR message LIKE @search)
+     ORDER BY created_at DESC, id DESC
+     LIMIT 500`
+  );
+  const setStatus = db.prepare(
+    `UPDATE leads SET status = ?, updated_at = datetime('now') WHERE id = ?`
+  );
+
+  return {
+    isDuplicate: (phone: string) => !!findRecent.get(phone, DUPLICATE_WINDOW),
+    insert: (lead: LeadInput, source: LeadSource, ip: string | null) =>
+      Number(insert.run({ ...lead, source, ip }).lastInsertRowid),
+    list: ({ status, propertyType, search }: LeadFilters = {}) =>
+      list.all({
+        status: status ?? null,
+        propertyType: propertyType ?? null,
+        search: search ? `%${search.replace(/[%_]/g, '')}%` : null,
+      }).map(toLead),
+    setStatus: (id: number, status: LeadStatus) => setStatus.run(status, id).changes > 0,
+  };
+};
+
+export const leadRateLimiter = () =>
+  createRateLimiter({ windowMs: 15 * 60 * 1000, max: 5, message: 'Too many enquiries from this device. Please try again in a few minutes.' });
+
+export const createLeadsRouter = (db: Db) => {
+  const router = Router();
+  const leads = createLeadStore(db);
+
+  router.post('/', leadRateLimiter(), (req, res) => {
+    const { lead, errors } = validateLead(req.body ?? {});
+    if (!lead) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+
+    if (leads.isDuplicate(lead.phone)) {
+      res.status(409).json({ error: 'We already have your enquiry. Our team will call you shortly.' });
+      return;
+    }
+
+    res.status(201).json({ id: leads.insert(lead, 'contact-form', req.ip ?? null) });
+  });
+
+  return router;
+};
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { isValidCode, readContact } from '../src/lib/portal';
+import { createClientStore } from './clients';
+import { openDatabase } from './db';
+import { createPortalAuth } from './portal';
+import type { CodeMessage } from './providers/codeSender';
+
+// Codes come from a counter (000001, 000002, …) and are read back from what
+// the sender was asked to deliver.
+const setup = () => {
+  const db = openDatabase(':memory:');
+  const sent: CodeMessage[] = [];
+  let issued = 0;
+  const auth = createPortalAuth(db, { name: 'test', send: async message => void sent.push(message) }, () => String(++issued).padStart(6, '0'));
+  const client = createClientStore(db).insert({
+    name: 'Asha',
+    phone: '+919876543210',
+    email: 'asha@example.com',
+    projectName: 'Alpha 360, 2 BHK',
+    address: '',
+    startDate: '2026-10-01',
+    handoverDate: null,
+    milestones: [],
+    designs: [],
+    photos: [],
+    payments: [],
+  });
+  const lastCode = () => sent[sent.length - 1].text.slice(0, 6);
+  return { auth, client, sent, lastCode };
+};
+
+describe('readContact', () => {
+  test('reads a mobile number for SMS', () => {
+    assert.deepEqual(readContact(' 098765 43210 '), { channel: 'sms', address: '+919876543210' });
+  });
+
+  test('reads an email address in lower case', () => {
+    assert.deepEqual(readContact('Asha@Example.com'), { channel: 'email', address: 'asha@example.com' });
+  });
+
+  test('refuses anything else', () => {
+    assert.equal(readContact('12345'), null);
+    assert.equal(readContact('asha@example'), null);
+    assert.equal(readContact(undefined), null);
+  });
+});
+
+describe('isValidCode', () => {
+  test('accepts exactly six digits', () => {
+    assert.equal(isValidCode('012345'), true);
+    assert.equal(isValidCode('12345'), false);
+    assert.equal(isValidCode('12345a'), false);
+    assert.equal(isValidCode(123456), false);
+  });
+});
+
+describe('portal sign-in', () => {
+  test('sends a code to the chosen contact and signs in with it once', async () => {
+    const { auth, client, sent, lastCode } = setup();
+    await auth.sendCode(client, 'email');
+    assert.equal(sent[0].to, 'asha@example.com');
+    assert.ok(isValidCode(lastCode()));
+    assert.match(auth.verify(client.id, lastCode()) ?? '', /^[a-f0-9]{64}$/);
+    assert.equal(auth.verify(client.id, lastCode()), null);
+  });
+
+  test('replaces an earlier code with a new one', async () => {
+    const { auth, client, sent, lastCode } = setup();
+    await auth.sendCode(client, 'sms');
+    const first = lastCode();
+    await auth.sendCode(client, 'sms');
+    assert.equal(sent[1].to, '+919876543210');
+    assert.notEqual(first, lastCode());
+    assert.equal(auth.verify(client.id, first), null);
+    assert.ok(auth.verify(client.id, lastCode()));
+  });
+
+  test('stops accepting a code after five wrong guesses', async () => {
+    const { auth, client, lastCode } = setup();
+    await auth.sendCode(client, 'sms');
+    for (let i = 0; i < 5; i++) assert.equal(auth.verify(client.id, '999999'), null);
+    assert.equal(auth.verify(client.id, lastCode()), null);
+  });
+});
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { Router, type RequestHandler } from 'express';
+import { CODE_LENGTH, CODE_TTL_MINUTES, isValidCode, readContact, type Client, type ContactChannel, type PortalProject } from '../src/lib/portal';
+import { bearerToken } from './auth';
+import type { ClientStore } from './clients';
+import type { Db } from './db';
+import type { CodeSender } from './providers/codeSender';
+import { createRateLimiter } from './rateLimit';
+
+const SESSION_TTL = '+30 days';
+const MAX_CODE_ATTEMPTS = 5;
+
+const hash = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// Codes are hashed with the client id so equal codes never share a hash.
+const hashCode = (clientId: number, code: string) => hash(`${clientId}:${code}`);
+
+const randomCode = () => String(crypto.randomInt(0, 10 ** CODE_LENGTH)).padStart(CODE_LENGTH, '0');
+
+/**
+ * One-time-code sign-in for clients. A code is sent to the phone or email on
+ * the client's record, lasts CODE_TTL_MINUTES and allows MAX_CODE_ATTEMPTS
+ * guesses; sessions are random bearer tokens stored hashed, like the admin's.
+ * `newCode` is only replaced in tests, to issue known codes.
+ */
+export const createPortalAuth = (db: Db, sender: CodeSender, newCode: () => string = randomCode) => {
+  const saveCode = db.prepare(
+    `INSERT INTO client_codes (client_id, code_hash, attempts, expires_at) VALUES (?, ?, 0, datetime('now', ?))
+     ON CONFLICT (client_id) DO UPDATE SET code_hash = excluded.code_hash, attempts = 0, expires_at = excluded.expires_at`
+  );
+  const findCode = db.prepare<[number], { code_hash: string; attempts: number }>(
+    `SELECT code_hash, attempts FROM client_codes WHERE client_id = ? AND expires_at > datetime('now')`
+  );
+  const countAttempt = db.prepare(`UPDATE client_codes SET attempts = attempts + 1 WHERE client_id = ?`);
+  const removeCode = db.prepare(`DELETE FROM client_codes WHERE client_id = ?`);
+  const insertSession = db.prepare(`INSERT INTO client_sessions (token_hash, client_id, expires_at) VALUES (?, ?, datetime('now', ?))`);
+  const findSession = db.prepare<[string], { client_id: number }>(
+    `SELECT client_id FROM client_sessions WHERE token_hash = ? AND expires_at > datetime('now')`
+  );
+  const removeSession = db.prepare(`DELETE FROM client_sessions WHERE token_hash = ?`);
+  const removeExpired = db.prepare(`DELETE FROM client_sessions WHERE expires_at <= datetime('now')`);
+
+  return {
+    /** Sends a fresh code, replacing any earlier one. */
+    sendCode: async (client: Client, channel: ContactChannel) => {
+      const code = newCode();
+      saveCode.run(client.id, hashCode(client.id, code), `+${CODE_TTL_MINUTES} minutes`);
+      await sender.send({
+        channel,
+        to: channel === 'sms' ? client.phone : client.email,
+        subject: 'Your SIRIZ customer portal code',
+        text: `${code} is your SIRIZ Interiors customer portal code. It expires in ${CODE_TTL_MINUTES} minutes; please do not share it.`,
+      });
+    },
+    /** Returns a new session token if the code is right, or null. */
+    verify: (clientId: number, code: string) => {
+      const saved = findCode.get(clientId);
+      if (!saved) return null;
+      if (saved.attempts >= MAX_CODE_ATTEMPTS) {
+        removeCode.run(clientId);
+        return null;
+      }
+      const matches = crypto.timingSafeEqual(Buffer.from(saved.code_hash, 'hex'), Buffer.from(hashCode(clientId, code), 'hex'));
+      if (!matches) {
+        countAttempt.run(clientId);
+        return null;
+      }
+      removeCode.run(clientId);
+      removeExpired.run();
+      const token = crypto.randomBytes(32).toString('hex');
+      insertSession.run(hash(token), clientId, SESSION_TTL);
+      return token;
+    },
+    logout: (token: string) => {
+      removeSession.run(hash(token));
+    },
+    /** Lets signed-in clients through, with their id in res.locals.clientId. */
+    requireClient: ((req, res, next) => {
+      const token = bearerToken(req.headers.authorization);
+      const session = token ? findSession.get(hash(token)) : undefined;
+      if (!session) {
+        res.status(401).json({ error: 'Please sign in again.' });
+        return;
+      }
+      res.locals.clientId = session.client_id;
+      next();
+    }) as RequestHandler,
+  };
+};
+
+export type PortalAuth = ReturnType<typeof createPortalAuth>;
+
+const toPortalProject = ({ id: _id, phone: _phone, email: _email, ...project }: Client): PortalProject => project;
+
+export const createPortalRouter = (clients: ClientStore, auth: PortalAuth, senderName: string) => {
+  const router = Router();
+
+  // Unknown numbers get the same answer as clients, so the form does not reveal who is one.
+  router.post('/code', createRateLimiter({ windowMs: 15 * 60 * 1000, max: 5, message: 'Too many codes requested from this device. Please try again in a few minutes.' }), async (req, res) => {
+    const contact = readContact(req.body?.contact);
+    if (!contact) {
+      res.status(400).json({ error: 'Please enter your mobile number or email address.' });
+      return;
+    }
+    const client = clients.findByContact(contact.channel, contact.address);
+    if (client) {
+      try {
+        await auth.sendCode(client, contact.channel);
+      } catch (err) {
+        console.error(`Portal code (${senderName}) could not be sent:`, err);
+        res.status(502).json({ error: 'We could not send your code right now. Please try again shortly.' });
+        return;
+      }
+    }
+    res.status(202).json({ channel: contact.channel });
+  });
+
+  router.post('/login', createRateLimiter({ windowMs: 15 * 60 * 1000, max: 10, message: 'Too many sign-in attempts. Please try again later.' }), (req, res) => {
+    const contact = readContact(req.body?.contact);
+    const client = contact && clients.findByContact(contact.channel, contact.address);
+    const token = client && isValidCode(req.body?.code) ? auth.verify(client.id, req.body.code) : null;
+    if (!token) {
+      res.status(401).json({ error: 'That code is not correct or has expired.' });
+      return;
+    }
+    res.json({ token });
+  });
+
+  router.use(auth.requireClient);
+
+  router.get('/project', (_req, res) => {
+    const client = clients.find(res.locals.clientId);
+    if (!client) {
+      res.status(401).json({ error: 'Please sign in again.' });
+      return;
+    }
+    res.json({ project: toPortalProject(client) });
+  });
+
+  router.post('/logout', (req, res) => {
+    auth.logout(bearerToken(req.headers.authorization)!);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { QuoteSelection } from '../src/lib/quotes';
+import { buildCatalogue, computeEstimate, SHOWFLAT_SCENE, type Catalogue } from './pricing';
+
+const CATALOGUE: Catalogue = new Map([['sofa-3', { name: 'Three-Seater Sofa', price: 52000 }]]);
+
+const estimate = (overrides: Partial<QuoteSelection> = {}) =>
+  computeEstimate({ propertyType: '2 BHK', rooms: {}, tier: 'essential', furniture: [], ...overrides }, CATALOGUE);
+
+describe('computeEstimate', () => {
+  test('prices modules by property type and room, with GST on top', () => {
+    const result = estimate({ rooms: { kitchen: ['modular-kitchen'], living: ['tv-unit'] } });
+    assert.deepEqual(result.lines.map(line => [line.label, line.amount]), [
+      ['Living Room — TV Unit', 42000],
+      ['Kitchen — Modular Kitchen', 175000],
+    ]);
+    assert.equal(result.subtotal, 217000);
+    assert.equal(result.gst, 39060);
+    assert.equal(result.total, 256060);
+  });
+
+  test('scales module prices by finish tier, to the nearest hundred', () => {
+    const result = estimate({ rooms: { kitchen: ['modular-kitchen'] }, tier: 'premium' });
+    assert.equal(result.lines[0].amount, 236300);
+    assert.equal(result.lines[0].detail, 'Premium finish');
+  });
+
+  test('adds catalogue furniture at its own price, whatever the tier', () => {
+    const result = estimate({ furniture: ['sofa-3'], tier: 'luxury' });
+    assert.deepEqual(result.lines, [{ label: 'Three-Seater Sofa', detail: 'Furniture from the walkthrough', amount: 52000 }]);
+  });
+
+  test('leaves out furniture the catalogue does not know', () => {
+    const result = estimate({ furniture: ['nope'] });
+    assert.deepEqual(result.lines, []);
+    assert.equal(result.total, 0);
+  });
+});
+
+describe('buildCatalogue', () => {
+  test('includes show flat pieces and the layout editor catalogue', () => {
+    const catalogue = buildCatalogue([SHOWFLAT_SCENE]);
+    assert.ok(catalogue.has('catalogue-sofa'));
+    const showflatProduct = SHOWFLAT_SCENE.rooms.flatMap(room => room.furniture).find(item => item.product)?.product;
+    assert.ok(showflatProduct && catalogue.get(showflatProduct.id)?.price === showflatProduct.price);
+  });
+});
@@ -0,0 +1,124 @@
+import type { PropertyType } from '../src/lib/leads';
+import {
+  FINISH_TIERS,
+  GST_RATE,
+  QUOTE_MODULES,
+  QUOTE_ROOMS,
+  type Estimate,
+  type EstimateLine,
+  type FinishTier,
+  type QuoteModuleId,
+  type QuoteRoomId,
+  type QuoteSelection,
+} from '../src/lib/quotes';
+import apartmentDefinition from '../src/scene/apartments/siriz-showflat.json';
+import { FURNITURE_CATALOGUE } from '../src/scene/catalogue';
+import type { FurnitureItem, SceneDefinition } from '../src/scene/types';
+import { validateScene } from '../src/scene/validate';
+
+// --- Price Table (Essential tier, ₹, before GST) ---
+
+const MODULAR_KITCHEN: Record<PropertyType, number> = {
+  '1 BHK': 145000,
+  '2 BHK': 175000,
+  '3 BHK': 215000,
+  'Villa / Duplex': 295000,
+};
+
+const WARDROBE: Partial<Record<QuoteRoomId, number>> = {
+  'master-bedroom': 85000,
+  'bedroom-2': 65000,
+  'bedroom-3': 60000,
+  'bedroom-4': 60000,
+  study: 45000,
+};
+
+const TV_UNIT: Partial<Record<QuoteRoomId, number>> = {
+  living: 42000,
+  'master-bedroom': 30000,
+  'bedroom-2': 26000,
+  'bedroom-3': 26000,
+  'bedroom-4': 26000,
+};
+
+const FALSE_CEILING: Record<QuoteRoomId, number> = {
+  living: 48000,
+  dining: 32000,
+  kitchen: 22000,
+  'master-bedroom': 34000,
+  'bedroom-2': 28000,
+  'bedroom-3': 28000,
+  'bedroom-4': 28000,
+  study: 22000,
+};
+
+const TIER_MULTIPLIER: Record<FinishTier, number> = {
+  essential: 1,
+  premium: 1.35,
+  luxury: 1.8,
+};
+
+// Furniture picked in a walkthrough is priced from the scene catalogue.
+export type Catalogue = Map<string, { name: string; price: number }>;
+
+// Pieces from the layout editor's catalogue can be added on any tour.
+export const buildCatalogue = (scenes: SceneDefinition[]): Catalogue => {
+  const catalogue: Catalogue = new Map();
+  const add = (item: FurnitureItem) => {
+    if (item.product) catalogue.set(item.product.id, { name: item.product.name, price: item.product.price });
+  };
+  scenes.forEach(scene => scene.rooms.forEach(room => room.furniture.forEach(add)));
+  FURNITURE_CATALOGUE.forEach(entry => entry.items.forEach(add));
+  return catalogue;
+};
+
+export const SHOWFLAT_SCENE = validateScene(apartmentDefinition);
+
+const modulePrice = (moduleId: QuoteModuleId, roomId: QuoteRoomId, propertyType: PropertyType) => {
+  switch (moduleId) {
+    case 'modular-kitchen':
+      return MODULAR_KITCHEN[propertyType];
+    case 'wardrobe':
+      return WARDROBE[roomId] ?? 0;
+    case 'tv-unit':
+      return TV_UNIT[roomId] ?? 0;
+    case 'false-ceiling':
+      return FALSE_CEILING[roomId];
+  }
+};
+
+const roundToHundred = (amount: number) => Math.round(amount / 100) * 100;
+
+export const computeEstimate = (selection: QuoteSelection, catalogue: Catalogue = buildCatalogue([SHOWFLAT_SCENE])): Estimate => {
+  const multiplier = TIER_MULTIPLIER[selection.tier];
+  const tierLabel = FINISH_TIERS.find(tier => tier.id === selection.tier)!.label;
+  const lines: EstimateLine[] = [];
+
+  QUOTE_ROOMS.forEach(room => {
+    selection.rooms[room.id]?.forEach(moduleId => {
+      const module = QUOTE_MODULES.find(m => m.id === moduleId)!;
+      lines.push({
+        label: `${room.label} — ${module.label}`,
+        detail: `${tierLabel} finish`,
+        amount: roundToHundred(modulePrice(moduleId, room.id, selection.propertyType) * multiplier),
+      });
+    });
+  });
+
+  selection.furniture.forEach(id => {
+    const piece = catalogue.get(id);
+    if (piece) lines.push({ label: piece.name, detail: 'Furniture from the walkthrough', amount: piece.price });
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const gst = Math.round(subtotal * GST_RATE);
+  return {
+    propertyType: selection.propertyType,
+    tier: selection.tier,
+    lines,
+    subtotal,
+    gstRate: GST_RATE,
+    gst,
+    total: subtotal + gst,
+  };
+};
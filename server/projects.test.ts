@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { openDatabase } from './db';
+import { createProjectStore, seedProjects } from './projects';
+
+const seeded = () => {
+  const db = openDatabase(':memory:');
+  seedProjects(db);
+  return { db, projects: createProjectStore(db) };
+};
+
+describe('project scenes', () => {
+  test('hide a stored scene that no longer validates, in that database only', () => {
+    const broken = seeded();
+    const other = seeded();
+    broken.db.prepare(`UPDATE projects SET scene = '{"version":1}' WHERE slug = 'alpha-360'`).run();
+    seedProjects(broken.db);
+
+    const project = broken.projects.find('alpha-360')!;
+    assert.equal(project.scene, null);
+    assert.equal(project.hasTour, false);
+    assert.equal(other.projects.find('alpha-360')?.hasTour, true);
+  });
+
+  test('show the tour again once the project is saved with a valid scene', () => {
+    const { db, projects } = seeded();
+    const scene = projects.find('alpha-360')!.scene!;
+    db.prepare(`UPDATE projects SET scene = 'not json' WHERE slug = 'alpha-360'`).run();
+    seedProjects(db);
+    assert.equal(projects.find('alpha-360')?.hasTour, false);
+
+    const { hasTour: _hasTour, ...project } = projects.find('alpha-360')!;
+    projects.update('alpha-360', { ...project, scene });
+    assert.equal(projects.find('alpha-360')?.hasTour, true);
+  });
+});
@@ -0,0 +1,188 @@
+import { Router } from 'express';
+import type { Project, ProjectInput, ProjectSummary } from '../src/lib/projects';
+import alphaDefinition from '../src/scene/apartments/alpha-360.json';
+import { checkSceneLayout } from '../src/scene/sceneCheck';
+import type { SceneDefinition } from '../src/scene/types';
+import { SceneValidationError, validateScene } from '../src/scene/validate';
+import type { Db } from './db';
+
+interface ProjectRow {
+  slug: string;
+  name: string;
+  location: string;
+  bhk: string;
+  budget_band: string;
+  description: string;
+  gallery: string;
+  scene: string | null;
+  scene_invalid: number;
+}
+
+// Rows are only ever written through validateProject, and older scenes are
+// re-validated by seedProjects at startup, so reads trust the stored values.
+// A scene that failed that check (flagged scene_invalid) or no longer parses
+// is kept in the database for an admin to fix but served as no tour.
+const readScene = (row: ProjectRow): SceneDefinition | null => {
+  if (row.scene === null || row.scene_invalid) return null;
+  try {
+    return JSON.parse(row.scene) as SceneDefinition;
+  } catch {
+    console.warn(`Project "${row.slug}" has an unreadable scene; its tour is hidden.`);
+    return null;
+  }
+};
+
+const toProject = (row: ProjectRow): Project => {
+  const scene = readScene(row);
+  return {
+    slug: row.slug,
+    name: row.name,
+    location: row.location,
+    bhk: row.bhk as Project['bhk'],
+    budgetBand: row.budget_band as Project['budgetBand'],
+    description: row.description,
+    gallery: JSON.parse(row.gallery),
+    hasTour: scene !== null,
+    scene,
+  };
+};
+
+const toSummary = ({ scene: _scene, ...summary }: Project): ProjectSummary => summary;
+
+export const createProjectStore = (db: Db) => {
+  const list = db.prepare<[], ProjectRow>(`SELECT * FROM projects ORDER BY sort_order, id`);
+  const find = db.prepare<[string], ProjectRow>(`SELECT * FROM projects WHERE slug = ?`);
+  const count = db.prepare<[], { total: number }>(`SELECT COUNT(*) AS total FROM projects`);
+  const insert = db.prepare(
+    `INSERT INTO projects (slug, name, location, bhk, budget_band, description, gallery, scene, sort_order)
+     VALUES (@slug, @name, @location, @bhk, @budgetBand, @description, @gallery, @scene, @sortOrder)`
+  );
+  const update = db.prepare(
+    `UPDATE projects SET slug = @slug, name = @name, location = @location, bhk = @bhk, budget_band = @budgetBand,
+       description = @description, gallery = @gallery, scene = @scene, scene_invalid = 0
+     WHERE slug = @current`
+  );
+  const updateScene = db.prepare(`UPDATE projects SET scene = ?, scene_invalid = 0 WHERE slug = ?`);
+  const flagScene = db.prepare(`UPDATE projects SET scene_invalid = 1 WHERE slug = ?`);
+  const storedScenes = db.prepare<[], { slug: string; scene: string }>(`SELECT slug, scene FROM projects WHERE scene IS NOT NULL`);
+  const remove = db.prepare(`DELETE FROM projects WHERE slug = ?`);
+  const nextSortOrder = db.prepare<[], { next: number }>(`SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM projects`);
+
+  const toParams = (project: ProjectInput) => ({
+    ...project,
+    gallery: JSON.stringify(project.gallery),
+    scene: project.scene ? JSON.stringify(project.scene) : null,
+  });
+
+  return {
+    list: () => list.all().map(toProject),
+    find: (slug: string) => {
+      const row = find.get(slug);
+      return row ? toProject(row) : null;
+    },
+    count: () => count.get()!.total,
+    insert: (project: ProjectInput, sortOrder = nextSortOrder.get()!.next) =>
+      Number(insert.run({ ...toParams(project), sortOrder }).lastInsertRowid),
+    update: (current: string, project: ProjectInput) => update.run({ ...toParams(project), current }).changes > 0,
+    /** Stored scenes as saved, before any validation. */
+    storedScenes: () => storedScenes.all(),
+    setScene: (slug: string, scene: SceneDefinition) => updateScene.run(JSON.stringify(scene), slug),
+    /** Hides a stored scene that no longer validates, until it is saved again. */
+    flagInvalidScene: (slug: string) => flagScene.run(slug),
+    remove: (slug: string) => remove.run(slug).changes > 0,
+  };
+};
+
+export type ProjectStore = ReturnType<typeof createProjectStore>;
+
+/** Scenes of every project that has a walkthrough, e.g. for pricing furniture picked on a project tour. */
+export const projectScenes = (projects: ProjectStore): SceneDefinition[] =>
+  projects.list().flatMap(project => (project.scene ? [project.scene] : []));
+
+// --- Seed Data ---
+// The studio's signature projects, inserted the first time the table is empty.
+const SEED_PROJECTS: ProjectInput[] = [
+  {
+    slug: 'alpha-360',
+    name: 'Alpha 360',
+    location: 'OMR, Chennai',
+    bhk: '2 BHK',
+    budgetBand: '₹10 – 20 Lakh',
+    description: 'A young family\'s 2 BHK on the IT corridor, opened up around an L-shaped kitchen and a family lounge with a walnut-and-white palette. Full-height wardrobes and a low TV console keep every room clutter-free.',
+    gallery: [],
+    scene: validateScene(alphaDefinition),
+  },
+  {
+    slug: 'radiance-living',
+    name: 'Radiance Living',
+    location: 'Anna Nagar, Chennai',
+    bhk: '3 BHK',
+    budgetBand: '₹20 Lakh+',
+    description: 'A 3 BHK for three generations under one roof: a pooja alcove in teak and brass, a formal living room for guests and a den for the grandchildren, tied together with Kota stone and warm cove lighting.',
+    gallery: [],
+    scene: null,
+  },
+  {
+    slug: 'celesta-360',
+    name: 'Celesta 360',
+    location: 'Velachery, Chennai',
+    bhk: '2 BHK',
+    budgetBand: '₹5 – 10 Lakh',
+    description: 'A compact 2 BHK rental made to feel twice its size with light oak laminates, mirrored shutters and a fold-down study desk in the second bedroom.',
+    gallery: [],
+    scene: null,
+  },
+];
+
+// Stored scenes are validated again once per start, so fields added to the
+// schema since they were saved get their defaults written back. A scene that
+// no longer validates is left as it is and its tour hidden until it is fixed.
+// A seeded tour that fails the layout check was saved before a fix to the
+// bundled scene (edits cannot be saved unless they pass), so it is replaced
+// with the current seed.
+const upgradeScenes = (projects: ProjectStore) => {
+  projects.storedScenes().forEach(({ slug, scene }) => {
+    let definition: SceneDefinition;
+    try {
+      definition = validateScene(JSON.parse(scene));
+    } catch (err) {
+      const reason = err instanceof SceneValidationError ? err.issues.slice(0, 5).join('; ') : String(err);
+      console.warn(`Project "${slug}" has an invalid scene; its tour is hidden: ${reason}`);
+      projects.flagInvalidScene(slug);
+      return;
+    }
+    const seed = SEED_PROJECTS.find(project => project.slug === slug)?.scene;
+    if (seed && checkSceneLayout(definition).length > 0) {
+      console.warn(`Project "${slug}" had an outdated seeded tour; it was replaced with the current one.`);
+      definition = seed;
+    }
+    projects.setScene(slug, definition);
+  });
+};
+
+export const seedProjects = (db: Db) => {
+  const projects = createProjectStore(db);
+  db.transaction(() => {
+    if (projects.count() === 0) SEED_PROJECTS.forEach((project, i) => projects.insert(project, i));
+    else upgradeScenes(projects);
+  })();
+};
+
+export const createProjectsRouter = (projects: ProjectStore) => {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json({ projects: projects.list().map(toSummary) });
+  });
+
+  router.get('/:slug', (req, res) => {
+    const project = projects.find(req.params.slug);
+    if (!project) {
+      res.status(404).json({ error: 'We could not find that project.' });
+      return;
+    }
+    res.json({ project });
+  });
+
+  return router;
+};
@@ -0,0 +1,33 @@
+import type { ContactChannel } from '../../src/lib/portal';
+import { createConsoleCodeSender } from './consoleCodeSender';
+import { createWebhookCodeSender } from './webhookCodeSender';
+
+export interface CodeMessage {
+  channel: ContactChannel;
+  /** +91 mobile number for SMS, or an email address. */
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface CodeSender {
+  name: string;
+  send: (message: CodeMessage) => Promise<void>;
+}
+
+/**
+ * Picks how portal sign-in codes are delivered from CODE_SENDER ("webhook" or
+ * "console"). Without it, the webhook is used when CODE_WEBHOOK_URL is set and
+ * the console stand-in otherwise.
+ */
+export const createCodeSender = (): CodeSender => {
+  const requested = process.env.CODE_SENDER;
+  const url = process.env.CODE_WEBHOOK_URL;
+  if (requested === 'console') return createConsoleCodeSender();
+  if (requested === 'webhook' || url) {
+    if (!url) throw new Error('CODE_SENDER=webhook requires CODE_WEBHOOK_URL to be set.');
+    return createWebhookCodeSender(url, process.env.CODE_WEBHOOK_TOKEN);
+  }
+  if (process.env.NODE_ENV === 'production') console.warn('No CODE_WEBHOOK_URL set: portal sign-in codes are only written to the server log.');
+  return createConsoleCodeSender();
+};
@@ -0,0 +1,10 @@
+import type { CodeSender } from './codeSender';
+
+// Local stand-in for an SMS or email gateway: the message is written to the
+// server log, where a developer can read the code.
+export const createConsoleCodeSender = (): CodeSender => ({
+  name: 'console',
+  send: async ({ channel, to, text }) => {
+    console.log(`[portal] ${channel} to ${to}: ${text}`);
+  },
+});
@@ -0,0 +1,27 @@
+import type { AssistantContext, AssistantReply, ChatMessage } from '../../src/lib/assistant';
+import { createGeminiAssistant } from './geminiAssistant';
+import { createMockAssistant } from './mockAssistant';
+
+export interface DesignAssistantProvider {
+  name: string;
+  reply: (messages: ChatMessage[], context: AssistantContext) => Promise<AssistantReply>;
+}
+
+const hasGeminiKey = () => {
+  const key = process.env.GEMINI_API_KEY;
+  return !!key && key !== 'MY_GEMINI_API_KEY';
+};
+
+/**
+ * Picks the provider from ASSISTANT_PROVIDER ("gemini" or "mock"). Without
+ * it, Gemini is used when an API key is configured and the mock otherwise.
+ */
+export const createDesignAssistant = (): DesignAssistantProvider => {
+  const requested = process.env.ASSISTANT_PROVIDER;
+  if (requested === 'mock') return createMockAssistant();
+  if (requested === 'gemini' || hasGeminiKey()) {
+    if (!hasGeminiKey()) throw new Error('ASSISTANT_PROVIDER=gemini requires GEMINI_API_KEY to be set.');
+    return createGeminiAssistant(process.env.GEMINI_API_KEY!, process.env.GEMINI_MODEL);
+  }
+  return createMockAssistant();
+};
@@ -0,0 +1,71 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { sanitizeSuggestion, type AssistantContext } from '../../src/lib/assistant';
+import { FINISH_PALETTES, FINISH_SLOTS } from '../../src/scene/finishes';
+import type { DesignAssistantProvider } from './designAssistant';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const systemInstruction = (context: AssistantContext) => {
+  const palettes = FINISH_SLOTS
+    .filter(({ slot }) => context.slots.includes(slot))
+    .map(({ slot, label }) => `${label} (${slot}): ${FINISH_PALETTES[slot].map(option => `${option.id} = ${option.name}`).join('; ')}`)
+    .join('\n');
+
+  return `You are the in-house design assistant for SIRIZ Interiors, a Chennai interior design studio.
+Visitors are touring a 3D show flat and are currently in "${context.roomName}".
+Answer warmly and concisely (under 120 words), then propose a look for this room.
+Only use these finish ids in "finishes":
+${palettes}
+"layoutTips" are up to 4 short, practical furniture or storage suggestions for the room.
+Never quote prices; suggest the quote builder for costs.`;
+};
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING },
+    suggestion: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: {
+        title: { type: Type.STRING },
+        finishes: {
+          type: Type.OBJECT,
+          properties: Object.fromEntries(FINISH_SLOTS.map(({ slot }) => [slot, { type: Type.STRING }])),
+        },
+        layoutTips: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['title', 'finishes', 'layoutTips'],
+    },
+  },
+  required: ['reply'],
+};
+
+export const createGeminiAssistant = (apiKey: string, model = DEFAULT_MODEL): DesignAssistantProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    reply: async (messages, context) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+        config: {
+          systemInstruction: systemInstruction(context),
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA,
+          temperature: 0.7,
+        },
+      });
+
+      const parsed = JSON.parse(response.text ?? '{}');
+      return {
+        reply: typeof parsed.reply === 'string' ? parsed.reply : 'Sorry, I could not come up with a suggestion just now.',
+        suggestion: sanitizeSuggestion(parsed.suggestion, context.slots),
+      };
+    },
+  };
+};
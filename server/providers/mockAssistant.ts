@@ -0,0 +1,41 @@
+import { sanitizeSuggestion } from '../../src/lib/assistant';
+import type { FinishSlot } from '../../src/scene/finishes';
+import type { DesignAssistantProvider } from './designAssistant';
+
+// Keyword-driven stand-in for offline development and tests: the same
+// conversation always produces the same reply.
+const STYLES: { keywords: string[]; title: string; finishes: Partial<Record<FinishSlot, string>>; note: string }[] = [
+  { keywords: ['warm', 'cosy', 'cozy', 'earthy'], title: 'Warm Earth', finishes: { wall: 'greige', floor: 'teak', upholstery: 'terracotta', cabinet: 'walnut' }, note: 'warm greige walls over teak floors, with terracotta and walnut accents' },
+  { keywords: ['minimal', 'clean', 'simple', 'scandi'], title: 'Quiet Minimal', finishes: { wall: 'ivory', floor: 'light-oak', upholstery: 'oatmeal', cabinet: 'white-gloss' }, note: 'ivory walls, light oak flooring and handle-less white gloss storage' },
+  { keywords: ['green', 'nature', 'calm', 'plants'], title: 'Garden Calm', finishes: { wall: 'sage', floor: 'light-oak', upholstery: 'oatmeal', cabinet: 'sage-matte' }, note: 'soft sage walls with matching matte cabinetry' },
+  { keywords: ['blue', 'coastal', 'fresh'], title: 'Coastal Fresh', finishes: { wall: 'powder-blue', floor: 'statuario', upholstery: 'navy', cabinet: 'white-gloss' }, note: 'powder blue walls, marble floors and navy upholstery' },
+  { keywords: ['bold', 'dark', 'moody', 'dramatic'], title: 'Moody Luxe', finishes: { wall: 'charcoal', floor: 'kota', upholstery: 'mustard', cabinet: 'graphite' }, note: 'a charcoal feature wall, Kota stone and mustard accents' },
+  { keywords: ['traditional', 'classic', 'heritage', 'ethnic'], title: 'Chettinad Classic', finishes: { wall: 'blush', floor: 'terrazzo', upholstery: 'mustard', cabinet: 'walnut' }, note: 'blush walls, terrazzo floors and rich walnut woodwork' },
+];
+
+const STORAGE_TIPS = [
+  'Run floor-to-ceiling wardrobes with lofts along the longest wall.',
+  'Choose a bed with hydraulic under-bed storage.',
+  'Add a wall-hung TV unit with closed drawers to keep the floor clear.',
+];
+
+const SPACE_TIPS = [
+  'Keep at least 90 cm of walking space around the main furniture.',
+  'Use a light rug to visually widen the room.',
+];
+
+export const createMockAssistant = (): DesignAssistantProvider => ({
+  name: 'mock',
+  reply: async (messages, context) => {
+    const text = messages.filter(m => m.role === 'user').map(m => m.content.toLowerCase()).join(' ');
+    const style = STYLES.find(s => s.keywords.some(keyword => text.includes(keyword))) ?? STYLES[1];
+    const wantsStorage = /storage|wardrobe|cupboard|clutter/.test(text);
+    const layoutTips = [...(wantsStorage ? STORAGE_TIPS : []), ...SPACE_TIPS].slice(0, 4);
+
+    const suggestion = sanitizeSuggestion({ title: style.title, finishes: style.finishes, layoutTips }, context.slots);
+    return {
+      reply: `For ${context.roomName}, I'd suggest our "${style.title}" look: ${style.note}.${wantsStorage ? ' I have also added a few storage ideas.' : ''} Tap "Preview in room" to see it.`,
+      suggestion,
+    };
+  },
+});
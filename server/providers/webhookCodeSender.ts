@@ -0,0 +1,20 @@
+import type { CodeSender } from './codeSender';
+
+const TIMEOUT_MS = 10_000;
+
+/**
+ * Hands each message to an HTTP endpoint (an SMS/email gateway, or a small
+ * relay in front of one) as JSON: { channel, to, subject, text }.
+ */
+export const createWebhookCodeSender = (url: string, token?: string): CodeSender => ({
+  name: 'webhook',
+  send: async message => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Code webhook responded with ${response.status}`);
+  },
+});
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { validateLead } from '../src/lib/leads';
+import { validateQuoteSelection, type Estimate } from '../src/lib/quotes';
+import { formatInr } from '../src/lib/format';
+import type { Db } from './db';
+import { createLeadStore, leadRateLimiter } from './leads';
+import { buildCatalogue, computeEstimate, SHOWFLAT_SCENE } from './pricing';
+import { projectScenes, type ProjectStore } from './projects';
+import { createRateLimiter } from './rateLimit';
+
+export const quoteReference = (id: number) => `SQ-${String(id).padStart(5, '0')}`;
+
+// Nothing priced means nothing to quote, whatever the selection looked like.
+const EMPTY_ESTIMATE = 'Please choose at least one room and module.';
+const isEmptyEstimate = (estimate: Estimate) => estimate.lines.length === 0 || estimate.total <= 0;
+
+export const createQuotesRouter = (db: Db, projects: ProjectStore) => {
+  const router = Router();
+  const leads = createLeadStore(db);
+  // Furniture can be picked on the show flat or on any project tour.
+  const catalogue = () => buildCatalogue([SHOWFLAT_SCENE, ...projectScenes(projects)]);
+  const insertQuote = db.prepare(
+    `INSERT INTO quotes (lead_id, selection, estimate, total) VALUES (?, ?, ?, ?)`
+  );
+
+  router.post('/estimate', createRateLimiter({ windowMs: 60 * 1000, max: 60 }), (req, res) => {
+    const prices = catalogue();
+    const { selection, error } = validateQuoteSelection(req.body ?? {}, prices);
+    if (!selection) {
+      res.status(400).json({ error });
+      return;
+    }
+    const estimate = computeEstimate(selection, prices);
+    if (isEmptyEstimate(estimate)) {
+      res.status(400).json({ error: EMPTY_ESTIMATE });
+      return;
+    }
+    res.json({ estimate });
+  });
+
+  // Saving a quote records the visitor as a lead (a repeat quote is fine, so
+  // no duplicate check) and stores the estimate exactly as it was shown.
+  router.post('/', leadRateLimiter(), (req, res) => {
+    const prices = catalogue();
+    const { selection, error } = validateQuoteSelection(req.body?.selection ?? {}, prices);
+    if (!selection) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    const estimate = computeEstimate(selection, prices);
+    if (isEmptyEstimate(estimate)) {
+      res.status(400).json({ error: EMPTY_ESTIMATE });
+      return;
+    }
+    const { lead, errors } = validateLead({ ...req.body, propertyType: selection.propertyType, message: '' });
+    if (!lead) {
+      res.status(400).json({ error: 'Please correct the highlighted fields.', fields: errors });
+      return;
+    }
+
+    const reference = db.transaction(() => {
+      const leadId = leads.insert(
+        { ...lead, message: `Quote builder estimate: ${formatInr(estimate.total)} incl. GST (${estimate.tier} tier)` },
+        'quote-builder',
+        req.ip ?? null
+      );
+      const result = insertQuote.run(leadId, JSON.stringify(selection), JSON.stringify(estimate), estimate.total);
+      return quoteReference(Number(result.lastInsertRowid));
+    })();
+
+    res.status(201).json({ reference, estimate });
+  });
+
+  return router;
+};
@@ -0,0 +1,34 @@
+import type { RequestHandler } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+}
+
+/** Fixed-window, in-memory limiter keyed by client IP. */
+export const createRateLimiter = ({ windowMs, max, message = 'Too many requests. Please try again later.' }: RateLimitOptions): RequestHandler => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip ?? 'unknown';
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count += 1;
+
+    if (hits.size > 10_000) {
+      hits.forEach((value, ip) => value.resetAt <= now && hits.delete(ip));
+    }
+
+    if (entry.count > max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000));
+      res.status(429).json({ error: message });
+      return;
+    }
+    next();
+  };
+};
@@ -1,35 +1,289 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import { Menu, Phone, Mail, MapPin, Instagram, Facebook, Youtube, MessageCircle, ArrowRight, Check, Star, X } from 'lucide-react';
+import { Menu, Phone, Mail, MapPin, Instagram, Facebook, Youtube, MessageCircle, Check, Star, X, Footprints, Palette, Sparkles, ChevronLeft, ChevronRight, Ruler, Sun, Armchair, Users, SquareSplitHorizontal } from 'lucide-react';
+import AnalyticsConsent from './components/AnalyticsConsent';
+import BeforeAfterDivider from './components/BeforeAfterDivider';
+import BookingDialog from './components/BookingDialog';
+import CobrowsePanel from './components/CobrowsePanel';
+import CobrowsePointers from './components/CobrowsePointers';
+import ContactForm from './components/ContactForm';
+import DesignAssistant from './components/DesignAssistant';
+import FinishConfigurator from './components/FinishConfigurator';
+import FloorPlanMinimap from './components/FloorPlanMinimap';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import LayoutControls from './components/LayoutControls';
+import LightingControls from './components/LightingControls';
+import PortfolioGrid from './components/PortfolioGrid';
+import ProductCard from './components/ProductCard';
+import ProjectDetail from './components/ProjectDetail';
+import QuoteBuilder from './components/QuoteBuilder';
+import { ApiError, apiRequest, postJson } from './lib/api';
+import { supportsWebGL, useReducedMotion } from './lib/accessibility';
+import type { DesignSuggestion } from './lib/assistant';
+import { matchBookingPath } from './lib/bookings';
+import { SESSION_PARAM, type CameraPose } from './lib/cobrowse';
+import { useCobrowse } from './lib/cobrowseClient';
+import { DEFAULT_HERO_STATS, DEFAULT_TESTIMONIALS, type SiteContent } from './lib/content';
+import { formatInr, type LengthUnit } from './lib/format';
+import { LOCALE_PARAM, intlLocale, localName, useI18n } from './lib/i18n';
+import { LAYOUT_PARAM, applyLayout, type Layout } from './lib/layouts';
+import { PORTAL_PATH } from './lib/portal';
+import { matchProjectPath, projectPath, type Project } from './lib/projects';
+import { loadQuoteItems, saveQuoteItems, type QuoteItem } from './lib/quote';
+import { navigate, usePathname } from './lib/router';
+import { SECTIONS, isInRange, isSectionId, resolveSections, sectionClasses, type SectionDefinition, type SectionId } from './lib/sections';
+import { trackCta, trackDepth, trackRoom, useAnalyticsConsent } from './lib/tracking';
+import apartmentDefinition from './scene/apartments/siriz-showflat.json';
+import { loadSceneAssets } from './scene/assets';
+import { COMPARE_PARAM, createBeforeAfterView } from './scene/beforeAfter';
+import { createCameraPath } from './scene/cameraPath';
+import { FINISH_PARAM, applyFinishes, decodeFinishes, encodeFinishes, roomFinishSlots, type FinishConfig, type FinishSlot } from './scene/finishes';
+import { createFreeRoamControls } from './scene/freeRoam';
+import { isTyping } from './scene/input';
+import { DEFAULT_HOUR, createLightingRig } from './scene/lighting';
+import type { CatalogueEntry } from './scene/catalogue';
+import { createLayoutEditor, type LayoutEditorStatus } from './scene/layoutEditor';
+import { buildApartment } from './scene/loader';
+import { MEASURE_PARAM, UNIT_PARAM, createMeasureTool, decodeMeasurements, decodeUnit, encodeMeasurements, type MeasureLabels, type Measurement } from './scene/measure';
+import { createFurniturePicker } from './scene/picking';
+import { createAdaptiveQuality } from './scene/quality';
+import { createResourceCache } from './scene/resources';
+import type { ProductInfo, SceneDefinition } from './scene/types';
+import { validateScene } from './scene/validate';
 
 gsap.registerPlugin(ScrollTrigger);
 
 // --- Constants ---
-const ROOM_NAMES = ["The Grand Foyer", "The Living Room", "The Master Suite", "The Modular Kitchen", "The Private Study"];
-
-const CAMERA_PATH = [
-  { pos: { x: 0, y: 1.6, z: 12 }, look: { x: 0, y: 1.6, z: 0 }, scroll: 0 },    // Start outside
-  { pos: { x: 0, y: 1.6, z: 6 }, look: { x: 0, y: 1.6, z: 0 }, scroll: 0.15 },   // Foyer
-  { pos: { x: 0, y: 1.6, z: 0 }, look: { x: -4, y: 1.6, z: -2 }, scroll: 0.25 }, // Turn to Living
-  { pos: { x: -4, y: 1.6, z: -2 }, look: { x: -8, y: 1.6, z: -2 }, scroll: 0.35 }, // Living Room
-  { pos: { x: -8, y: 1.6, z: -2 }, look: { x: -8, y: 1.6, z: -8 }, scroll: 0.45 }, // Turn to Bedroom
-  { pos: { x: -8, y: 1.6, z: -8 }, look: { x: -4, y: 1.6, z: -10 }, scroll: 0.55 }, // Bedroom
-  { pos: { x: -4, y: 1.6, z: -10 }, look: { x: -4, y: 1.6, z: -14 }, scroll: 0.65 }, // Turn to Kitchen
-  { pos: { x: -4, y: 1.6, z: -14 }, look: { x: -4, y: 1.6, z: -18 }, scroll: 0.75 }, // Kitchen
-  { pos: { x: -4, y: 1.6, z: -18 }, look: { x: -4, y: 1.6, z: -22 }, scroll: 0.85 }, // Turn to Study
-  { pos: { x: -4, y: 1.6, z: -22 }, look: { x: 0, y: 1.6, z: -22 }, scroll: 1.0 }   // Study
-];
+// The show flat toured on the home page; portfolio projects bring their own scenes.
+const SHOWFLAT = validateScene(apartmentDefinition);
+
+const TOUR_BUTTON_CLASS = 'flex items-center space-x-2 bg-white/80 backdrop-blur-md border border-[var(--color-gold)] text-[var(--color-charcoal)] px-5 py-2 rounded-full text-xs tracking-widest hover:bg-[var(--color-gold)] transition-all interactive';
+
+// Scroll windows in which each overlay section is on screen during the show flat tour.
+const SECTION_RANGES = resolveSections(SECTIONS, SHOWFLAT.camera);
+const SECTION_DEFINITIONS = Object.fromEntries(SECTIONS.map(section => [section.id, section])) as Record<SectionId, SectionDefinition>;
+
+// Shared sessions: how often a walking leader's camera is sent, and how far
+// a follower's camera closes the gap to it each frame.
+const CAMERA_SAMPLE_MS = 100;
+const FOLLOW_EASING = 0.2;
+
+interface SceneControls {
+  enterFreeRoam: () => void;
+  exitFreeRoam: () => void;
+  applyFinishes: (config: FinishConfig) => void;
+  scrollToProgress: (progress: number, instant?: boolean) => void;
+  setMeasureMode: (on: boolean) => void;
+  showMeasurements: (measurements: Measurement[], unit: LengthUnit) => void;
+  setMeasureLabels: (labels: MeasureLabels) => void;
+  setTimeOfDay: (hour: number) => void;
+  resetLamps: () => void;
+  enterLayoutEdit: (roomId: string) => void;
+  exitLayoutEdit: () => void;
+  addPiece: (entry: CatalogueEntry) => void;
+  rotatePiece: (degrees: number) => void;
+  removePiece: () => void;
+  undoLayout: () => void;
+  redoLayout: () => void;
+  layoutRooms: () => Layout['rooms'];
+  cameraPose: () => CameraPose;
+  followCamera: (pose: CameraPose | null) => void;
+  compareRoom: (roomId: string | null) => void;
+  setCompareSplit: (split: number) => void;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const roomAt = (apartment: SceneDefinition, x: number, z: number) => apartment.rooms.find(room =>
+  Math.abs(x - room.position.x) <= room.size.width / 2 && Math.abs(z - room.position.z) <= room.size.depth / 2
+);
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const labelLayerRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLElement>(null);
   const cursorRef = useRef<HTMLDivElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [currentRoom, setCurrentRoom] = useState(ROOM_NAMES[0]);
+  // Without WebGL the site is a plain, linear page; reduced motion keeps the
+  // 3D tour but holds the camera still within each room.
+  const [webgl, setWebgl] = useState(supportsWebGL);
+  const reducedMotion = useReducedMotion();
+  const showCustomCursor = webgl && !reducedMotion;
+  const [loading, setLoading] = useState(webgl);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const pathname = usePathname();
+  const { locale, t } = useI18n();
+  const analyticsConsent = useAnalyticsConsent();
+  const projectSlug = matchProjectPath(pathname);
+  const bookingToken = matchBookingPath(pathname);
+  const [project, setProject] = useState<Project | null>(null);
+  const [projectError, setProjectError] = useState<'' | 'notFound' | 'loadFailed'>('');
+  // A saved furniture layout from ?layout=<id>, applied to the tour it was made for.
+  const [layoutId] = useState(() => new URLSearchParams(window.location.search).get(LAYOUT_PARAM));
+  const [layout, setLayout] = useState<Layout | null>(null);
+  const [layoutPending, setLayoutPending] = useState(!!layoutId);
+  const [layoutError, setLayoutError] = useState(false);
+  // Null while a project or layout is still loading, so the show flat is not built only to be replaced.
+  const apartment = useMemo<SceneDefinition | null>(() => {
+    if (layoutPending) return null;
+    const base = !projectSlug ? SHOWFLAT : project?.slug === projectSlug ? project.scene ?? SHOWFLAT : projectError ? SHOWFLAT : null;
+    return base && layout?.sceneId === base.id ? applyLayout(base, layout) : base;
+  }, [projectSlug, project, projectError, layout, layoutPending]);
+  const rooms = apartment?.rooms ?? SHOWFLAT.rooms;
+  const localRooms = useMemo(() => rooms.map(room => ({ ...room, name: localName(room, locale) })), [rooms, locale]);
+  const cameraPath = useMemo(() => apartment && createCameraPath(apartment.camera), [apartment]);
+  const [currentRoomId, setCurrentRoomId] = useState(rooms[0].id);
+  const currentRoom = localRooms.find(room => room.id === currentRoomId)?.name ?? localRooms[0].name;
   const [scrollProgress, setScrollProgress] = useState(0);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isFreeRoam, setIsFreeRoam] = useState(false);
+  const sceneControlsRef = useRef<SceneControls | null>(null);
+  const minimapMarkerRef = useRef<SVGGElement>(null);
+  const [selectedProduct, setSelectedProduct] = useState<ProductInfo | null>(null);
+  const [quoteItems, setQuoteItems] = useState<QuoteItem[]>(loadQuoteItems);
+  const [isQuoteOpen, setIsQuoteOpen] = useState(false);
+  const [isBookingOpen, setIsBookingOpen] = useState(false);
+  const [isConfiguratorOpen, setIsConfiguratorOpen] = useState(false);
+  const [configuratorRoomId, setConfiguratorRoomId] = useState<string | null>(null);
+  const [finishes, setFinishes] = useState<FinishConfig>({});
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [measureUnit, setMeasureUnit] = useState<LengthUnit>('m');
+  const [isLightingOpen, setIsLightingOpen] = useState(false);
+  const [timeOfDay, setTimeOfDay] = useState(DEFAULT_HOUR);
+  const [isArranging, setIsArranging] = useState(false);
+  const [layoutStatus, setLayoutStatus] = useState<LayoutEditorStatus>({ selected: null, canUndo: false, canRedo: false, changed: false });
+  // Before/after compares whichever room is in view.
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareSplit, setCompareSplit] = useState(0.5);
+  // A shared session: followers mirror the leader's view, and while the leader
+  // walks around the scroll tour is set aside for their camera.
+  const cobrowse = useCobrowse();
+  const [isCobrowseOpen, setIsCobrowseOpen] = useState(() => new URLSearchParams(window.location.search).has(SESSION_PARAM));
+  const leaderView = cobrowse.code && cobrowse.following && !cobrowse.isLeader ? cobrowse.leaderView : null;
+  const isMirroringWalk = !!leaderView?.camera;
+  const activeFinishRoomId = configuratorRoomId ?? currentRoomId;
+
+  const changeFinish = (roomId: string, slot: FinishSlot, finishId: string | undefined) => {
+    setFinishes(prev => ({ ...prev, [roomId]: { ...prev[roomId], [slot]: finishId } }));
+  };
+
+  // Editable copy from /admin; the launch copy is shown until (or if) it loads.
+  const [content, setContent] = useState<SiteContent>({ heroStats: DEFAULT_HERO_STATS, testimonials: DEFAULT_TESTIMONIALS });
+  const [testimonialIndex, setTestimonialIndex] = useState(0);
+  const testimonial = content.testimonials[testimonialIndex] ?? content.testimonials[0];
+
+  useEffect(() => {
+    apiRequest<SiteContent>('/api/content')
+      .then(result => setContent({ heroStats: result.heroStats, testimonials: result.testimonials.length > 0 ? result.testimonials : DEFAULT_TESTIMONIALS }))
+      .catch(() => undefined);
+  }, []);
+
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const finishesBeforePreviewRef = useRef<FinishConfig | null>(null);
+
+  // Assistant previews layer on top of the visitor's own choices and can be undone.
+  const previewSuggestion = (roomId: string, suggestion: DesignSuggestion) => {
+    const base = finishesBeforePreviewRef.current ?? finishes;
+    finishesBeforePreviewRef.current = base;
+    setFinishes({ ...base, [roomId]: { ...base[roomId], ...suggestion.finishes } });
+  };
+
+  const revertPreview = () => {
+    if (finishesBeforePreviewRef.current) setFinishes(finishesBeforePreviewRef.current);
+    finishesBeforePreviewRef.current = null;
+  };
+
+  // Next / previous room: steps between the points where each room's part of the tour begins.
+  const roomStops = cameraPath?.stops ?? [];
+  const stopIndex = roomStops.reduce((found, stop, i) => (scrollProgress >= stop.scroll - 0.001 ? i : found), 0);
+  const goToStop = (index: number) => {
+    const stop = roomStops[index];
+    if (!stop) return;
+    window.history.replaceState(null, '', `#${stop.roomId}`);
+    sceneControlsRef.current?.scrollToProgress(stop.scroll);
+  };
+
+  // [ and ] step between rooms, like the chevrons beside the room name.
+  useEffect(() => {
+    if (!webgl || isFreeRoam || isArranging || isMirroringWalk) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      if (e.key === '[') goToStop(stopIndex - 1);
+      else if (e.key === ']') goToStop(stopIndex + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [webgl, isFreeRoam, isArranging, isMirroringWalk, stopIndex, roomStops]);
+
+  // --- Sections ---
+  // Tour overlays only show within their scroll range; hidden ones are inert
+  // so keyboard and screen-reader users never land on invisible content.
+  // Navigating to a section scrolls the tour there, then moves focus to it
+  // once it is on screen.
+  const [pendingFocus, setPendingFocus] = useState<SectionId | null>(null);
+  const isSectionVisible = (id: SectionId) => !webgl || isInRange(SECTION_RANGES[id], scrollProgress);
+
+  const showSection = (id: SectionId) => {
+    setIsMenuOpen(false);
+    window.history.replaceState(null, '', `#${id}`);
+    if (!webgl) {
+      document.getElementById(id)?.scrollIntoView({ behavior: reducedMotion ? 'auto' : 'smooth' });
+      document.getElementById(id)?.focus({ preventScroll: true });
+      return;
+    }
+    const { from, to } = SECTION_RANGES[id];
+    sceneControlsRef.current?.scrollToProgress(THREE.MathUtils.clamp((from + to) / 2, 0, 1));
+    setPendingFocus(id);
+  };
+
+  const sectionLink = (id: SectionId) => ({
+    href: `#${id}`,
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      showSection(id);
+    },
+  });
+
+  // Layout and enter / exit transitions come from the section registry.
+  const sectionProps = (id: SectionId) => {
+    const visible = isSectionVisible(id);
+    const { layout, shown, hidden } = sectionClasses(SECTION_DEFINITIONS[id]);
+    return {
+      id,
+      tabIndex: -1,
+      inert: !visible,
+      'aria-labelledby': `${id}-heading`,
+      className: webgl
+        ? `fixed top-0 left-0 w-full h-screen flex z-10 pointer-events-none transition-opacity duration-500 outline-none ${layout} ${visible ? shown : hidden}`
+        : `relative w-full min-h-screen py-24 flex outline-none ${layout}`,
+    };
+  };
+
+  useEffect(() => {
+    if (pendingFocus && isSectionVisible(pendingFocus)) {
+      document.getElementById(pendingFocus)?.focus({ preventScroll: true });
+      setPendingFocus(null);
+    }
+  }, [pendingFocus, scrollProgress]);
+
+  // A shared link such as /#contact opens the page at that section.
+  useEffect(() => {
+    const id = window.location.hash.slice(1);
+    if (!loading && !projectSlug && isSectionId(id)) showSection(id);
+  }, [loading]);
+
+  useEffect(() => {
+    document.body.classList.toggle('custom-cursor-active', showCustomCursor);
+  }, [showCustomCursor]);
+
+  const addToQuote = (product: ProductInfo) => {
+    if (quoteItems.some(item => item.id === product.id)) return;
+    const next = [...quoteItems, { id: product.id, name: product.name, material: product.material, price: product.price }];
+    setQuoteItems(next);
+    saveQuoteItems(next);
+  };
 
   // --- Custom Cursor Logic ---
   useEffect(() => {
@@ -58,316 +312,596 @@ export default function App() {
         el.removeEventListener('mouseleave', hoverEnd);
       });
     };
-  }, [loading]); // Re-run after loading when DOM is ready
+  }, [loading, showCustomCursor]); // Re-run after loading when DOM is ready
+
+  // --- Project Route ---
+  useEffect(() => {
+    setProjectError('');
+    if (!projectSlug) {
+      setProject(null);
+      return;
+    }
+
+    let cancelled = false;
+    apiRequest<{ project: Project }>(`/api/projects/${projectSlug}`)
+      .then(result => !cancelled && setProject(result.project))
+      .catch(err => !cancelled && setProjectError(err instanceof ApiError && err.status === 404 ? 'notFound' : 'loadFailed'));
+    return () => {
+      cancelled = true;
+    };
+  }, [projectSlug]);
+
+  // --- Saved Layout ---
+  // A layout that fails to load leaves the designer's furniture in place.
+  useEffect(() => {
+    if (!layoutId) return;
+    apiRequest<{ layout: Layout }>(`/api/layouts/${encodeURIComponent(layoutId)}`)
+      .then(result => setLayout(result.layout))
+      .catch(() => setLayoutError(true))
+      .finally(() => setLayoutPending(false));
+  }, [layoutId]);
+
+  // Saving adds the rooms rearranged since the tour was built to the layout it
+  // opened with, and points the URL at the new layout.
+  const saveLayout = async () => {
+    if (!apartment || !sceneControlsRef.current) throw new Error('The tour is not ready.');
+    const opened = layout?.sceneId === apartment.id ? layout.rooms : {};
+    const result = await postJson<{ layout: Layout }>('/api/layouts', {
+      sceneId: apartment.id,
+      rooms: { ...opened, ...sceneControlsRef.current.layoutRooms() },
+    });
+    const url = new URL(window.location.href);
+    url.searchParams.set(LAYOUT_PARAM, result.layout.id);
+    window.history.replaceState(null, '', url);
+    return url.toString();
+  };
 
   // --- Three.js & GSAP Logic ---
   useEffect(() => {
-    if (!canvasRef.current || !scrollContainerRef.current) return;
+    if (!webgl || !apartment || !cameraPath || !canvasRef.current || !labelLayerRef.current || !scrollContainerRef.current) return;
 
     // 1. Scene Setup
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0xf9f9f9);
-    scene.fog = new THREE.Fog(0xf9f9f9, 5, 30);
+    // Capability detection can pass and context creation still fail (blocked
+    // GPU, lost context); fall back to the plain page either way.
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({
+        canvas: canvasRef.current,
+        antialias: true,
+        alpha: false,
+        powerPreference: "high-performance"
+      });
+    } catch (err) {
+      console.warn('WebGL unavailable, showing the static page', err);
+      setWebgl(false);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setLoadProgress(0);
+    setIsMeasuring(false);
+    setIsArranging(false);
+    setCurrentRoomId(apartment.rooms[0].id);
+    window.scrollTo(0, 0);
 
+    const scene = new THREE.Scene();
     const camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 1000);
-    const renderer = new THREE.WebGLRenderer({ 
-      canvas: canvasRef.current, 
-      antialias: true, 
-      alpha: false,
-      powerPreference: "high-performance"
-    });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     renderer.toneMapping = THREE.ACESFilmicToneMapping;
     renderer.toneMappingExposure = 1.2;
 
-    // 2. Room Builders
-    const createRoom = (x: number, z: number, width: number, depth: number, height: number, wallColor: number, floorColor: number) => {
-      const group = new THREE.Group();
-
-      // Floor
-      const floorGeo = new THREE.PlaneGeometry(width, depth);
-      const floorMat = new THREE.MeshStandardMaterial({ color: floorColor, roughness: 0.3, metalness: 0.1 });
-      const floor = new THREE.Mesh(floorGeo, floorMat);
-      floor.rotation.x = -Math.PI / 2;
-      floor.receiveShadow = true;
-      group.add(floor);
-
-      // Ceiling
-      const ceilingGeo = new THREE.PlaneGeometry(width, depth);
-      const ceilingMat = new THREE.MeshStandardMaterial({ color: 0xdddddd, roughness: 0.8 });
-      const ceiling = new THREE.Mesh(ceilingGeo, ceilingMat);
-      ceiling.rotation.x = Math.PI / 2;
-      ceiling.position.y = height;
-      group.add(ceiling);
-
-      // Walls Helper
-      const createWall = (w: number, h: number, px: number, py: number, pz: number, ry: number) => {
-        const wallGeo = new THREE.PlaneGeometry(w, h);
-        const wallMat = new THREE.MeshStandardMaterial({ color: wallColor, roughness: 0.5 });
-        const wall = new THREE.Mesh(wallGeo, wallMat);
-        wall.position.set(px, py, pz);
-        wall.rotation.y = ry;
-        wall.castShadow = true;
-        wall.receiveShadow = true;
-        group.add(wall);
-      };
-
-      // Back Wall
-      createWall(width, height, 0, height/2, -depth/2, 0);
-      // Left Wall
-      createWall(depth, height, -width/2, height/2, 0, Math.PI/2);
-      // Right Wall
-      createWall(depth, height, width/2, height/2, 0, -Math.PI/2);
-      
-      // Baseboards (Gold)
-      const baseboardMat = new THREE.MeshStandardMaterial({ color: 0xc9a96e, metalness: 0.8, roughness: 0.2 });
-      const baseboardGeo = new THREE.BoxGeometry(width, 0.1, 0.05);
-      const bbBack = new THREE.Mesh(baseboardGeo, baseboardMat);
-      bbBack.position.set(0, 0.05, -depth/2 + 0.025);
-      group.add(bbBack);
-
-      group.position.set(x, 0, z);
-      return group;
+    // Frames are only drawn when the camera has moved or something marked the
+    // scene as changed.
+    let needsRender = true;
+    const invalidate = () => {
+      needsRender = true;
     };
 
-    // Furniture Helpers
-    const createBox = (w: number, h: number, d: number, color: number, x: number, y: number, z: number) => {
-      const geo = new THREE.BoxGeometry(w, h, d);
-      const mat = new THREE.MeshStandardMaterial({ color, roughness: 0.6 });
-      const mesh = new THREE.Mesh(geo, mat);
-      mesh.position.set(x, y, z);
-      mesh.castShadow = true;
-      mesh.receiveShadow = true;
-      return mesh;
-    };
+    // Pixel ratio and shadows follow the measured frame rate.
+    const resources = createResourceCache();
+    const quality = createAdaptiveQuality(renderer, () => {
+      resources.materials().forEach(material => {
+        material.needsUpdate = true;
+      });
+      invalidate();
+    });
 
-    const createLamp = (x: number, y: number, z: number) => {
-      const group = new THREE.Group();
-      const stand = new THREE.Mesh(
-        new THREE.CylinderGeometry(0.05, 0.1, 1.5, 16),
-        new THREE.MeshStandardMaterial({ color: 0xc9a96e, metalness: 0.8, roughness: 0.2 })
-      );
-      stand.position.y = 0.75;
-      group.add(stand);
-      
-      const shade = new THREE.Mesh(
-        new THREE.ConeGeometry(0.3, 0.4, 32, 1, true),
-        new THREE.MeshStandardMaterial({ color: 0xffffff, transparent: true, opacity: 0.9, side: THREE.DoubleSide })
-      );
-      shade.position.y = 1.6;
-      group.add(shade);
-
-      const light = new THREE.PointLight(0xffaa00, 0.8, 5);
-      light.position.set(0, 1.5, 0);
-      group.add(light);
-      
-      group.position.set(x, y, z);
-      return group;
-    };
+    // 2. Build Apartment
+    const built = buildApartment(scene, apartment, resources);
+
+    const freeRoam = createFreeRoamControls(camera, scene);
+    const lighting = createLightingRig(scene, camera, renderer, built, resources, invalidate);
+    const beforeAfter = createBeforeAfterView(scene, renderer, built.rooms, resources, invalidate);
+    const measureTool = createMeasureTool(camera, scene, built.rooms, resources, labelLayerRef.current, {
+      onMeasure: measurement => setMeasurements(prev => [...prev, measurement]),
+      onChange: invalidate,
+    });
+    let picker: ReturnType<typeof createFurniturePicker> | null = null;
+    let layoutEditor: ReturnType<typeof createLayoutEditor> | null = null;
+    let appliedFinishes: FinishConfig = {};
+    let followTarget: { position: THREE.Vector3; quaternion: THREE.Quaternion } | null = null;
+    let disposed = false;
+
+    // Models and textures load behind the loading screen, which shows their real progress.
+    const loadingManager = new THREE.LoadingManager();
+    loadingManager.onProgress = (_url, loaded, total) => setLoadProgress(Math.round((loaded / total) * 100));
 
-    // 3. Build Apartment
-    // Room 1: Foyer
-    const foyer = createRoom(0, 6, 4, 12, 3.5, 0xf5f5f5, 0xe0e0e0);
-    // Console table
-    foyer.add(createBox(1.5, 0.8, 0.4, 0x8d6e63, 1, 0.4, -2));
-    // Mirror
-    const mirror = new THREE.Mesh(
-      new THREE.PlaneGeometry(1.2, 2),
-      new THREE.MeshStandardMaterial({ color: 0xffffff, metalness: 0.9, roughness: 0.1 })
-    );
-    mirror.position.set(1, 2, -1.75);
-    foyer.add(mirror);
-    // Pendant Light
-    const foyerLight = new THREE.PointLight(0xffaa00, 0.8, 10);
-    foyerLight.position.set(0, 3, 0);
-    foyer.add(foyerLight);
-    scene.add(foyer);
-
-    // Room 2: Living Room
-    const livingRoom = createRoom(-4, -2, 8, 8, 3.5, 0xffffff, 0xd9d9d9); // White walls
-    // Sofa
-    livingRoom.add(createBox(3, 0.6, 1, 0xaaddcc, -1, 0.3, -2)); // Mint Sofa
-    livingRoom.add(createBox(1, 0.6, 2, 0xaaddcc, 1, 0.3, -1.5)); // L-section
-    // Coffee Table
-    livingRoom.add(createBox(1.2, 0.4, 0.8, 0xf5f5f5, -0.5, 0.2, -0.5));
-    // TV Unit
-    livingRoom.add(createBox(3, 2, 0.1, 0xeeeeee, -1, 1.5, 3.9));
-    // Lamp
-    livingRoom.add(createLamp(-3, 0, -3));
-    scene.add(livingRoom);
-
-    // Room 3: Bedroom
-    const bedroom = createRoom(-8, -8, 7, 7, 3.2, 0xf0f8ff, 0xd2b48c); // AliceBlue/Tan
-    // Bed
-    bedroom.add(createBox(2, 0.5, 2.5, 0xffffff, 0, 0.25, 0)); // Mattress
-    bedroom.add(createBox(2.2, 1, 0.2, 0x8b4513, 0, 0.5, -1.3)); // Headboard
-    // Side tables
-    bedroom.add(createBox(0.5, 0.5, 0.5, 0xffffff, -1.5, 0.25, -1));
-    bedroom.add(createBox(0.5, 0.5, 0.5, 0xffffff, 1.5, 0.25, -1));
-    // Lamps
-    const bedLight1 = new THREE.PointLight(0xffaa55, 0.8, 8);
-    bedLight1.position.set(-1.5, 1, -1);
-    bedroom.add(bedLight1);
-    scene.add(bedroom);
-
-    // Room 4: Kitchen
-    const kitchen = createRoom(-4, -14, 8, 8, 3.5, 0xffffff, 0xcccccc); // White/Bright
-    // Island
-    kitchen.add(createBox(2.5, 0.9, 1.2, 0xffffff, 0, 0.45, 0));
-    // Counters
-    kitchen.add(createBox(8, 0.9, 0.8, 0xe0e0e0, 0, 0.45, -3.6));
-    // Cabinets
-    kitchen.add(createBox(8, 0.8, 0.4, 0xffffff, 0, 2.5, -3.6));
-    // Kitchen Light
-    const kitchenLight = new THREE.PointLight(0xffffff, 1.0, 12);
-    kitchenLight.position.set(0, 3, 0);
-    kitchen.add(kitchenLight);
-    scene.add(kitchen);
-
-    // Room 5: Study
-    const study = createRoom(-4, -22, 6, 6, 3.2, 0xf5f5dc, 0xc0c0c0); // Beige/Silver
-    // Desk
-    study.add(createBox(2, 0.05, 0.8, 0xcd853f, 0, 0.75, -1));
-    // Legs
-    study.add(createBox(0.05, 0.75, 0.05, 0x333333, -0.9, 0.375, -1));
-    study.add(createBox(0.05, 0.75, 0.05, 0x333333, 0.9, 0.375, -1));
-    // Bookshelf
-    study.add(createBox(3, 2.5, 0.4, 0xffffff, -2.5, 1.25, 0));
-    // Lamp
-    study.add(createLamp(0.8, 0.75, -1));
-    scene.add(study);
-
-    // Ambient Light
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
-    scene.add(ambientLight);
-
-    // 4. Animation Loop
+    // 3. Animation Loop
     let animationId: number;
-    const animate = () => {
+    const clock = new THREE.Clock();
+    const renderedCameraMatrix = new THREE.Matrix4();
+    const viewDirection = new THREE.Vector3();
+    const animate = (time: number) => {
       animationId = requestAnimationFrame(animate);
-      renderer.render(scene, camera);
+      if (freeRoam.update(clock.getDelta())) {
+        const room = roomAt(apartment, camera.position.x, camera.position.z);
+        if (room) setCurrentRoomId(room.id);
+      }
+      if (followTarget) {
+        camera.position.lerp(followTarget.position, FOLLOW_EASING);
+        camera.quaternion.slerp(followTarget.quaternion, FOLLOW_EASING);
+      }
+      camera.updateMatrixWorld();
+      const render = needsRender || !camera.matrixWorld.equals(renderedCameraMatrix);
+      if (render) {
+        beforeAfter.render(camera);
+        measureTool.render();
+        renderedCameraMatrix.copy(camera.matrixWorld);
+        needsRender = false;
+      }
+      // The minimap marker follows the camera (plan x/z, heading in degrees);
+      // a freshly opened minimap is placed even if the camera is still.
+      const marker = minimapMarkerRef.current;
+      if (marker && (render || !marker.hasAttribute('transform'))) {
+        camera.getWorldDirection(viewDirection);
+        const heading = THREE.MathUtils.radToDeg(Math.atan2(viewDirection.z, viewDirection.x));
+        marker.setAttribute('transform', `translate(${camera.position.x} ${camera.position.z}) rotate(${heading})`);
+      }
+      quality.frame(time, render);
     };
-    animate();
+    animationId = requestAnimationFrame(animate);
 
-    // 5. ScrollTrigger
+    // 4. ScrollTrigger
     const tl = gsap.timeline({
       scrollTrigger: {
         trigger: scrollContainerRef.current,
         start: 'top top',
         end: 'bottom bottom',
-        scrub: 1,
+        scrub: reducedMotion ? true : 1,
         onUpdate: (self) => {
           setScrollProgress(self.progress);
-          
-          // Update Room Name based on progress
-          if (self.progress < 0.2) setCurrentRoom(ROOM_NAMES[0]);
-          else if (self.progress < 0.4) setCurrentRoom(ROOM_NAMES[1]);
-          else if (self.progress < 0.6) setCurrentRoom(ROOM_NAMES[2]);
-          else if (self.progress < 0.8) setCurrentRoom(ROOM_NAMES[3]);
-          else setCurrentRoom(ROOM_NAMES[4]);
         }
       }
     });
 
-    // Map camera path to timeline
-    // We need to interpolate between points
-    CAMERA_PATH.forEach((point, i) => {
-      if (i === 0) {
-        camera.position.set(point.pos.x, point.pos.y, point.pos.z);
-        camera.lookAt(point.look.x, point.look.y, point.look.z);
-        return;
+    // One tween drives the camera along the spline path; its progress is the
+    // (scrubbed) scroll progress, and the room label follows the path's own tags.
+    // With reduced motion the camera cuts from room to room instead of gliding.
+    const tour = { progress: 0 };
+    cameraPath.place(camera, 0);
+    tl.to(tour, {
+      progress: 1,
+      duration: 1,
+      ease: 'none',
+      onUpdate: () => {
+        cameraPath.place(camera, reducedMotion ? cameraPath.stopAt(tour.progress).scroll : tour.progress);
+        setCurrentRoomId(cameraPath.roomAt(tour.progress));
       }
+    });
 
-      const prev = CAMERA_PATH[i - 1];
-      const duration = point.scroll - prev.scroll;
-
-      // Position Tween
-      tl.to(camera.position, {
-        x: point.pos.x,
-        y: point.pos.y,
-        z: point.pos.z,
-        duration: duration,
-        ease: 'none' // Linear interpolation between keyframes, easing handled by path density or scrub
-      }, prev.scroll);
-
-      // LookAt Tween (using a dummy object to interpolate look target)
-      const lookObj = { x: prev.look.x, y: prev.look.y, z: prev.look.z };
-      tl.to(lookObj, {
-        x: point.look.x,
-        y: point.look.y,
-        z: point.look.z,
-        duration: duration,
-        ease: 'none',
-        onUpdate: () => {
-          camera.lookAt(lookObj.x, lookObj.y, lookObj.z);
+    // Free-roam hand-over: the scroll timeline is frozen while walking and
+    // resumes from the keyframe nearest to wherever the visitor stopped.
+    const scrollTrigger = tl.scrollTrigger!;
+    const scrollTopFor = (progress: number) => scrollTrigger.start + progress * (scrollTrigger.end - scrollTrigger.start);
+    let handingOver = false;
+    const sceneControls: SceneControls = {
+      enterFreeRoam: () => {
+        if (handingOver || freeRoam.isEnabled() || layoutEditor?.isEnabled()) return;
+        scrollTrigger.disable(false);
+        document.documentElement.style.overflow = 'hidden';
+        document.documentElement.style.touchAction = 'none';
+        freeRoam.enable();
+        setIsFreeRoam(true);
+      },
+      exitFreeRoam: () => {
+        if (handingOver || !freeRoam.isEnabled()) return;
+        handingOver = true;
+        freeRoam.disable();
+        const nearest = apartment.camera.reduce((best, point) =>
+          camera.position.distanceTo(new THREE.Vector3(point.pos.x, point.pos.y, point.pos.z)) <
+          camera.position.distanceTo(new THREE.Vector3(best.pos.x, best.pos.y, best.pos.z)) ? point : best
+        );
+        const fromPosition = camera.position.clone();
+        const toPosition = new THREE.Vector3(nearest.pos.x, nearest.pos.y, nearest.pos.z);
+        const fromQuaternion = camera.quaternion.clone();
+        const toQuaternion = new THREE.Quaternion().setFromRotationMatrix(
+          new THREE.Matrix4().lookAt(toPosition, new THREE.Vector3(nearest.look.x, nearest.look.y, nearest.look.z), camera.up)
+        );
+        const handOver = { t: 0 };
+        gsap.to(handOver, {
+          t: 1,
+          duration: reducedMotion ? 0 : 1.2,
+          ease: 'power2.inOut',
+          onUpdate: () => {
+            camera.position.lerpVectors(fromPosition, toPosition, handOver.t);
+            camera.quaternion.slerpQuaternions(fromQuaternion, toQuaternion, handOver.t);
+          },
+          onComplete: () => {
+            document.documentElement.style.overflow = '';
+            document.documentElement.style.touchAction = '';
+            window.scrollTo(0, scrollTopFor(nearest.scroll));
+            tl.progress(nearest.scroll);
+            scrollTrigger.enable(false);
+            handingOver = false;
+            setIsFreeRoam(false);
+          }
+        });
+      },
+      applyFinishes: config => {
+        appliedFinishes = config;
+        applyFinishes(built.rooms.map(room => room.group), config, resources);
+        invalidate();
+      },
+      scrollToProgress: (progress, instant = false) => window.scrollTo({ top: scrollTopFor(progress), behavior: reducedMotion || instant ? 'auto' : 'smooth' }),
+      setMeasureMode: measureTool.setEnabled,
+      showMeasurements: measureTool.show,
+      setMeasureLabels: measureTool.setLabels,
+      setTimeOfDay: lighting.setHour,
+      resetLamps: lighting.resetLamps,
+      // Arranging furniture holds the tour still, like walking around, so
+      // drags move pieces instead of scrolling.
+      enterLayoutEdit: roomId => {
+        if (!layoutEditor || layoutEditor.isEnabled() || handingOver || freeRoam.isEnabled()) return;
+        scrollTrigger.disable(false);
+        document.documentElement.style.overflow = 'hidden';
+        document.documentElement.style.touchAction = 'none';
+        layoutEditor.enable(roomId);
+        setIsArranging(true);
+      },
+      exitLayoutEdit: () => {
+        if (!layoutEditor?.isEnabled()) return;
+        layoutEditor.disable();
+        document.documentElement.style.overflow = '';
+        document.documentElement.style.touchAction = '';
+        scrollTrigger.enable(false);
+        setIsArranging(false);
+      },
+      addPiece: entry => layoutEditor?.add(entry),
+      rotatePiece: degrees => layoutEditor?.rotate(degrees),
+      removePiece: () => layoutEditor?.remove(),
+      undoLayout: () => layoutEditor?.undo(),
+      redoLayout: () => layoutEditor?.redo(),
+      layoutRooms: () => layoutEditor?.rooms() ?? {},
+      cameraPose: () => ({
+        position: camera.position.toArray().map(round3) as CameraPose['position'],
+        quaternion: camera.quaternion.toArray().map(round3) as CameraPose['quaternion'],
+      }),
+      // Following a leader who walks around holds the tour still, like walking
+      // oneself, while the camera eases towards theirs.
+      followCamera: pose => {
+        if (handingOver || freeRoam.isEnabled() || layoutEditor?.isEnabled()) return;
+        if (!pose) {
+          if (!followTarget) return;
+          followTarget = null;
+          document.documentElement.style.overflow = '';
+          document.documentElement.style.touchAction = '';
+          scrollTrigger.enable(false);
+          return;
         }
-      }, prev.scroll);
-    });
+        if (!followTarget) {
+          scrollTrigger.disable(false);
+          document.documentElement.style.overflow = 'hidden';
+          document.documentElement.style.touchAction = 'none';
+          followTarget = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+        }
+        followTarget.position.fromArray(pose.position);
+        followTarget.quaternion.fromArray(pose.quaternion);
+      },
+      compareRoom: beforeAfter.setRoom,
+      setCompareSplit: beforeAfter.setSplit,
+    };
 
-    // Normalize timeline duration to 1 (0 to 1 scroll progress)
-    // Actually ScrollTrigger scrub maps the whole timeline to the scroll distance automatically
+    // Deep links: #kitchen scrolls straight to where the tour enters that room.
+    const jumpToHash = (behavior: ScrollBehavior) => {
+      const stop = cameraPath.stops.find(s => `#${s.roomId}` === window.location.hash);
+      if (stop && !freeRoam.isEnabled()) window.scrollTo({ top: scrollTopFor(stop.scroll), behavior });
+    };
+    const handleHashChange = () => jumpToHash(reducedMotion ? 'auto' : 'smooth');
+    jumpToHash('auto');
+    window.addEventListener('hashchange', handleHashChange);
 
     // Resize Handler
     const handleResize = () => {
       camera.aspect = window.innerWidth / window.innerHeight;
       camera.updateProjectionMatrix();
       renderer.setSize(window.innerWidth, window.innerHeight);
+      measureTool.resize();
+      invalidate();
     };
     window.addEventListener('resize', handleResize);
 
-    // Loading Simulation
-    setTimeout(() => {
+    // 5. Assets
+    // Finishes and hover highlights clone the materials they start from, so
+    // the scene only becomes interactive once loaded models and textures are in.
+    // If loading fails outright the tour still opens, on the placeholder materials.
+    loadSceneAssets(built.rooms, resources, loadingManager).catch(err => {
+      console.warn('Scene assets failed to load, keeping placeholders', err);
+    }).then(() => {
+      if (disposed) return;
+      picker = createFurniturePicker(camera, scene, resources, {
+        onHover: product => {
+          cursorRef.current?.classList.toggle('hovered', !!product);
+          invalidate();
+        },
+        // In measure mode clicks place points, and while arranging they select pieces,
+        // instead of opening the product card.
+        onSelect: product => !measureTool.isEnabled() && !layoutEditor?.isEnabled() && setSelectedProduct(product),
+      });
+      // Added pieces take the room's chosen finishes, and added lamps follow the clock.
+      layoutEditor = createLayoutEditor(camera, built.rooms, resources, {
+        onChange: invalidate,
+        onUpdate: setLayoutStatus,
+        onAdd: object => {
+          lighting.trackLamps(object);
+          applyFinishes(built.rooms.map(room => room.group), appliedFinishes, resources);
+          invalidate();
+        },
+      });
+      sceneControlsRef.current = sceneControls;
+      // Finishes in the URL belong to this apartment's rooms.
+      finishesBeforePreviewRef.current = null;
+      const params = new URLSearchParams(window.location.search);
+      setFinishes(decodeFinishes(params.get(FINISH_PARAM), apartment));
+      setMeasurements(decodeMeasurements(params.get(MEASURE_PARAM)));
+      setMeasureUnit(decodeUnit(params.get(UNIT_PARAM)));
+      // ?compare= opens at that room's stop, with before/after on.
+      const compareStop = cameraPath.stops.find(stop => stop.roomId === params.get(COMPARE_PARAM));
+      if (compareStop) {
+        window.scrollTo(0, scrollTopFor(compareStop.scroll));
+        setCurrentRoomId(compareStop.roomId);
+      }
+      setIsComparing(!!compareStop);
+      setLoadProgress(100);
       setLoading(false);
-    }, 2000);
+      invalidate();
+    });
 
     return () => {
+      disposed = true;
       window.removeEventListener('resize', handleResize);
+      window.removeEventListener('hashchange', handleHashChange);
       cancelAnimationFrame(animationId);
+      freeRoam.dispose();
+      lighting.dispose();
+      beforeAfter.dispose();
+      measureTool.dispose();
+      picker?.dispose();
+      layoutEditor?.dispose();
+      sceneControlsRef.current = null;
+      document.documentElement.style.overflow = '';
+      document.documentElement.style.touchAction = '';
       ScrollTrigger.getAll().forEach(t => t.kill());
+      tl.kill();
+      resources.dispose();
       renderer.dispose();
     };
-  }, []);
+  }, [apartment, cameraPath, webgl, reducedMotion]);
+
+  // --- Finish Configuration ---
+  useEffect(() => {
+    // Until a scene is built there is nothing to apply, and the shared URL must be left intact.
+    if (!sceneControlsRef.current) return;
+    sceneControlsRef.current.applyFinishes(finishes);
+    const url = new URL(window.location.href);
+    const encoded = encodeFinishes(finishes);
+    if (encoded) url.searchParams.set(FINISH_PARAM, encoded);
+    else url.searchParams.delete(FINISH_PARAM);
+    window.history.replaceState(null, '', url);
+  }, [finishes]);
+
+  // --- Lighting ---
+  // Re-applied once a newly built scene is ready, so the chosen time carries over between apartments.
+  useEffect(() => {
+    sceneControlsRef.current?.setTimeOfDay(timeOfDay);
+  }, [timeOfDay, loading]);
+
+  // --- Language ---
+  // Measure labels live in the scene, so they are pushed in like finishes.
+  useEffect(() => {
+    sceneControlsRef.current?.setMeasureLabels(t.measure);
+  }, [t, loading]);
+
+  // --- Analytics ---
+  // Dwell and depth are only counted while the tour is on screen.
+  const tourShowing = webgl && !loading;
+  useEffect(() => {
+    trackRoom(pathname, tourShowing ? currentRoomId : null);
+  }, [pathname, tourShowing, currentRoomId]);
+
+  useEffect(() => {
+    if (tourShowing) trackDepth(pathname, scrollProgress);
+  }, [pathname, tourShowing, scrollProgress]);
+
+  // --- Measurements ---
+  useEffect(() => {
+    sceneControlsRef.current?.setMeasureMode(isMeasuring);
+    if (isMeasuring) setSelectedProduct(null);
+  }, [isMeasuring]);
+
+  // --- Layout Editing ---
+  const toggleArranging = () => {
+    if (isArranging) {
+      sceneControlsRef.current?.exitLayoutEdit();
+      return;
+    }
+    setIsMeasuring(false);
+    setIsComparing(false);
+    setSelectedProduct(null);
+    sceneControlsRef.current?.enterLayoutEdit(currentRoomId);
+  };
+
+  useEffect(() => {
+    // Like finishes, a shared link is left intact until the scene has read it.
+    if (!sceneControlsRef.current) return;
+    sceneControlsRef.current.showMeasurements(measurements, measureUnit);
+    const url = new URL(window.location.href);
+    const encoded = encodeMeasurements(measurements);
+    if (encoded) url.searchParams.set(MEASURE_PARAM, encoded);
+    else url.searchParams.delete(MEASURE_PARAM);
+    if (measureUnit === 'ft') url.searchParams.set(UNIT_PARAM, 'ft');
+    else url.searchParams.delete(UNIT_PARAM);
+    window.history.replaceState(null, '', url);
+  }, [measurements, measureUnit]);
+
+  // --- Before & After ---
+  // The split follows the tour from room to room, and the link names the room in view.
+  useEffect(() => {
+    if (!sceneControlsRef.current) return;
+    sceneControlsRef.current.compareRoom(isComparing ? currentRoomId : null);
+    const url = new URL(window.location.href);
+    if (isComparing) url.searchParams.set(COMPARE_PARAM, currentRoomId);
+    else url.searchParams.delete(COMPARE_PARAM);
+    window.history.replaceState(null, '', url);
+  }, [isComparing, currentRoomId, loading]);
+
+  useEffect(() => {
+    sceneControlsRef.current?.setCompareSplit(compareSplit);
+  }, [compareSplit, loading]);
+
+  // --- Shared Session ---
+  // Only tours are shared: never a booking's private manage link.
+  const tourPath = projectSlug ? projectPath(projectSlug) : '/';
+
+  // The leader's view goes out as it changes; walking moves the camera
+  // without re-rendering, so then its pose is sampled.
+  const { isLeader, shareView, sharePointer } = cobrowse;
+  useEffect(() => {
+    if (!isLeader || !webgl || loading) return;
+    const share = () => shareView({
+      path: tourPath,
+      progress: scrollProgress,
+      roomId: currentRoomId,
+      camera: isFreeRoam ? sceneControlsRef.current?.cameraPose() ?? null : null,
+      finishes: encodeFinishes(finishes),
+    });
+    share();
+    if (!isFreeRoam) return;
+    const timer = window.setInterval(share, CAMERA_SAMPLE_MS);
+    return () => window.clearInterval(timer);
+  }, [isLeader, shareView, webgl, loading, tourPath, scrollProgress, currentRoomId, isFreeRoam, finishes]);
+
+  // Followers go where the leader is, unless they are busy walking or arranging themselves.
+  useEffect(() => {
+    if (!leaderView || loading || isFreeRoam || isArranging) return;
+    if (leaderView.path !== tourPath) {
+      navigate(leaderView.path);
+      return;
+    }
+    const controls = sceneControlsRef.current;
+    if (!controls || !apartment) return;
+    setFinishes(current => (encodeFinishes(current) === leaderView.finishes ? current : decodeFinishes(leaderView.finishes, apartment)));
+    controls.followCamera(leaderView.camera);
+    if (!leaderView.camera) controls.scrollToProgress(leaderView.progress, true);
+    else if (apartment.rooms.some(room => room.id === leaderView.roomId)) setCurrentRoomId(leaderView.roomId);
+  }, [leaderView, loading, isFreeRoam, isArranging, tourPath, apartment]);
+
+  useEffect(() => {
+    if (!isMirroringWalk) sceneControlsRef.current?.followCamera(null);
+  }, [isMirroringWalk]);
+
+  // Everyone's pointer is shared, as fractions of the window so it lands on
+  // the same spot whatever the screen size.
+  useEffect(() => {
+    if (!cobrowse.code) return;
+    const move = (e: PointerEvent) => sharePointer({ x: round3(e.clientX / window.innerWidth), y: round3(e.clientY / window.innerHeight) });
+    const leave = () => sharePointer(null);
+    window.addEventListener('pointermove', move);
+    document.documentElement.addEventListener('pointerleave', leave);
+    window.addEventListener('blur', leave);
+    return () => {
+      window.removeEventListener('pointermove', move);
+      document.documentElement.removeEventListener('pointerleave', leave);
+      window.removeEventListener('blur', leave);
+    };
+  }, [cobrowse.code, sharePointer]);
 
   return (
     <div className="relative w-full bg-[var(--color-dark)] text-[var(--color-charcoal)] overflow-x-hidden">
       {/* Loader */}
       {loading && (
-        <div className="fixed inset-0 z-[100] bg-[var(--color-dark)] flex flex-col items-center justify-center">
+        <div className="fixed inset-0 z-[100] bg-[var(--color-dark)] flex flex-col items-center justify-center" role="status">
           <h1 className="text-4xl md:text-6xl font-display text-[var(--color-charcoal)] mb-4 tracking-widest">SIRIZ</h1>
-          <div className="loader-line"></div>
-          <p className="mt-4 text-gray-500 font-light tracking-widest text-sm animate-pulse">LOADING EXPERIENCE</p>
+          <div className="loader-line" style={{ width: loadProgress * 2 }}></div>
+          <p className="mt-4 text-gray-500 font-light tracking-widest text-sm animate-pulse">{t.loader.loading} <span className="text-[var(--color-gold)]">{loadProgress}%</span></p>
         </div>
       )}
 
+      {/* Skip Link */}
+      <a
+        {...sectionLink('contact')}
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-1/2 focus:-translate-x-1/2 focus:z-[110] glass-panel px-4 py-2 text-xs tracking-widest text-[var(--color-charcoal)]"
+      >
+        {t.skipToContact}
+      </a>
+
       {/* Custom Cursor */}
-      <div ref={cursorRef} className="custom-cursor hidden md:block" />
+      {showCustomCursor && <div ref={cursorRef} className="custom-cursor hidden md:block" aria-hidden="true" />}
 
       {/* Noise Overlay */}
-      <div className="noise-overlay" />
+      <div className="noise-overlay" aria-hidden="true" />
 
       {/* 3D Canvas */}
-      <canvas ref={canvasRef} className="fixed top-0 left-0 w-full h-full z-0 outline-none" />
+      {webgl && <canvas ref={canvasRef} className="fixed top-0 left-0 w-full h-full z-0 outline-none" aria-label={t.tour.nowShowing(currentRoom)} role="img" />}
+
+      {/* Measurement labels, positioned over the canvas by the measure tool */}
+      {webgl && <div ref={labelLayerRef} className="fixed top-0 left-0 z-[5] pointer-events-none" aria-hidden="true" />}
+
+      {/* Before/after split */}
+      {webgl && isComparing && !loading && <BeforeAfterDivider split={compareSplit} onChange={setCompareSplit} />}
+
+      {/* Other people's pointers in a shared session */}
+      {cobrowse.code && <CobrowsePointers participants={cobrowse.participants.filter(p => p.id !== cobrowse.selfId)} pointers={cobrowse.pointers} />}
 
       {/* Fixed UI Elements */}
-      <nav className={`fixed top-0 left-0 w-full z-40 transition-all duration-300 ${scrollProgress > 0.05 ? 'bg-white/80 backdrop-blur-md py-4 shadow-sm' : 'py-6'}`}>
+      <nav aria-label={t.nav.main} className={`fixed top-0 left-0 w-full z-40 transition-all duration-300 ${!webgl || scrollProgress > 0.05 ? 'bg-white/80 backdrop-blur-md py-4 shadow-sm' : 'py-6'}`}>
         <div className="container mx-auto px-6 flex justify-between items-center">
-          <div className="text-2xl font-display font-bold tracking-widest text-[var(--color-charcoal)]">SIRIZ</div>
+          <a
+            href="/"
+            onClick={e => {
+              e.preventDefault();
+              navigate('/');
+            }}
+            className="text-2xl font-display font-bold tracking-widest text-[var(--color-charcoal)] interactive"
+          >
+            SIRIZ
+          </a>
           
-          <div className="hidden md:flex space-x-8 text-sm font-light tracking-wider text-[var(--color-charcoal)]">
-            <a href="#about" className="hover:text-[var(--color-gold)] transition-colors interactive">ABOUT</a>
-            <a href="#services" className="hover:text-[var(--color-gold)] transition-colors interactive">SERVICES</a>
-            <a href="#portfolio" className="hover:text-[var(--color-gold)] transition-colors interactive">PORTFOLIO</a>
-            <a href="#contact" className="hover:text-[var(--color-gold)] transition-colors interactive">CONTACT</a>
+          <div className="hidden md:flex space-x-8 text-sm font-light tracking-wider uppercase text-[var(--color-charcoal)]">
+            <a {...sectionLink('about')} className="hover:text-[var(--color-gold)] transition-colors interactive">{t.nav.about}</a>
+            <a {...sectionLink('services')} className="hover:text-[var(--color-gold)] transition-colors interactive">{t.nav.services}</a>
+            <a {...sectionLink('portfolio')} className="hover:text-[var(--color-gold)] transition-colors interactive">{t.nav.portfolio}</a>
+            <a {...sectionLink('contact')} className="hover:text-[var(--color-gold)] transition-colors interactive">{t.nav.contact}</a>
           </div>
 
-          <button className="hidden md:block border border-[var(--color-gold)] text-[var(--color-gold)] px-6 py-2 rounded-full text-sm hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive">
-            GET QUOTE
-          </button>
+          <div className="hidden md:flex items-center space-x-6">
+            <LanguageSwitcher className="text-xs text-gray-500" />
+            <button
+              onClick={() => {
+                trackCta('get-quote');
+                setIsQuoteOpen(true);
+              }}
+              className="border border-[var(--color-gold)] text-[var(--color-gold)] px-6 py-2 rounded-full text-sm hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive">
+              {t.nav.getQuote(quoteItems.length)}
+            </button>
+          </div>
 
-          <button className="md:hidden text-[var(--color-charcoal)] interactive" onClick={() => setIsMenuOpen(!isMenuOpen)}>
+          <button
+            className="md:hidden text-[var(--color-charcoal)] interactive"
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            aria-label={isMenuOpen ? t.nav.closeMenu : t.nav.openMenu}
+            aria-expanded={isMenuOpen}
+            aria-controls="mobile-menu"
+          >
             {isMenuOpen ? <X /> : <Menu />}
           </button>
         </div>
@@ -375,223 +909,464 @@ export default function App() {
 
       {/* Mobile Menu */}
       {isMenuOpen && (
-        <div className="fixed inset-0 z-30 bg-white/95 flex flex-col items-center justify-center space-y-8 text-xl font-display text-[var(--color-charcoal)]">
-          <a href="#about" onClick={() => setIsMenuOpen(false)}>About</a>
-          <a href="#services" onClick={() => setIsMenuOpen(false)}>Services</a>
-          <a href="#portfolio" onClick={() => setIsMenuOpen(false)}>Portfolio</a>
-          <a href="#contact" onClick={() => setIsMenuOpen(false)}>Contact</a>
-        </div>
+        <nav id="mobile-menu" aria-label={t.nav.mobile} className="fixed inset-0 z-30 bg-white/95 flex flex-col items-center justify-center space-y-8 text-xl font-display text-[var(--color-charcoal)]">
+          <a {...sectionLink('about')}>{t.nav.about}</a>
+          <a {...sectionLink('services')}>{t.nav.services}</a>
+          <a {...sectionLink('portfolio')}>{t.nav.portfolio}</a>
+          <a {...sectionLink('contact')}>{t.nav.contact}</a>
+          <LanguageSwitcher className="pt-4 text-sm font-body text-gray-500" />
+        </nav>
+      )}
+
+      {webgl && (
+        <>
+          {/* Scroll Progress Bar */}
+          <div className="fixed top-0 left-0 h-1 bg-[var(--color-gold)] z-50 transition-all duration-100 ease-out" style={{ width: `${scrollProgress * 100}%` }} aria-hidden="true" />
+
+          {/* Room Indicator */}
+          <div className="fixed bottom-8 left-8 z-40 flex items-center space-x-2 text-[var(--color-gold)] opacity-80 mix-blend-difference">
+            {!isFreeRoam && !isArranging && !isMirroringWalk && (
+              <button onClick={() => goToStop(stopIndex - 1)} disabled={stopIndex === 0} className="disabled:opacity-30 interactive" aria-label={t.tour.previousRoom} aria-keyshortcuts="[" title={`${t.tour.previousRoom} ( [ )`}>
+                <ChevronLeft size={20} />
+              </button>
+            )}
+            <span key={currentRoom} className="font-display text-xl md:text-2xl tracking-widest animate-[fadeIn_1s_ease-out]" aria-live="polite">
+              {currentRoom}
+            </span>
+            {!isFreeRoam && !isArranging && !isMirroringWalk && (
+              <button onClick={() => goToStop(stopIndex + 1)} disabled={stopIndex >= roomStops.length - 1} className="disabled:opacity-30 interactive" aria-label={t.tour.nextRoom} aria-keyshortcuts="]" title={`${t.tour.nextRoom} ( ] )`}>
+                <ChevronRight size={20} />
+              </button>
+            )}
+            {!isArranging && (
+              <button
+                onClick={() => setIsComparing(!isComparing)}
+                disabled={loading}
+                className={`pl-2 disabled:opacity-30 interactive ${isComparing ? 'opacity-100' : 'opacity-60 hover:opacity-100'}`}
+                aria-label={t.tour.compare(currentRoom)}
+                aria-pressed={isComparing}
+                title={t.tour.compare(currentRoom)}
+              >
+                <SquareSplitHorizontal size={20} />
+              </button>
+            )}
+          </div>
+        </>
       )}
 
-      {/* Scroll Progress Bar */}
-      <div className="fixed top-0 left-0 h-1 bg-[var(--color-gold)] z-50 transition-all duration-100 ease-out" style={{ width: `${scrollProgress * 100}%` }} />
+      {/* Floor Plan */}
+      {webgl && apartment && (
+        <FloorPlanMinimap
+          rooms={localRooms}
+          currentRoomId={currentRoomId}
+          tourRoomIds={roomStops.map(stop => stop.roomId)}
+          onSelectRoom={roomId => goToStop(roomStops.findIndex(stop => stop.roomId === roomId))}
+          disabled={isFreeRoam || isArranging || isMirroringWalk || loading}
+          markerRef={minimapMarkerRef}
+        />
+      )}
 
-      {/* Room Indicator */}
-      <div key={currentRoom} className="fixed bottom-8 left-8 z-40 text-[var(--color-gold)] font-display text-xl md:text-2xl tracking-widest opacity-80 mix-blend-difference animate-[fadeIn_1s_ease-out]">
-        {currentRoom}
+      {/* Furniture Details */}
+      {selectedProduct && (
+        <ProductCard
+          product={selectedProduct}
+          inQuote={quoteItems.some(item => item.id === selectedProduct.id)}
+          onAddToQuote={() => addToQuote(selectedProduct)}
+          onClose={() => setSelectedProduct(null)}
+        />
+      )}
+
+      {/* Quote Builder */}
+      {isQuoteOpen && <QuoteBuilder furniture={quoteItems} onClose={() => setIsQuoteOpen(false)} />}
+
+      {/* Consultation Booking (also opened by the manage link sent with a booking) */}
+      {(isBookingOpen || bookingToken) && (
+        <BookingDialog
+          token={bookingToken}
+          onClose={() => {
+            setIsBookingOpen(false);
+            if (bookingToken) navigate('/');
+          }}
+        />
+      )}
+
+      {/* Finish Configurator */}
+      {isConfiguratorOpen && (
+        <FinishConfigurator
+          rooms={localRooms}
+          roomId={activeFinishRoomId}
+          onRoomChange={setConfiguratorRoomId}
+          slots={roomFinishSlots(apartment ?? SHOWFLAT, activeFinishRoomId)}
+          config={finishes}
+          onChange={changeFinish}
+          onClose={() => {
+            setIsConfiguratorOpen(false);
+            setConfiguratorRoomId(null);
+          }}
+        />
+      )}
+
+      {/* Design Assistant */}
+      {isAssistantOpen && (
+        <DesignAssistant
+          projectSlug={project?.scene ? project.slug : undefined}
+          roomId={currentRoomId}
+          roomName={currentRoom}
+          onPreview={previewSuggestion}
+          onRevert={revertPreview}
+          onClose={() => {
+            setIsAssistantOpen(false);
+            finishesBeforePreviewRef.current = null;
+          }}
+        />
+      )}
+
+      {/* Tour Controls */}
+      <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center space-y-3" hidden={!webgl}>
+        {isFreeRoam && (
+          <p className="glass-panel px-4 py-2 text-xs tracking-widest text-gray-600 text-center">
+            <span className="hidden md:inline">{t.tour.walkHintKeys}</span>
+            <span className="md:hidden">{t.tour.walkHintTouch}</span>
+          </p>
+        )}
+        {isCobrowseOpen && <CobrowsePanel session={cobrowse} />}
+        {isLightingOpen && (
+          <LightingControls
+            hour={timeOfDay}
+            onHourChange={setTimeOfDay}
+            onPreset={preset => {
+              setTimeOfDay(preset.hour);
+              sceneControlsRef.current?.resetLamps();
+            }}
+          />
+        )}
+        {layoutError && (
+          <p className="glass-panel px-4 py-2 flex items-center gap-3 text-xs text-gray-600" role="status">
+            <span>{t.layout.loadFailed}</span>
+            <button onClick={() => setLayoutError(false)} className="hover:text-[var(--color-gold)] interactive" aria-label={t.common.close}>
+              <X size={14} />
+            </button>
+          </p>
+        )}
+        {isArranging && (
+          <LayoutControls
+            status={layoutStatus}
+            onAdd={entry => sceneControlsRef.current?.addPiece(entry)}
+            onRotate={degrees => sceneControlsRef.current?.rotatePiece(degrees)}
+            onRemove={() => sceneControlsRef.current?.removePiece()}
+            onUndo={() => sceneControlsRef.current?.undoLayout()}
+            onRedo={() => sceneControlsRef.current?.redoLayout()}
+            onSave={saveLayout}
+          />
+        )}
+        {isMeasuring && (
+          <div className="glass-panel px-4 py-2 flex flex-wrap items-center justify-center gap-3 text-xs tracking-widest text-gray-600">
+            <span>{t.tour.measureHint}</span>
+            <div className="flex rounded-full border border-[var(--color-gold)] overflow-hidden" role="group" aria-label={t.tour.units}>
+              {(['m', 'ft'] as const).map(unit => (
+                <button
+                  key={unit}
+                  onClick={() => setMeasureUnit(unit)}
+                  aria-pressed={measureUnit === unit}
+                  className={`px-3 py-1 transition-colors interactive ${measureUnit === unit ? 'bg-[var(--color-gold)] text-[var(--color-charcoal)]' : ''}`}
+                >
+                  {unit === 'm' ? t.tour.metres : t.tour.feet}
+                </button>
+              ))}
+            </div>
+            {measurements.length > 0 && (
+              <button onClick={() => setMeasurements([])} className="hover:text-[var(--color-gold)] transition-colors interactive">
+                {t.tour.clear}
+              </button>
+            )}
+          </div>
+        )}
+        <div className="flex flex-wrap justify-center gap-3">
+          <button
+            onClick={() => setIsConfiguratorOpen(open => !open)}
+            className={TOUR_BUTTON_CLASS}
+          >
+            <Palette size={14} />
+            <span>{t.tour.customise}</span>
+          </button>
+          <button
+            onClick={() => setIsAssistantOpen(open => !open)}
+            className={TOUR_BUTTON_CLASS}
+          >
+            <Sparkles size={14} />
+            <span>{t.tour.askDesigner}</span>
+          </button>
+          <button
+            onClick={() => (isFreeRoam ? sceneControlsRef.current?.exitFreeRoam() : sceneControlsRef.current?.enterFreeRoam())}
+            disabled={isArranging || isMirroringWalk}
+            className={`${TOUR_BUTTON_CLASS} disabled:opacity-40`}
+          >
+            <Footprints size={14} />
+            <span>{isFreeRoam ? t.tour.backToTour : t.tour.walkAround}</span>
+          </button>
+          <button
+            onClick={() => setIsMeasuring(on => !on)}
+            disabled={isArranging}
+            className={`${TOUR_BUTTON_CLASS} disabled:opacity-40`}
+            aria-pressed={isMeasuring}
+          >
+            <Ruler size={14} />
+            <span>{isMeasuring ? t.tour.doneMeasuring : t.tour.measure}</span>
+          </button>
+          <button
+            onClick={toggleArranging}
+            disabled={isFreeRoam || isMirroringWalk}
+            className={`${TOUR_BUTTON_CLASS} disabled:opacity-40`}
+            aria-pressed={isArranging}
+          >
+            <Armchair size={14} />
+            <span>{isArranging ? t.tour.doneArranging : t.tour.arrange}</span>
+          </button>
+          <button
+            onClick={() => setIsLightingOpen(open => !open)}
+            className={TOUR_BUTTON_CLASS}
+            aria-pressed={isLightingOpen}
+          >
+            <Sun size={14} />
+            <span>{t.tour.lighting}</span>
+          </button>
+          <button
+            onClick={() => setIsCobrowseOpen(open => !open)}
+            className={TOUR_BUTTON_CLASS}
+            aria-pressed={isCobrowseOpen}
+          >
+            <Users size={14} />
+            <span>{t.tour.tourTogether}</span>
+            {cobrowse.code && (
+              <span className="flex items-center gap-1" title={t.cobrowse.inSession(cobrowse.participants.length)}>
+                <span className={`w-2 h-2 rounded-full ${cobrowse.status === 'connected' ? 'bg-green-500' : 'bg-gray-400 animate-pulse'}`} aria-hidden="true" />
+                <span className="sr-only">{t.cobrowse.inSession(cobrowse.participants.length)}</span>
+                <span aria-hidden="true">{cobrowse.participants.length}</span>
+              </span>
+            )}
+          </button>
+        </div>
       </div>
 
       {/* WhatsApp Button */}
       <a 
-        href="https://api.whatsapp.com/send?phone=919384577177&text=Hi%20I'm%20Interested%20in%20your%20interior%20designing" 
+        href={`https://api.whatsapp.com/send?phone=919384577177&text=${encodeURIComponent(t.contact.whatsappMessage)}`}
         target="_blank" 
         rel="noopener noreferrer"
+        onClick={() => trackCta('whatsapp')}
         className="fixed bottom-8 right-8 z-40 bg-green-500 text-white p-4 rounded-full shadow-lg hover:scale-110 transition-transform interactive"
+        aria-label={t.contact.whatsapp}
       >
         <MessageCircle size={24} />
       </a>
 
+      {/* Analytics Consent */}
+      <AnalyticsConsent />
+
+      {/* Project Detail */}
+      {projectSlug && <ProjectDetail project={project} error={projectError && t.project[projectError]} onBack={() => navigate('/')} />}
+
       {/* Scroll Container */}
-      <div ref={scrollContainerRef} className="relative w-full" style={{ height: '600vh' }}>
+      <main ref={scrollContainerRef} className={`relative w-full ${isFreeRoam || isArranging || isMirroringWalk ? 'invisible' : ''}`} style={{ height: webgl ? '600vh' : undefined }}>
         
-        {/* Overlay 1: Hero (0-15%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex items-center justify-center z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress < 0.15 ? 'opacity-100' : 'opacity-0'}`}>
-          <div className="text-center pointer-events-auto">
-            <h1 className="text-6xl md:text-9xl font-display font-bold text-[var(--color-gold)] tracking-[0.2em] mb-2">SIRIZ</h1>
-            <p className="text-xl md:text-2xl text-gray-500 tracking-[0.3em] font-light mb-8">INTERIORS PVT LTD</p>
-            <p className="font-display italic text-2xl md:text-4xl mb-8 text-[var(--color-charcoal)]">"We Design Your Dream Home"</p>
-            <div className="w-0 h-[1px] bg-[var(--color-gold)] mx-auto mb-8 animate-[growWidth_1s_ease-out_forwards]" style={{ width: loading ? '0px' : '200px' }}></div>
-            <div className="flex justify-center space-x-4 md:space-x-8 text-xs md:text-sm tracking-widest text-gray-500 mb-12">
-              <span>11+ YEARS</span>
-              <span>•</span>
-              <span>600+ CLIENTS</span>
-              <span>•</span>
-              <span>45 DAYS DELIVERY</span>
-            </div>
-            <button className="border border-[var(--color-gold)] text-[var(--color-gold)] px-8 py-3 rounded-full text-sm tracking-widest hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive">
-              BOOK FREE CONSULTATION
-            </button>
-            <div className="absolute bottom-10 left-1/2 -translate-x-1/2 animate-bounce">
-              <div className="w-[1px] h-12 bg-black/30 mx-auto"></div>
-            </div>
-          </div>
-        </section>
-
-        {/* Overlay 2: About (18-35%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex items-center z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress > 0.18 && scrollProgress < 0.35 ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-10'}`}>
-          <div className="container mx-auto px-6">
-            <div className="glass-panel p-8 md:p-12 max-w-xl pointer-events-auto">
-              <h2 className="text-3xl md:text-5xl font-display mb-6 text-[var(--color-gold)]">About SIRIZ</h2>
-              <p className="text-gray-600 leading-relaxed mb-8 font-light">
-                With 11 years of solid experience, SIRIZ Interiors ensures we consistently exceed our customers' expectations through quality service. We provide special and unique touches to interiors and make your dreams come true.
-              </p>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="bg-black/5 p-4 rounded-lg border border-black/10">
-                  <Star className="text-[var(--color-gold)] mb-2" size={20} />
-                  <h3 className="font-display text-lg text-[var(--color-charcoal)]">Creativity</h3>
+        {!projectSlug && (
+          <>
+            {/* Overlay 1: Hero (foyer) */}
+            <section {...sectionProps('home')}>
+              <div className="text-center pointer-events-auto">
+                {!webgl && (
+                  <p className="glass-panel inline-block px-4 py-2 mb-8 text-xs tracking-widest text-gray-500" role="note">
+                    {t.noWebgl}
+                  </p>
+                )}
+                <h1 id="home-heading" className="text-6xl md:text-9xl font-display font-bold text-[var(--color-gold)] tracking-[0.2em] mb-2">SIRIZ</h1>
+                <p className="text-xl md:text-2xl text-gray-500 tracking-[0.3em] font-light mb-8">{t.hero.company}</p>
+                <p className="font-display italic text-2xl md:text-4xl mb-8 text-[var(--color-charcoal)]">{t.hero.tagline}</p>
+                <div className="w-0 h-[1px] bg-[var(--color-gold)] mx-auto mb-8 animate-[growWidth_1s_ease-out_forwards]" style={{ width: loading ? '0px' : '200px' }}></div>
+                <div className="flex justify-center space-x-4 md:space-x-8 text-xs md:text-sm tracking-widest text-gray-500 mb-12">
+                  {content.heroStats.map((stat, i) => (
+                    <React.Fragment key={i}>
+                      {i > 0 && <span>•</span>}
+                      <span>{stat.value} {stat.label}</span>
+                    </React.Fragment>
+                  ))}
                 </div>
-                <div className="bg-black/5 p-4 rounded-lg border border-black/10">
-                  <Check className="text-[var(--color-gold)] mb-2" size={20} />
-                  <h3 className="font-display text-lg text-[var(--color-charcoal)]">Precision</h3>
+                <button
+                  onClick={() => {
+                    trackCta('book-consultation');
+                    setIsBookingOpen(true);
+                  }}
+                  className="border border-[var(--color-gold)] text-[var(--color-gold)] px-8 py-3 rounded-full text-sm tracking-widest hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive">
+                  {t.hero.bookConsultation}
+                </button>
+                <div className="absolute bottom-10 left-1/2 -translate-x-1/2 animate-bounce" aria-hidden="true" hidden={!webgl}>
+                  <div className="w-[1px] h-12 bg-black/30 mx-auto"></div>
                 </div>
               </div>
-            </div>
-          </div>
-        </section>
-
-        {/* Overlay 3: Services (38-55%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex items-center justify-end z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress > 0.38 && scrollProgress < 0.55 ? 'opacity-100 translate-x-0' : 'opacity-0 translate-x-10'}`}>
-          <div className="container mx-auto px-6 flex justify-end">
-            <div className="glass-panel p-8 md:p-12 max-w-xl pointer-events-auto">
-              <h2 className="text-3xl md:text-5xl font-display mb-8 text-[var(--color-gold)]">What We Master</h2>
-              <ul className="space-y-4 mb-8">
-                {['Residential Interiors', 'Commercial Spaces', '3D Visualization', 'Turnkey Execution'].map((item, i) => (
-                  <li key={i} className="flex items-center space-x-3 text-gray-700">
-                    <span className="w-2 h-2 bg-[var(--color-gold)] rounded-full"></span>
-                    <span className="font-light tracking-wide">{item}</span>
-                  </li>
-                ))}
-              </ul>
-              <div className="grid grid-cols-2 gap-4 text-xs md:text-sm tracking-wider text-gray-500">
-                <div className="border border-black/10 p-3 rounded text-center">💰 Lowest Price</div>
-                <div className="border border-black/10 p-3 rounded text-center">⏱️ 45-Day Delivery</div>
-                <div className="border border-black/10 p-3 rounded text-center">🛡️ 10-Year Warranty</div>
-                <div className="border border-black/10 p-3 rounded text-center">🔐 Customer Portal</div>
-              </div>
-            </div>
-          </div>
-        </section>
-
-        {/* Overlay 4: Portfolio (58-75%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex flex-col items-center justify-center z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress > 0.58 && scrollProgress < 0.75 ? 'opacity-100 scale-100' : 'opacity-0 scale-95'}`}>
-          <div className="container mx-auto px-6 pointer-events-auto">
-            <h2 className="text-3xl md:text-5xl font-display text-center mb-12 text-[var(--color-gold)]">Our Signature Work</h2>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
-              {['Alpha 360', 'Radiance Living', 'Celesta 360'].map((project, i) => (
-                <div key={i} className="glass-panel p-6 hover:bg-black/5 transition-colors group cursor-pointer interactive">
-                  <div className="h-40 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg mb-4 flex items-center justify-center group-hover:scale-105 transition-transform">
-                    <span className="text-gray-400 font-display italic">Project Image</span>
-                  </div>
-                  <h3 className="text-xl font-display mb-2 text-[var(--color-charcoal)]">{project}</h3>
-                  <div className="flex items-center text-[var(--color-gold)] text-sm">
-                    View Project <ArrowRight size={14} className="ml-2" />
+            </section>
+
+            {/* Overlay 2: About (living room) */}
+            <section {...sectionProps('about')}>
+              <div className="container mx-auto px-6">
+                <div className="glass-panel p-8 md:p-12 max-w-xl pointer-events-auto">
+                  <h2 id="about-heading" className="text-3xl md:text-5xl font-display mb-6 text-[var(--color-gold)]">{t.about.heading}</h2>
+                  <p className="text-gray-600 leading-relaxed mb-8 font-light">
+                    {t.about.body}
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-black/5 p-4 rounded-lg border border-black/10">
+                      <Star className="text-[var(--color-gold)] mb-2" size={20} />
+                      <h3 className="font-display text-lg text-[var(--color-charcoal)]">{t.about.creativity}</h3>
+                    </div>
+                    <div className="bg-black/5 p-4 rounded-lg border border-black/10">
+                      <Check className="text-[var(--color-gold)] mb-2" size={20} />
+                      <h3 className="font-display text-lg text-[var(--color-charcoal)]">{t.about.precision}</h3>
+                    </div>
                   </div>
                 </div>
-              ))}
-            </div>
-            <div className="glass-panel p-6 max-w-4xl mx-auto flex flex-col md:flex-row justify-between items-center text-center md:text-left">
-              <div>
-                <h3 className="text-xl font-display text-[var(--color-charcoal)]">Packages starting from ₹69,000</h3>
-                <p className="text-gray-500 text-sm">Kitchens, Wardrobes, and Full Home Interiors</p>
               </div>
-              <button className="mt-4 md:mt-0 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive">
-                View Pricing
-              </button>
-            </div>
-          </div>
-        </section>
-
-        {/* Overlay 5: Testimonials (72-88%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex items-center z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress > 0.72 && scrollProgress < 0.88 ? 'opacity-100' : 'opacity-0'}`}>
-          <div className="container mx-auto px-6">
-            <div className="glass-panel p-8 md:p-12 max-w-2xl pointer-events-auto">
-              <h2 className="text-3xl md:text-5xl font-display mb-8 text-[var(--color-gold)]">Client Stories</h2>
-              <div className="mb-8">
-                <div className="text-[var(--color-gold)] text-4xl font-serif mb-4">"</div>
-                <p className="text-xl md:text-2xl font-display italic leading-relaxed mb-6 text-[var(--color-charcoal)]">
-                  One of the best architect, who listens to the client's preference and enhance it to the current trend. An ideal person if you expect quality work.
-                </p>
-                <div className="flex items-center space-x-2 text-[var(--color-gold)] mb-2">
-                  {[1,2,3,4,5].map(s => <Star key={s} size={16} fill="currentColor" />)}
+            </section>
+
+            {/* Overlay 3: Services (bedroom) */}
+            <section {...sectionProps('services')}>
+              <div className="container mx-auto px-6 flex justify-end">
+                <div className="glass-panel p-8 md:p-12 max-w-xl pointer-events-auto">
+                  <h2 id="services-heading" className="text-3xl md:text-5xl font-display mb-8 text-[var(--color-gold)]">{t.services.heading}</h2>
+                  <ul className="space-y-4 mb-8">
+                    {t.services.items.map((item, i) => (
+                      <li key={i} className="flex items-center space-x-3 text-gray-700">
+                        <span className="w-2 h-2 bg-[var(--color-gold)] rounded-full"></span>
+                        <span className="font-light tracking-wide">{item}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="grid grid-cols-2 gap-4 text-xs md:text-sm tracking-wider text-gray-500">
+                    {t.services.perks.map((perk, i) => (
+                      <div key={i} className="border border-black/10 p-3 rounded text-center">{perk}</div>
+                    ))}
+                    {/* Clients sign in to follow their project (a separate page, in the same language) */}
+                    <a href={`${PORTAL_PATH}?${LOCALE_PARAM}=${locale}`} className="border border-black/10 p-3 rounded text-center hover:border-[var(--color-gold)] hover:text-[var(--color-gold)] transition-colors interactive">
+                      {t.services.portal}
+                    </a>
+                  </div>
                 </div>
-                <p className="font-bold tracking-wider text-[var(--color-charcoal)]">— Ganesh Anand C</p>
               </div>
-              <div className="border-t border-black/10 pt-6 flex justify-between text-xs md:text-sm text-gray-500 tracking-widest">
-                <span>DESIGN</span>
-                <span>PLANNING</span>
-                <span>EXECUTION</span>
-                <span>DELIVERY</span>
+            </section>
+
+            {/* Overlay 4: Portfolio (kitchen) */}
+            <section {...sectionProps('portfolio')}>
+              <div className="container mx-auto px-6 pointer-events-auto">
+                <h2 id="portfolio-heading" className="text-3xl md:text-5xl font-display text-center mb-12 text-[var(--color-gold)]">{t.portfolio.heading}</h2>
+                <PortfolioGrid />
+                <div className="glass-panel p-6 max-w-4xl mx-auto flex flex-col md:flex-row justify-between items-center text-center md:text-left">
+                  <div>
+                    <h3 className="text-xl font-display text-[var(--color-charcoal)]">{t.portfolio.packagesFrom(formatInr(69000, intlLocale(locale)))}</h3>
+                    <p className="text-gray-500 text-sm">{t.portfolio.packagesDetail}</p>
+                  </div>
+                  <button
+                    onClick={() => {
+                      trackCta('get-quote');
+                      setIsQuoteOpen(true);
+                    }}
+                    className="mt-4 md:mt-0 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive">
+                    {t.portfolio.viewPricing}
+                  </button>
+                </div>
               </div>
-            </div>
-          </div>
-        </section>
-
-        {/* Overlay 6: Contact (88-100%) */}
-        <section className={`fixed top-0 left-0 w-full h-screen flex items-center justify-center z-10 pointer-events-none transition-opacity duration-500 ${scrollProgress > 0.88 ? 'opacity-100' : 'opacity-0'}`}>
-          <div className="container mx-auto px-6 pointer-events-auto">
-            <div className="glass-panel p-8 md:p-12 max-w-4xl mx-auto">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
-                <div>
-                  <h2 className="text-4xl md:text-6xl font-display mb-4 text-[var(--color-gold)]">Let's Build Extraordinary</h2>
-                  <p className="text-gray-600 mb-8 font-light">Book your FREE design consultation today.</p>
-                  
-                  <div className="space-y-6 mb-8">
-                    <div className="flex items-center space-x-4">
-                      <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><Phone size={20} /></div>
-                      <div>
-                        <p className="text-xs text-gray-500 uppercase tracking-widest">Call Us</p>
-                        <p className="text-lg text-[var(--color-charcoal)]">+91 84384 23938</p>
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-4">
-                      <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><Mail size={20} /></div>
-                      <div>
-                        <p className="text-xs text-gray-500 uppercase tracking-widest">Email</p>
-                        <p className="text-lg text-[var(--color-charcoal)]">info@sirizinteriors.com</p>
-                      </div>
+            </section>
+
+            {/* Overlay 5: Testimonials (on the way to the study) */}
+            <section {...sectionProps('testimonials')}>
+              <div className="container mx-auto px-6">
+                <div className="glass-panel p-8 md:p-12 max-w-2xl pointer-events-auto">
+                  <h2 id="testimonials-heading" className="text-3xl md:text-5xl font-display mb-8 text-[var(--color-gold)]">{t.testimonials.heading}</h2>
+                  <div className="mb-8">
+                    <div className="text-[var(--color-gold)] text-4xl font-serif mb-4">"</div>
+                    <p key={testimonial.id} className="text-xl md:text-2xl font-display italic leading-relaxed mb-6 text-[var(--color-charcoal)] animate-[fadeIn_0.4s_ease-out]">
+                      {testimonial.quote}
+                    </p>
+                    <div className="flex items-center space-x-2 text-[var(--color-gold)] mb-2">
+                      {[1,2,3,4,5].map(s => <Star key={s} size={16} fill={s <= testimonial.rating ? 'currentColor' : 'none'} />)}
                     </div>
-                    <div className="flex items-center space-x-4">
-                      <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><MapPin size={20} /></div>
-                      <div>
-                        <p className="text-xs text-gray-500 uppercase tracking-widest">Visit</p>
-                        <p className="text-lg text-[var(--color-charcoal)]">Medavakkam, Chennai</p>
+                    <p className="font-bold tracking-wider text-[var(--color-charcoal)]">— {testimonial.author}</p>
+                    {content.testimonials.length > 1 && (
+                      <div className="flex space-x-2 mt-4">
+                        {content.testimonials.map((story, i) => (
+                          <button
+                            key={story.id}
+                            onClick={() => setTestimonialIndex(i)}
+                            aria-label={t.testimonials.showStory(story.author)}
+                            className={`w-2 h-2 rounded-full transition-colors interactive ${story.id === testimonial.id ? 'bg-[var(--color-gold)]' : 'bg-black/20'}`}
+                          />
+                        ))}
                       </div>
-                    </div>
+                    )}
                   </div>
-
-                  <div className="flex space-x-4 text-gray-400">
-                    <Instagram className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
-                    <Facebook className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
-                    <Youtube className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
+                  <div className="border-t border-black/10 pt-6 flex justify-between text-xs md:text-sm text-gray-500 tracking-widest">
+                    {t.testimonials.process.map(stage => <span key={stage}>{stage}</span>)}
                   </div>
                 </div>
+              </div>
+            </section>
 
-                <form className="space-y-4">
-                  <input type="text" placeholder="Your Name" className="w-full bg-black/5 border border-black/10 rounded-lg p-4 focus:border-[var(--color-gold)] outline-none transition-colors interactive text-[var(--color-charcoal)]" />
-                  <input type="tel" placeholder="Phone Number" className="w-full bg-black/5 border border-black/10 rounded-lg p-4 focus:border-[var(--color-gold)] outline-none transition-colors interactive text-[var(--color-charcoal)]" />
-                  <select className="w-full bg-black/5 border border-black/10 rounded-lg p-4 focus:border-[var(--color-gold)] outline-none transition-colors interactive text-gray-500">
-                    <option>Select Property Type</option>
-                    <option>1 BHK</option>
-                    <option>2 BHK</option>
-                    <option>3 BHK</option>
-                    <option>Villa / Duplex</option>
-                  </select>
-                  <textarea placeholder="Tell us about your dream home..." rows={4} className="w-full bg-black/5 border border-black/10 rounded-lg p-4 focus:border-[var(--color-gold)] outline-none transition-colors interactive text-[var(--color-charcoal)]"></textarea>
+            {/* Overlay 6: Contact (study) */}
+            <section {...sectionProps('contact')}>
+              <div className="container mx-auto px-6 pointer-events-auto">
+                <div className="glass-panel p-8 md:p-12 max-w-4xl mx-auto">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
+                    <div>
+                      <h2 id="contact-heading" className="text-4xl md:text-6xl font-display mb-4 text-[var(--color-gold)]">{t.contact.heading}</h2>
+                      <p className="text-gray-600 mb-8 font-light">{t.contact.subheading}</p>
+                      
+                      <div className="space-y-6 mb-8">
+                        <div className="flex items-center space-x-4">
+                          <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><Phone size={20} /></div>
+                          <div>
+                            <p className="text-xs text-gray-500 uppercase tracking-widest">{t.contact.callUs}</p>
+                            <p className="text-lg text-[var(--color-charcoal)]">+91 84384 23938</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><Mail size={20} /></div>
+                          <div>
+                            <p className="text-xs text-gray-500 uppercase tracking-widest">{t.contact.email}</p>
+                            <p className="text-lg text-[var(--color-charcoal)]">info@sirizinteriors.com</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <div className="w-10 h-10 rounded-full bg-black/5 flex items-center justify-center text-[var(--color-gold)]"><MapPin size={20} /></div>
+                          <div>
+                            <p className="text-xs text-gray-500 uppercase tracking-widest">{t.contact.visit}</p>
+                            <p className="text-lg text-[var(--color-charcoal)]">{t.contact.address}</p>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex space-x-4 text-gray-400">
+                        <Instagram className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
+                        <Facebook className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
+                        <Youtube className="hover:text-[var(--color-gold)] transition-colors cursor-pointer interactive" />
+                      </div>
+                    </div>
+
+                    <ContactForm />
+                  </div>
                   
-                  <button className="w-full bg-[var(--color-gold)] text-[var(--color-charcoal)] font-bold py-4 rounded-lg hover:bg-black hover:text-white transition-colors interactive">
-                    GET FREE CONSULTATION
-                  </button>
-                </form>
-              </div>
-              
-              <div className="mt-12 pt-8 border-t border-black/10 text-center text-xs text-gray-500 tracking-widest">
-                © 2025 SIRIZ INTERIORS PVT LTD. ALL RIGHTS RESERVED.
+                  <footer className="mt-12 pt-8 border-t border-black/10 text-center text-xs text-gray-500 tracking-widest">
+                    {t.contact.copyright}
+                    {analyticsConsent.canChoose && analyticsConsent.consent !== 'unset' && (
+                      <button onClick={() => analyticsConsent.setConsent('unset')} className="block mx-auto mt-3 underline hover:text-[var(--color-gold)] transition-colors interactive">
+                        {t.consent.choices}
+                      </button>
+                    )}
+                  </footer>
+                </div>
               </div>
-            </div>
-          </div>
-        </section>
+            </section>
+          </>
+        )}
 
-      </div>
+      </main>
     </div>
   );
 }
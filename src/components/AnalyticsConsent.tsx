@@ -0,0 +1,25 @@
+import React from 'react';
+import { useI18n } from '../lib/i18n';
+import { useAnalyticsConsent } from '../lib/tracking';
+
+// Asked once; the choice can be changed from the footer of the contact section.
+export default function AnalyticsConsent() {
+  const { consent, setConsent, canChoose } = useAnalyticsConsent();
+  const { t } = useI18n();
+
+  if (!canChoose || consent !== 'unset') return null;
+
+  return (
+    <section aria-label={t.consent.label} className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-3rem)] max-w-md glass-panel p-5 text-sm text-gray-600">
+      <p className="mb-4 font-light">{t.consent.message}</p>
+      <div className="flex justify-end gap-3">
+        <button onClick={() => setConsent('denied')} className="px-4 py-2 rounded-full text-xs tracking-widest hover:text-[var(--color-gold)] transition-colors interactive">
+          {t.consent.decline}
+        </button>
+        <button onClick={() => setConsent('granted')} className="bg-[var(--color-gold)] text-[var(--color-charcoal)] px-5 py-2 rounded-full text-xs tracking-widest font-medium hover:bg-black hover:text-white transition-colors interactive">
+          {t.consent.allow}
+        </button>
+      </div>
+    </section>
+  );
+}
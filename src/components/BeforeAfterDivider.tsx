@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { ChevronsLeftRight } from 'lucide-react';
+import { useI18n } from '../lib/i18n';
+
+const KEY_STEP = 0.05;
+// The handle stays clear of the screen edges so it can always be grabbed again.
+const MIN_SPLIT = 0.02;
+const MAX_SPLIT = 0.98;
+
+interface BeforeAfterDividerProps {
+  split: number;
+  onChange: (split: number) => void;
+}
+
+const clampSplit = (value: number) => Math.min(Math.max(value, MIN_SPLIT), MAX_SPLIT);
+
+// The line between the unfinished room (left) and the designed one (right).
+// Its handle is dragged, or moved with the arrow keys.
+export default function BeforeAfterDivider({ split, onChange }: BeforeAfterDividerProps) {
+  const { t } = useI18n();
+  const dragging = useRef(false);
+  const percent = Math.round(split * 100);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const next = {
+      ArrowLeft: split - KEY_STEP,
+      ArrowRight: split + KEY_STEP,
+      Home: MIN_SPLIT,
+      End: MAX_SPLIT,
+    }[e.key];
+    if (next === undefined) return;
+    // Arrow keys also walk the camera; here they only move the line.
+    e.preventDefault();
+    e.stopPropagation();
+    onChange(clampSplit(next));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[6] pointer-events-none">
+      <span className="absolute top-24 left-6 glass-panel px-3 py-1 text-xs tracking-widest text-gray-600">{t.compare.before}</span>
+      <span className="absolute top-24 right-6 glass-panel px-3 py-1 text-xs tracking-widest text-gray-600">{t.compare.after}</span>
+      <div className="absolute top-0 bottom-0 w-0.5 -translate-x-1/2 bg-white/90 shadow" style={{ left: `${split * 100}%` }}>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label={t.compare.divider}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          aria-valuetext={t.compare.position(percent)}
+          onKeyDown={onKeyDown}
+          onPointerDown={e => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragging.current = true;
+          }}
+          onPointerMove={e => dragging.current && onChange(clampSplit(e.clientX / window.innerWidth))}
+          onPointerUp={() => {
+            dragging.current = false;
+          }}
+          onPointerCancel={() => {
+            dragging.current = false;
+          }}
+          className="glass-panel pointer-events-auto absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-11 h-11 !rounded-full flex items-center justify-center text-[var(--color-charcoal)] cursor-ew-resize touch-none interactive"
+        >
+          <ChevronsLeftRight size={18} aria-hidden="true" />
+        </div>
+      </div>
+    </div>
+  );
+}
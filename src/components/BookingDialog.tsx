@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, ArrowRight, CalendarPlus, Check, X } from 'lucide-react';
+import { usePanelFocus } from '../lib/accessibility';
+import { ApiError, apiRequest, postJson } from '../lib/api';
+import {
+  CONSULTATION_TYPES,
+  SHOWROOM_ADDRESS,
+  bookingPath,
+  formatSlotDate,
+  formatSlotTime,
+  validateBooking,
+  type Booking,
+  type BookingErrors,
+  type ConsultationType,
+  type Slot,
+  type SlotDay,
+} from '../lib/bookings';
+import { intlLocale, localizeErrors, useI18n } from '../lib/i18n';
+import { MESSAGE_MAX_LENGTH, PROPERTY_TYPES } from '../lib/leads';
+import { trackConversion } from '../lib/tracking';
+
+interface BookingDialogProps {
+  /** Manage token from a /booking/:token link; null to make a new booking. */
+  token: string | null;
+  onClose: () => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `border rounded-lg p-4 text-left transition-colors interactive ${selected ? 'border-[var(--color-gold)] bg-[var(--color-gold)]/10' : 'border-black/10 hover:border-[var(--color-gold)]/60'}`;
+
+const inputClass = (hasError: boolean) =>
+  `w-full bg-black/5 border ${hasError ? 'border-red-400' : 'border-black/10'} rounded-lg p-3 text-[var(--color-charcoal)] focus:border-[var(--color-gold)] outline-none interactive`;
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-red-500 text-xs mt-1">{message}</p> : null;
+
+const useOpenSlots = (enabled: boolean) => {
+  const { t } = useI18n();
+  const [days, setDays] = useState<SlotDay[] | null>(null);
+  const [error, setError] = useState('');
+  const reload = () => {
+    setDays(null);
+    setError('');
+    apiRequest<{ days: SlotDay[] }>('/api/bookings/slots')
+      .then(result => setDays(result.days))
+      .catch(err => setError(err instanceof ApiError ? err.message : t.booking.timesFailed));
+  };
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled]);
+  return { days, error, reload };
+};
+
+export default function BookingDialog({ token, onClose }: BookingDialogProps) {
+  const dialogRef = usePanelFocus<HTMLDivElement>(onClose, { trap: true });
+  const { t } = useI18n();
+
+  return (
+    <div ref={dialogRef} className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t.booking.label}>
+      <div className="glass-panel bg-white/95 w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 md:p-10 animate-[fadeIn_0.4s_ease-out]">
+        {token ? <ManageBooking token={token} onClose={onClose} /> : <NewBooking onClose={onClose} />}
+      </div>
+    </div>
+  );
+}
+
+function Header({ eyebrow, title, onClose }: { eyebrow: string; title: string; onClose: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="flex justify-between items-start mb-6">
+      <div>
+        <p className="text-xs text-gray-500 uppercase tracking-widest mb-1">{eyebrow}</p>
+        <h2 className="text-3xl font-display text-[var(--color-gold)]">{title}</h2>
+      </div>
+      <button onClick={onClose} className="text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive" aria-label={t.common.close}>
+        <X size={22} />
+      </button>
+    </div>
+  );
+}
+
+// --- New Booking ---
+
+function NewBooking({ onClose }: { onClose: () => void }) {
+  const [step, setStep] = useState(0);
+  const [type, setType] = useState<ConsultationType | null>(null);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [form, setForm] = useState({ name: '', phone: '', propertyType: '', address: '', notes: '' });
+  const [errors, setErrors] = useState<BookingErrors>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [confirmed, setConfirmed] = useState<{ token: string; booking: Booking } | null>(null);
+  const slots = useOpenSlots(step === 1);
+  const { locale, t } = useI18n();
+  const steps = t.booking.steps;
+  const shownErrors = localizeErrors(errors, locale);
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { booking, errors: fieldErrors } = validateBooking({ ...form, type, ...slot });
+    setErrors(fieldErrors);
+    if (!booking) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      setConfirmed(await postJson<{ token: string; booking: Booking }>('/api/bookings', booking));
+      trackConversion('booking');
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : null;
+      setErrors(apiError?.fields ?? {});
+      setError(apiError?.message ?? t.booking.bookFailed);
+      // The slot was taken while the form was open: send the visitor back to pick another.
+      if (apiError?.status === 409) {
+        setSlot(null);
+        setStep(1);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (confirmed) {
+    return (
+      <>
+        <Header eyebrow={t.booking.booked} title={t.booking.seeYou} onClose={onClose} />
+        <BookingSummary booking={confirmed.booking} token={confirmed.token} />
+      </>
+    );
+  }
+
+  const canContinue = [!!type, !!slot, false][step];
+
+  return (
+    <>
+      <Header eyebrow={t.common.step(step + 1, steps.length, steps[step])} title={t.booking.heading} onClose={onClose} />
+
+      <div className="flex space-x-1 mb-8">
+        {steps.map((label, i) => (
+          <div key={label} className={`h-1 flex-1 rounded-full ${i <= step ? 'bg-[var(--color-gold)]' : 'bg-black/10'}`} />
+        ))}
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-4" role="alert">{error}</p>}
+
+      {step === 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CONSULTATION_TYPES.map(option => (
+            <button key={option} onClick={() => setType(option)} className={optionClass(type === option)}>
+              <span className="block font-display text-xl text-[var(--color-charcoal)] mb-1">{t.booking.types[option].label}</span>
+              <span className="block text-xs text-gray-500">{t.booking.types[option].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {step === 1 && <SlotPicker {...slots} value={slot} onChange={setSlot} />}
+
+      {step === 2 && type && slot && (
+        <form onSubmit={submit} noValidate className="space-y-3">
+          <p className="text-sm text-gray-600 mb-4">
+            {t.booking.summary(t.booking.types[type].label, formatSlotDate(slot.date, 'long', intlLocale(locale)), formatSlotTime(slot.time, intlLocale(locale)))}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <input type="text" placeholder={t.form.name} value={form.name} onChange={update('name')} aria-invalid={!!errors.name} className={inputClass(!!errors.name)} />
+              <FieldError message={shownErrors.name} />
+            </div>
+            <div>
+              <input type="tel" placeholder={t.form.phone} value={form.phone} onChange={update('phone')} aria-invalid={!!errors.phone} className={inputClass(!!errors.phone)} />
+              <FieldError message={shownErrors.phone} />
+            </div>
+          </div>
+          <div>
+            <select value={form.propertyType} onChange={update('propertyType')} aria-invalid={!!errors.propertyType} aria-label={t.form.propertyType} className={inputClass(!!errors.propertyType)}>
+              <option value="">{t.form.propertyType}</option>
+              {PROPERTY_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+            <FieldError message={shownErrors.propertyType} />
+          </div>
+          {type === 'site-visit' && (
+            <div>
+              <textarea placeholder={t.booking.address} rows={2} value={form.address} onChange={update('address')} aria-invalid={!!errors.address} className={inputClass(!!errors.address)} />
+              <FieldError message={shownErrors.address} />
+            </div>
+          )}
+          <div>
+            <textarea placeholder={t.booking.notes} rows={3} maxLength={MESSAGE_MAX_LENGTH} value={form.notes} onChange={update('notes')} aria-invalid={!!errors.notes} className={inputClass(!!errors.notes)} />
+            <FieldError message={shownErrors.notes} />
+          </div>
+          <button type="submit" disabled={saving} className="w-full bg-[var(--color-gold)] text-[var(--color-charcoal)] font-bold py-3 rounded-lg hover:bg-black hover:text-white transition-colors interactive disabled:opacity-60">
+            {saving ? t.booking.booking : t.booking.confirm}
+          </button>
+        </form>
+      )}
+
+      <div className="flex justify-between mt-10">
+        <button onClick={() => setStep(step - 1)} disabled={step === 0} className="flex items-center space-x-2 text-sm text-gray-500 disabled:opacity-0 interactive">
+          <ArrowLeft size={16} /><span>{t.common.back}</span>
+        </button>
+        {step < steps.length - 1 && (
+          <button onClick={() => setStep(step + 1)} disabled={!canContinue} className="flex items-center space-x-2 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive disabled:opacity-40 disabled:hover:bg-[var(--color-gold)] disabled:hover:text-[var(--color-charcoal)]">
+            <span>{t.common.next}</span><ArrowRight size={16} />
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
+// --- Slot Picker ---
+
+interface SlotPickerProps {
+  days: SlotDay[] | null;
+  error: string;
+  value: Slot | null;
+  onChange: (slot: Slot) => void;
+}
+
+function SlotPicker({ days, error, value, onChange }: SlotPickerProps) {
+  const openDays = days?.filter(day => day.times.length > 0) ?? [];
+  const [date, setDate] = useState(value?.date ?? '');
+  const selectedDay = openDays.find(day => day.date === date) ?? openDays[0];
+  const { locale, t } = useI18n();
+
+  if (error) return <p className="text-red-500 text-sm" role="alert">{error}</p>;
+  if (!days) return <p className="text-gray-500 animate-pulse tracking-widest text-sm">{t.booking.loadingTimes}</p>;
+  if (!selectedDay) {
+    return <p className="text-gray-600 font-light">{t.booking.fullyBooked}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2 overflow-x-auto pb-2" role="radiogroup" aria-label={t.booking.date}>
+        {openDays.map(day => (
+          <button
+            key={day.date}
+            role="radio"
+            aria-checked={day.date === selectedDay.date}
+            onClick={() => setDate(day.date)}
+            className={`shrink-0 px-4 py-2 rounded-full border text-sm whitespace-nowrap interactive ${day.date === selectedDay.date ? 'border-[var(--color-gold)] bg-[var(--color-gold)]/10 text-[var(--color-charcoal)]' : 'border-black/10 text-gray-500'}`}
+          >
+            {formatSlotDate(day.date, 'short', intlLocale(locale))}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 md:grid-cols-4 gap-2" role="radiogroup" aria-label={t.booking.time}>
+        {selectedDay.times.map(time => {
+          const selected = value?.date === selectedDay.date && value.time === time;
+          return (
+            <button key={time} role="radio" aria-checked={selected} onClick={() => onChange({ date: selectedDay.date, time })} className={optionClass(selected)}>
+              <span className="block text-center text-[var(--color-charcoal)]">{formatSlotTime(time, intlLocale(locale))}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// --- Confirmation ---
+
+function BookingSummary({ booking, token }: { booking: Booking; token: string }) {
+  const manageUrl = `${window.location.origin}${bookingPath(token)}`;
+  const cancelled = booking.status === 'cancelled';
+  const { locale, t } = useI18n();
+  return (
+    <div className="space-y-6" role="status">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+        <dt className="text-gray-500">{t.booking.reference}</dt>
+        <dd className="font-bold text-[var(--color-gold)]">{booking.reference}{cancelled && <span className="ml-2 text-xs text-red-500 uppercase tracking-widest">{t.booking.cancelled}</span>}</dd>
+        <dt className="text-gray-500">{t.booking.consultation}</dt>
+        <dd>{t.booking.with(t.booking.types[booking.type].label, booking.designer)}</dd>
+        <dt className="text-gray-500">{t.booking.when}</dt>
+        <dd>{formatSlotDate(booking.date, 'long', intlLocale(locale))}, {formatSlotTime(booking.time, intlLocale(locale))}</dd>
+        <dt className="text-gray-500">{t.booking.where}</dt>
+        <dd>{booking.type === 'site-visit' ? booking.address : SHOWROOM_ADDRESS}</dd>
+      </dl>
+      {!cancelled && (
+        <>
+          <a href={`/api/bookings/${token}/calendar.ics`} download className="inline-flex items-center space-x-2 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive">
+            <CalendarPlus size={16} />
+            <span>{t.booking.addToCalendar}</span>
+          </a>
+          <label className="block text-sm text-gray-600">
+            {t.booking.keepLink}
+            <input readOnly value={manageUrl} onFocus={e => e.target.select()} className="mt-2 w-full bg-black/5 border border-black/10 rounded-lg p-3 text-xs text-[var(--color-charcoal)] outline-none interactive" />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+// --- Manage Booking ---
+
+function ManageBooking({ token, onClose }: { token: string; onClose: () => void }) {
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [error, setError] = useState('');
+  const [rescheduling, setRescheduling] = useState(false);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [pending, setPending] = useState(false);
+  const slots = useOpenSlots(rescheduling);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    apiRequest<{ booking: Booking }>(`/api/bookings/${token}`)
+      .then(result => setBooking(result.booking))
+      .catch(err => setError(err instanceof ApiError ? err.message : t.booking.loadFailed));
+  }, [token]);
+
+  const change = async (init: RequestInit) => {
+    setPending(true);
+    setError('');
+    try {
+      const result = await apiRequest<{ booking: Booking }>(`/api/bookings/${token}`, init);
+      setBooking(result.booking);
+      setRescheduling(false);
+      setSlot(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t.booking.updateFailed);
+      if (err instanceof ApiError && err.status === 409) slots.reload();
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const cancel = () => {
+    if (window.confirm(t.booking.confirmCancel)) change({ method: 'DELETE' });
+  };
+
+  return (
+    <>
+      <Header eyebrow={t.booking.yourBooking} title={rescheduling ? t.booking.pickNewTime : t.booking.details} onClose={onClose} />
+      {error && <p className="text-red-500 text-sm mb-4" role="alert">{error}</p>}
+      {!booking && !error && <p className="text-gray-500 animate-pulse tracking-widest text-sm">{t.booking.loading}</p>}
+
+      {booking && !rescheduling && (
+        <>
+          <BookingSummary booking={booking} token={token} />
+          {booking.status === 'confirmed' && (
+            <div className="flex flex-wrap gap-4 mt-8">
+              <button onClick={() => setRescheduling(true)} className="border border-[var(--color-gold)] text-[var(--color-gold)] px-6 py-2 rounded-full text-sm hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive">
+                {t.booking.reschedule}
+              </button>
+              <button onClick={cancel} disabled={pending} className="text-sm text-gray-500 hover:text-red-500 transition-colors interactive disabled:opacity-60">
+                {t.booking.cancel}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {booking && rescheduling && (
+        <>
+          <SlotPicker {...slots} value={slot} onChange={setSlot} />
+          <div className="flex justify-between mt-10">
+            <button onClick={() => setRescheduling(false)} className="flex items-center space-x-2 text-sm text-gray-500 interactive">
+              <ArrowLeft size={16} /><span>{t.common.back}</span>
+            </button>
+            <button onClick={() => change({ method: 'PUT', body: JSON.stringify(slot) })} disabled={!slot || pending} className="flex items-center space-x-2 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive disabled:opacity-40">
+              <Check size={16} /><span>{pending ? t.booking.saving : t.booking.confirmNewTime}</span>
+            </button>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
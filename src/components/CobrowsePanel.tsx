@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Crown } from 'lucide-react';
+import { SESSION_PARAM } from '../lib/cobrowse';
+import type { CobrowseSession } from '../lib/cobrowseClient';
+import { useI18n } from '../lib/i18n';
+import { ROLE_COLORS } from './CobrowsePointers';
+
+const PILL_CLASS = 'px-3 py-1 rounded-full border border-black/10 hover:border-[var(--color-gold)] disabled:opacity-40 transition-colors interactive';
+const GOLD_PILL_CLASS = 'px-4 py-1 rounded-full border border-[var(--color-gold)] bg-[var(--color-gold)] text-[var(--color-charcoal)] disabled:opacity-40 transition-opacity interactive';
+
+export default function CobrowsePanel({ session }: { session: CobrowseSession }) {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [pending, setPending] = useState<'start' | 'join' | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const run = async (action: 'start' | 'join') => {
+    setPending(action);
+    await (action === 'start' ? session.start() : session.join(code));
+    setPending(null);
+  };
+
+  const copyLink = async () => {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(SESSION_PARAM, session.code!);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // The code itself is on screen to read out instead.
+    }
+  };
+
+  if (!session.code) {
+    return (
+      <div className="glass-panel px-4 py-3 w-[min(28rem,calc(100vw-2rem))] text-xs tracking-widest text-gray-600 animate-[fadeIn_0.4s_ease-out]" role="group" aria-label={t.cobrowse.label}>
+        <p className="text-center normal-case tracking-normal mb-3">{t.cobrowse.intro}</p>
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            run('join');
+          }}
+          className="flex flex-wrap items-center justify-center gap-2 mb-3"
+        >
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase())}
+            placeholder={t.cobrowse.code}
+            aria-label={t.cobrowse.code}
+            maxLength={8}
+            autoCapitalize="characters"
+            spellCheck={false}
+            className="w-36 px-3 py-1 rounded-full border border-black/10 bg-white/70 text-center tracking-[0.3em] interactive"
+          />
+          <button type="submit" disabled={!!pending || !code.trim()} className={PILL_CLASS}>
+            {pending === 'join' ? t.cobrowse.joining : t.cobrowse.join}
+          </button>
+        </form>
+        <div className="flex justify-center">
+          <button onClick={() => run('start')} disabled={!!pending} className={GOLD_PILL_CLASS}>
+            {pending === 'start' ? t.cobrowse.starting : t.cobrowse.start}
+          </button>
+        </div>
+        {session.error && <p className="text-center text-red-600 normal-case tracking-normal mt-3" role="alert">{t.cobrowse[session.error]}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-panel px-4 py-3 w-[min(28rem,calc(100vw-2rem))] text-xs tracking-widest text-gray-600 animate-[fadeIn_0.4s_ease-out]" role="group" aria-label={t.cobrowse.label}>
+      <div className="flex flex-wrap items-center justify-center gap-3 mb-3">
+        <span className="font-display text-xl tracking-[0.3em] text-[var(--color-charcoal)]" aria-label={`${t.cobrowse.code}: ${session.code.split('').join(' ')}`}>
+          {session.code}
+        </span>
+        {session.role === 'designer' && (
+          <button onClick={copyLink} className={PILL_CLASS}>{copied ? t.cobrowse.copied : t.cobrowse.copyLink}</button>
+        )}
+      </div>
+      {session.role === 'designer' && session.participants.length < 2 && (
+        <p className="text-center normal-case tracking-normal mb-3">{t.cobrowse.share}</p>
+      )}
+      {session.status !== 'connected' && (
+        <p className="text-center mb-3" role="status">{session.status === 'reconnecting' ? t.cobrowse.reconnecting : t.cobrowse.connecting}</p>
+      )}
+
+      <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1 mb-3 normal-case tracking-normal" aria-label={t.cobrowse.inSession(session.participants.length)}>
+        {session.participants.map(participant => (
+          <li key={participant.id} className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full" style={{ background: ROLE_COLORS[participant.role] }} aria-hidden="true" />
+            <span className="text-[var(--color-charcoal)]">{t.cobrowse.roles[participant.role]}</span>
+            {participant.id === session.selfId && <span>({t.cobrowse.you})</span>}
+            {participant.id === session.leaderId ? (
+              <span className="flex items-center gap-0.5 text-[var(--color-gold)]">
+                <Crown size={12} aria-hidden="true" /> {t.cobrowse.leading}
+              </span>
+            ) : session.role === 'designer' && participant.id !== session.selfId && (
+              <button onClick={() => session.handOver(participant.id)} disabled={session.status !== 'connected'} className="underline hover:text-[var(--color-gold)] disabled:opacity-40 interactive">
+                {t.cobrowse.handOver}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        {session.isLeader ? (
+          <span className="text-[var(--color-gold)]">{t.cobrowse.youLead}</span>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 normal-case tracking-normal interactive">
+              <input type="checkbox" checked={session.following} onChange={e => session.setFollowing(e.target.checked)} className="accent-[var(--color-gold)]" />
+              {t.cobrowse.follow}
+            </label>
+            {session.canLead && (
+              <button onClick={session.takeLead} disabled={session.status !== 'connected'} className={PILL_CLASS}>{t.cobrowse.takeLead}</button>
+            )}
+          </>
+        )}
+        <button onClick={session.leave} className={PILL_CLASS}>{t.cobrowse.leave}</button>
+      </div>
+    </div>
+  );
+}
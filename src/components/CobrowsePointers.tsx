@@ -0,0 +1,39 @@
+import React from 'react';
+import type { CobrowseRole, Participant, Pointer } from '../lib/cobrowse';
+import { useI18n } from '../lib/i18n';
+
+export const ROLE_COLORS: Record<CobrowseRole, string> = {
+  designer: 'var(--color-gold)',
+  client: '#0d9488',
+};
+
+interface CobrowsePointersProps {
+  participants: Participant[];
+  pointers: Record<string, NonNullable<Pointer>>;
+}
+
+// Where everyone else in a shared session is pointing, placed by viewport fractions.
+export default function CobrowsePointers({ participants, pointers }: CobrowsePointersProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[60] pointer-events-none" aria-hidden="true">
+      {participants.map(participant => {
+        const pointer = pointers[participant.id];
+        if (!pointer) return null;
+        return (
+          <div
+            key={participant.id}
+            className="absolute transition-transform duration-100 ease-linear"
+            style={{ transform: `translate(${pointer.x * 100}vw, ${pointer.y * 100}vh)` }}
+          >
+            <span className="block w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow" style={{ background: ROLE_COLORS[participant.role] }} />
+            <span className="block mt-1 px-2 py-0.5 rounded-full text-[10px] tracking-widest text-white whitespace-nowrap" style={{ background: ROLE_COLORS[participant.role] }}>
+              {t.cobrowse.roles[participant.role].toUpperCase()}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
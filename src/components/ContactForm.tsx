@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { ApiError, postJson } from '../lib/api';
+import { localizeErrors, useI18n } from '../lib/i18n';
+import { MESSAGE_MAX_LENGTH, PROPERTY_TYPES, validateLead, type LeadErrors, type LeadField } from '../lib/leads';
+import { trackConversion } from '../lib/tracking';
+
+type Status = 'idle' | 'submitting' | 'success' | 'error';
+
+const EMPTY_FORM: Record<LeadField, string> = { name: '', phone: '', propertyType: '', message: '' };
+
+const fieldClass = (hasError: boolean) =>
+  `w-full bg-black/5 border ${hasError ? 'border-red-400' : 'border-black/10'} rounded-lg p-4 focus:border-[var(--color-gold)] outline-none transition-colors interactive`;
+
+const FieldError = ({ id, message }: { id: string; message?: string }) =>
+  message ? <p id={id} className="text-red-500 text-xs mt-1">{message}</p> : null;
+
+export default function ContactForm() {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<LeadErrors>({});
+  const [status, setStatus] = useState<Status>('idle');
+  const [statusMessage, setStatusMessage] = useState('');
+  const { locale, t } = useI18n();
+  const shownErrors = localizeErrors(errors, locale);
+
+  const update = (field: LeadField) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { lead, errors: fieldErrors } = validateLead(form);
+    setErrors(fieldErrors);
+    if (!lead) return;
+
+    setStatus('submitting');
+    try {
+      await postJson('/api/leads', lead);
+      trackConversion('contact');
+      setStatus('success');
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : null;
+      setErrors(apiError?.fields ?? {});
+      setStatusMessage(apiError?.message ?? t.form.genericError);
+      setStatus('error');
+    }
+  };
+
+  if (status === 'success') {
+    return (
+      <div className="flex flex-col items-center justify-center text-center space-y-4 py-12" role="status">
+        <div className="w-14 h-14 rounded-full bg-[var(--color-gold)]/20 flex items-center justify-center text-[var(--color-gold)]"><Check size={28} /></div>
+        <h3 className="text-2xl font-display text-[var(--color-charcoal)]">{t.form.thanks}</h3>
+        <p className="text-gray-600 font-light">{t.form.callback}</p>
+        <button type="button" onClick={() => setStatus('idle')} className="text-sm text-[var(--color-gold)] underline interactive">
+          {t.form.another}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+      <div>
+        <input type="text" placeholder={t.form.name} value={form.name} onChange={update('name')} aria-invalid={!!errors.name} aria-describedby="lead-name-error" className={`${fieldClass(!!errors.name)} text-[var(--color-charcoal)]`} />
+        <FieldError id="lead-name-error" message={shownErrors.name} />
+      </div>
+      <div>
+        <input type="tel" placeholder={t.form.phone} value={form.phone} onChange={update('phone')} aria-invalid={!!errors.phone} aria-describedby="lead-phone-error" className={`${fieldClass(!!errors.phone)} text-[var(--color-charcoal)]`} />
+        <FieldError id="lead-phone-error" message={shownErrors.phone} />
+      </div>
+      <div>
+        <select value={form.propertyType} onChange={update('propertyType')} aria-invalid={!!errors.propertyType} aria-describedby="lead-property-error" className={`${fieldClass(!!errors.propertyType)} ${form.propertyType ? 'text-[var(--color-charcoal)]' : 'text-gray-500'}`}>
+          <option value="">{t.form.propertyType}</option>
+          {PROPERTY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <FieldError id="lead-property-error" message={shownErrors.propertyType} />
+      </div>
+      <div>
+        <textarea placeholder={t.form.message} rows={4} maxLength={MESSAGE_MAX_LENGTH} value={form.message} onChange={update('message')} aria-invalid={!!errors.message} aria-describedby="lead-message-error" className={`${fieldClass(!!errors.message)} text-[var(--color-charcoal)]`}></textarea>
+        <FieldError id="lead-message-error" message={shownErrors.message} />
+      </div>
+
+      {status === 'error' && (
+        <p className="text-red-500 text-sm" role="alert">{statusMessage}</p>
+      )}
+
+      <button type="submit" disabled={status === 'submitting'} className="w-full bg-[var(--color-gold)] text-[var(--color-charcoal)] font-bold py-4 rounded-lg hover:bg-black hover:text-white transition-colors interactive disabled:opacity-60 disabled:cursor-wait">
+        {status === 'submitting' ? t.form.submitting : t.form.submit}
+      </button>
+    </form>
+  );
+}
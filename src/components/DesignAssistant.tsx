@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eye, RotateCcw, Send, Sparkles, X } from 'lucide-react';
+import { usePanelFocus } from '../lib/accessibility';
+import { ApiError, postJson } from '../lib/api';
+import { MAX_CHAT_MESSAGES, MAX_MESSAGE_LENGTH, type AssistantReply, type ChatMessage, type DesignSuggestion } from '../lib/assistant';
+import { useI18n } from '../lib/i18n';
+import { FINISH_PALETTES, FINISH_SLOTS } from '../scene/finishes';
+
+interface AssistantMessage extends ChatMessage {
+  suggestion?: DesignSuggestion | null;
+  roomId?: string;
+}
+
+interface DesignAssistantProps {
+  projectSlug?: string;
+  roomId: string;
+  roomName: string;
+  onPreview: (roomId: string, suggestion: DesignSuggestion) => void;
+  onRevert: () => void;
+  onClose: () => void;
+}
+
+export default function DesignAssistant({ projectSlug, roomId, roomName, onPreview, onRevert, onClose }: DesignAssistantProps) {
+  const { t } = useI18n();
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState('');
+  const [previewed, setPreviewed] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const panelRef = usePanelFocus<HTMLElement>(onClose);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, pending]);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = draft.trim();
+    if (!content || pending) return;
+
+    const next = [...messages, { role: 'user' as const, content }];
+    setMessages(next);
+    setDraft('');
+    setError('');
+    setPending(true);
+    try {
+      const history = next.slice(-MAX_CHAT_MESSAGES).map(({ role, content }) => ({ role, content }));
+      const result = await postJson<AssistantReply & { roomId: string }>('/api/assistant/chat', { messages: history, roomId, projectSlug });
+      setMessages(prev => [...prev, { role: 'assistant', content: result.reply, suggestion: result.suggestion, roomId: result.roomId }]);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t.form.genericError);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const togglePreview = (index: number, message: AssistantMessage) => {
+    if (previewed === index) {
+      onRevert();
+      setPreviewed(null);
+    } else if (message.suggestion && message.roomId) {
+      onPreview(message.roomId, message.suggestion);
+      setPreviewed(index);
+    }
+  };
+
+  return (
+    <aside ref={panelRef} className="fixed right-4 md:right-8 bottom-28 z-40 w-[calc(100%-2rem)] max-w-sm h-[min(32rem,calc(100vh-10rem))] glass-panel bg-white/90 flex flex-col animate-[fadeIn_0.4s_ease-out]" aria-label={t.assistant.heading}>
+      <div className="flex justify-between items-center px-5 py-4 border-b border-black/10">
+        <div className="flex items-center space-x-2">
+          <Sparkles size={18} className="text-[var(--color-gold)]" />
+          <div>
+            <h3 className="font-display text-lg text-[var(--color-charcoal)] leading-tight">{t.assistant.heading}</h3>
+            <p className="text-[10px] text-gray-500 tracking-widest uppercase">{roomName}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive" aria-label={t.common.close}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-5 py-4 space-y-4" aria-live="polite">
+        {/* The greeting is local UI only and follows the visitor's language */}
+        <div>
+          <p className="inline-block text-sm rounded-2xl px-4 py-2 max-w-[90%] bg-black/5 text-gray-700">{t.assistant.greeting}</p>
+        </div>
+        {messages.map((message, i) => (
+          <div key={i} className={message.role === 'user' ? 'text-right' : ''}>
+            <p className={`inline-block text-sm rounded-2xl px-4 py-2 max-w-[90%] text-left ${message.role === 'user' ? 'bg-[var(--color-gold)]/20 text-[var(--color-charcoal)]' : 'bg-black/5 text-gray-700'}`}>
+              {message.content}
+            </p>
+            {message.suggestion && (
+              <div className="mt-2 border border-black/10 rounded-lg p-3 text-xs space-y-2">
+                <p className="font-display text-base text-[var(--color-charcoal)]">{message.suggestion.title}</p>
+                <div className="flex flex-wrap gap-2">
+                  {FINISH_SLOTS.filter(({ slot }) => message.suggestion!.finishes[slot]).map(({ slot }) => {
+                    const option = FINISH_PALETTES[slot].find(o => o.id === message.suggestion!.finishes[slot]);
+                    return (
+                      <span key={slot} className="flex items-center space-x-1 text-gray-600" title={t.finishes.slots[slot]}>
+                        <span className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: option?.color }} />
+                        <span>{option?.name}</span>
+                      </span>
+                    );
+                  })}
+                </div>
+                {message.suggestion.layoutTips.length > 0 && (
+                  <ul className="list-disc pl-4 text-gray-600 space-y-1">
+                    {message.suggestion.layoutTips.map((tip, n) => <li key={n}>{tip}</li>)}
+                  </ul>
+                )}
+                {Object.keys(message.suggestion.finishes).length > 0 && (
+                  <button onClick={() => togglePreview(i, message)} className="flex items-center space-x-1 text-[var(--color-gold)] font-medium interactive">
+                    {previewed === i ? <RotateCcw size={12} /> : <Eye size={12} />}
+                    <span>{previewed === i ? t.assistant.undoPreview : t.assistant.preview}</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {pending && <p className="text-xs text-gray-400 tracking-widest animate-pulse">{t.assistant.thinking}</p>}
+        {error && <p className="text-xs text-red-500" role="alert">{error}</p>}
+      </div>
+
+      <form onSubmit={send} className="flex items-center border-t border-black/10 px-3 py-3 space-x-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder={t.assistant.placeholder}
+          aria-label={t.assistant.message}
+          className="flex-1 bg-black/5 border border-black/10 rounded-full px-4 py-2 text-sm focus:border-[var(--color-gold)] outline-none interactive"
+        />
+        <button type="submit" disabled={pending || !draft.trim()} className="w-9 h-9 rounded-full bg-[var(--color-gold)] text-[var(--color-charcoal)] flex items-center justify-center disabled:opacity-40 interactive" aria-label={t.assistant.send}>
+          <Send size={16} />
+        </button>
+      </form>
+    </aside>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Check, Link2, RotateCcw, X } from 'lucide-react';
+import { usePanelFocus } from '../lib/accessibility';
+import { useI18n } from '../lib/i18n';
+import { FINISH_PALETTES, FINISH_SLOTS, type FinishConfig, type FinishSlot } from '../scene/finishes';
+
+interface FinishConfiguratorProps {
+  rooms: { id: string; name: string }[];
+  roomId: string;
+  onRoomChange: (roomId: string) => void;
+  slots: FinishSlot[];
+  config: FinishConfig;
+  onChange: (roomId: string, slot: FinishSlot, finishId: string | undefined) => void;
+  onClose: () => void;
+}
+
+export default function FinishConfigurator({ rooms, roomId, onRoomChange, slots, config, onChange, onClose }: FinishConfiguratorProps) {
+  const [copied, setCopied] = useState(false);
+  const choices = config[roomId] ?? {};
+  const panelRef = usePanelFocus<HTMLElement>(onClose);
+  const { t } = useI18n();
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt(t.finishes.copyPrompt, window.location.href);
+    }
+  };
+
+  return (
+    <aside ref={panelRef} className="fixed left-4 md:left-8 top-24 z-40 w-[calc(100%-2rem)] max-w-xs max-h-[calc(100vh-12rem)] overflow-y-auto glass-panel p-6 animate-[fadeIn_0.4s_ease-out]" aria-label={t.finishes.label}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-display text-[var(--color-charcoal)]">{t.finishes.heading}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive" aria-label={t.common.close}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <select
+        value={roomId}
+        onChange={e => onRoomChange(e.target.value)}
+        className="w-full bg-black/5 border border-black/10 rounded-lg p-3 mb-6 text-sm text-[var(--color-charcoal)] focus:border-[var(--color-gold)] outline-none interactive"
+      >
+        {rooms.map(room => <option key={room.id} value={room.id}>{room.name}</option>)}
+      </select>
+
+      <div className="space-y-5 mb-6">
+        {FINISH_SLOTS.filter(({ slot }) => slots.includes(slot)).map(({ slot }) => {
+          const selected = FINISH_PALETTES[slot].find(option => option.id === choices[slot]);
+          return (
+            <div key={slot}>
+              <div className="flex justify-between items-baseline mb-2">
+                <p className="text-xs text-gray-500 uppercase tracking-widest">{t.finishes.slots[slot]}</p>
+                <p className="text-xs text-[var(--color-charcoal)]">{selected?.name ?? t.finishes.asDesigned}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => onChange(roomId, slot, undefined)}
+                  title={t.finishes.asDesigned}
+                  aria-pressed={!selected}
+                  className={`w-8 h-8 rounded-full border flex items-center justify-center text-gray-500 interactive ${!selected ? 'border-[var(--color-gold)] ring-2 ring-[var(--color-gold)]/40' : 'border-black/10'}`}
+                >
+                  <RotateCcw size={12} />
+                </button>
+                {FINISH_PALETTES[slot].map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => onChange(roomId, slot, option.id)}
+                    title={option.name}
+                    aria-pressed={selected?.id === option.id}
+                    className={`w-8 h-8 rounded-full border interactive ${selected?.id === option.id ? 'border-[var(--color-gold)] ring-2 ring-[var(--color-gold)]/40' : 'border-black/10'}`}
+                    style={{ backgroundColor: option.color }}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={copyLink}
+        className="w-full flex items-center justify-center space-x-2 border border-[var(--color-gold)] text-[var(--color-gold)] py-2 rounded-full text-xs tracking-widest hover:bg-[var(--color-gold)] hover:text-[var(--color-charcoal)] transition-all interactive"
+      >
+        {copied ? <Check size={14} /> : <Link2 size={14} />}
+        <span>{copied ? t.finishes.linkCopied : t.finishes.copyLink}</span>
+      </button>
+    </aside>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Map as MapIcon } from 'lucide-react';
+import { useI18n } from '../lib/i18n';
+import type { RoomDefinition } from '../scene/types';
+
+interface FloorPlanMinimapProps {
+  rooms: RoomDefinition[];
+  currentRoomId: string;
+  /** Rooms the tour path stops in; only these can be clicked. */
+  tourRoomIds: string[];
+  onSelectRoom: (roomId: string) => void;
+  disabled: boolean;
+  /** The scene's render loop moves this marker to the camera, so it never re-renders React. */
+  markerRef: React.RefObject<SVGGElement | null>;
+}
+
+const PADDING = 0.6; // metres around the outermost walls
+
+// Room names read "The Living Room" etc.; the plan is small, so drop the article.
+const shortName = (name: string) => name.replace(/^the\s+/i, '');
+
+/**
+ * Top-down plan of the apartment drawn from the room footprints (x → right,
+ * z → down, in metres), with a live camera marker and click-to-visit rooms.
+ */
+export default function FloorPlanMinimap({ rooms, currentRoomId, tourRoomIds, onSelectRoom, disabled, markerRef }: FloorPlanMinimapProps) {
+  // Starts collapsed on phones, where it would cover the tour.
+  const [isOpen, setIsOpen] = useState(() => !window.matchMedia('(max-width: 767px)').matches);
+  const { t } = useI18n();
+
+  const left = Math.min(...rooms.map(room => room.position.x - room.size.width / 2)) - PADDING;
+  const right = Math.max(...rooms.map(room => room.position.x + room.size.width / 2)) + PADDING;
+  const top = Math.min(...rooms.map(room => room.position.z - room.size.depth / 2)) - PADDING;
+  const bottom = Math.max(...rooms.map(room => room.position.z + room.size.depth / 2)) + PADDING;
+
+  const visit = (room: RoomDefinition) => {
+    if (!disabled && tourRoomIds.includes(room.id)) onSelectRoom(room.id);
+  };
+
+  return (
+    <aside className="fixed right-4 md:right-8 top-24 z-30 w-40 md:w-48 glass-panel p-3 animate-[fadeIn_0.4s_ease-out]" aria-label={t.minimap.label}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-[10px] tracking-widest text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive"
+        aria-expanded={isOpen}
+        aria-controls="floor-plan"
+      >
+        <span className="flex items-center space-x-2">
+          <MapIcon size={12} />
+          <span>{t.minimap.title}</span>
+        </span>
+        {isOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+      </button>
+
+      {isOpen && (
+        <svg
+          id="floor-plan"
+          viewBox={`${left} ${top} ${right - left} ${bottom - top}`}
+          className="mt-3 w-full max-h-64"
+          role="group"
+          aria-label={t.minimap.rooms}
+        >
+          {rooms.map(room => {
+            const current = room.id === currentRoomId;
+            const enabled = !disabled && tourRoomIds.includes(room.id);
+            return (
+              <g
+                key={room.id}
+                role="button"
+                tabIndex={enabled ? 0 : -1}
+                aria-label={t.minimap.goTo(room.name)}
+                aria-current={current ? 'location' : undefined}
+                aria-disabled={!enabled}
+                onClick={() => visit(room)}
+                onKeyDown={e => {
+                  if (e.key !== 'Enter' && e.key !== ' ') return;
+                  e.preventDefault();
+                  visit(room);
+                }}
+                className={enabled ? 'cursor-pointer interactive outline-none focus-visible:[&>rect]:stroke-[var(--color-charcoal)]' : ''}
+              >
+                <title>{room.name}</title>
+                <rect
+                  x={room.position.x - room.size.width / 2}
+                  y={room.position.z - room.size.depth / 2}
+                  width={room.size.width}
+                  height={room.size.depth}
+                  fill={current ? 'rgba(201, 169, 110, 0.35)' : 'rgba(255, 255, 255, 0.6)'}
+                  stroke="var(--color-gold)"
+                  strokeWidth={0.12}
+                  className="transition-colors"
+                />
+                <text
+                  x={room.position.x}
+                  y={room.position.z}
+                  fontSize={0.6}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                  fill="var(--color-charcoal)"
+                  className="pointer-events-none select-none"
+                >
+                  {shortName(room.name)}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Camera marker: a view cone pointing along +x, rotated by the render loop */}
+          <g ref={markerRef} className="pointer-events-none" aria-hidden="true">
+            <path d="M0 0 L2 -1.1 A2.3 2.3 0 0 1 2 1.1 Z" fill="rgba(201, 169, 110, 0.45)" />
+            <circle r={0.4} fill="var(--color-charcoal)" stroke="#fff" strokeWidth={0.12} />
+          </g>
+        </svg>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { LOCALES, LOCALE_NAMES, useI18n } from '../lib/i18n';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// Each language is named in itself, so visitors can find theirs whatever is showing.
+export default function LanguageSwitcher({ className = '' }: LanguageSwitcherProps) {
+  const { locale, t, setLocale } = useI18n();
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`} role="group" aria-label={t.nav.language}>
+      {LOCALES.map(code => (
+        <button
+          key={code}
+          lang={code}
+          onClick={() => setLocale(code)}
+          aria-pressed={locale === code}
+          className={`transition-colors interactive ${locale === code ? 'text-[var(--color-gold)]' : 'hover:text-[var(--color-gold)]'}`}
+        >
+          {LOCALE_NAMES[code]}
+        </button>
+      ))}
+    </div>
+  );
+}
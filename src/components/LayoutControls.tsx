@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Redo2, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+import { useI18n } from '../lib/i18n';
+import { FURNITURE_CATALOGUE, type CatalogueEntry } from '../scene/catalogue';
+import type { LayoutEditorStatus } from '../scene/layoutEditor';
+
+interface LayoutControlsProps {
+  status: LayoutEditorStatus;
+  onAdd: (entry: CatalogueEntry) => void;
+  onRotate: (degrees: number) => void;
+  onRemove: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Saves the layout and resolves with the link that opens it. */
+  onSave: () => Promise<string>;
+}
+
+const PILL_CLASS = 'px-3 py-1 rounded-full border border-black/10 hover:border-[var(--color-gold)] disabled:opacity-40 disabled:hover:border-black/10 transition-colors interactive';
+
+export default function LayoutControls({ status, onAdd, onRotate, onRemove, onUndo, onRedo, onSave }: LayoutControlsProps) {
+  const { t } = useI18n();
+  const [entryId, setEntryId] = useState(FURNITURE_CATALOGUE[0].id);
+  const [saving, setSaving] = useState(false);
+  const [savedUrl, setSavedUrl] = useState('');
+  const [error, setError] = useState('');
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      setSavedUrl(await onSave());
+    } catch {
+      setError(t.layout.saveFailed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel px-4 py-3 w-[min(34rem,calc(100vw-2rem))] text-xs tracking-widest text-gray-600 animate-[fadeIn_0.4s_ease-out]" role="group" aria-label={t.layout.label}>
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-3">
+        <select
+          value={entryId}
+          onChange={e => setEntryId(e.target.value as CatalogueEntry['id'])}
+          aria-label={t.layout.piece}
+          className="px-3 py-1 rounded-full border border-black/10 bg-white/70 interactive"
+        >
+          {FURNITURE_CATALOGUE.map(entry => (
+            <option key={entry.id} value={entry.id}>{t.layout.catalogue[entry.id]}</option>
+          ))}
+        </select>
+        <button onClick={() => onAdd(FURNITURE_CATALOGUE.find(entry => entry.id === entryId)!)} className={PILL_CLASS}>
+          {t.layout.add}
+        </button>
+        <span className="w-px h-5 bg-black/10" aria-hidden="true" />
+        <button onClick={onUndo} disabled={!status.canUndo} className={PILL_CLASS} aria-label={t.layout.undo} title={`${t.layout.undo} (Ctrl + Z)`}>
+          <Undo2 size={14} />
+        </button>
+        <button onClick={onRedo} disabled={!status.canRedo} className={PILL_CLASS} aria-label={t.layout.redo} title={`${t.layout.redo} (Ctrl + Shift + Z)`}>
+          <Redo2 size={14} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 mb-3">
+        <span className="text-[var(--color-charcoal)]" aria-live="polite">
+          {status.selected ? t.layout.selected(status.selected) : t.layout.nothingSelected}
+        </span>
+        <button onClick={() => onRotate(90)} disabled={!status.selected} className={`${PILL_CLASS} flex items-center gap-1`} aria-keyshortcuts="R">
+          <RotateCcw size={12} />
+          <span>{t.layout.rotate}</span>
+        </button>
+        <button onClick={() => onRotate(15)} disabled={!status.selected} className={PILL_CLASS} aria-keyshortcuts="Shift+R">
+          {t.layout.rotateFine}
+        </button>
+        <button onClick={onRemove} disabled={!status.selected} className={`${PILL_CLASS} flex items-center gap-1`} aria-keyshortcuts="Delete">
+          <Trash2 size={12} />
+          <span>{t.layout.remove}</span>
+        </button>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <button
+          onClick={save}
+          disabled={saving || !status.changed}
+          className="px-4 py-1 rounded-full border border-[var(--color-gold)] bg-[var(--color-gold)] text-[var(--color-charcoal)] disabled:opacity-40 transition-opacity interactive"
+        >
+          {saving ? t.layout.saving : t.layout.save}
+        </button>
+        {savedUrl && (
+          <p className="text-center normal-case tracking-normal">
+            {t.layout.saved}{' '}
+            <a href={savedUrl} className="text-[var(--color-gold)] underline break-all">{savedUrl}</a>
+          </p>
+        )}
+        {error && <p className="text-center text-red-600 normal-case tracking-normal" role="alert">{error}</p>}
+        <p className="text-center text-[10px] text-gray-400">{t.layout.hint}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { intlLocale, useI18n } from '../lib/i18n';
+import { LIGHTING_PRESETS, MAX_HOUR, MIN_HOUR, formatHour, type LightingPreset } from '../scene/lighting';
+
+interface LightingControlsProps {
+  hour: number;
+  onHourChange: (hour: number) => void;
+  onPreset: (preset: LightingPreset) => void;
+}
+
+export default function LightingControls({ hour, onHourChange, onPreset }: LightingControlsProps) {
+  const { locale, t } = useI18n();
+  const time = formatHour(hour, intlLocale(locale));
+
+  return (
+    <div className="glass-panel px-4 py-3 w-[min(30rem,calc(100vw-2rem))] text-xs tracking-widest text-gray-600 animate-[fadeIn_0.4s_ease-out]" role="group" aria-label={t.lighting.label}>
+      <div className="flex flex-wrap justify-center gap-2 mb-3">
+        {LIGHTING_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onPreset(preset)}
+            aria-pressed={hour === preset.hour}
+            className={`px-3 py-1 rounded-full border transition-colors interactive ${hour === preset.hour ? 'border-[var(--color-gold)] bg-[var(--color-gold)] text-[var(--color-charcoal)]' : 'border-black/10 hover:border-[var(--color-gold)]'}`}
+          >
+            {t.lighting.presets[preset.id].toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-3">
+        <span>{t.lighting.time}</span>
+        <input
+          type="range"
+          min={MIN_HOUR}
+          max={MAX_HOUR}
+          step={0.25}
+          value={hour}
+          onChange={e => onHourChange(Number(e.target.value))}
+          aria-valuetext={time}
+          className="flex-1 accent-[var(--color-gold)] interactive"
+        />
+        <span className="w-16 text-right text-[var(--color-charcoal)]">{time}</span>
+      </label>
+      <p className="mt-2 text-center text-[10px] text-gray-400">{t.lighting.lampHint}</p>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { apiRequest } from '../lib/api';
+import { useI18n } from '../lib/i18n';
+import { projectPath, type ProjectSummary } from '../lib/projects';
+import { navigate } from '../lib/router';
+import { trackCta } from '../lib/tracking';
+
+export default function PortfolioGrid() {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [error, setError] = useState(false);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    apiRequest<{ projects: ProjectSummary[] }>('/api/projects')
+      .then(result => setProjects(result.projects))
+      .catch(() => setError(true));
+  }, []);
+
+  if (error) {
+    return <p className="text-center text-sm text-gray-500 mb-12">{t.portfolio.unavailable}</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+      {(projects ?? []).slice(0, 3).map(project => (
+        <a
+          key={project.slug}
+          href={projectPath(project.slug)}
+          onClick={e => {
+            e.preventDefault();
+            trackCta('view-project');
+            navigate(projectPath(project.slug));
+          }}
+          className="glass-panel p-6 hover:bg-black/5 transition-colors group cursor-pointer interactive"
+        >
+          <div className="h-40 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg mb-4 flex items-center justify-center overflow-hidden group-hover:scale-105 transition-transform">
+            {project.gallery[0]
+              ? <img src={project.gallery[0]} alt={project.name} loading="lazy" className="w-full h-full object-cover" />
+              : <span className="text-gray-400 font-display italic">{project.location}</span>}
+          </div>
+          <h3 className="text-xl font-display mb-1 text-[var(--color-charcoal)]">{project.name}</h3>
+          <p className="text-xs text-gray-500 tracking-widest mb-2">{project.bhk} · {project.budgetBand}</p>
+          <div className="flex items-center text-[var(--color-gold)] text-sm">
+            {project.hasTour ? t.portfolio.walkThrough : t.portfolio.viewProject} <ArrowRight size={14} className="ml-2" />
+          </div>
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Check, Plus, X } from 'lucide-react';
+import { usePanelFocus } from '../lib/accessibility';
+import { formatInr, formatMetres } from '../lib/format';
+import { intlLocale, useI18n } from '../lib/i18n';
+import type { ProductInfo } from '../scene/types';
+
+interface ProductCardProps {
+  product: ProductInfo;
+  inQuote: boolean;
+  onAddToQuote: () => void;
+  onClose: () => void;
+}
+
+export default function ProductCard({ product, inQuote, onAddToQuote, onClose }: ProductCardProps) {
+  const { width, height, depth } = product.dimensions;
+  const panelRef = usePanelFocus<HTMLDivElement>(onClose);
+  const { locale, t } = useI18n();
+
+  return (
+    <div ref={panelRef} className="fixed right-4 md:right-8 top-1/2 -translate-y-1/2 z-40 w-[calc(100%-2rem)] max-w-sm animate-[fadeIn_0.4s_ease-out]" role="dialog" aria-label={product.name}>
+      <div className="glass-panel p-6 md:p-8">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-2xl font-display text-[var(--color-charcoal)] pr-4">{product.name}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive" aria-label={t.common.close}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <dl className="space-y-3 text-sm mb-6">
+          <div>
+            <dt className="text-xs text-gray-500 uppercase tracking-widest">{t.product.material}</dt>
+            <dd className="text-[var(--color-charcoal)]">{product.material}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500 uppercase tracking-widest">{t.product.dimensions}</dt>
+            <dd className="text-[var(--color-charcoal)]">{formatMetres(width)} × {formatMetres(height)} × {formatMetres(depth)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500 uppercase tracking-widest">{t.product.price}</dt>
+            <dd className="text-xl font-display text-[var(--color-gold)]">{formatInr(product.price, intlLocale(locale))}</dd>
+          </div>
+        </dl>
+
+        <button
+          onClick={onAddToQuote}
+          disabled={inQuote}
+          className="w-full flex items-center justify-center space-x-2 bg-[var(--color-gold)] text-[var(--color-charcoal)] font-bold py-3 rounded-lg hover:bg-black hover:text-white transition-colors interactive disabled:bg-black/5 disabled:text-gray-500 disabled:cursor-default"
+        >
+          {inQuote ? <Check size={16} /> : <Plus size={16} />}
+          <span>{inQuote ? t.product.added : t.product.add}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ArrowLeft, MapPin } from 'lucide-react';
+import { useI18n } from '../lib/i18n';
+import type { Project } from '../lib/projects';
+
+interface ProjectDetailProps {
+  project: Project | null;
+  error: string;
+  onBack: () => void;
+}
+
+export default function ProjectDetail({ project, error, onBack }: ProjectDetailProps) {
+  const { t } = useI18n();
+  const backLink = (
+    <button onClick={onBack} className="flex items-center space-x-2 text-xs tracking-widest text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive">
+      <ArrowLeft size={14} />
+      <span>{t.project.allProjects}</span>
+    </button>
+  );
+
+  if (!project) {
+    return (
+      <aside className="fixed left-4 md:left-8 top-24 z-30 w-[calc(100%-2rem)] max-w-md glass-panel p-6 md:p-8 animate-[fadeIn_0.4s_ease-out]">
+        {backLink}
+        {error
+          ? <p className="mt-6 text-sm text-red-500" role="alert">{error}</p>
+          : <p className="mt-6 text-xs text-gray-400 tracking-widest animate-pulse">{t.project.loading}</p>}
+      </aside>
+    );
+  }
+
+  return (
+    <aside className="fixed left-4 md:left-8 top-24 z-30 w-[calc(100%-2rem)] max-w-md max-h-[calc(100vh-14rem)] overflow-y-auto glass-panel p-6 md:p-8 animate-[fadeIn_0.4s_ease-out]" aria-label={project.name}>
+      {backLink}
+      <h1 className="mt-6 text-3xl md:text-4xl font-display text-[var(--color-gold)]">{project.name}</h1>
+      <p className="mt-2 flex items-center space-x-2 text-sm text-gray-500">
+        <MapPin size={14} />
+        <span>{project.location}</span>
+      </p>
+
+      <dl className="mt-6 grid grid-cols-2 gap-4 text-sm">
+        <div className="border border-black/10 rounded p-3">
+          <dt className="text-xs text-gray-500 uppercase tracking-widest">{t.project.home}</dt>
+          <dd className="text-[var(--color-charcoal)]">{project.bhk}</dd>
+        </div>
+        <div className="border border-black/10 rounded p-3">
+          <dt className="text-xs text-gray-500 uppercase tracking-widest">{t.project.budget}</dt>
+          <dd className="text-[var(--color-charcoal)]">{project.budgetBand}</dd>
+        </div>
+      </dl>
+
+      <p className="mt-6 text-gray-600 leading-relaxed font-light">{project.description}</p>
+
+      {project.gallery.length > 0 && (
+        <div className="mt-6 grid grid-cols-2 gap-3">
+          {project.gallery.map(url => (
+            <img key={url} src={url} alt={project.name} loading="lazy" className="w-full h-28 object-cover rounded-lg" />
+          ))}
+        </div>
+      )}
+
+      <p className="mt-6 text-xs tracking-widest text-gray-500">
+        {project.hasTour ? t.project.scrollToWalk : t.project.tourComingSoon}
+      </p>
+    </aside>
+  );
+}
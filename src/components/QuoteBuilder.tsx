@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ArrowLeft, ArrowRight, Check, Printer, X } from 'lucide-react';
+import { usePanelFocus } from '../lib/accessibility';
+import { ApiError, postJson } from '../lib/api';
+import { formatInr } from '../lib/format';
+import { intlLocale, localizeErrors, useI18n } from '../lib/i18n';
+import { PROPERTY_TYPES, type LeadErrors, type PropertyType } from '../lib/leads';
+import type { QuoteItem } from '../lib/quote';
+import {
+  FINISH_TIERS,
+  modulesForRoom,
+  roomsForProperty,
+  type Estimate,
+  type FinishTier,
+  type QuoteModuleId,
+  type QuoteRoomId,
+  type QuoteSelection,
+} from '../lib/quotes';
+import { trackConversion } from '../lib/tracking';
+
+interface QuoteBuilderProps {
+  furniture: QuoteItem[];
+  onClose: () => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `border rounded-lg p-4 text-left transition-colors interactive ${selected ? 'border-[var(--color-gold)] bg-[var(--color-gold)]/10' : 'border-black/10 hover:border-[var(--color-gold)]/60'}`;
+
+export default function QuoteBuilder({ furniture, onClose }: QuoteBuilderProps) {
+  const [step, setStep] = useState(0);
+  const [propertyType, setPropertyType] = useState<PropertyType | null>(null);
+  const [rooms, setRooms] = useState<Partial<Record<QuoteRoomId, QuoteModuleId[]>>>({});
+  const [tier, setTier] = useState<FinishTier | null>(null);
+  const [includeFurniture, setIncludeFurniture] = useState(furniture.length > 0);
+  const [estimate, setEstimate] = useState<Estimate | null>(null);
+  const [error, setError] = useState('');
+  const [contact, setContact] = useState({ name: '', phone: '' });
+  const [contactErrors, setContactErrors] = useState<LeadErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [reference, setReference] = useState<string | null>(null);
+  const dialogRef = usePanelFocus<HTMLDivElement>(onClose, { trap: true });
+  const { locale, t } = useI18n();
+  const steps = t.quote.steps;
+  const shownErrors = localizeErrors(contactErrors, locale);
+
+  const selectedRooms = Object.keys(rooms) as QuoteRoomId[];
+  const selection = (): QuoteSelection => ({
+    propertyType: propertyType!,
+    rooms,
+    tier: tier!,
+    furniture: includeFurniture ? furniture.map(item => item.id) : [],
+  });
+
+  useEffect(() => {
+    if (step !== 4) return;
+    setEstimate(null);
+    setError('');
+    postJson<{ estimate: Estimate }>('/api/quotes/estimate', selection())
+      .then(result => setEstimate(result.estimate))
+      .catch(err => setError(err instanceof ApiError ? err.message : t.quote.estimateFailed));
+  }, [step]);
+
+  const chooseProperty = (type: PropertyType) => {
+    setPropertyType(type);
+    const allowed = roomsForProperty(type).map(room => room.id);
+    setRooms(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => allowed.includes(id as QuoteRoomId))));
+  };
+
+  const toggleRoom = (roomId: QuoteRoomId) => {
+    setRooms(prev => {
+      const { [roomId]: existing, ...rest } = prev;
+      return existing ? rest : { ...prev, [roomId]: modulesForRoom(roomId).map(module => module.id) };
+    });
+  };
+
+  const toggleModule = (roomId: QuoteRoomId, moduleId: QuoteModuleId) => {
+    setRooms(prev => {
+      const current = prev[roomId] ?? [];
+      return { ...prev, [roomId]: current.includes(moduleId) ? current.filter(id => id !== moduleId) : [...current, moduleId] };
+    });
+  };
+
+  const hasModules = selectedRooms.some(roomId => (rooms[roomId]?.length ?? 0) > 0);
+  const canContinue = [
+    !!propertyType,
+    selectedRooms.length > 0 || (includeFurniture && furniture.length > 0),
+    hasModules || (includeFurniture && furniture.length > 0),
+    !!tier,
+    false,
+  ][step];
+
+  const saveQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setContactErrors({});
+    setError('');
+    try {
+      const result = await postJson<{ reference: string; estimate: Estimate }>('/api/quotes', { ...contact, selection: selection() });
+      setReference(result.reference);
+      setEstimate(result.estimate);
+      trackConversion('quote');
+    } catch (err) {
+      const apiError = err instanceof ApiError ? err : null;
+      setContactErrors(apiError?.fields ?? {});
+      setError(apiError?.message ?? t.quote.saveFailed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div ref={dialogRef} className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t.quote.label}>
+      <div className="glass-panel bg-white/95 w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 md:p-10 animate-[fadeIn_0.4s_ease-out]">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <p className="text-xs text-gray-500 uppercase tracking-widest mb-1">{t.common.step(step + 1, steps.length, steps[step])}</p>
+            <h2 className="text-3xl font-display text-[var(--color-gold)]">{t.quote.heading}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-[var(--color-gold)] transition-colors interactive" aria-label={t.common.close}>
+            <X size={22} />
+          </button>
+        </div>
+
+        <div className="flex space-x-1 mb-8">
+          {steps.map((label, i) => (
+            <div key={label} className={`h-1 flex-1 rounded-full ${i <= step ? 'bg-[var(--color-gold)]' : 'bg-black/10'}`} />
+          ))}
+        </div>
+
+        {step === 0 && (
+          <div className="grid grid-cols-2 gap-4">
+            {PROPERTY_TYPES.map(type => (
+              <button key={type} onClick={() => chooseProperty(type)} className={optionClass(propertyType === type)}>
+                <span className="font-display text-xl text-[var(--color-charcoal)]">{type}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {step === 1 && propertyType && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3">
+              {roomsForProperty(propertyType).map(room => (
+                <button key={room.id} onClick={() => toggleRoom(room.id)} className={optionClass(!!rooms[room.id])}>
+                  <span className="flex items-center justify-between text-[var(--color-charcoal)]">
+                    {t.quote.rooms[room.id]}
+                    {rooms[room.id] && <Check size={16} className="text-[var(--color-gold)]" />}
+                  </span>
+                </button>
+              ))}
+            </div>
+            {furniture.length > 0 && (
+              <label className="flex items-center space-x-3 text-sm text-gray-600 interactive">
+                <input type="checkbox" checked={includeFurniture} onChange={e => setIncludeFurniture(e.target.checked)} className="accent-[var(--color-gold)]" />
+                <span>{t.quote.includeFurniture(furniture.length)}</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-5">
+            {selectedRooms.length === 0 && <p className="text-gray-500 font-light">{t.quote.furnitureOnly}</p>}
+            {selectedRooms.map(roomId => (
+              <div key={roomId}>
+                <p className="text-xs text-gray-500 uppercase tracking-widest mb-2">{t.quote.rooms[roomId]}</p>
+                <div className="flex flex-wrap gap-2">
+                  {modulesForRoom(roomId).map(module => {
+                    const selected = rooms[roomId]?.includes(module.id) ?? false;
+                    return (
+                      <button key={module.id} onClick={() => toggleModule(roomId, module.id)} className={`px-4 py-2 rounded-full border text-sm interactive ${selected ? 'border-[var(--color-gold)] bg-[var(--color-gold)]/10 text-[var(--color-charcoal)]' : 'border-black/10 text-gray-500'}`}>
+                        {t.quote.modules[module.id]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 3 && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {FINISH_TIERS.map(option => (
+              <button key={option.id} onClick={() => setTier(option.id)} className={optionClass(tier === option.id)}>
+                <span className="block font-display text-xl text-[var(--color-charcoal)] mb-1">{t.quote.tiers[option.id].label}</span>
+                <span className="block text-xs text-gray-500">{t.quote.tiers[option.id].description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {step === 4 && (
+          <div>
+            {!estimate && !error && <p className="text-gray-500 animate-pulse tracking-widest text-sm">{t.quote.calculating}</p>}
+            {estimate && <EstimateTable estimate={estimate} />}
+            {error && <p className="text-red-500 text-sm mt-4" role="alert">{error}</p>}
+
+            {estimate && !reference && (
+              <form onSubmit={saveQuote} noValidate className="mt-8 space-y-3">
+                <p className="text-sm text-gray-600">{t.quote.saveIntro}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <input type="text" placeholder={t.form.name} value={contact.name} onChange={e => setContact({ ...contact, name: e.target.value })} className="w-full bg-black/5 border border-black/10 rounded-lg p-3 focus:border-[var(--color-gold)] outline-none interactive" />
+                    {shownErrors.name && <p className="text-red-500 text-xs mt-1">{shownErrors.name}</p>}
+                  </div>
+                  <div>
+                    <input type="tel" placeholder={t.form.phone} value={contact.phone} onChange={e => setContact({ ...contact, phone: e.target.value })} className="w-full bg-black/5 border border-black/10 rounded-lg p-3 focus:border-[var(--color-gold)] outline-none interactive" />
+                    {shownErrors.phone && <p className="text-red-500 text-xs mt-1">{shownErrors.phone}</p>}
+                  </div>
+                </div>
+                <button type="submit" disabled={saving} className="w-full bg-[var(--color-gold)] text-[var(--color-charcoal)] font-bold py-3 rounded-lg hover:bg-black hover:text-white transition-colors interactive disabled:opacity-60">
+                  {saving ? t.quote.saving : t.quote.save}
+                </button>
+              </form>
+            )}
+
+            {reference && (
+              <p className="mt-8 text-[var(--color-charcoal)]" role="status">
+                {t.quote.saved} <span className="font-bold text-[var(--color-gold)]">{reference}</span>. {t.quote.savedCallback}
+              </p>
+            )}
+
+            {estimate && (
+              <button onClick={() => window.print()} className="mt-4 flex items-center space-x-2 text-sm text-[var(--color-gold)] interactive">
+                <Printer size={16} />
+                <span>{t.quote.print}</span>
+              </button>
+            )}
+
+            {estimate && <QuoteSummary estimate={estimate} reference={reference} />}
+          </div>
+        )}
+
+        <div className="flex justify-between mt-10">
+          <button onClick={() => setStep(step - 1)} disabled={step === 0} className="flex items-center space-x-2 text-sm text-gray-500 disabled:opacity-0 interactive">
+            <ArrowLeft size={16} /><span>{t.common.back}</span>
+          </button>
+          {step < steps.length - 1 && (
+            <button onClick={() => setStep(step + 1)} disabled={!canContinue} className="flex items-center space-x-2 bg-[var(--color-gold)] text-[var(--color-charcoal)] px-6 py-2 rounded-full font-medium hover:bg-black hover:text-white transition-colors interactive disabled:opacity-40 disabled:hover:bg-[var(--color-gold)] disabled:hover:text-[var(--color-charcoal)]">
+              <span>{step === steps.length - 2 ? t.quote.seeEstimate : t.common.next}</span><ArrowRight size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Estimate lines come from the server and stay in English; amounts and totals follow the locale.
+function EstimateTable({ estimate }: { estimate: Estimate }) {
+  const { locale, t } = useI18n();
+  const inr = (amount: number) => formatInr(amount, intlLocale(locale));
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {estimate.lines.map((line, i) => (
+          <tr key={i} className="border-b border-black/5">
+            <td className="py-2 pr-4">
+              <span className="block text-[var(--color-charcoal)]">{line.label}</span>
+              <span className="block text-xs text-gray-500">{line.detail}</span>
+            </td>
+            <td className="py-2 text-right whitespace-nowrap">{inr(line.amount)}</td>
+          </tr>
+        ))}
+        <tr>
+          <td className="pt-4 text-gray-500">{t.quote.subtotal}</td>
+          <td className="pt-4 text-right">{inr(estimate.subtotal)}</td>
+        </tr>
+        <tr>
+          <td className="py-1 text-gray-500">{t.quote.gst(Math.round(estimate.gstRate * 100))}</td>
+          <td className="py-1 text-right">{inr(estimate.gst)}</td>
+        </tr>
+        <tr>
+          <td className="pt-2 font-display text-xl text-[var(--color-charcoal)]">{t.quote.total}</td>
+          <td className="pt-2 text-right font-display text-xl text-[var(--color-gold)]">{inr(estimate.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+// Only visible when printing (see .print-summary in index.css). Portalled to
+// <body> so the modal's scroll area and filters don't clip it.
+function QuoteSummary({ estimate, reference }: { estimate: Estimate; reference: string | null }) {
+  const { locale, t } = useI18n();
+  return createPortal(
+    <div className="print-summary hidden print:block p-12 text-[var(--color-charcoal)]">
+      <div className="flex justify-between items-end border-b-2 border-[var(--color-gold)] pb-4 mb-8">
+        <div>
+          <h1 className="text-5xl font-display font-bold text-[var(--color-gold)] tracking-[0.2em]">SIRIZ</h1>
+          <p className="text-xs tracking-[0.3em] text-gray-500">{t.hero.company}</p>
+        </div>
+        <div className="text-right text-sm">
+          <p>{t.quote.printTitle(reference)}</p>
+          <p className="text-gray-500">{new Date().toLocaleDateString(intlLocale(locale), { day: 'numeric', month: 'long', year: 'numeric' })}</p>
+        </div>
+      </div>
+      <p className="mb-6">{estimate.propertyType} · {t.quote.printFinish(t.quote.tiers[estimate.tier].label)}</p>
+      <EstimateTable estimate={estimate} />
+      <p className="mt-10 text-xs text-gray-500">
+        {t.quote.printDisclaimer}
+      </p>
+      <p className="mt-2 text-xs text-gray-500">+91 84384 23938 · info@sirizinteriors.com · {t.contact.address}</p>
+    </div>,
+    document.body
+  );
+}
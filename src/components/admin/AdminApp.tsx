@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut } from 'lucide-react';
+import { ADMIN_SIGNED_OUT_EVENT, adminRequest, loadAdminToken, saveAdminToken } from '../../lib/adminApi';
+import { ApiError, postJson } from '../../lib/api';
+import AnalyticsPanel from './AnalyticsPanel';
+import BookingsPanel from './BookingsPanel';
+import ClientsPanel from './ClientsPanel';
+import DesignersPanel from './DesignersPanel';
+import HeroStatsPanel from './HeroStatsPanel';
+import LeadsPanel from './LeadsPanel';
+import ProjectsPanel from './ProjectsPanel';
+import TestimonialsPanel from './TestimonialsPanel';
+import { PRIMARY_BUTTON_CLASS, inputClass } from './fields';
+
+const TABS = [
+  { id: 'leads', label: 'Leads', Panel: LeadsPanel },
+  { id: 'bookings', label: 'Bookings', Panel: BookingsPanel },
+  { id: 'designers', label: 'Availability', Panel: DesignersPanel },
+  { id: 'clients', label: 'Clients', Panel: ClientsPanel },
+  { id: 'projects', label: 'Projects', Panel: ProjectsPanel },
+  { id: 'testimonials', label: 'Testimonials', Panel: TestimonialsPanel },
+  { id: 'hero', label: 'Hero Stats', Panel: HeroStatsPanel },
+  { id: 'analytics', label: 'Analytics', Panel: AnalyticsPanel },
+] as const;
+
+type TabId = typeof TABS[number]['id'];
+
+const LoginForm = ({ onSignIn }: { onSignIn: (token: string) => void }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setError('');
+    try {
+      const { token } = await postJson<{ token: string }>('/api/admin/login', { password });
+      onSignIn(token);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not sign in.');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="glass-panel p-8 max-w-sm w-full space-y-4">
+      <h1 className="text-3xl font-display text-[var(--color-gold)]">SIRIZ Admin</h1>
+      <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Password" aria-label="Password" autoFocus className={inputClass(!!error)} />
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+      <button type="submit" disabled={pending || !password} className={`${PRIMARY_BUTTON_CLASS} w-full`}>
+        {pending ? 'SIGNING IN...' : 'SIGN IN'}
+      </button>
+    </form>
+  );
+};
+
+export default function AdminApp() {
+  const [token, setToken] = useState(loadAdminToken);
+  const [tab, setTab] = useState<TabId>('leads');
+
+  useEffect(() => {
+    const signedOut = () => setToken(null);
+    window.addEventListener(ADMIN_SIGNED_OUT_EVENT, signedOut);
+    return () => window.removeEventListener(ADMIN_SIGNED_OUT_EVENT, signedOut);
+  }, []);
+
+  const signIn = (next: string) => {
+    saveAdminToken(next);
+    setToken(next);
+  };
+
+  const signOut = async () => {
+    await adminRequest('/logout', { method: 'POST' }).catch(() => undefined);
+    saveAdminToken(null);
+    setToken(null);
+  };
+
+  // The public site hides the system cursor for its custom one; the console uses the normal cursor.
+  if (!token) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6 cursor-auto">
+        <LoginForm onSignIn={signIn} />
+      </main>
+    );
+  }
+
+  const { Panel } = TABS.find(t => t.id === tab)!;
+  return (
+    <main className="min-h-screen cursor-auto">
+      <header className="border-b border-black/10 bg-white/80">
+        <div className="container mx-auto px-6 py-4 flex justify-between items-center">
+          <a href="/" className="text-2xl font-display font-bold tracking-widest">SIRIZ <span className="text-sm font-body font-light text-gray-500 tracking-widest">ADMIN</span></a>
+          <button onClick={signOut} className="flex items-center gap-2 text-sm text-gray-500 hover:text-[var(--color-gold)]">
+            <LogOut size={16} /> Sign out
+          </button>
+        </div>
+        <nav className="container mx-auto px-6 flex gap-6 text-sm tracking-wider">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`pb-3 border-b-2 transition-colors ${tab === t.id ? 'border-[var(--color-gold)] text-[var(--color-charcoal)]' : 'border-transparent text-gray-500 hover:text-[var(--color-charcoal)]'}`}
+            >
+              {t.label.toUpperCase()}
+            </button>
+          ))}
+        </nav>
+      </header>
+      <div className="container mx-auto px-6 py-8">
+        <Panel />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { adminRequest } from '../../lib/adminApi';
+import {
+  CONVERSION_FORMS,
+  CONVERSION_LABELS,
+  CTA_LABELS,
+  CTA_TARGETS,
+  FUNNEL_LABELS,
+  FUNNEL_STAGES,
+  REPORT_PERIODS,
+  type AnalyticsReport,
+  type ReportPeriod,
+} from '../../lib/analytics';
+import { ApiError } from '../../lib/api';
+import { inputClass } from './fields';
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '–');
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const tourName = (page: string) => (page === '/' ? 'Show flat' : page.replace(/^\/projects\//, ''));
+
+const Heading = ({ children }: { children: React.ReactNode }) => (
+  <h2 className="text-xs text-gray-500 uppercase tracking-widest mb-3">{children}</h2>
+);
+
+const Bar = ({ share }: { share: number }) => (
+  <div className="h-2 bg-black/5 rounded-full overflow-hidden">
+    <div className="h-full bg-[var(--color-gold)]" style={{ width: `${Math.round(share * 100)}%` }} />
+  </div>
+);
+
+// Only visitors who allowed analytics are counted, so treat the numbers as a sample.
+export default function AnalyticsPanel() {
+  const [days, setDays] = useState<ReportPeriod>(30);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminRequest<{ report: AnalyticsReport }>(`/analytics?days=${days}`)
+      .then(result => {
+        setReport(result.report);
+        setError('');
+      })
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load the report.'));
+  }, [days]);
+
+  const visited = report?.funnel.visited ?? 0;
+  const deepest = Math.max(1, ...(report?.dropOff ?? []));
+
+  return (
+    <section className="space-y-10">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">Visitors who allowed analytics. No cookies, IP addresses or personal details are stored.</p>
+        <select value={days} onChange={e => setDays(Number(e.target.value) as ReportPeriod)} aria-label="Report period" className={`${inputClass()} w-auto`}>
+          {REPORT_PERIODS.map(period => <option key={period} value={period}>Last {period} days</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+
+      {report && (
+        <>
+          <div>
+            <Heading>Funnel</Heading>
+            <ol className="space-y-3 max-w-2xl">
+              {FUNNEL_STAGES.map(stage => (
+                <li key={stage}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span>{FUNNEL_LABELS[stage]}</span>
+                    <span className="text-gray-500">{report.funnel[stage]} · {percent(report.funnel[stage], visited)}</span>
+                  </div>
+                  <Bar share={visited > 0 ? report.funnel[stage] / visited : 0} />
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div>
+            <Heading>Where visitors stop on the show flat tour</Heading>
+            <div className="flex items-end gap-2 h-32 max-w-2xl" role="list">
+              {report.dropOff.map((sessions, i) => (
+                <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" role="listitem" aria-label={`${i * 10}–${i * 10 + 10}%: ${sessions} visits`}>
+                  <span className="text-xs text-gray-500 mb-1">{sessions}</span>
+                  <div className="w-full bg-[var(--color-gold)] rounded-t" style={{ height: `${(sessions / deepest) * 100}%` }} />
+                  <span className="text-[10px] text-gray-400 mt-1">{i * 10}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <Heading>Time in each room</Heading>
+            <table className="w-full text-sm text-left max-w-3xl">
+              <thead className="text-xs text-gray-500 uppercase tracking-widest border-b border-black/10">
+                <tr>
+                  <th className="py-2 pr-4">Tour</th>
+                  <th className="py-2 pr-4">Room</th>
+                  <th className="py-2 pr-4">Visits</th>
+                  <th className="py-2 pr-4">Average stay</th>
+                  <th className="py-2">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rooms.map(room => (
+                  <tr key={`${room.page} ${room.room}`} className="border-b border-black/5">
+                    <td className="py-2 pr-4 text-gray-500">{tourName(room.page)}</td>
+                    <td className="py-2 pr-4">{room.room}</td>
+                    <td className="py-2 pr-4">{room.sessions}</td>
+                    <td className="py-2 pr-4">{formatDuration(room.totalMs / room.sessions)}</td>
+                    <td className="py-2">{formatDuration(room.totalMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.rooms.length === 0 && <p className="text-sm text-gray-500 py-6">No room visits recorded in this period.</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-10 max-w-3xl">
+            <div>
+              <Heading>Calls to action</Heading>
+              <dl className="space-y-2 text-sm">
+                {CTA_TARGETS.map(target => (
+                  <div key={target} className="flex justify-between border-b border-black/5 pb-2">
+                    <dt>{CTA_LABELS[target]}</dt>
+                    <dd className="text-gray-500">{report.ctas[target]}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            <div>
+              <Heading>Conversions</Heading>
+              <dl className="space-y-2 text-sm">
+                {CONVERSION_FORMS.map(form => (
+                  <div key={form} className="flex justify-between border-b border-black/5 pb-2">
+                    <dt>{CONVERSION_LABELS[form]}</dt>
+                    <dd className="text-gray-500">{report.conversions[form]}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import {
+  CONSULTATION_LABELS,
+  addDays,
+  formatSlotDate,
+  formatSlotTime,
+  showroomNow,
+  weekdayOf,
+  type BookingRecord,
+} from '../../lib/bookings';
+import { SECONDARY_BUTTON_CLASS } from './fields';
+
+type View = 'day' | 'week';
+
+// Weeks run Monday to Sunday.
+const weekStart = (date: string) => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+export default function BookingsPanel() {
+  const today = showroomNow().date;
+  const [view, setView] = useState<View>('week');
+  const [anchor, setAnchor] = useState(today);
+  const [bookings, setBookings] = useState<BookingRecord[]>([]);
+  const [error, setError] = useState('');
+
+  const first = view === 'day' ? anchor : weekStart(anchor);
+  const days = Array.from({ length: view === 'day' ? 1 : 7 }, (_, i) => addDays(first, i));
+  const last = days[days.length - 1];
+
+  useEffect(() => {
+    adminRequest<{ bookings: BookingRecord[] }>(`/bookings?from=${first}&to=${last}`)
+      .then(result => {
+        setBookings(result.bookings);
+        setError('');
+      })
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load bookings.'));
+  }, [first, last]);
+
+  const cancel = async (booking: BookingRecord) => {
+    if (!window.confirm(`Cancel ${booking.name}'s consultation on ${formatSlotDate(booking.date)} at ${formatSlotTime(booking.time)}?`)) return;
+    try {
+      await sendAdminJson('PATCH', `/bookings/${booking.id}`, { status: 'cancelled' });
+      setBookings(prev => prev.map(b => (b.id === booking.id ? { ...b, status: 'cancelled' } : b)));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not cancel the booking.');
+    }
+  };
+
+  const step = view === 'day' ? 1 : 7;
+  const confirmedCount = bookings.filter(b => b.status === 'confirmed').length;
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="flex rounded-lg border border-black/10 overflow-hidden text-sm">
+          {(['day', 'week'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={`px-4 py-2 ${view === option ? 'bg-[var(--color-gold)] text-[var(--color-charcoal)]' : 'text-gray-500 hover:text-[var(--color-charcoal)]'}`}
+            >
+              {option === 'day' ? 'Day' : 'Week'}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => setAnchor(addDays(anchor, -step))} className={SECONDARY_BUTTON_CLASS} aria-label={`Previous ${view}`}><ChevronLeft size={16} /></button>
+        <button onClick={() => setAnchor(today)} className={SECONDARY_BUTTON_CLASS}>Today</button>
+        <button onClick={() => setAnchor(addDays(anchor, step))} className={SECONDARY_BUTTON_CLASS} aria-label={`Next ${view}`}><ChevronRight size={16} /></button>
+        <p className="text-sm text-gray-600">
+          {view === 'day' ? formatSlotDate(first, 'long') : `${formatSlotDate(first)} – ${formatSlotDate(last)}`} · {confirmedCount} booked
+        </p>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-4" role="alert">{error}</p>}
+
+      <div className={`grid gap-3 ${view === 'week' ? 'grid-cols-1 md:grid-cols-7' : 'grid-cols-1'}`}>
+        {days.map(date => {
+          const dayBookings = bookings.filter(b => b.date === date);
+          return (
+            <div key={date} className={`border rounded-lg p-3 min-h-32 ${date === today ? 'border-[var(--color-gold)]' : 'border-black/10'}`}>
+              <h3 className="text-xs text-gray-500 uppercase tracking-widest mb-3">{formatSlotDate(date)}</h3>
+              <div className="space-y-2">
+                {dayBookings.map(booking => (
+                  <article key={booking.id} className={`rounded-md bg-black/5 p-2 text-xs ${booking.status === 'cancelled' ? 'opacity-50 line-through' : ''}`}>
+                    <p className="font-medium text-[var(--color-charcoal)]">{formatSlotTime(booking.time)} · {booking.name}</p>
+                    <p className="text-gray-500">{CONSULTATION_LABELS[booking.type]} · {booking.designer}</p>
+                    <p><a href={`tel:${booking.phone}`} className="text-[var(--color-gold)]">{booking.phone}</a> · {booking.propertyType}</p>
+                    {view === 'day' && (
+                      <>
+                        {booking.address && <p className="text-gray-600 mt-1">{booking.address}</p>}
+                        {booking.notes && <p className="text-gray-600 mt-1">{booking.notes}</p>}
+                      </>
+                    )}
+                    <p className="text-gray-400 mt-1">{booking.reference}</p>
+                    {booking.status === 'confirmed' && date >= today && (
+                      <button onClick={() => cancel(booking)} className="mt-1 text-gray-500 hover:text-red-500">Cancel</button>
+                    )}
+                  </article>
+                ))}
+                {dayBookings.length === 0 && <p className="text-xs text-gray-400">No bookings</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
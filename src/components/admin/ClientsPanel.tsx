@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import { formatInr } from '../../lib/format';
+import { PROJECT_STAGES, deliveryDate, standardMilestones, validateClient, type Client, type Milestone } from '../../lib/portal';
+import { Field, PRIMARY_BUTTON_CLASS, SECONDARY_BUTTON_CLASS, inputClass } from './fields';
+
+// Form values are kept as text; each list is one row per line, with the
+// columns separated by "|" and blank trailing columns allowed.
+interface ClientForm {
+  name: string;
+  phone: string;
+  email: string;
+  projectName: string;
+  address: string;
+  startDate: string;
+  handoverDate: string;
+  milestones: string;
+  designs: string;
+  photos: string;
+  payments: string;
+}
+
+const EMPTY_FORM: ClientForm = {
+  name: '', phone: '', email: '', projectName: '', address: '', startDate: '', handoverDate: '',
+  milestones: '', designs: '', photos: '', payments: '',
+};
+
+const joinRows = (rows: (string | number | null)[][]) => rows.map(row => row.map(cell => cell ?? '').join(' | ')).join('\n');
+
+const splitRows = <K extends string>(text: string, columns: readonly K[]) =>
+  text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const cells = line.split('|').map(cell => cell.trim());
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i] || undefined])) as Record<K, string | undefined>;
+    });
+
+const MILESTONE_COLUMNS = ['stage', 'title', 'dueDate', 'completedOn'] as const;
+const DESIGN_COLUMNS = ['title', 'url', 'approvedOn'] as const;
+const PHOTO_COLUMNS = ['url', 'caption', 'takenOn'] as const;
+const PAYMENT_COLUMNS = ['label', 'amount', 'dueDate', 'paidOn'] as const;
+
+const milestoneRows = (milestones: Milestone[]) => joinRows(milestones.map(m => [m.stage, m.title, m.dueDate, m.completedOn]));
+
+const toForm = (client: Client): ClientForm => ({
+  name: client.name,
+  phone: client.phone,
+  email: client.email,
+  projectName: client.projectName,
+  address: client.address,
+  startDate: client.startDate,
+  handoverDate: client.handoverDate ?? '',
+  milestones: milestoneRows(client.milestones),
+  designs: joinRows(client.designs.map(d => [d.title, d.url, d.approvedOn])),
+  photos: joinRows(client.photos.map(p => [p.url, p.caption, p.takenOn])),
+  payments: joinRows(client.payments.map(p => [p.label, p.amount, p.dueDate, p.paidOn])),
+});
+
+const progressOf = (client: Client) => {
+  if (client.handoverDate) return `HANDED OVER ${client.handoverDate}`;
+  const done = client.milestones.filter(m => m.completedOn).length;
+  return `${done}/${client.milestones.length} MILESTONES · DUE ${deliveryDate(client.startDate)}`;
+};
+
+export default function ClientsPanel() {
+  const [clients, setClients] = useState<Client[]>([]);
+  // null: no form open; 0: adding a new client; otherwise the id being edited.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ClientForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminRequest<{ clients: Client[] }>('/clients')
+      .then(result => setClients(result.clients))
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load clients.'));
+  }, []);
+
+  const edit = (client: Client | null) => {
+    setEditingId(client?.id ?? 0);
+    setForm(client ? toForm(client) : EMPTY_FORM);
+    setErrors({});
+    setError('');
+  };
+
+  const update = (field: keyof ClientForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const applyStandardPlan = () => {
+    if (!form.startDate) {
+      setErrors(prev => ({ ...prev, startDate: 'Set the start date first.' }));
+      return;
+    }
+    setForm(prev => ({ ...prev, milestones: milestoneRows(standardMilestones(prev.startDate)) }));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { client, errors: fieldErrors } = validateClient({
+      ...form,
+      handoverDate: form.handoverDate || null,
+      milestones: splitRows(form.milestones, MILESTONE_COLUMNS),
+      designs: splitRows(form.designs, DESIGN_COLUMNS),
+      photos: splitRows(form.photos, PHOTO_COLUMNS),
+      payments: splitRows(form.payments, PAYMENT_COLUMNS),
+    });
+    setErrors(fieldErrors);
+    if (!client) return;
+
+    try {
+      if (editingId) {
+        const result = await sendAdminJson<{ client: Client }>('PUT', `/clients/${editingId}`, client);
+        setClients(prev => prev.map(c => (c.id === editingId ? result.client : c)));
+      } else {
+        const result = await sendAdminJson<{ client: Client }>('POST', '/clients', client);
+        setClients(prev => [result.client, ...prev]);
+      }
+      setEditingId(null);
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fields : {});
+      setError(err instanceof ApiError ? err.message : 'Could not save the client.');
+    }
+  };
+
+  const remove = async (client: Client) => {
+    if (!window.confirm(`Delete ${client.name}? They will no longer be able to sign in to the customer portal.`)) return;
+    try {
+      await adminRequest(`/clients/${client.id}`, { method: 'DELETE' });
+      setClients(prev => prev.filter(c => c.id !== client.id));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not delete the client.');
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+
+      {clients.map(client => {
+        const outstanding = client.payments.filter(p => !p.paidOn).reduce((sum, p) => sum + p.amount, 0);
+        return (
+          <div key={client.id} className="border border-black/10 rounded-lg p-4 flex justify-between gap-4">
+            <div>
+              <p className="font-display text-lg text-[var(--color-charcoal)]">{client.name} · {client.projectName}</p>
+              <p className="text-xs text-gray-500 tracking-widest mt-1">
+                {client.reference} · {client.phone}{client.email && ` · ${client.email}`}
+              </p>
+              <p className="text-xs text-gray-500 tracking-widest mt-1">
+                {progressOf(client)}{outstanding > 0 && ` · ${formatInr(outstanding)} OUTSTANDING`}
+              </p>
+            </div>
+            <div className="flex flex-col gap-2 shrink-0">
+              <button onClick={() => edit(client)} className={SECONDARY_BUTTON_CLASS}>Edit</button>
+              <button onClick={() => remove(client)} className={SECONDARY_BUTTON_CLASS}>Delete</button>
+            </div>
+          </div>
+        );
+      })}
+
+      {editingId === null ? (
+        <button onClick={() => edit(null)} className={PRIMARY_BUTTON_CLASS}>Add client</button>
+      ) : (
+        <form onSubmit={save} className="border border-[var(--color-gold)]/40 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4" noValidate>
+          <Field label="Name" error={errors.name}>
+            <input value={form.name} onChange={update('name')} className={inputClass(!!errors.name)} />
+          </Field>
+          <Field label="Project" error={errors.projectName}>
+            <input value={form.projectName} onChange={update('projectName')} placeholder="3BHK at Casagrand Aspire" className={inputClass(!!errors.projectName)} />
+          </Field>
+          <Field label="Mobile (portal sign-in)" error={errors.phone}>
+            <input type="tel" value={form.phone} onChange={update('phone')} className={inputClass(!!errors.phone)} />
+          </Field>
+          <Field label="Email (optional, portal sign-in)" error={errors.email}>
+            <input type="email" value={form.email} onChange={update('email')} className={inputClass(!!errors.email)} />
+          </Field>
+          <div className="md:col-span-2">
+            <Field label="Site address" error={errors.address}>
+              <input value={form.address} onChange={update('address')} className={inputClass(!!errors.address)} />
+            </Field>
+          </div>
+          <Field label="Start date" error={errors.startDate}>
+            <input type="date" value={form.startDate} onChange={update('startDate')} className={inputClass(!!errors.startDate)} />
+          </Field>
+          <Field label="Handover date (starts the warranty)" error={errors.handoverDate}>
+            <input type="date" value={form.handoverDate} onChange={update('handoverDate')} className={inputClass(!!errors.handoverDate)} />
+          </Field>
+          <div className="md:col-span-2">
+            <Field label={`Milestones: stage | title | due | completed (stage is ${PROJECT_STAGES.join(', ')})`} error={errors.milestones}>
+              <textarea rows={5} value={form.milestones} onChange={update('milestones')} spellCheck={false} className={`${inputClass(!!errors.milestones)} font-mono text-xs`} />
+            </Field>
+            <button type="button" onClick={applyStandardPlan} className={`${SECONDARY_BUTTON_CLASS} mt-2`}>Use standard 45-day plan</button>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Approved designs: title | link | approved" error={errors.designs}>
+              <textarea rows={3} value={form.designs} onChange={update('designs')} spellCheck={false} className={`${inputClass(!!errors.designs)} font-mono text-xs`} />
+            </Field>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Site photos: image URL | caption | taken" error={errors.photos}>
+              <textarea rows={3} value={form.photos} onChange={update('photos')} spellCheck={false} className={`${inputClass(!!errors.photos)} font-mono text-xs`} />
+            </Field>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Payments: label | amount (₹) | due | paid" error={errors.payments}>
+              <textarea rows={4} value={form.payments} onChange={update('payments')} spellCheck={false} className={`${inputClass(!!errors.payments)} font-mono text-xs`} />
+            </Field>
+          </div>
+          <div className="md:col-span-2 flex gap-3">
+            <button type="submit" className={PRIMARY_BUTTON_CLASS}>Save</button>
+            <button type="button" onClick={() => setEditingId(null)} className={SECONDARY_BUTTON_CLASS}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import { WEEKDAYS, formatSlotTime, validateDesigner, type Designer, type DesignerInput } from '../../lib/bookings';
+import { Field, PRIMARY_BUTTON_CLASS, SECONDARY_BUTTON_CLASS, inputClass } from './fields';
+
+// The form edits one block of hours per weekday.
+interface DayHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+interface DesignerForm {
+  name: string;
+  active: boolean;
+  hours: DayHours[];
+}
+
+const EMPTY_DESIGNER: DesignerForm = {
+  name: '',
+  active: true,
+  hours: WEEKDAYS.map((_, weekday) => ({ enabled: weekday !== 0, start: '10:00', end: '18:00' })),
+};
+
+const toForm = (designer: Designer): DesignerForm => ({
+  name: designer.name,
+  active: designer.active,
+  hours: WEEKDAYS.map((_, weekday) => {
+    const window = designer.availability.find(w => w.weekday === weekday);
+    return window ? { enabled: true, start: window.start, end: window.end } : { ...EMPTY_DESIGNER.hours[weekday], enabled: false };
+  }),
+});
+
+const toInput = (form: DesignerForm): Record<string, unknown> => ({
+  name: form.name,
+  active: form.active,
+  availability: form.hours.flatMap((day, weekday) => (day.enabled ? [{ weekday, start: day.start, end: day.end }] : [])),
+});
+
+const describeHours = (designer: DesignerInput) =>
+  designer.availability.length === 0
+    ? 'No hours set'
+    : designer.availability.map(w => `${WEEKDAYS[w.weekday].slice(0, 3)} ${formatSlotTime(w.start)}–${formatSlotTime(w.end)}`).join(' · ');
+
+export default function DesignersPanel() {
+  const [designers, setDesigners] = useState<Designer[]>([]);
+  // null: no form open; 0: adding a new designer; otherwise the id being edited.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<DesignerForm>(EMPTY_DESIGNER);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminRequest<{ designers: Designer[] }>('/designers')
+      .then(result => setDesigners(result.designers))
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load designers.'));
+  }, []);
+
+  const edit = (designer: Designer | null) => {
+    setEditingId(designer?.id ?? 0);
+    setForm(designer ? toForm(designer) : EMPTY_DESIGNER);
+    setErrors({});
+    setError('');
+  };
+
+  const setDay = (weekday: number, change: Partial<DayHours>) => {
+    setForm(prev => ({ ...prev, hours: prev.hours.map((day, i) => (i === weekday ? { ...day, ...change } : day)) }));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { designer, errors: fieldErrors } = validateDesigner(toInput(form));
+    setErrors(fieldErrors);
+    if (!designer) return;
+
+    try {
+      if (editingId) {
+        const result = await sendAdminJson<{ designer: Designer }>('PUT', `/designers/${editingId}`, designer);
+        setDesigners(prev => prev.map(d => (d.id === editingId ? result.designer : d)));
+      } else {
+        const result = await sendAdminJson<{ designer: Designer }>('POST', '/designers', designer);
+        setDesigners(prev => [...prev, result.designer]);
+      }
+      setEditingId(null);
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fields : {});
+      setError(err instanceof ApiError ? err.message : 'Could not save the designer.');
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Customers can book any hour in which an active designer is free. Existing bookings are kept when hours change.
+      </p>
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+
+      {designers.map(designer => (
+        <div key={designer.id} className="border border-black/10 rounded-lg p-4 flex justify-between gap-4">
+          <div>
+            <p className="font-display text-lg text-[var(--color-charcoal)]">
+              {designer.name}
+              {!designer.active && <span className="ml-2 text-xs font-body text-gray-500 uppercase tracking-widest">Not taking bookings</span>}
+            </p>
+            <p className="text-sm text-gray-500 mt-1">{describeHours(designer)}</p>
+          </div>
+          <button onClick={() => edit(designer)} className={`${SECONDARY_BUTTON_CLASS} shrink-0 self-start`}>Edit</button>
+        </div>
+      ))}
+
+      {editingId === null ? (
+        <button onClick={() => edit(null)} className={PRIMARY_BUTTON_CLASS}>Add designer</button>
+      ) : (
+        <form onSubmit={save} className="border border-[var(--color-gold)]/40 rounded-lg p-4 space-y-4" noValidate>
+          <Field label="Name" error={errors.name}>
+            <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass(!!errors.name)} />
+          </Field>
+          <fieldset>
+            <legend className="block text-xs text-gray-500 uppercase tracking-widest mb-2">Weekly hours</legend>
+            <div className="space-y-2">
+              {WEEKDAYS.map((weekday, i) => (
+                <div key={weekday} className="grid grid-cols-[8rem_1fr_1fr] items-center gap-3 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={form.hours[i].enabled} onChange={e => setDay(i, { enabled: e.target.checked })} />
+                    {weekday}
+                  </label>
+                  <input type="time" step={1800} value={form.hours[i].start} disabled={!form.hours[i].enabled} onChange={e => setDay(i, { start: e.target.value })} aria-label={`${weekday} start`} className={inputClass()} />
+                  <input type="time" step={1800} value={form.hours[i].end} disabled={!form.hours[i].enabled} onChange={e => setDay(i, { end: e.target.value })} aria-label={`${weekday} end`} className={inputClass()} />
+                </div>
+              ))}
+            </div>
+            {errors.availability && <span className="block text-red-500 text-xs mt-2">{errors.availability}</span>}
+          </fieldset>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} />
+            Taking bookings
+          </label>
+          <div className="flex gap-3">
+            <button type="submit" className={PRIMARY_BUTTON_CLASS}>Save</button>
+            <button type="button" onClick={() => setEditingId(null)} className={SECONDARY_BUTTON_CLASS}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { sendAdminJson } from '../../lib/adminApi';
+import { ApiError, apiRequest } from '../../lib/api';
+import { MAX_HERO_STATS, validateHeroStats, type HeroStat, type SiteContent } from '../../lib/content';
+import { PRIMARY_BUTTON_CLASS, inputClass } from './fields';
+
+export default function HeroStatsPanel() {
+  const [stats, setStats] = useState<HeroStat[]>([]);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiRequest<SiteContent>('/api/content')
+      .then(result => setStats(result.heroStats))
+      .catch(() => setError('Could not load the hero stats.'));
+  }, []);
+
+  const update = (index: number, field: keyof HeroStat, value: string) => {
+    setStats(prev => prev.map((stat, i) => (i === index ? { ...stat, [field]: value } : stat)));
+    setMessage('');
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { stats: valid, error: validationError } = validateHeroStats(stats);
+    setError(validationError);
+    if (!valid) return;
+    try {
+      const result = await sendAdminJson<{ heroStats: HeroStat[] }>('PUT', '/content/hero-stats', { stats: valid });
+      setStats(result.heroStats);
+      setMessage('Saved. The home page now shows these stats.');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not save the hero stats.');
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="space-y-4 max-w-xl" noValidate>
+      <p className="text-sm text-gray-500">Shown under the tagline on the home page, e.g. "11+" "YEARS".</p>
+      {stats.map((stat, i) => (
+        <div key={i} className="flex gap-3 items-center">
+          <input value={stat.value} onChange={e => update(i, 'value', e.target.value)} placeholder="600+" aria-label={`Stat ${i + 1} value`} className={`${inputClass()} w-32`} />
+          <input value={stat.label} onChange={e => update(i, 'label', e.target.value)} placeholder="CLIENTS" aria-label={`Stat ${i + 1} label`} className={inputClass()} />
+          <button type="button" onClick={() => setStats(prev => prev.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500" aria-label={`Remove stat ${i + 1}`}>
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      {stats.length < MAX_HERO_STATS && (
+        <button type="button" onClick={() => setStats(prev => [...prev, { value: '', label: '' }])} className="flex items-center gap-1 text-sm text-[var(--color-gold)]">
+          <Plus size={14} /> Add stat
+        </button>
+      )}
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+      {message && <p className="text-green-700 text-sm" role="status">{message}</p>}
+      <button type="submit" className={PRIMARY_BUTTON_CLASS}>Save stats</button>
+    </form>
+  );
+}
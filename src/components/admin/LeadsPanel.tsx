@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import { LEAD_STATUSES, LEAD_STATUS_LABELS, PROPERTY_TYPES, type LeadRecord, type LeadStatus } from '../../lib/leads';
+import { inputClass } from './fields';
+
+export default function LeadsPanel() {
+  const [leads, setLeads] = useState<LeadRecord[]>([]);
+  const [status, setStatus] = useState('');
+  const [propertyType, setPropertyType] = useState('');
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (status) params.set('status', status);
+    if (propertyType) params.set('propertyType', propertyType);
+    if (search.trim()) params.set('q', search.trim());
+
+    // Debounced so typing in the search box does not fire a request per key.
+    const timer = setTimeout(() => {
+      adminRequest<{ leads: LeadRecord[] }>(`/leads?${params}`)
+        .then(result => {
+          setLeads(result.leads);
+          setError('');
+        })
+        .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load leads.'));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [status, propertyType, search]);
+
+  const changeStatus = async (lead: LeadRecord, next: LeadStatus) => {
+    setLeads(prev => prev.map(l => (l.id === lead.id ? { ...l, status: next } : l)));
+    try {
+      await sendAdminJson('PATCH', `/leads/${lead.id}`, { status: next });
+    } catch (err) {
+      setLeads(prev => prev.map(l => (l.id === lead.id ? lead : l)));
+      setError(err instanceof ApiError ? err.message : 'Could not update the lead.');
+    }
+  };
+
+  return (
+    <section>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search name, phone or message" aria-label="Search leads" className={inputClass()} />
+        <select value={status} onChange={e => setStatus(e.target.value)} aria-label="Filter by status" className={inputClass()}>
+          <option value="">All statuses</option>
+          {LEAD_STATUSES.map(s => <option key={s} value={s}>{LEAD_STATUS_LABELS[s]}</option>)}
+        </select>
+        <select value={propertyType} onChange={e => setPropertyType(e.target.value)} aria-label="Filter by property type" className={inputClass()}>
+          <option value="">All property types</option>
+          {PROPERTY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-4" role="alert">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-500 uppercase tracking-widest border-b border-black/10">
+            <tr>
+              <th className="py-2 pr-4">Received</th>
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">Phone</th>
+              <th className="py-2 pr-4">Property</th>
+              <th className="py-2 pr-4">Source</th>
+              <th className="py-2 pr-4">Message</th>
+              <th className="py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leads.map(lead => (
+              <tr key={lead.id} className="border-b border-black/5 align-top">
+                <td className="py-3 pr-4 whitespace-nowrap text-gray-500">{new Date(`${lead.createdAt}Z`).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}</td>
+                <td className="py-3 pr-4">{lead.name}</td>
+                <td className="py-3 pr-4 whitespace-nowrap"><a href={`tel:${lead.phone}`} className="text-[var(--color-gold)]">{lead.phone}</a></td>
+                <td className="py-3 pr-4 whitespace-nowrap">{lead.propertyType}</td>
+                <td className="py-3 pr-4 text-gray-500">{lead.source}</td>
+                <td className="py-3 pr-4 text-gray-600 max-w-xs">{lead.message}</td>
+                <td className="py-3">
+                  <select value={lead.status} onChange={e => changeStatus(lead, e.target.value as LeadStatus)} aria-label={`Status for ${lead.name}`} className={inputClass()}>
+                    {LEAD_STATUSES.map(s => <option key={s} value={s}>{LEAD_STATUS_LABELS[s]}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {leads.length === 0 && !error && <p className="text-sm text-gray-500 py-8 text-center">No leads match these filters.</p>}
+      </div>
+    </section>
+  );
+}
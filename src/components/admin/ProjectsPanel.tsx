@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import { PROPERTY_TYPES } from '../../lib/leads';
+import { BUDGET_BANDS, projectPath, validateProject, type Project } from '../../lib/projects';
+import { Field, PRIMARY_BUTTON_CLASS, SECONDARY_BUTTON_CLASS, inputClass } from './fields';
+
+// Form values are kept as text; gallery is one URL per line and the scene is raw JSON.
+interface ProjectForm {
+  slug: string;
+  name: string;
+  location: string;
+  bhk: string;
+  budgetBand: string;
+  description: string;
+  gallery: string;
+  scene: string;
+}
+
+const EMPTY_FORM: ProjectForm = { slug: '', name: '', location: '', bhk: '', budgetBand: '', description: '', gallery: '', scene: '' };
+
+const toForm = (project: Project): ProjectForm => ({
+  ...project,
+  gallery: project.gallery.join('\n'),
+  scene: project.scene ? JSON.stringify(project.scene, null, 2) : '',
+});
+
+export default function ProjectsPanel() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  // null: no form open; '': adding a new project; otherwise the slug being edited.
+  const [editingSlug, setEditingSlug] = useState<string | null>(null);
+  const [form, setForm] = useState<ProjectForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminRequest<{ projects: Project[] }>('/projects')
+      .then(result => setProjects(result.projects))
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load projects.'));
+  }, []);
+
+  const edit = (project: Project | null) => {
+    setEditingSlug(project?.slug ?? '');
+    setForm(project ? toForm(project) : EMPTY_FORM);
+    setErrors({});
+    setError('');
+  };
+
+  const update = (field: keyof ProjectForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let scene: unknown = null;
+    if (form.scene.trim()) {
+      try {
+        scene = JSON.parse(form.scene);
+      } catch {
+        setErrors({ scene: 'The scene is not valid JSON.' });
+        return;
+      }
+    }
+
+    const { project, errors: fieldErrors } = validateProject({ ...form, gallery: form.gallery.split('\n').map(url => url.trim()), scene });
+    setErrors(fieldErrors);
+    if (!project) return;
+
+    try {
+      if (editingSlug) {
+        const result = await sendAdminJson<{ project: Project }>('PUT', `/projects/${editingSlug}`, project);
+        setProjects(prev => prev.map(p => (p.slug === editingSlug ? result.project : p)));
+      } else {
+        const result = await sendAdminJson<{ project: Project }>('POST', '/projects', project);
+        setProjects(prev => [...prev, result.project]);
+      }
+      setEditingSlug(null);
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fields : {});
+      setError(err instanceof ApiError ? err.message : 'Could not save the project.');
+    }
+  };
+
+  const remove = async (project: Project) => {
+    if (!window.confirm(`Delete ${project.name}? Its page and walkthrough will be removed from the website.`)) return;
+    try {
+      await adminRequest(`/projects/${project.slug}`, { method: 'DELETE' });
+      setProjects(prev => prev.filter(p => p.slug !== project.slug));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not delete the project.');
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+
+      {projects.map(project => (
+        <div key={project.slug} className="border border-black/10 rounded-lg p-4 flex justify-between gap-4">
+          <div>
+            <a href={projectPath(project.slug)} target="_blank" rel="noreferrer" className="font-display text-lg text-[var(--color-charcoal)] hover:text-[var(--color-gold)]">{project.name}</a>
+            <p className="text-xs text-gray-500 tracking-widest mt-1">
+              {project.location} · {project.bhk} · {project.budgetBand}{project.hasTour && ' · 3D TOUR'}
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 shrink-0">
+            <button onClick={() => edit(project)} className={SECONDARY_BUTTON_CLASS}>Edit</button>
+            <button onClick={() => remove(project)} className={SECONDARY_BUTTON_CLASS}>Delete</button>
+          </div>
+        </div>
+      ))}
+
+      {editingSlug === null ? (
+        <button onClick={() => edit(null)} className={PRIMARY_BUTTON_CLASS}>Add project</button>
+      ) : (
+        <form onSubmit={save} className="border border-[var(--color-gold)]/40 rounded-lg p-4 grid grid-cols-1 md:grid-cols-2 gap-4" noValidate>
+          <Field label="Name" error={errors.name}>
+            <input value={form.name} onChange={update('name')} className={inputClass(!!errors.name)} />
+          </Field>
+          <Field label="Slug (URL)" error={errors.slug}>
+            <input value={form.slug} onChange={update('slug')} placeholder="alpha-360" className={inputClass(!!errors.slug)} />
+          </Field>
+          <Field label="Location" error={errors.location}>
+            <input value={form.location} onChange={update('location')} className={inputClass(!!errors.location)} />
+          </Field>
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="BHK" error={errors.bhk}>
+              <select value={form.bhk} onChange={update('bhk')} className={inputClass(!!errors.bhk)}>
+                <option value="">Select</option>
+                {PROPERTY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </Field>
+            <Field label="Budget" error={errors.budgetBand}>
+              <select value={form.budgetBand} onChange={update('budgetBand')} className={inputClass(!!errors.budgetBand)}>
+                <option value="">Select</option>
+                {BUDGET_BANDS.map(band => <option key={band} value={band}>{band}</option>)}
+              </select>
+            </Field>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Description" error={errors.description}>
+              <textarea rows={4} value={form.description} onChange={update('description')} className={inputClass(!!errors.description)} />
+            </Field>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Gallery image URLs (one per line)" error={errors.gallery}>
+              <textarea rows={3} value={form.gallery} onChange={update('gallery')} className={inputClass(!!errors.gallery)} />
+            </Field>
+          </div>
+          <div className="md:col-span-2">
+            <Field label="Scene definition (JSON, optional)" error={errors.scene}>
+              <textarea rows={8} value={form.scene} onChange={update('scene')} spellCheck={false} className={`${inputClass(!!errors.scene)} font-mono text-xs`} />
+            </Field>
+          </div>
+          <div className="md:col-span-2 flex gap-3">
+            <button type="submit" className={PRIMARY_BUTTON_CLASS}>Save</button>
+            <button type="button" onClick={() => setEditingSlug(null)} className={SECONDARY_BUTTON_CLASS}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
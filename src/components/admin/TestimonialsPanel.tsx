@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { adminRequest, sendAdminJson } from '../../lib/adminApi';
+import { ApiError } from '../../lib/api';
+import { validateTestimonial, type Testimonial, type TestimonialInput } from '../../lib/content';
+import { Field, PRIMARY_BUTTON_CLASS, SECONDARY_BUTTON_CLASS, inputClass } from './fields';
+
+const EMPTY_TESTIMONIAL: TestimonialInput = { author: '', quote: '', rating: 5, published: true };
+
+export default function TestimonialsPanel() {
+  const [testimonials, setTestimonials] = useState<Testimonial[]>([]);
+  // null: no form open; 0: adding a new testimonial; otherwise the id being edited.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<TestimonialInput>(EMPTY_TESTIMONIAL);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    adminRequest<{ testimonials: Testimonial[] }>('/testimonials')
+      .then(result => setTestimonials(result.testimonials))
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load testimonials.'));
+  }, []);
+
+  const edit = (testimonial: Testimonial | null) => {
+    setEditingId(testimonial?.id ?? 0);
+    setForm(testimonial ?? EMPTY_TESTIMONIAL);
+    setErrors({});
+    setError('');
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { testimonial, errors: fieldErrors } = validateTestimonial({ ...form });
+    setErrors(fieldErrors);
+    if (!testimonial) return;
+
+    try {
+      if (editingId) {
+        const result = await sendAdminJson<{ testimonial: Testimonial }>('PUT', `/testimonials/${editingId}`, testimonial);
+        setTestimonials(prev => prev.map(t => (t.id === editingId ? result.testimonial : t)));
+      } else {
+        const result = await sendAdminJson<{ testimonial: Testimonial }>('POST', '/testimonials', testimonial);
+        setTestimonials(prev => [...prev, result.testimonial]);
+      }
+      setEditingId(null);
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fields : {});
+      setError(err instanceof ApiError ? err.message : 'Could not save the testimonial.');
+    }
+  };
+
+  const remove = async (testimonial: Testimonial) => {
+    if (!window.confirm(`Delete the testimonial from ${testimonial.author}?`)) return;
+    try {
+      await adminRequest(`/testimonials/${testimonial.id}`, { method: 'DELETE' });
+      setTestimonials(prev => prev.filter(t => t.id !== testimonial.id));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Could not delete the testimonial.');
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+
+      {testimonials.map(testimonial => (
+        <div key={testimonial.id} className="border border-black/10 rounded-lg p-4 flex justify-between gap-4">
+          <div>
+            <p className="font-display italic text-[var(--color-charcoal)]">"{testimonial.quote}"</p>
+            <p className="text-sm mt-2">
+              — {testimonial.author} · {testimonial.rating}★{!testimonial.published && <span className="ml-2 text-xs text-gray-500 uppercase tracking-widest">Hidden</span>}
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 shrink-0">
+            <button onClick={() => edit(testimonial)} className={SECONDARY_BUTTON_CLASS}>Edit</button>
+            <button onClick={() => remove(testimonial)} className={SECONDARY_BUTTON_CLASS}>Delete</button>
+          </div>
+        </div>
+      ))}
+
+      {editingId === null ? (
+        <button onClick={() => edit(null)} className={PRIMARY_BUTTON_CLASS}>Add testimonial</button>
+      ) : (
+        <form onSubmit={save} className="border border-[var(--color-gold)]/40 rounded-lg p-4 space-y-4" noValidate>
+          <Field label="Client name" error={errors.author}>
+            <input value={form.author} onChange={e => setForm({ ...form, author: e.target.value })} className={inputClass(!!errors.author)} />
+          </Field>
+          <Field label="Testimonial" error={errors.quote}>
+            <textarea rows={4} value={form.quote} onChange={e => setForm({ ...form, quote: e.target.value })} className={inputClass(!!errors.quote)} />
+          </Field>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+              {[1, 2, 3, 4, 5].map(rating => (
+                <button key={rating} type="button" role="radio" aria-checked={form.rating === rating} aria-label={`${rating} stars`} onClick={() => setForm({ ...form, rating })} className="text-[var(--color-gold)]">
+                  <Star size={18} fill={rating <= form.rating ? 'currentColor' : 'none'} />
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.published} onChange={e => setForm({ ...form, published: e.target.checked })} />
+              Show on the website
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" className={PRIMARY_BUTTON_CLASS}>Save</button>
+            <button type="button" onClick={() => setEditingId(null)} className={SECONDARY_BUTTON_CLASS}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,18 @@
+import React from 'react';
+
+// --- Shared Admin Form Pieces ---
+
+export const inputClass = (hasError = false) =>
+  `w-full bg-black/5 border ${hasError ? 'border-red-400' : 'border-black/10'} rounded-lg px-3 py-2 text-sm text-[var(--color-charcoal)] focus:border-[var(--color-gold)] outline-none transition-colors`;
+
+export const PRIMARY_BUTTON_CLASS = 'bg-[var(--color-gold)] text-[var(--color-charcoal)] font-medium px-5 py-2 rounded-lg text-sm hover:bg-black hover:text-white transition-colors disabled:opacity-60';
+
+export const SECONDARY_BUTTON_CLASS = 'border border-black/10 text-gray-600 px-4 py-2 rounded-lg text-sm hover:border-[var(--color-gold)] hover:text-[var(--color-gold)] transition-colors';
+
+export const Field = ({ label, error, children }: { label: string; error?: string; children: React.ReactNode }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-500 uppercase tracking-widest mb-1">{label}</span>
+    {children}
+    {error && <span className="block text-red-500 text-xs mt-1">{error}</span>}
+  </label>
+);
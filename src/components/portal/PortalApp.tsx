@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { LogOut } from 'lucide-react';
+import { ApiError, postJson } from '../../lib/api';
+import { useI18n } from '../../lib/i18n';
+import { CODE_LENGTH, readContact, type ContactChannel, type PortalProject } from '../../lib/portal';
+import { PORTAL_SIGNED_OUT_EVENT, loadPortalToken, portalRequest, savePortalToken } from '../../lib/portalApi';
+import LanguageSwitcher from '../LanguageSwitcher';
+import PortalDashboard from './PortalDashboard';
+
+const INPUT_CLASS = 'w-full bg-white/60 border border-black/10 rounded px-4 py-3 focus:outline-none focus:border-[var(--color-gold)]';
+const BUTTON_CLASS = 'w-full py-3 bg-[var(--color-charcoal)] text-white tracking-widest text-sm hover:bg-[var(--color-gold)] disabled:opacity-50 transition-colors';
+const LINK_CLASS = 'text-xs text-gray-500 underline hover:text-[var(--color-gold)]';
+
+// Sign-in takes two steps: the contact on the client's record, then the code sent to it.
+const SignInForm = ({ onSignIn }: { onSignIn: (token: string) => void }) => {
+  const { t } = useI18n();
+  const [contact, setContact] = useState('');
+  const [channel, setChannel] = useState<ContactChannel | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState(false);
+
+  const sendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!readContact(contact)) {
+      setError(t.portal.invalidContact);
+      return;
+    }
+    setPending(true);
+    setError('');
+    try {
+      const sent = await postJson<{ channel: ContactChannel }>('/api/portal/code', { contact });
+      setChannel(sent.channel);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof ApiError && err.status !== 0 ? err.message : t.portal.failed);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPending(true);
+    setError('');
+    try {
+      const { token } = await postJson<{ token: string }>('/api/portal/login', { contact, code });
+      onSignIn(token);
+    } catch (err) {
+      setError(err instanceof ApiError && err.status !== 0 ? err.message : t.portal.failed);
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-8 max-w-sm w-full space-y-4">
+      <h1 className="text-3xl font-display text-[var(--color-gold)]">{t.portal.signInHeading}</h1>
+      {!channel ? (
+        <form onSubmit={sendCode} className="space-y-4" noValidate>
+          <p className="text-sm text-gray-600">{t.portal.signInIntro}</p>
+          <input
+            value={contact}
+            onChange={e => setContact(e.target.value)}
+            placeholder={t.portal.contact}
+            aria-label={t.portal.contact}
+            autoComplete="username"
+            autoFocus
+            className={INPUT_CLASS}
+          />
+          {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+          <button type="submit" disabled={pending || !contact.trim()} className={BUTTON_CLASS}>
+            {pending ? t.portal.sending : t.portal.sendCode}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={signIn} className="space-y-4">
+          <p className="text-sm text-gray-600" aria-live="polite">{t.portal.codeSent[channel]}</p>
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, CODE_LENGTH))}
+            placeholder={t.portal.code}
+            aria-label={t.portal.code}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            className={`${INPUT_CLASS} tracking-[0.5em] text-center text-lg`}
+          />
+          {error && <p className="text-red-500 text-sm" role="alert">{error}</p>}
+          <button type="submit" disabled={pending || code.length !== CODE_LENGTH} className={BUTTON_CLASS}>
+            {pending ? t.portal.signingIn : t.portal.signIn}
+          </button>
+          <div className="flex justify-between gap-4">
+            <button type="button" onClick={() => { setChannel(null); setError(''); }} className={LINK_CLASS}>
+              {t.portal.changeContact}
+            </button>
+            <button type="button" onClick={() => sendCode()} disabled={pending} className={LINK_CLASS}>
+              {t.portal.resend}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default function PortalApp() {
+  const { t } = useI18n();
+  const [token, setToken] = useState(loadPortalToken);
+  const [project, setProject] = useState<PortalProject | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    const signedOut = () => {
+      setToken(null);
+      setProject(null);
+    };
+    window.addEventListener(PORTAL_SIGNED_OUT_EVENT, signedOut);
+    return () => window.removeEventListener(PORTAL_SIGNED_OUT_EVENT, signedOut);
+  }, []);
+
+  const load = useCallback(() => {
+    setLoadFailed(false);
+    portalRequest<{ project: PortalProject }>('/project')
+      .then(({ project }) => setProject(project))
+      .catch(() => setLoadFailed(true));
+  }, []);
+
+  useEffect(() => {
+    if (token) load();
+  }, [token, load]);
+
+  const signIn = (next: string) => {
+    savePortalToken(next);
+    setToken(next);
+  };
+
+  const signOut = async () => {
+    await portalRequest('/logout', { method: 'POST' }).catch(() => undefined);
+    savePortalToken(null);
+    setToken(null);
+    setProject(null);
+  };
+
+  // Like the admin console, the portal keeps the normal cursor.
+  return (
+    <main className="min-h-screen flex flex-col cursor-auto">
+      <header className="border-b border-black/10 bg-white/80">
+        <div className="container mx-auto px-6 py-4 flex flex-wrap justify-between items-center gap-4">
+          <a href="/" className="text-2xl font-display font-bold tracking-widest">
+            SIRIZ <span className="text-sm font-body font-light text-gray-500 tracking-widest">{t.portal.title.toUpperCase()}</span>
+          </a>
+          <div className="flex items-center gap-6 text-sm text-gray-500">
+            <LanguageSwitcher />
+            {token && (
+              <button onClick={signOut} className="flex items-center gap-2 hover:text-[var(--color-gold)]">
+                <LogOut size={16} /> {t.portal.signOut}
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {!token ? (
+        <div className="flex-1 flex items-center justify-center p-6">
+          <SignInForm onSignIn={signIn} />
+        </div>
+      ) : project ? (
+        <div className="container mx-auto px-6 py-8">
+          <PortalDashboard project={project} />
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 p-6 text-sm tracking-widest text-gray-500">
+          {loadFailed ? (
+            <>
+              <p role="alert">{t.portal.loadFailed}</p>
+              <button onClick={load} className={LINK_CLASS}>{t.portal.retry}</button>
+            </>
+          ) : (
+            <p>{t.portal.loading}</p>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
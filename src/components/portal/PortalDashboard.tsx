@@ -0,0 +1,181 @@
+import React from 'react';
+import { Check, Clock, ShieldCheck } from 'lucide-react';
+import { showroomNow } from '../../lib/bookings';
+import { formatDate, formatInr } from '../../lib/format';
+import { intlLocale, useI18n } from '../../lib/i18n';
+import { PROMISED_DELIVERY_DAYS, daysBetween, deliveryDate, warrantyPeriod, type PortalProject } from '../../lib/portal';
+
+const SECTION_CLASS = 'glass-panel p-6';
+const HEADING_CLASS = 'text-xl font-display mb-4';
+
+export default function PortalDashboard({ project }: { project: PortalProject }) {
+  const { locale, t } = useI18n();
+  const date = (value: string) => formatDate(value, intlLocale(locale));
+  const inr = (amount: number) => formatInr(amount, intlLocale(locale));
+
+  // Progress is counted in showroom days, like bookings.
+  const today = showroomNow().date;
+  const promised = deliveryDate(project.startDate);
+  const day = Math.min(Math.max(daysBetween(project.startDate, today) + 1, 0), PROMISED_DELIVERY_DAYS);
+  const late = project.handoverDate ? 0 : Math.max(daysBetween(promised, today), 0);
+  const progress = project.handoverDate ? 1 : day / PROMISED_DELIVERY_DAYS;
+
+  const paid = project.payments.filter(p => p.paidOn).reduce((sum, p) => sum + p.amount, 0);
+  const total = project.payments.reduce((sum, p) => sum + p.amount, 0);
+  const warranty = warrantyPeriod(project.handoverDate);
+  const photos = [...project.photos].sort((a, b) => b.takenOn.localeCompare(a.takenOn));
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      <section className={SECTION_CLASS}>
+        <p className="text-xs tracking-widest text-gray-500">{t.portal.reference(project.reference).toUpperCase()}</p>
+        <h1 className="text-3xl font-display mt-1">{project.projectName}</h1>
+        {project.address && <p className="text-sm text-gray-600 mt-1">{project.address}</p>}
+
+        <div className="mt-6">
+          <div className="flex flex-wrap justify-between gap-2 text-sm mb-2">
+            <span>
+              {project.handoverDate
+                ? t.portal.handedOver(date(project.handoverDate))
+                : day === 0
+                  ? t.portal.startsOn(date(project.startDate))
+                  : t.portal.day(day, PROMISED_DELIVERY_DAYS)}
+            </span>
+            <span className="text-gray-500">{t.portal.promisedBy(date(promised))}</span>
+          </div>
+          <div
+            className="h-2 rounded-full bg-black/10 overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={PROMISED_DELIVERY_DAYS}
+            aria-valuenow={project.handoverDate ? PROMISED_DELIVERY_DAYS : day}
+          >
+            <div className={`h-full ${late > 0 ? 'bg-red-500' : 'bg-[var(--color-gold)]'}`} style={{ width: `${progress * 100}%` }} />
+          </div>
+          {!project.handoverDate && day > 0 && (
+            <p className={`text-xs mt-2 ${late > 0 ? 'text-red-600' : 'text-green-700'}`}>
+              {late > 0 ? t.portal.late(late) : t.portal.onTrack}
+            </p>
+          )}
+        </div>
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <h2 className={HEADING_CLASS}>{t.portal.timeline}</h2>
+        {project.milestones.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.portal.noMilestones}</p>
+        ) : (
+          <ol className="border-l border-black/10 ml-2 space-y-5">
+            {project.milestones.map((milestone, i) => {
+              const overdue = !milestone.completedOn && milestone.dueDate < today;
+              return (
+                <li key={i} className="relative pl-6">
+                  <span
+                    className={`absolute -left-[9px] top-0.5 w-4 h-4 rounded-full flex items-center justify-center ${
+                      milestone.completedOn ? 'bg-[var(--color-gold)] text-white' : overdue ? 'bg-red-500' : 'bg-white border border-black/20'
+                    }`}
+                    aria-hidden="true"
+                  >
+                    {milestone.completedOn && <Check size={10} />}
+                  </span>
+                  <p className="text-xs tracking-widest text-gray-500">{t.portal.stages[milestone.stage].toUpperCase()}</p>
+                  <p className="font-medium">{milestone.title}</p>
+                  <p className={`text-xs ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                    {milestone.completedOn ? t.portal.completed(date(milestone.completedOn)) : t.portal.due(date(milestone.dueDate))}
+                    {overdue && ` · ${t.portal.overdue}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <h2 className={HEADING_CLASS}>{t.portal.designs}</h2>
+        {project.designs.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.portal.noDesigns}</p>
+        ) : (
+          <ul className="divide-y divide-black/5">
+            {project.designs.map((design, i) => (
+              <li key={i} className="py-2 flex flex-wrap justify-between gap-2 text-sm">
+                <a href={design.url} target="_blank" rel="noreferrer" className="underline hover:text-[var(--color-gold)]">{design.title}</a>
+                <span className="text-gray-500">{t.portal.approvedOn(date(design.approvedOn))}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <h2 className={HEADING_CLASS}>{t.portal.photos}</h2>
+        {photos.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.portal.noPhotos}</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {photos.map((photo, i) => (
+              <figure key={i}>
+                <a href={photo.url} target="_blank" rel="noreferrer">
+                  <img src={photo.url} alt={photo.caption} loading="lazy" className="w-full aspect-[4/3] object-cover rounded" />
+                </a>
+                <figcaption className="text-xs text-gray-500 mt-1">
+                  {photo.caption && <span className="text-[var(--color-charcoal)]">{photo.caption} · </span>}
+                  {date(photo.takenOn)}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <h2 className={HEADING_CLASS}>{t.portal.payments}</h2>
+        {project.payments.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.portal.noPayments}</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs tracking-widest text-gray-500 border-b border-black/10">
+                  <th className="py-2 font-normal">{t.portal.payment.toUpperCase()}</th>
+                  <th className="py-2 font-normal text-right">{t.portal.amount.toUpperCase()}</th>
+                  <th className="py-2 font-normal text-right">{t.portal.status.toUpperCase()}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {project.payments.map((payment, i) => (
+                  <tr key={i} className="border-b border-black/5">
+                    <td className="py-2">{payment.label}</td>
+                    <td className="py-2 text-right">{inr(payment.amount)}</td>
+                    <td className={`py-2 text-right ${payment.paidOn ? 'text-green-700' : payment.dueDate < today ? 'text-red-600' : 'text-gray-500'}`}>
+                      {payment.paidOn ? t.portal.paidOn(date(payment.paidOn)) : t.portal.dueOn(date(payment.dueDate))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap justify-end gap-6 mt-3 text-sm">
+              <span>{t.portal.paid(inr(paid))}</span>
+              <span className="font-medium">{t.portal.outstanding(inr(total - paid))}</span>
+            </div>
+          </>
+        )}
+      </section>
+
+      <section className={SECTION_CLASS}>
+        <h2 className={`${HEADING_CLASS} flex items-center gap-2`}>
+          <ShieldCheck size={20} className="text-[var(--color-gold)]" /> {t.portal.warranty}
+        </h2>
+        <p className="text-sm mb-3 flex items-center gap-2">
+          {!warranty && <Clock size={14} className="text-gray-400" />}
+          {warranty ? t.portal.warrantyValid(date(warranty.from), date(warranty.until)) : t.portal.warrantyPending}
+        </p>
+        <ul className="list-disc pl-5 text-sm text-gray-600 space-y-1">
+          {t.portal.warrantyCovers.map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+        <p className="text-xs text-gray-500 mt-3">{t.portal.warrantyExcludes}</p>
+        <p className="text-xs text-gray-500 mt-1">{t.portal.warrantyClaim(project.reference)}</p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { ApiError, apiRequest } from './api';
+
+// --- Admin API Client ---
+// The session token lives for the browser tab only.
+
+const TOKEN_KEY = 'siriz-admin-token';
+
+export const ADMIN_SIGNED_OUT_EVENT = 'siriz:admin-signed-out';
+
+export const loadAdminToken = () => sessionStorage.getItem(TOKEN_KEY);
+
+export const saveAdminToken = (token: string | null) => {
+  if (token) sessionStorage.setItem(TOKEN_KEY, token);
+  else sessionStorage.removeItem(TOKEN_KEY);
+};
+
+/** Like apiRequest, but authenticated; an expired session clears the stored token. */
+export async function adminRequest<T>(url: string, init: RequestInit = {}): Promise<T> {
+  try {
+    return await apiRequest<T>(`/api/admin${url}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${loadAdminToken() ?? ''}`, ...init.headers },
+    });
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      saveAdminToken(null);
+      window.dispatchEvent(new Event(ADMIN_SIGNED_OUT_EVENT));
+    }
+    throw err;
+  }
+}
+
+export const sendAdminJson = <T>(method: 'POST' | 'PUT' | 'PATCH', url: string, data: unknown) =>
+  adminRequest<T>(url, { method, body: JSON.stringify(data) });
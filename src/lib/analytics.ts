@@ -0,0 +1,125 @@
+// --- Visitor Analytics ---
+// First-party and opt-in. Shared by the tracker in the browser and the
+// /api/analytics endpoint. Events carry a random per-tab session id and
+// nothing that identifies the visitor.
+
+export const CTA_TARGETS = ['get-quote', 'whatsapp', 'view-project', 'book-consultation'] as const;
+
+export type CtaTarget = typeof CTA_TARGETS[number];
+
+export const CTA_LABELS: Record<CtaTarget, string> = {
+  'get-quote': 'Get quote',
+  whatsapp: 'WhatsApp',
+  'view-project': 'View project',
+  'book-consultation': 'Book consultation',
+};
+
+export const CONVERSION_FORMS = ['contact', 'quote', 'booking'] as const;
+
+export type ConversionForm = typeof CONVERSION_FORMS[number];
+
+export const CONVERSION_LABELS: Record<ConversionForm, string> = {
+  contact: 'Contact form',
+  quote: 'Saved quote',
+  booking: 'Consultation booked',
+};
+
+/**
+ * `page` is the path the event happened on ('/' for the show flat tour). Dwell
+ * is the time spent in one room, depth the furthest point reached on the tour
+ * (0–1).
+ */
+export type AnalyticsEvent =
+  | { type: 'dwell'; page: string; room: string; ms: number }
+  | { type: 'depth'; page: string; depth: number }
+  | { type: 'cta'; page: string; target: CtaTarget }
+  | { type: 'conversion'; page: string; form: ConversionForm };
+
+export const MAX_BATCH_EVENTS = 50;
+
+// A stay longer than this is a tab left open, not someone looking at the room.
+export const MAX_DWELL_MS = 30 * 60 * 1000;
+
+const SESSION_ID = /^[a-z0-9]{16,40}$/;
+
+const readPage = (value: unknown) =>
+  typeof value === 'string' && value.startsWith('/') && value.length <= 120 ? value : null;
+
+const readEvent = (input: unknown): AnalyticsEvent | null => {
+  if (!input || typeof input !== 'object') return null;
+  const event = input as Record<string, unknown>;
+  const page = readPage(event.page);
+  if (!page) return null;
+
+  switch (event.type) {
+    case 'dwell':
+      return typeof event.room === 'string' && /^[\w-]{1,60}$/.test(event.room) &&
+        typeof event.ms === 'number' && event.ms > 0 && event.ms <= MAX_DWELL_MS
+        ? { type: 'dwell', page, room: event.room, ms: Math.round(event.ms) }
+        : null;
+    case 'depth':
+      return typeof event.depth === 'number' && event.depth >= 0 && event.depth <= 1
+        ? { type: 'depth', page, depth: event.depth }
+        : null;
+    case 'cta': {
+      const target = CTA_TARGETS.find(t => t === event.target);
+      return target ? { type: 'cta', page, target } : null;
+    }
+    case 'conversion': {
+      const form = CONVERSION_FORMS.find(f => f === event.form);
+      return form ? { type: 'conversion', page, form } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks a batch posted by the tracker. Malformed events are dropped rather
+ * than failing the batch; only a bad session id or an oversized batch is an error.
+ */
+export const validateAnalyticsBatch = (input: Record<string, unknown>): { sessionId: string; events: AnalyticsEvent[] } | null => {
+  if (typeof input.sessionId !== 'string' || !SESSION_ID.test(input.sessionId)) return null;
+  if (!Array.isArray(input.events) || input.events.length > MAX_BATCH_EVENTS) return null;
+  const events = input.events.map(readEvent).filter((event): event is AnalyticsEvent => event !== null);
+  return { sessionId: input.sessionId, events };
+};
+
+// --- Funnel Report ---
+
+export const REPORT_PERIODS = [7, 30, 90] as const;
+
+export type ReportPeriod = typeof REPORT_PERIODS[number];
+
+export const FUNNEL_STAGES = ['visited', 'halfway', 'finished', 'clicked', 'converted'] as const;
+
+export type FunnelStage = typeof FUNNEL_STAGES[number];
+
+export const FUNNEL_LABELS: Record<FunnelStage, string> = {
+  visited: 'Visited',
+  halfway: 'Scrolled halfway through the tour',
+  finished: 'Reached the end of the tour',
+  clicked: 'Clicked a call to action',
+  converted: 'Sent a form',
+};
+
+// Tour depth at which a visit counts as "halfway" and "finished".
+export const HALFWAY_DEPTH = 0.5;
+export const FINISHED_DEPTH = 0.95;
+
+export interface RoomDwell {
+  page: string;
+  room: string;
+  sessions: number;
+  totalMs: number;
+}
+
+export interface AnalyticsReport {
+  days: ReportPeriod;
+  funnel: Record<FunnelStage, number>;
+  /** Sessions whose furthest point on the show flat tour falls in each tenth, 0–10% first. */
+  dropOff: number[];
+  rooms: RoomDwell[];
+  ctas: Record<CtaTarget, number>;
+  conversions: Record<ConversionForm, number>;
+}
@@ -0,0 +1,33 @@
+// --- API Client ---
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly fields: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export async function apiRequest<T>(url: string, init: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+  } catch {
+    throw new ApiError('Could not reach the server. Please check your connection and try again.', 0);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(body.error ?? 'Something went wrong. Please try again.', response.status, body.fields);
+  }
+  return body as T;
+}
+
+export const postJson = <T>(url: string, data: unknown) =>
+  apiRequest<T>(url, { method: 'POST', body: JSON.stringify(data) });
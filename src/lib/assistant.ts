@@ -0,0 +1,56 @@
+import { FINISH_PALETTES, type FinishSlot } from '../scene/finishes';
+
+// --- Design Assistant ---
+// Shared between the chat panel and the /api/assistant proxy.
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Finishes and layout notes the walkthrough can preview on a room. */
+export interface DesignSuggestion {
+  title: string;
+  finishes: Partial<Record<FinishSlot, string>>;
+  layoutTips: string[];
+}
+
+export interface AssistantReply {
+  reply: string;
+  suggestion: DesignSuggestion | null;
+}
+
+/** The room the visitor is looking at when they ask. */
+export interface AssistantContext {
+  roomId: string;
+  roomName: string;
+  slots: FinishSlot[];
+}
+
+export const MAX_CHAT_MESSAGES = 20;
+export const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Keeps only finishes that exist in the palette and apply to the room, so a
+ * model reply can never reference a colour the configurator doesn't know.
+ */
+export const sanitizeSuggestion = (raw: unknown, slots: FinishSlot[]): DesignSuggestion | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { title, finishes, layoutTips } = raw as Record<string, unknown>;
+
+  const cleanFinishes: DesignSuggestion['finishes'] = {};
+  if (typeof finishes === 'object' && finishes !== null) {
+    Object.entries(finishes).forEach(([slot, id]) => {
+      if (slots.includes(slot as FinishSlot) && FINISH_PALETTES[slot as FinishSlot].some(option => option.id === id)) {
+        cleanFinishes[slot as FinishSlot] = id as string;
+      }
+    });
+  }
+
+  const tips = Array.isArray(layoutTips)
+    ? layoutTips.filter((tip): tip is string => typeof tip === 'string' && tip.trim() !== '').slice(0, 5)
+    : [];
+
+  if (Object.keys(cleanFinishes).length === 0 && tips.length === 0) return null;
+  return { title: typeof title === 'string' && title.trim() ? title.trim() : 'Suggested look', finishes: cleanFinishes, layoutTips: tips };
+};
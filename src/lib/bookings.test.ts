@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { addDays, isValidDate, showroomNow, slotInstant, validateBooking, validateDesigner, validateSlot } from './bookings';
+
+const booking = (overrides: Record<string, unknown> = {}) =>
+  validateBooking({ name: 'Asha', phone: '98765 43210', propertyType: '2 BHK', type: 'showroom', date: '2026-11-02', time: '11:00', ...overrides });
+
+describe('showroom time', () => {
+  test('reads the date and time in India', () => {
+    assert.deepEqual(showroomNow(Date.parse('2026-10-19T20:00:00Z')), { date: '2026-10-20', minutes: 90 });
+  });
+
+  test('starts a slot at the matching UTC instant', () => {
+    assert.equal(slotInstant({ date: '2026-10-20', time: '10:30' }).toISOString(), '2026-10-20T05:00:00.000Z');
+  });
+
+  test('adds days across months', () => {
+    assert.equal(addDays('2026-10-30', 3), '2026-11-02');
+  });
+});
+
+describe('validateSlot', () => {
+  test('accepts a date and a time', () => {
+    assert.deepEqual(validateSlot({ date: '2026-11-02', time: '09:00' }), { slot: { date: '2026-11-02', time: '09:00' }, errors: {} });
+  });
+
+  test('refuses dates that do not exist and malformed times', () => {
+    assert.equal(isValidDate('2026-02-30'), false);
+    assert.deepEqual(validateSlot({ date: '2026-02-30', time: '9:00' }).errors, { date: 'Please pick a date.', time: 'Please pick a time.' });
+  });
+});
+
+describe('validateBooking', () => {
+  test('accepts a showroom consultation without an address', () => {
+    const { booking: result } = booking({ address: 'ignored for showroom visits' });
+    assert.equal(result?.phone, '+919876543210');
+    assert.equal(result?.address, '');
+  });
+
+  test('needs an address for a site visit', () => {
+    assert.deepEqual(booking({ type: 'site-visit' }).errors, { address: 'Please enter the address we should visit.' });
+    assert.equal(booking({ type: 'site-visit', address: '12 Lake View Road, Medavakkam' }).booking?.address, '12 Lake View Road, Medavakkam');
+  });
+
+  test('reports long notes against the notes field', () => {
+    assert.deepEqual(booking({ notes: 'x'.repeat(1001) }).errors, { notes: 'Message must be 1000 characters or fewer.' });
+  });
+
+  test('refuses an unknown consultation type', () => {
+    assert.equal(booking({ type: 'video-call' }).errors.type, 'Please choose a showroom consultation or a site visit.');
+  });
+});
+
+describe('validateDesigner', () => {
+  test('accepts weekly hours of at least one slot', () => {
+    const { designer } = validateDesigner({ name: 'Priya', availability: [{ weekday: 1, start: '10:00', end: '11:00' }] });
+    assert.deepEqual(designer, { name: 'Priya', availability: [{ weekday: 1, start: '10:00', end: '11:00' }], active: true });
+  });
+
+  test('refuses hours shorter than a slot, or on a day that does not exist', () => {
+    const message = 'Each day\'s hours need a start and an end at least 60 minutes later.';
+    assert.equal(validateDesigner({ name: 'Priya', availability: [{ weekday: 1, start: '10:00', end: '10:30' }] }).errors.availability, message);
+    assert.equal(validateDesigner({ name: 'Priya', availability: [{ weekday: 7, start: '10:00', end: '18:00' }] }).errors.availability, message);
+    assert.equal(validateDesigner({ name: 'Priya' }).errors.availability, message);
+  });
+});
@@ -0,0 +1,183 @@
+import { validateLead, type LeadErrors, type PropertyType } from './leads';
+
+// --- Consultation Bookings ---
+// Shared by the booking dialog, the admin console and /api/bookings. Dates
+// and times are showroom-local (India Standard Time, which has no daylight
+// saving), written as YYYY-MM-DD and HH:MM.
+
+export const CONSULTATION_TYPES = ['showroom', 'site-visit'] as const;
+
+export type ConsultationType = typeof CONSULTATION_TYPES[number];
+
+export const CONSULTATION_LABELS: Record<ConsultationType, string> = {
+  showroom: 'Showroom Consultation',
+  'site-visit': 'Site Visit',
+};
+
+export const BOOKING_STATUSES = ['confirmed', 'cancelled'] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+export const SLOT_MINUTES = 60;
+export const BOOKING_WINDOW_DAYS = 21;
+export const MIN_NOTICE_MINUTES = 120; // the earliest slot offered today is at least this far away
+export const SHOWROOM_UTC_OFFSET_MINUTES = 330;
+export const SHOWROOM_ADDRESS = 'SIRIZ Interiors, Medavakkam, Chennai';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** One block of weekly working hours; `weekday` is 0 for Sunday. */
+export interface AvailabilityWindow {
+  weekday: number;
+  start: string;
+  end: string;
+}
+
+export interface Designer {
+  id: number;
+  name: string;
+  availability: AvailabilityWindow[];
+  active: boolean;
+}
+
+export type DesignerInput = Omit<Designer, 'id'>;
+
+export interface Slot {
+  date: string;
+  time: string;
+}
+
+export interface BookingInput extends Slot {
+  name: string;
+  phone: string;
+  propertyType: PropertyType;
+  type: ConsultationType;
+  address: string;
+  notes: string;
+}
+
+export type BookingErrors = LeadErrors & Partial<Record<'type' | 'date' | 'time' | 'address' | 'notes', string>>;
+
+export interface Booking extends BookingInput {
+  reference: string;
+  status: BookingStatus;
+  designer: string;
+}
+
+export interface BookingRecord extends Booking {
+  id: number;
+}
+
+/** Open start times per day, as returned by GET /api/bookings/slots. */
+export interface SlotDay {
+  date: string;
+  times: string[];
+}
+
+export const bookingReference = (id: number) => `SB-${String(id).padStart(5, '0')}`;
+
+export const bookingPath = (token: string) => `/booking/${token}`;
+
+/** Returns the manage token from a /booking/:token path, or null for any other path. */
+export const matchBookingPath = (pathname: string) => pathname.match(/^\/booking\/([a-f0-9]{64})\/?$/)?.[1] ?? null;
+
+// --- Showroom Time ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export const fromMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/** The showroom's current date and minutes past midnight. */
+export const showroomNow = (now = Date.now()) => {
+  const local = new Date(now + SHOWROOM_UTC_OFFSET_MINUTES * 60_000);
+  return { date: local.toISOString().slice(0, 10), minutes: local.getUTCHours() * 60 + local.getUTCMinutes() };
+};
+
+export const addDays = (date: string, days: number) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** The UTC instant a showroom-local slot starts at. */
+export const slotInstant = ({ date, time }: Slot) =>
+  new Date(Date.parse(`${date}T${time}:00Z`) - SHOWROOM_UTC_OFFSET_MINUTES * 60_000);
+
+export const formatSlotDate = (date: string, style: 'short' | 'long' = 'short', locale = 'en-IN') =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+    weekday: style,
+    day: 'numeric',
+    month: style,
+    timeZone: 'UTC',
+  });
+
+export const formatSlotTime = (time: string, locale = 'en-IN') =>
+  new Date(`1970-01-01T${time}:00Z`).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+
+// --- Validation ---
+
+const readText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export const isValidDate = (date: string) => DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(`${date}T00:00:00Z`)) && addDays(date, 0) === date;
+
+/** Checks the shape of a date and time; whether the slot is still open is up to the server. */
+export const validateSlot = (input: Record<string, unknown>): { slot: Slot | null; errors: BookingErrors } => {
+  const errors: BookingErrors = {};
+  const date = readText(input.date);
+  const time = readText(input.time);
+  if (!isValidDate(date)) errors.date = 'Please pick a date.';
+  if (!TIME_PATTERN.test(time)) errors.time = 'Please pick a time.';
+  if (Object.keys(errors).length > 0) return { slot: null, errors };
+  return { slot: { date, time }, errors };
+};
+
+export const validateBooking = (input: Record<string, unknown>): { booking: BookingInput | null; errors: BookingErrors } => {
+  const notes = readText(input.notes);
+  const { lead, errors: leadErrors } = validateLead({ ...input, message: notes });
+  const { slot, errors: slotErrors } = validateSlot(input);
+  const errors: BookingErrors = { ...leadErrors, ...slotErrors };
+  if (leadErrors.message) {
+    errors.notes = leadErrors.message;
+    delete errors.message;
+  }
+
+  const type = CONSULTATION_TYPES.find(t => t === input.type);
+  if (!type) errors.type = 'Please choose a showroom consultation or a site visit.';
+
+  const address = type === 'site-visit' ? readText(input.address) : '';
+  if (type === 'site-visit' && address.length < 10) errors.address = 'Please enter the address we should visit.';
+  else if (address.length > 300) errors.address = 'Address must be 300 characters or fewer.';
+
+  if (Object.keys(errors).length > 0 || !lead || !slot || !type) return { booking: null, errors };
+  return { booking: { name: lead.name, phone: lead.phone, propertyType: lead.propertyType, type, ...slot, address, notes }, errors };
+};
+
+export const validateDesigner = (input: Record<string, unknown>): { designer: DesignerInput | null; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const name = readText(input.name);
+  if (name.length < 2) errors.name = 'Please enter the designer\'s name.';
+  else if (name.length > 80) errors.name = 'Must be 80 characters or fewer.';
+
+  const windows = Array.isArray(input.availability) ? input.availability : null;
+  const availability = (windows ?? []).map(window => ({
+    weekday: Number(window?.weekday),
+    start: readText(window?.start),
+    end: readText(window?.end),
+  }));
+  const isValidWindow = ({ weekday, start, end }: AvailabilityWindow) =>
+    Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 &&
+    TIME_PATTERN.test(start) && TIME_PATTERN.test(end) && toMinutes(end) - toMinutes(start) >= SLOT_MINUTES;
+  if (!windows || availability.length > 21 || !availability.every(isValidWindow)) {
+    errors.availability = `Each day's hours need a start and an end at least ${SLOT_MINUTES} minutes later.`;
+  }
+
+  if (Object.keys(errors).length > 0) return { designer: null, errors };
+  return { designer: { name, availability, active: input.active !== false }, errors };
+};
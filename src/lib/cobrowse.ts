@@ -0,0 +1,133 @@
+// --- Co-browsing ---
+// A designer and a client tour the same home together over a WebSocket to
+// the site's own server. The designer starts a session and shares its code;
+// one participant leads, and everyone who follows sees the leader's view
+// (tour position, camera while walking around, room and finishes). The
+// designer decides who leads: they take the lead or hand it to someone, and
+// only that person may take it back later. Pointers are shared by everyone.
+// Shared by the tour and the relay in server/cobrowse.ts.
+
+export const COBROWSE_SOCKET_PATH = '/api/cobrowse/socket';
+
+// ?session=<code> joins a session, so the designer can send a link instead of the code.
+export const SESSION_PARAM = 'session';
+
+export const SESSION_CODE_LENGTH = 6;
+// No 0/O, 1/I/L: codes are read out over the phone.
+export const SESSION_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const MAX_PARTICIPANTS = 6;
+
+export const COBROWSE_ROLES = ['designer', 'client'] as const;
+export type CobrowseRole = typeof COBROWSE_ROLES[number];
+
+/** Returned once, to whoever starts a session; joining with it makes them the designer. */
+export interface CobrowseSessionStart {
+  code: string;
+  designerToken: string;
+}
+
+export interface CameraPose {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+}
+
+export interface CobrowseView {
+  /** The page the tour is on: / or /projects/<slug>. */
+  path: string;
+  /** Scroll progress through the tour, 0–1. */
+  progress: number;
+  roomId: string;
+  /** Only while the leader walks around freely, when the scroll position says nothing about the camera. */
+  camera: CameraPose | null;
+  /** Chosen finishes, encoded as in ?finish=. */
+  finishes: string;
+}
+
+/** A pointer position as fractions of the viewport, or null once it has left the page. */
+export type Pointer = { x: number; y: number } | null;
+
+export interface Participant {
+  id: string;
+  role: CobrowseRole;
+}
+
+/**
+ * Sent by the browser. Views are only relayed from whoever leads. Only the
+ * designer, and whoever they last handed over to, may take the lead.
+ */
+export type CobrowseClientMessage =
+  | { type: 'view'; view: CobrowseView }
+  | { type: 'pointer'; pointer: Pointer }
+  | { type: 'lead' }
+  | { type: 'handOver'; id: string };
+
+/** Sent by the relay. */
+export type CobrowseServerMessage =
+  | { type: 'welcome'; id: string; role: CobrowseRole; view: CobrowseView | null }
+  | { type: 'presence'; participants: Participant[]; leaderId: string | null; delegateId: string | null }
+  | { type: 'view'; view: CobrowseView }
+  | { type: 'pointer'; id: string; pointer: Pointer };
+
+/** A code as typed (any case, spaces or dashes), or null if it cannot be one. */
+export const normalizeSessionCode = (raw: unknown) => {
+  const code = typeof raw === 'string' ? raw.toUpperCase().replace(/[\s-]/g, '') : '';
+  return code.length === SESSION_CODE_LENGTH && [...code].every(char => SESSION_CODE_ALPHABET.includes(char)) ? code : null;
+};
+
+// --- Validation ---
+// Messages are relayed to other people's browsers, so only well-formed ones are passed on.
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNumberTuple = (value: unknown, length: number): value is number[] =>
+  Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+
+const readPose = (value: unknown): CameraPose | null | undefined => {
+  if (value === null) return null;
+  const pose = value as Partial<CameraPose> | undefined;
+  if (!pose || !isNumberTuple(pose.position, 3) || !isNumberTuple(pose.quaternion, 4)) return undefined;
+  return { position: [...pose.position] as CameraPose['position'], quaternion: [...pose.quaternion] as CameraPose['quaternion'] };
+};
+
+const readView = (value: unknown): CobrowseView | null => {
+  const view = value as Record<string, unknown> | undefined;
+  if (typeof view !== 'object' || view === null) return null;
+  const { path, progress, roomId, finishes } = view;
+  const camera = readPose(view.camera);
+  if (typeof path !== 'string' || !/^\/[\w\-/]{0,120}$/.test(path)) return null;
+  if (!isFiniteNumber(progress) || progress < 0 || progress > 1) return null;
+  if (typeof roomId !== 'string' || !/^[\w-]{1,60}$/.test(roomId)) return null;
+  if (typeof finishes !== 'string' || finishes.length > 2000) return null;
+  if (camera === undefined) return null;
+  return { path, progress, roomId, camera, finishes };
+};
+
+const readPointer = (value: unknown): Pointer | undefined => {
+  if (value === null) return null;
+  const pointer = value as { x?: unknown; y?: unknown } | undefined;
+  if (!pointer || !isFiniteNumber(pointer.x) || !isFiniteNumber(pointer.y)) return undefined;
+  return { x: Math.min(Math.max(pointer.x, 0), 1), y: Math.min(Math.max(pointer.y, 0), 1) };
+};
+
+/** Parses a message from a browser, or returns null if it is not one. */
+export const readClientMessage = (raw: string): CobrowseClientMessage | null => {
+  let message: { type?: unknown; view?: unknown; pointer?: unknown; id?: unknown };
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  if (message.type === 'lead') return { type: 'lead' };
+  if (message.type === 'handOver') {
+    return typeof message.id === 'string' && /^[a-f0-9]{8}$/.test(message.id) ? { type: 'handOver', id: message.id } : null;
+  }
+  if (message.type === 'view') {
+    const view = readView(message.view);
+    return view && { type: 'view', view };
+  }
+  if (message.type === 'pointer') {
+    const pointer = readPointer(message.pointer);
+    return pointer === undefined ? null : { type: 'pointer', pointer };
+  }
+  return null;
+};
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, apiRequest, postJson } from './api';
+import {
+  COBROWSE_SOCKET_PATH, SESSION_PARAM, normalizeSessionCode,
+  type CobrowseClientMessage, type CobrowseRole, type CobrowseServerMessage, type CobrowseSessionStart, type CobrowseView, type Participant, type Pointer,
+} from './cobrowse';
+
+// --- Co-browsing Client ---
+// One connection per tab. The session code is kept in the URL so a reload
+// rejoins, and a dropped connection is retried for as long as the session
+// still exists. Views and pointers are sent at a steady rate rather than on
+// every frame.
+
+const DESIGNER_KEY = 'siriz-cobrowse-designer';
+const VIEW_INTERVAL_MS = 100;
+const POINTER_INTERVAL_MS = 50;
+const RETRY_DELAYS_MS = [1000, 2000, 4000, 8000, 15000];
+
+export type CobrowseStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+/** Why joining failed or a session stopped: 'ended' means it closed while we were in it. */
+export type CobrowseError = '' | 'notFound' | 'full' | 'failed' | 'ended';
+
+// The tab that started a session keeps its designer token, so a reload
+// rejoins it as the designer.
+const loadDesignerToken = (code: string) => {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(DESIGNER_KEY) ?? 'null') as Partial<CobrowseSessionStart> | null;
+    return saved?.code === code && typeof saved.designerToken === 'string' ? saved.designerToken : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveDesignerToken = (session: CobrowseSessionStart | null) => {
+  try {
+    if (session) sessionStorage.setItem(DESIGNER_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(DESIGNER_KEY);
+  } catch {
+    // Without storage a reload rejoins as a client.
+  }
+};
+
+const setSessionParam = (code: string | null) => {
+  const url = new URL(window.location.href);
+  if (code) url.searchParams.set(SESSION_PARAM, code);
+  else url.searchParams.delete(SESSION_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+};
+
+const errorFor = (err: unknown): CobrowseError => {
+  if (!(err instanceof ApiError)) return 'failed';
+  return err.status === 404 ? 'notFound' : err.status === 409 ? 'full' : 'failed';
+};
+
+/** Sends the latest of a stream of messages at most once per `interval`, skipping repeats. */
+const createThrottledSender = (interval: number, send: (json: string) => void) => {
+  let last = '';
+  let pending: string | null = null;
+  let timer: number | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    if (pending === null || pending === last) {
+      pending = null;
+      return;
+    }
+    send(pending);
+    last = pending;
+    pending = null;
+    timer = window.setTimeout(flush, interval);
+  };
+
+  return {
+    push: (json: string) => {
+      pending = json;
+      if (timer === undefined) flush();
+    },
+    /** Forgets what was sent, so the next message goes out even if it repeats the last. */
+    reset: () => {
+      last = '';
+    },
+    cancel: () => {
+      window.clearTimeout(timer);
+      timer = undefined;
+      pending = null;
+    },
+  };
+};
+
+interface ConnectionHandlers {
+  onStatus: (status: CobrowseStatus) => void;
+  onMessage: (message: CobrowseServerMessage) => void;
+  onEnd: (error: CobrowseError) => void;
+}
+
+const connect = (code: string, designerToken: string | null, handlers: ConnectionHandlers) => {
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let retryTimer: number | undefined;
+  let closed = false;
+
+  const sendJson = (json: string) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(json);
+  };
+  const send = (message: CobrowseClientMessage) => sendJson(JSON.stringify(message));
+  const views = createThrottledSender(VIEW_INTERVAL_MS, sendJson);
+  const pointers = createThrottledSender(POINTER_INTERVAL_MS, sendJson);
+
+  const close = () => {
+    closed = true;
+    window.clearTimeout(retryTimer);
+    views.cancel();
+    pointers.cancel();
+    socket?.close();
+  };
+
+  const end = (error: CobrowseError) => {
+    close();
+    handlers.onEnd(error);
+  };
+
+  const open = () => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const token = designerToken ? `&token=${designerToken}` : '';
+    socket = new WebSocket(`${protocol}//${window.location.host}${COBROWSE_SOCKET_PATH}?code=${code}${token}`);
+    socket.onopen = () => {
+      attempt = 0;
+      handlers.onStatus('connected');
+    };
+    socket.onmessage = event => {
+      const message = JSON.parse(event.data) as CobrowseServerMessage;
+      // A fresh connection or a change of leader needs the whole view again.
+      if (message.type === 'welcome' || message.type === 'presence') views.reset();
+      handlers.onMessage(message);
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      handlers.onStatus('reconnecting');
+      retry();
+    };
+  };
+
+  const retry = () => {
+    if (attempt >= RETRY_DELAYS_MS.length) {
+      end('failed');
+      return;
+    }
+    retryTimer = window.setTimeout(() => {
+      apiRequest(`/api/cobrowse/sessions/${code}`)
+        .then(() => !closed && open())
+        .catch(err => {
+          if (closed) return;
+          if (err instanceof ApiError && err.status === 404) end('ended');
+          else retry();
+        });
+    }, RETRY_DELAYS_MS[attempt++]);
+  };
+
+  open();
+  return {
+    sendView: (view: CobrowseView) => views.push(JSON.stringify({ type: 'view', view } satisfies CobrowseClientMessage)),
+    sendPointer: (pointer: Pointer) => pointers.push(JSON.stringify({ type: 'pointer', pointer } satisfies CobrowseClientMessage)),
+    takeLead: () => send({ type: 'lead' }),
+    handOver: (id: string) => send({ type: 'handOver', id }),
+    close,
+  };
+};
+
+/**
+ * The tab's co-browsing session: who is in it, who leads, the leader's
+ * latest view and everyone else's pointers. Joins ?session=<code> on load.
+ */
+export const useCobrowse = () => {
+  const [status, setStatus] = useState<CobrowseStatus>('idle');
+  const [code, setCode] = useState<string | null>(null);
+  const [role, setRole] = useState<CobrowseRole>('client');
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [leaderId, setLeaderId] = useState<string | null>(null);
+  const [delegateId, setDelegateId] = useState<string | null>(null);
+  const [leaderView, setLeaderView] = useState<CobrowseView | null>(null);
+  const [pointers, setPointers] = useState<Record<string, NonNullable<Pointer>>>({});
+  const [following, setFollowing] = useState(true);
+  const [error, setError] = useState<CobrowseError>('');
+  const connectionRef = useRef<ReturnType<typeof connect> | null>(null);
+
+  const reset = useCallback((endError: CobrowseError) => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setSessionParam(null);
+    saveDesignerToken(null);
+    setStatus('idle');
+    setCode(null);
+    setSelfId(null);
+    setParticipants([]);
+    setLeaderId(null);
+    setDelegateId(null);
+    setLeaderView(null);
+    setPointers({});
+    setError(endError);
+  }, []);
+
+  const open = useCallback((next: string, designerToken: string | null) => {
+    connectionRef.current?.close();
+    setSessionParam(next);
+    saveDesignerToken(designerToken ? { code: next, designerToken } : null);
+    setCode(next);
+    setRole(designerToken ? 'designer' : 'client');
+    setStatus('connecting');
+    setFollowing(true);
+    setError('');
+    connectionRef.current = connect(next, designerToken, {
+      onStatus: setStatus,
+      onMessage: message => {
+        if (message.type === 'welcome') {
+          setSelfId(message.id);
+          setRole(message.role);
+          setLeaderView(message.view);
+        } else if (message.type === 'presence') {
+          setParticipants(message.participants);
+          setLeaderId(message.leaderId);
+          setDelegateId(message.delegateId);
+        } else if (message.type === 'view') {
+          setLeaderView(message.view);
+        } else {
+          setPointers(({ [message.id]: _previous, ...others }) => (message.pointer ? { ...others, [message.id]: message.pointer } : others));
+        }
+      },
+      onEnd: reset,
+    });
+  }, [reset]);
+
+  const start = async () => {
+    setError('');
+    try {
+      const result = await postJson<CobrowseSessionStart>('/api/cobrowse/sessions', {});
+      open(result.code, result.designerToken);
+    } catch {
+      setError('failed');
+    }
+  };
+
+  const join = useCallback(async (raw: string) => {
+    const next = normalizeSessionCode(raw);
+    if (!next) {
+      setError('notFound');
+      return;
+    }
+    setError('');
+    try {
+      await apiRequest(`/api/cobrowse/sessions/${next}`);
+      open(next, loadDesignerToken(next));
+    } catch (err) {
+      setError(errorFor(err));
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get(SESSION_PARAM);
+    if (param) join(param);
+    return () => connectionRef.current?.close();
+  }, [join]);
+
+  const shareView = useCallback((view: CobrowseView) => connectionRef.current?.sendView(view), []);
+  const sharePointer = useCallback((pointer: Pointer) => connectionRef.current?.sendPointer(pointer), []);
+
+  return {
+    status,
+    code,
+    role,
+    selfId,
+    participants,
+    leaderId,
+    isLeader: !!selfId && selfId === leaderId,
+    /** The designer can always take the lead; anyone else only once it has been handed to them. */
+    canLead: role === 'designer' || (!!selfId && selfId === delegateId),
+    leaderView,
+    pointers,
+    following,
+    setFollowing,
+    error,
+    start,
+    join,
+    leave: () => reset(''),
+    takeLead: () => connectionRef.current?.takeLead(),
+    handOver: (id: string) => connectionRef.current?.handOver(id),
+    shareView,
+    sharePointer,
+  };
+};
+
+export type CobrowseSession = ReturnType<typeof useCobrowse>;
@@ -0,0 +1,69 @@
+// --- Site Content ---
+// Editable copy shown in the public overlays and managed from /admin.
+
+export interface HeroStat {
+  value: string;
+  label: string;
+}
+
+export const DEFAULT_HERO_STATS: HeroStat[] = [
+  { value: '11+', label: 'YEARS' },
+  { value: '600+', label: 'CLIENTS' },
+  { value: '45 DAYS', label: 'DELIVERY' },
+];
+
+export const MAX_HERO_STATS = 4;
+
+export interface Testimonial {
+  id: number;
+  author: string;
+  quote: string;
+  rating: number;
+  published: boolean;
+}
+
+export type TestimonialInput = Omit<Testimonial, 'id'>;
+
+export const DEFAULT_TESTIMONIALS: Testimonial[] = [
+  {
+    id: 0,
+    author: 'Ganesh Anand C',
+    quote: 'One of the best architect, who listens to the client\'s preference and enhance it to the current trend. An ideal person if you expect quality work.',
+    rating: 5,
+    published: true,
+  },
+];
+
+export interface SiteContent {
+  heroStats: HeroStat[];
+  testimonials: Testimonial[];
+}
+
+const readText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export const validateHeroStats = (input: unknown): { stats: HeroStat[] | null; error: string } => {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_HERO_STATS) {
+    return { stats: null, error: `Add between 1 and ${MAX_HERO_STATS} stats.` };
+  }
+  const stats = input.map(stat => ({ value: readText(stat?.value), label: readText(stat?.label).toUpperCase() }));
+  if (stats.some(stat => !stat.value || !stat.label || stat.value.length > 12 || stat.label.length > 24)) {
+    return { stats: null, error: 'Each stat needs a value (up to 12 characters) and a label (up to 24).' };
+  }
+  return { stats, error: '' };
+};
+
+export const validateTestimonial = (input: Record<string, unknown>): { testimonial: TestimonialInput | null; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const author = readText(input.author);
+  const quote = readText(input.quote);
+  const rating = Number(input.rating);
+
+  if (!author) errors.author = 'Please enter the client\'s name.';
+  else if (author.length > 80) errors.author = 'Must be 80 characters or fewer.';
+  if (!quote) errors.quote = 'Please enter the testimonial.';
+  else if (quote.length > 600) errors.quote = 'Must be 600 characters or fewer.';
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) errors.rating = 'Rating must be 1 to 5 stars.';
+
+  if (Object.keys(errors).length > 0) return { testimonial: null, errors };
+  return { testimonial: { author, quote, rating, published: input.published !== false }, errors };
+};
@@ -0,0 +1,20 @@
+/** Whole rupees with Indian digit grouping ("₹6,90,000"); `locale` is an Intl tag such as 'ta-IN'. */
+export const formatInr = (amount: number, locale = 'en-IN') =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(Math.round(amount));
+
+export const formatMetres = (value: number) => `${value.toFixed(2)} m`;
+
+export type LengthUnit = 'm' | 'ft';
+
+const INCHES_PER_METRE = 39.3701;
+
+/** Metres as "2.45 m", or in feet and inches ("8′ 0″") for visitors who think in feet. */
+export const formatLength = (metres: number, unit: LengthUnit) => {
+  if (unit === 'm') return formatMetres(metres);
+  const inches = Math.round(metres * INCHES_PER_METRE);
+  return `${Math.floor(inches / 12)}′ ${inches % 12}″`;
+};
+
+/** A YYYY-MM-DD date as "3 Nov 2026" (or the locale's equivalent). */
+export const formatDate = (date: string, locale = 'en-IN') =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import en, { type Messages } from '../locales/en';
+import hi from '../locales/hi';
+import ta from '../locales/ta';
+
+// --- Locales ---
+// The public site ships English, Tamil and Hindi catalogs. The chosen locale
+// lives in the `lang` query param so a shared link opens in the same language;
+// without one we go by the browser's preferences.
+
+export const LOCALES = ['en', 'ta', 'hi'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ta: 'தமிழ்',
+  hi: 'हिन्दी',
+};
+
+export const LOCALE_PARAM = 'lang';
+
+const CATALOGS: Record<Locale, Messages> = { en, ta, hi };
+
+const LOCALE_EVENT = 'siriz:locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+
+export const detectLocale = (): Locale => {
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const code = language.slice(0, 2).toLowerCase();
+    if (isLocale(code)) return code;
+  }
+  return 'en';
+};
+
+export const currentLocale = (): Locale => {
+  const param = new URLSearchParams(window.location.search).get(LOCALE_PARAM);
+  return isLocale(param) ? param : detectLocale();
+};
+
+// Intl tags: every locale formats numbers, dates and ₹ the Indian way.
+export const intlLocale = (locale: Locale) => `${locale}-IN`;
+
+export const localName = (item: { name: string; names?: Record<string, string> }, locale: Locale) =>
+  item.names?.[locale] ?? item.name;
+
+/** The shared validators write English; elsewhere each rejected field gets its catalog message. */
+export const localizeErrors = <T extends Partial<Record<string, string>>>(errors: T, locale: Locale): T => {
+  if (locale === 'en') return errors;
+  const catalog: Record<string, string> = CATALOGS[locale].errors;
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, message]) => [field, message && (catalog[field] ?? message)])
+  ) as T;
+};
+
+const apply = (locale: Locale) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(LOCALE_PARAM, locale);
+  window.history.replaceState(window.history.state, '', url);
+  document.documentElement.lang = locale;
+  document.title = CATALOGS[locale].meta.title;
+};
+
+export const setLocale = (locale: Locale) => {
+  apply(locale);
+  window.dispatchEvent(new Event(LOCALE_EVENT));
+};
+
+// Called once on boot so the URL, <html lang> and title agree from the start.
+export const initLocale = () => apply(currentLocale());
+
+export const useI18n = () => {
+  const [locale, setCurrent] = useState<Locale>(currentLocale);
+
+  useEffect(() => {
+    const update = () => setCurrent(currentLocale());
+    window.addEventListener('popstate', update);
+    window.addEventListener(LOCALE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(LOCALE_EVENT, update);
+    };
+  }, []);
+
+  return { locale, t: CATALOGS[locale], setLocale };
+};
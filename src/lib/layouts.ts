@@ -0,0 +1,53 @@
+import type { FurnitureItem, SceneDefinition } from '../scene/types';
+import { SceneValidationError, validateFurniture } from '../scene/validate';
+
+// --- Saved Layouts ---
+// A furniture arrangement made in the layout editor: the new furniture list of
+// each room that was rearranged. Shared by the editor and /api/layouts; a
+// layout opens with ?layout=<id> on the tour it was made for.
+
+export const LAYOUT_PARAM = 'layout';
+
+export const MAX_LAYOUT_ROOMS = 20;
+export const MAX_ROOM_ITEMS = 60;
+
+export interface LayoutInput {
+  sceneId: string;
+  rooms: Record<string, FurnitureItem[]>;
+}
+
+export interface Layout extends LayoutInput {
+  id: string;
+  createdAt: string;
+}
+
+export const validateLayout = (input: Record<string, unknown>): { layout: LayoutInput | null; error: string } => {
+  const sceneId = typeof input.sceneId === 'string' ? input.sceneId.trim() : '';
+  if (!sceneId) return { layout: null, error: 'A layout needs the id of the scene it was made for.' };
+
+  const rooms = input.rooms;
+  if (typeof rooms !== 'object' || rooms === null || Array.isArray(rooms)) return { layout: null, error: 'A layout needs its rooms.' };
+  const entries = Object.entries(rooms);
+  if (entries.length === 0) return { layout: null, error: 'Rearrange at least one room before saving.' };
+  if (entries.length > MAX_LAYOUT_ROOMS) return { layout: null, error: `A layout can cover up to ${MAX_LAYOUT_ROOMS} rooms.` };
+
+  const checked: Record<string, FurnitureItem[]> = {};
+  for (const [roomId, furniture] of entries) {
+    if (Array.isArray(furniture) && furniture.length > MAX_ROOM_ITEMS) {
+      return { layout: null, error: `A room can hold up to ${MAX_ROOM_ITEMS} items.` };
+    }
+    try {
+      checked[roomId] = validateFurniture(furniture, `rooms.${roomId}`);
+    } catch (err) {
+      if (!(err instanceof SceneValidationError)) throw err;
+      return { layout: null, error: err.issues.slice(0, 5).join('; ') };
+    }
+  }
+  return { layout: { sceneId, rooms: checked }, error: '' };
+};
+
+/** The scene with each room in the layout furnished as saved. */
+export const applyLayout = (scene: SceneDefinition, layout: LayoutInput): SceneDefinition => ({
+  ...scene,
+  rooms: scene.rooms.map(room => (layout.rooms[room.id] ? { ...room, furniture: layout.rooms[room.id] } : room)),
+});
@@ -0,0 +1,77 @@
+// --- Lead Validation ---
+// Shared by the contact form and the /api/leads endpoint so both report the
+// same field errors.
+
+export const PROPERTY_TYPES = ['1 BHK', '2 BHK', '3 BHK', 'Villa / Duplex'] as const;
+
+export type PropertyType = typeof PROPERTY_TYPES[number];
+
+export interface LeadInput {
+  name: string;
+  phone: string;
+  propertyType: PropertyType;
+  message: string;
+}
+
+export type LeadField = keyof LeadInput;
+
+export type LeadErrors = Partial<Record<LeadField, string>>;
+
+export const MESSAGE_MAX_LENGTH = 1000;
+
+/**
+ * Normalises an Indian mobile number to +91XXXXXXXXXX. Accepts an optional
+ * +91 / 91 / 0 prefix and common separators; returns null if it is not a
+ * valid 10-digit mobile number starting with 6-9.
+ */
+export const normalizeIndianPhone = (raw: string): string | null => {
+  const digits = raw.replace(/[\s\-().]/g, '').replace(/^(\+91|91|0)(?=\d{10}$)/, '');
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+};
+
+export const validateLead = (input: Record<string, unknown>): { lead: LeadInput | null; errors: LeadErrors } => {
+  const errors: LeadErrors = {};
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (name.length < 2) errors.name = 'Please enter your name.';
+  else if (name.length > 80) errors.name = 'Name must be 80 characters or fewer.';
+
+  const phone = typeof input.phone === 'string' ? normalizeIndianPhone(input.phone) : null;
+  if (!phone) errors.phone = 'Please enter a valid 10-digit Indian mobile number.';
+
+  const propertyType = PROPERTY_TYPES.find(type => type === input.propertyType);
+  if (!propertyType) errors.propertyType = 'Please select a property type.';
+
+  const message = typeof input.message === 'string' ? input.message.trim() : '';
+  if (message.length > MESSAGE_MAX_LENGTH) errors.message = `Message must be ${MESSAGE_MAX_LENGTH} characters or fewer.`;
+
+  if (Object.keys(errors).length > 0 || !phone || !propertyType) return { lead: null, errors };
+  return { lead: { name, phone, propertyType, message }, errors };
+};
+
+// --- Lead Pipeline ---
+
+export const LEAD_STATUSES = ['new', 'contacted', 'site-visit', 'won', 'lost'] as const;
+
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  'site-visit': 'Site Visit',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+// Where a lead came in. Each API route sets its own; clients never choose.
+export const LEAD_SOURCES = ['contact-form', 'quote-builder', 'booking'] as const;
+
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+export interface LeadRecord extends LeadInput {
+  id: number;
+  status: LeadStatus;
+  source: LeadSource;
+  createdAt: string;
+  updatedAt: string;
+}
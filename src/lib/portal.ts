@@ -0,0 +1,241 @@
+import { addDays, isValidDate } from './bookings';
+import { normalizeIndianPhone } from './leads';
+
+// --- Customer Portal ---
+// Shared by the portal page, the admin console and /api/portal. A client is
+// a customer with a project under way; they sign in with a one-time code
+// sent to the phone or email on their record. Dates are YYYY-MM-DD.
+
+export const PORTAL_PATH = '/portal';
+
+export const PROMISED_DELIVERY_DAYS = 45;
+export const WARRANTY_YEARS = 10;
+export const CODE_LENGTH = 6;
+export const CODE_TTL_MINUTES = 10;
+
+export const PROJECT_STAGES = ['design', 'planning', 'execution', 'delivery'] as const;
+
+export type ProjectStage = typeof PROJECT_STAGES[number];
+
+export const PROJECT_STAGE_LABELS: Record<ProjectStage, string> = {
+  design: 'Design',
+  planning: 'Planning',
+  execution: 'Execution',
+  delivery: 'Delivery',
+};
+
+export interface Milestone {
+  stage: ProjectStage;
+  title: string;
+  dueDate: string;
+  completedOn: string | null;
+}
+
+export interface ApprovedDesign {
+  title: string;
+  url: string;
+  approvedOn: string;
+}
+
+export interface SitePhoto {
+  url: string;
+  caption: string;
+  takenOn: string;
+}
+
+export interface Payment {
+  label: string;
+  amount: number;
+  dueDate: string;
+  paidOn: string | null;
+}
+
+export interface ClientInput {
+  name: string;
+  phone: string;
+  email: string;
+  projectName: string;
+  address: string;
+  startDate: string;
+  handoverDate: string | null;
+  milestones: Milestone[];
+  designs: ApprovedDesign[];
+  photos: SitePhoto[];
+  payments: Payment[];
+}
+
+export interface Client extends ClientInput {
+  id: number;
+  reference: string;
+}
+
+/** What a signed-in client sees: their project, without the contact details. */
+export type PortalProject = Omit<Client, 'id' | 'phone' | 'email'>;
+
+export const clientReference = (id: number) => `SP-${String(id).padStart(5, '0')}`;
+
+/** The date the project was promised by: PROMISED_DELIVERY_DAYS after the start. */
+export const deliveryDate = (startDate: string) => addDays(startDate, PROMISED_DELIVERY_DAYS);
+
+/** Whole days from one date to another (negative if `to` is earlier). */
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/** The warranty runs for WARRANTY_YEARS from handover, so it only exists once the home is handed over. */
+export const warrantyPeriod = (handoverDate: string | null) => {
+  if (!handoverDate) return null;
+  const end = new Date(`${handoverDate}T00:00:00Z`);
+  end.setUTCFullYear(end.getUTCFullYear() + WARRANTY_YEARS);
+  return { from: handoverDate, until: addDays(end.toISOString().slice(0, 10), -1) };
+};
+
+/** The studio's usual 45-day plan, as a starting point for a new client. */
+export const standardMilestones = (startDate: string): Milestone[] => [
+  { stage: 'design', title: 'Concept and 3D designs approved', dueDate: addDays(startDate, 7), completedOn: null },
+  { stage: 'planning', title: 'Drawings, materials and site measurements signed off', dueDate: addDays(startDate, 14), completedOn: null },
+  { stage: 'execution', title: 'Factory production and on-site installation', dueDate: addDays(startDate, 40), completedOn: null },
+  { stage: 'delivery', title: 'Final clean, snag check and handover', dueDate: deliveryDate(startDate), completedOn: null },
+];
+
+// --- Sign-in ---
+
+export type ContactChannel = 'sms' | 'email';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Reads a phone number or email address typed at sign-in. */
+export const readContact = (raw: unknown): { channel: ContactChannel; address: string } | null => {
+  const value = typeof raw === 'string' ? raw.trim() : '';
+  if (value.includes('@')) return EMAIL_PATTERN.test(value) && value.length <= 120 ? { channel: 'email', address: value.toLowerCase() } : null;
+  const phone = normalizeIndianPhone(value);
+  return phone ? { channel: 'sms', address: phone } : null;
+};
+
+export const isValidCode = (code: unknown): code is string => typeof code === 'string' && new RegExp(`^\\d{${CODE_LENGTH}}$`).test(code);
+
+// --- Validation ---
+
+const MAX_ROWS = 40;
+
+const readText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const readDate = (value: unknown) => {
+  const text = readText(value);
+  return isValidDate(text) ? text : null;
+};
+const isSiteUrl = (url: string) => /^(https?:\/\/|\/)\S+$/.test(url);
+
+/**
+ * Reads a list of rows with `read`, which returns the row or an error
+ * message. Reports the first bad row by its (1-based) number.
+ */
+const readRows = <T>(input: unknown, read: (row: Record<string, unknown>) => T | string): { rows: T[]; error?: string } => {
+  if (input === undefined) return { rows: [] };
+  if (!Array.isArray(input)) return { rows: [], error: 'Must be a list.' };
+  if (input.length > MAX_ROWS) return { rows: [], error: `Up to ${MAX_ROWS} rows.` };
+  const rows: T[] = [];
+  for (const [i, row] of input.entries()) {
+    const result = read(typeof row === 'object' && row !== null ? row : {});
+    if (typeof result === 'string') return { rows: [], error: `Row ${i + 1}: ${result}` };
+    rows.push(result);
+  }
+  return { rows };
+};
+
+const readMilestone = (row: Record<string, unknown>): Milestone | string => {
+  const stage = PROJECT_STAGES.find(s => s === row.stage);
+  const title = readText(row.title);
+  const dueDate = readDate(row.dueDate);
+  const completedOn = row.completedOn ? readDate(row.completedOn) : null;
+  if (!stage) return `stage must be one of ${PROJECT_STAGES.join(', ')}.`;
+  if (!title || title.length > 120) return 'needs a title of up to 120 characters.';
+  if (!dueDate) return 'needs a due date (YYYY-MM-DD).';
+  if (row.completedOn && !completedOn) return 'the completion date must be YYYY-MM-DD.';
+  return { stage, title, dueDate, completedOn };
+};
+
+const readDesign = (row: Record<string, unknown>): ApprovedDesign | string => {
+  const title = readText(row.title);
+  const url = readText(row.url);
+  const approvedOn = readDate(row.approvedOn);
+  if (!title || title.length > 120) return 'needs a title of up to 120 characters.';
+  if (!isSiteUrl(url)) return 'the link must be an absolute URL or a site path.';
+  if (!approvedOn) return 'needs the approval date (YYYY-MM-DD).';
+  return { title, url, approvedOn };
+};
+
+const readPhoto = (row: Record<string, unknown>): SitePhoto | string => {
+  const url = readText(row.url);
+  const caption = readText(row.caption);
+  const takenOn = readDate(row.takenOn);
+  if (!isSiteUrl(url)) return 'the image must be an absolute URL or a site path.';
+  if (caption.length > 160) return 'the caption must be 160 characters or fewer.';
+  if (!takenOn) return 'needs the date it was taken (YYYY-MM-DD).';
+  return { url, caption, takenOn };
+};
+
+const readPayment = (row: Record<string, unknown>): Payment | string => {
+  const label = readText(row.label);
+  const amount = Number(row.amount);
+  const dueDate = readDate(row.dueDate);
+  const paidOn = row.paidOn ? readDate(row.paidOn) : null;
+  if (!label || label.length > 80) return 'needs a label of up to 80 characters.';
+  if (!Number.isInteger(amount) || amount <= 0) return 'the amount must be a whole number of rupees.';
+  if (!dueDate) return 'needs a due date (YYYY-MM-DD).';
+  if (row.paidOn && !paidOn) return 'the payment date must be YYYY-MM-DD.';
+  return { label, amount, dueDate, paidOn };
+};
+
+/** Validates a client and their project (used when clients are created or edited in /admin). */
+export const validateClient = (input: Record<string, unknown>): { client: ClientInput | null; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+
+  const name = readText(input.name);
+  if (name.length < 2) errors.name = 'Please enter the client\'s name.';
+  else if (name.length > 80) errors.name = 'Must be 80 characters or fewer.';
+
+  const phone = normalizeIndianPhone(readText(input.phone));
+  if (!phone) errors.phone = 'Please enter a valid 10-digit Indian mobile number.';
+
+  const email = readText(input.email).toLowerCase();
+  if (email && readContact(email)?.channel !== 'email') errors.email = 'Please enter a valid email address.';
+
+  const projectName = readText(input.projectName);
+  if (!projectName) errors.projectName = 'This field is required.';
+  else if (projectName.length > 80) errors.projectName = 'Must be 80 characters or fewer.';
+
+  const address = readText(input.address);
+  if (address.length > 200) errors.address = 'Must be 200 characters or fewer.';
+
+  const startDate = readDate(input.startDate);
+  if (!startDate) errors.startDate = 'Please enter the start date (YYYY-MM-DD).';
+  const handoverDate = input.handoverDate ? readDate(input.handoverDate) : null;
+  if (input.handoverDate && !handoverDate) errors.handoverDate = 'Please enter the handover date (YYYY-MM-DD).';
+  else if (handoverDate && startDate && handoverDate < startDate) errors.handoverDate = 'Handover cannot be before the start.';
+
+  const milestones = readRows(input.milestones, readMilestone);
+  const designs = readRows(input.designs, readDesign);
+  const photos = readRows(input.photos, readPhoto);
+  const payments = readRows(input.payments, readPayment);
+  if (milestones.error) errors.milestones = milestones.error;
+  if (designs.error) errors.designs = designs.error;
+  if (photos.error) errors.photos = photos.error;
+  if (payments.error) errors.payments = payments.error;
+
+  if (Object.keys(errors).length > 0 || !phone || !startDate) return { client: null, errors };
+  return {
+    client: {
+      name,
+      phone,
+      email,
+      projectName,
+      address,
+      startDate,
+      handoverDate,
+      milestones: [...milestones.rows].sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+      designs: designs.rows,
+      photos: photos.rows,
+      payments: [...payments.rows].sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+    },
+    errors,
+  };
+};
@@ -0,0 +1,41 @@
+import { ApiError, apiRequest } from './api';
+
+// --- Customer Portal API Client ---
+// Clients stay signed in on their device until the session expires or they sign out.
+
+const TOKEN_KEY = 'siriz-portal-token';
+
+export const PORTAL_SIGNED_OUT_EVENT = 'siriz:portal-signed-out';
+
+export const loadPortalToken = () => {
+  try {
+    return localStorage.getItem(TOKEN_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const savePortalToken = (token: string | null) => {
+  try {
+    if (token) localStorage.setItem(TOKEN_KEY, token);
+    else localStorage.removeItem(TOKEN_KEY);
+  } catch {
+    // Without storage the session lasts until the page is closed.
+  }
+};
+
+/** Like apiRequest, but authenticated; an expired session clears the stored token. */
+export async function portalRequest<T>(url: string, init: RequestInit = {}): Promise<T> {
+  try {
+    return await apiRequest<T>(`/api/portal${url}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${loadPortalToken() ?? ''}`, ...init.headers },
+    });
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      savePortalToken(null);
+      window.dispatchEvent(new Event(PORTAL_SIGNED_OUT_EVENT));
+    }
+    throw err;
+  }
+}
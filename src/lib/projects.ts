@@ -0,0 +1,69 @@
+import { PROPERTY_TYPES, type PropertyType } from './leads';
+import type { SceneDefinition } from '../scene/types';
+import { SceneValidationError, validateScene } from '../scene/validate';
+
+// --- Portfolio Projects ---
+
+export const BUDGET_BANDS = ['Under ₹5 Lakh', '₹5 – 10 Lakh', '₹10 – 20 Lakh', '₹20 Lakh+'] as const;
+
+export type BudgetBand = typeof BUDGET_BANDS[number];
+
+export interface ProjectSummary {
+  slug: string;
+  name: string;
+  location: string;
+  bhk: PropertyType;
+  budgetBand: BudgetBand;
+  description: string;
+  gallery: string[];
+  hasTour: boolean;
+}
+
+export interface Project extends ProjectSummary {
+  scene: SceneDefinition | null;
+}
+
+export type ProjectInput = Omit<Project, 'hasTour'>;
+
+export const projectPath = (slug: string) => `/projects/${slug}`;
+
+/** Returns the slug from a /projects/:slug path, or null for any other path. */
+export const matchProjectPath = (pathname: string) => pathname.match(/^\/projects\/([a-z0-9-]+)\/?$/)?.[1] ?? null;
+
+/** Validates project fields (used when projects are created or edited). */
+export const validateProject = (input: Record<string, unknown>): { project: ProjectInput | null; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const text = (key: string, max: number) => {
+    const value = typeof input[key] === 'string' ? (input[key] as string).trim() : '';
+    if (!value) errors[key] = 'This field is required.';
+    else if (value.length > max) errors[key] = `Must be ${max} characters or fewer.`;
+    return value;
+  };
+
+  const slug = text('slug', 60);
+  if (slug && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) errors.slug = 'Use lowercase letters, numbers and hyphens only.';
+  const name = text('name', 80);
+  const location = text('location', 80);
+  const description = text('description', 2000);
+
+  const bhk = PROPERTY_TYPES.find(type => type === input.bhk);
+  if (!bhk) errors.bhk = 'Please select a property type.';
+  const budgetBand = BUDGET_BANDS.find(band => band === input.budgetBand);
+  if (!budgetBand) errors.budgetBand = 'Please select a budget band.';
+
+  const gallery = Array.isArray(input.gallery) ? input.gallery.filter((url): url is string => typeof url === 'string' && url.trim() !== '') : [];
+  if (!Array.isArray(input.gallery ?? [])) errors.gallery = 'Gallery must be a list of image URLs.';
+  else if (gallery.some(url => !/^(https?:\/\/|\/)/.test(url))) errors.gallery = 'Gallery images must be absolute URLs or site paths.';
+
+  let scene: SceneDefinition | null = null;
+  if (input.scene !== undefined && input.scene !== null) {
+    try {
+      scene = validateScene(input.scene);
+    } catch (err) {
+      errors.scene = err instanceof SceneValidationError ? err.issues.slice(0, 5).join('; ') : 'Invalid scene definition.';
+    }
+  }
+
+  if (Object.keys(errors).length > 0 || !bhk || !budgetBand) return { project: null, errors };
+  return { project: { slug, name, location, bhk, budgetBand, description, gallery, scene }, errors };
+};
@@ -0,0 +1,29 @@
+// --- Quote Items ---
+// Pieces a visitor has added to their quote while browsing the walkthrough.
+// Kept in localStorage so the list survives reloads.
+
+export interface QuoteItem {
+  id: string;
+  name: string;
+  material: string;
+  price: number;
+}
+
+const STORAGE_KEY = 'siriz-quote-items';
+
+export const loadQuoteItems = (): QuoteItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQuoteItems = (items: QuoteItem[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the list then lasts for this visit only.
+  }
+};
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { modulesForRoom, roomsForProperty, validateQuoteSelection } from './quotes';
+
+const CATALOGUE = new Set(['sofa-3', 'desk-oak']);
+
+const selection = (overrides: Record<string, unknown> = {}) =>
+  validateQuoteSelection({ propertyType: '2 BHK', tier: 'premium', rooms: { kitchen: ['modular-kitchen'] }, ...overrides }, CATALOGUE);
+
+describe('roomsForProperty', () => {
+  test('hides bedrooms beyond the BHK count', () => {
+    const rooms = roomsForProperty('2 BHK').map(room => room.id);
+    assert.ok(rooms.includes('master-bedroom'));
+    assert.ok(rooms.includes('bedroom-2'));
+    assert.ok(!rooms.includes('bedroom-3'));
+  });
+
+  test('offers four bedrooms in a villa', () => {
+    assert.ok(roomsForProperty('Villa / Duplex').some(room => room.id === 'bedroom-4'));
+  });
+});
+
+describe('modulesForRoom', () => {
+  test('offers a modular kitchen only in the kitchen', () => {
+    assert.deepEqual(modulesForRoom('kitchen').map(module => module.id), ['modular-kitchen', 'false-ceiling']);
+    assert.ok(!modulesForRoom('living').some(module => module.id === 'modular-kitchen'));
+  });
+});
+
+describe('validateQuoteSelection', () => {
+  test('accepts a room with a module', () => {
+    assert.deepEqual(selection(), {
+      selection: { propertyType: '2 BHK', rooms: { kitchen: ['modular-kitchen'] }, tier: 'premium', furniture: [] },
+    });
+  });
+
+  test('requires a property type and a finish tier', () => {
+    assert.equal(selection({ propertyType: '5 BHK' }).error, 'Please select a property type.');
+    assert.equal(selection({ tier: 'gold' }).error, 'Please select a finish tier.');
+  });
+
+  test('refuses rooms the property does not have', () => {
+    assert.equal(selection({ rooms: { 'bedroom-3': ['wardrobe'] } }).error, '"bedroom-3" is not available for a 2 BHK.');
+  });
+
+  test('refuses modules the room does not offer', () => {
+    assert.equal(selection({ rooms: { living: ['modular-kitchen'] } }).error, 'Unknown module selected for Living Room.');
+  });
+
+  test('drops rooms with no modules and repeated modules', () => {
+    const result = selection({ rooms: { kitchen: ['false-ceiling', 'false-ceiling'], living: [] } });
+    assert.deepEqual(result.selection?.rooms, { kitchen: ['false-ceiling'] });
+  });
+
+  test('keeps only furniture the catalogue knows, once each', () => {
+    const result = selection({ furniture: ['sofa-3', 'nope', 'sofa-3', 42] });
+    assert.deepEqual(result.selection?.furniture, ['sofa-3']);
+  });
+
+  test('accepts furniture on its own', () => {
+    assert.deepEqual(selection({ rooms: {}, furniture: ['desk-oak'] }).selection?.furniture, ['desk-oak']);
+  });
+
+  test('refuses a selection of only unknown furniture', () => {
+    assert.deepEqual(selection({ rooms: {}, furniture: ['nope'] }), {
+      selection: null,
+      error: 'Please choose at least one room and module.',
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { PROPERTY_TYPES, type PropertyType } from './leads';
+
+// --- Quote Builder Options ---
+// Shared by the estimator UI and the server. Prices live only on the server
+// (server/pricing.ts) so every estimate comes from the same table.
+
+export const QUOTE_ROOMS = [
+  { id: 'living', label: 'Living Room' },
+  { id: 'dining', label: 'Dining & Foyer' },
+  { id: 'kitchen', label: 'Kitchen' },
+  { id: 'master-bedroom', label: 'Master Bedroom' },
+  { id: 'bedroom-2', label: 'Bedroom 2' },
+  { id: 'bedroom-3', label: 'Bedroom 3' },
+  { id: 'bedroom-4', label: 'Bedroom 4' },
+  { id: 'study', label: 'Study' },
+] as const;
+
+export type QuoteRoomId = typeof QUOTE_ROOMS[number]['id'];
+
+export const QUOTE_MODULES = [
+  { id: 'modular-kitchen', label: 'Modular Kitchen', rooms: ['kitchen'] },
+  { id: 'wardrobe', label: 'Wardrobes', rooms: ['master-bedroom', 'bedroom-2', 'bedroom-3', 'bedroom-4', 'study'] },
+  { id: 'tv-unit', label: 'TV Unit', rooms: ['living', 'master-bedroom', 'bedroom-2', 'bedroom-3', 'bedroom-4'] },
+  { id: 'false-ceiling', label: 'False Ceiling', rooms: ['living', 'dining', 'kitchen', 'master-bedroom', 'bedroom-2', 'bedroom-3', 'bedroom-4', 'study'] },
+] as const satisfies readonly { id: string; label: string; rooms: readonly QuoteRoomId[] }[];
+
+export type QuoteModuleId = typeof QUOTE_MODULES[number]['id'];
+
+export const FINISH_TIERS = [
+  { id: 'essential', label: 'Essential', description: 'Laminate finishes, standard hardware' },
+  { id: 'premium', label: 'Premium', description: 'Acrylic & veneer finishes, soft-close hardware' },
+  { id: 'luxury', label: 'Luxury', description: 'Lacquer, natural stone & imported fittings' },
+] as const;
+
+export type FinishTier = typeof FINISH_TIERS[number]['id'];
+
+export const GST_RATE = 0.18;
+
+/** Rooms offered for a property type; bedrooms beyond the BHK count are hidden. */
+export const roomsForProperty = (propertyType: PropertyType) => {
+  const bedrooms = propertyType === 'Villa / Duplex' ? 4 : Number(propertyType[0]);
+  return QUOTE_ROOMS.filter(room => {
+    if (room.id === 'master-bedroom') return true;
+    const match = room.id.match(/^bedroom-(\d)$/);
+    return match ? Number(match[1]) <= bedrooms : true;
+  });
+};
+
+export const modulesForRoom = (roomId: QuoteRoomId) =>
+  QUOTE_MODULES.filter(module => (module.rooms as readonly QuoteRoomId[]).includes(roomId));
+
+export interface QuoteSelection {
+  propertyType: PropertyType;
+  rooms: Partial<Record<QuoteRoomId, QuoteModuleId[]>>;
+  tier: FinishTier;
+  /** Furniture pieces added from the walkthrough, by product id. */
+  furniture: string[];
+}
+
+export interface EstimateLine {
+  label: string;
+  detail: string;
+  amount: number;
+}
+
+export interface Estimate {
+  propertyType: PropertyType;
+  tier: FinishTier;
+  lines: EstimateLine[];
+  subtotal: number;
+  gstRate: number;
+  gst: number;
+  total: number;
+}
+
+/**
+ * Checks an untrusted selection; returns an error message or the typed
+ * selection. Furniture ids the catalogue does not know are dropped before
+ * the selection is judged empty, so they cannot make up a quote on their own.
+ */
+export const validateQuoteSelection = (
+  input: Record<string, unknown>,
+  catalogue: { has: (id: string) => boolean }
+): { selection: QuoteSelection | null; error?: string } => {
+  const propertyType = PROPERTY_TYPES.find(type => type === input.propertyType);
+  if (!propertyType) return { selection: null, error: 'Please select a property type.' };
+
+  const tier = FINISH_TIERS.find(t => t.id === input.tier)?.id;
+  if (!tier) return { selection: null, error: 'Please select a finish tier.' };
+
+  const allowedRooms = roomsForProperty(propertyType);
+  const rawRooms = typeof input.rooms === 'object' && input.rooms !== null ? input.rooms as Record<string, unknown> : {};
+  const rooms: QuoteSelection['rooms'] = {};
+  for (const [roomId, modules] of Object.entries(rawRooms)) {
+    const room = allowedRooms.find(r => r.id === roomId);
+    if (!room) return { selection: null, error: `"${roomId}" is not available for a ${propertyType}.` };
+    if (!Array.isArray(modules)) return { selection: null, error: `Modules for ${room.label} must be a list.` };
+    const allowedModules = modulesForRoom(room.id).map(module => module.id);
+    const chosen = [...new Set(modules)].filter((id): id is QuoteModuleId => allowedModules.includes(id as QuoteModuleId));
+    if (chosen.length !== new Set(modules).size) return { selection: null, error: `Unknown module selected for ${room.label}.` };
+    if (chosen.length > 0) rooms[room.id] = chosen;
+  }
+
+  const furniture = Array.isArray(input.furniture)
+    ? [...new Set(input.furniture.filter((id): id is string => typeof id === 'string' && catalogue.has(id)))]
+    : [];
+
+  if (Object.keys(rooms).length === 0 && furniture.length === 0) {
+    return { selection: null, error: 'Please choose at least one room and module.' };
+  }
+
+  return { selection: { propertyType, rooms, tier, furniture } };
+};
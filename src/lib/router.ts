@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { SESSION_PARAM } from './cobrowse';
+import { LOCALE_PARAM } from './i18n';
+
+// --- Client Routing ---
+// The site is a single page; the few routes it has are plain paths kept in
+// sync with history so they can be shared and reloaded.
+
+const NAVIGATE_EVENT = 'siriz:navigate';
+
+// The language choice and a shared session travel with the visitor from page to page.
+const STICKY_PARAMS = [LOCALE_PARAM, SESSION_PARAM];
+
+const keepParams = (path: string) => {
+  const current = new URLSearchParams(window.location.search);
+  const url = new URL(path, window.location.origin);
+  STICKY_PARAMS.forEach(param => {
+    const value = current.get(param);
+    if (value) url.searchParams.set(param, value);
+  });
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+export const navigate = (path: string) => {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, '', keepParams(path));
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+export const usePathname = () => {
+  const [pathname, setPathname] = useState(window.location.pathname);
+
+  useEffect(() => {
+    const update = () => setPathname(window.location.pathname);
+    window.addEventListener('popstate', update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return pathname;
+};
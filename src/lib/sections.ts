@@ -0,0 +1,128 @@
+import type { CameraKeyframe } from '../scene/types';
+
+// --- Overlay Sections ---
+// Each overlay on the home page tour declares where on the camera path it
+// belongs: the stretch of keyframes tagged with one room, or an explicit
+// keyframe range. Scroll windows are derived from the keyframes, so moving a
+// keyframe moves its overlays with it, and each window reaches halfway
+// across the camera move to the next one so no stretch of the tour is bare.
+
+export type SectionId = 'home' | 'about' | 'services' | 'portfolio' | 'testimonials' | 'contact';
+
+/** Which side of the screen the panel sits on. */
+export type SectionSide = 'left' | 'center' | 'right';
+
+/** How the panel enters and leaves: slides come in from its own side. */
+export type SectionTransition = 'fade' | 'slide' | 'zoom';
+
+export type SectionAnchor = { room: string } | { keyframes: [from: number, to: number] };
+
+export interface SectionDefinition {
+  id: SectionId;
+  anchor: SectionAnchor;
+  side: SectionSide;
+  transition: SectionTransition;
+}
+
+export interface SectionRange {
+  from: number;
+  to: number;
+}
+
+export const SECTIONS: SectionDefinition[] = [
+  { id: 'home', anchor: { room: 'foyer' }, side: 'center', transition: 'fade' },
+  { id: 'about', anchor: { room: 'living-room' }, side: 'left', transition: 'slide' },
+  { id: 'services', anchor: { room: 'bedroom' }, side: 'right', transition: 'slide' },
+  { id: 'portfolio', anchor: { room: 'kitchen' }, side: 'center', transition: 'zoom' },
+  // On the way from the kitchen into the study.
+  { id: 'testimonials', anchor: { keyframes: [7, 8] }, side: 'left', transition: 'fade' },
+  { id: 'contact', anchor: { room: 'study' }, side: 'center', transition: 'fade' },
+];
+
+export const isSectionId = (id: string): id is SectionId => SECTIONS.some(section => section.id === id);
+
+const LAYOUT: Record<SectionSide, string> = {
+  left: 'items-center',
+  center: 'flex-col items-center justify-center',
+  right: 'items-center justify-end',
+};
+
+const HIDDEN: Record<SectionTransition, (side: SectionSide) => string> = {
+  fade: () => 'opacity-0',
+  slide: side => (side === 'right' ? 'opacity-0 translate-x-10' : side === 'left' ? 'opacity-0 -translate-x-10' : 'opacity-0 translate-y-10'),
+  zoom: () => 'opacity-0 scale-95',
+};
+
+const SHOWN: Record<SectionTransition, string> = {
+  fade: 'opacity-100',
+  slide: 'opacity-100 translate-x-0 translate-y-0',
+  zoom: 'opacity-100 scale-100',
+};
+
+/** Tailwind classes for a section's layout and its shown / hidden states. */
+export const sectionClasses = ({ side, transition }: SectionDefinition) => ({
+  layout: LAYOUT[side],
+  shown: SHOWN[transition],
+  hidden: HIDDEN[transition](side),
+});
+
+/** The scroll window (from inclusive, to exclusive) of one anchor on these keyframes. */
+const resolveAnchor = (anchor: SectionAnchor, keyframes: CameraKeyframe[]): SectionRange | string => {
+  if ('room' in anchor) {
+    const frames = keyframes.filter(frame => frame.room === anchor.room);
+    if (frames.length === 0) return `no keyframes in room "${anchor.room}"`;
+    return { from: frames[0].scroll, to: frames[frames.length - 1].scroll };
+  }
+  const [from, to] = anchor.keyframes;
+  if (!keyframes[from] || !keyframes[to] || from >= to) return `keyframes [${from}, ${to}] are not a range on this path`;
+  return { from: keyframes[from].scroll, to: keyframes[to].scroll };
+};
+
+/**
+ * Scroll windows for every section on a camera path. Unresolvable anchors and
+ * overlapping windows are mistakes in the registry: they throw in
+ * development and are logged in production, where the section stays hidden.
+ */
+export const resolveSections = (sections: SectionDefinition[], keyframes: CameraKeyframe[]) => {
+  const issues: string[] = [];
+  const ranges = {} as Record<SectionId, SectionRange>;
+
+  sections.forEach(section => {
+    const range = resolveAnchor(section.anchor, keyframes);
+    if (typeof range === 'string') {
+      issues.push(`${section.id}: ${range}`);
+      ranges[section.id] = { from: 2, to: 2 };
+      return;
+    }
+    sections.forEach(other => {
+      const seen = ranges[other.id];
+      if (other === section || !seen) return;
+      if (range.from < seen.to && seen.from < range.to) {
+        issues.push(`${section.id} (${range.from}–${range.to}) overlaps ${other.id} (${seen.from}–${seen.to})`);
+      }
+    });
+    ranges[section.id] = range;
+  });
+
+  // Between two windows the camera is still travelling; the earlier one
+  // stays up for the first half of that move and the later one takes over.
+  const ordered = sections.map(section => ranges[section.id]).filter(range => range.from < range.to).sort((a, b) => a.from - b.from);
+  ordered.slice(1).forEach((range, i) => {
+    const previous = ordered[i];
+    if (previous.to >= range.from) return;
+    const midpoint = (previous.to + range.from) / 2;
+    previous.to = midpoint;
+    range.from = midpoint;
+  });
+
+  if (issues.length > 0) {
+    const message = `Overlay sections do not fit the camera path:\n${issues.map(issue => `  - ${issue}`).join('\n')}`;
+    if (import.meta.env.DEV) throw new Error(message);
+    console.error(message);
+  }
+  return ranges;
+};
+
+/** Whether scroll progress falls in a window; the last one stays up at the very end of the tour. */
+export const isInRange = ({ from, to }: SectionRange, progress: number) =>
+  progress >= from && (progress < to || (to >= 1 && progress >= 1));
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { MAX_BATCH_EVENTS, MAX_DWELL_MS, type AnalyticsEvent, type ConversionForm, type CtaTarget } from './analytics';
+
+// --- Analytics Tracker ---
+// Nothing is recorded until the visitor allows it, and a Do Not Track or
+// Global Privacy Control signal counts as a no. Events are queued and posted
+// in batches; whatever is left goes out with sendBeacon when the page is hidden.
+
+export type Consent = 'granted' | 'denied' | 'unset';
+
+const CONSENT_KEY = 'siriz-analytics-consent';
+const SESSION_KEY = 'siriz-analytics-session';
+const CONSENT_EVENT = 'siriz:analytics-consent';
+const ENDPOINT = '/api/analytics';
+const FLUSH_DELAY_MS = 15_000;
+
+// Shorter stays are the camera passing through a room, not someone looking at it.
+const MIN_DWELL_MS = 1000;
+
+const browserOptsOut = () =>
+  navigator.doNotTrack === '1' || (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true;
+
+let consent: Consent | null = null;
+
+const currentConsent = (): Consent => {
+  if (browserOptsOut()) return 'denied';
+  if (consent) return consent;
+  try {
+    const stored = localStorage.getItem(CONSENT_KEY);
+    consent = stored === 'granted' || stored === 'denied' ? stored : 'unset';
+  } catch {
+    consent = 'unset';
+  }
+  return consent;
+};
+
+// A random id per tab, so events from one visit can be grouped and nothing more.
+const newSessionId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+let session: string | null = null;
+
+const sessionId = () => {
+  if (session) return session;
+  try {
+    session = sessionStorage.getItem(SESSION_KEY) ?? newSessionId();
+    sessionStorage.setItem(SESSION_KEY, session);
+  } catch {
+    // Without storage a reload starts a new session.
+    session ??= newSessionId();
+  }
+  return session;
+};
+
+let queue: AnalyticsEvent[] = [];
+let flushTimer: number | undefined;
+// The room being looked at, and the furthest point reached on each page's tour.
+let stay: { page: string; room: string; since: number } | null = null;
+const depths = new Map<string, { max: number; sent: number }>();
+
+const send = (events: AnalyticsEvent[], beacon: boolean) => {
+  const body = JSON.stringify({ sessionId: sessionId(), events });
+  if (beacon && navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: 'application/json' }))) return;
+  fetch(ENDPOINT, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true }).catch(() => undefined);
+};
+
+const flush = (beacon = false) => {
+  window.clearTimeout(flushTimer);
+  flushTimer = undefined;
+  if (currentConsent() !== 'granted') return;
+  depths.forEach((depth, page) => {
+    if (depth.max <= depth.sent) return;
+    queue.push({ type: 'depth', page, depth: depth.max });
+    depth.sent = depth.max;
+  });
+  while (queue.length > 0) send(queue.splice(0, MAX_BATCH_EVENTS), beacon);
+};
+
+const enqueue = (event: AnalyticsEvent) => {
+  if (currentConsent() !== 'granted') return;
+  queue.push(event);
+  if (flushTimer === undefined) flushTimer = window.setTimeout(flush, FLUSH_DELAY_MS);
+};
+
+/** Records the time spent in the current room so far and restarts its clock. */
+const recordStay = () => {
+  if (!stay) return;
+  const ms = Math.min(Date.now() - stay.since, MAX_DWELL_MS);
+  if (ms >= MIN_DWELL_MS) enqueue({ type: 'dwell', page: stay.page, room: stay.room, ms });
+  stay.since = Date.now();
+};
+
+/** The room the tour on `page` is showing, or null when no tour is on screen. */
+export const trackRoom = (page: string, room: string | null) => {
+  if (stay?.page === page && stay.room === room) return;
+  recordStay();
+  stay = room ? { page, room, since: Date.now() } : null;
+};
+
+export const trackDepth = (page: string, progress: number) => {
+  const depth = depths.get(page) ?? { max: 0, sent: 0 };
+  depth.max = Math.max(depth.max, Math.min(1, Math.round(progress * 100) / 100));
+  depths.set(page, depth);
+};
+
+export const trackCta = (target: CtaTarget) => enqueue({ type: 'cta', page: window.location.pathname, target });
+
+export const trackConversion = (form: ConversionForm) => enqueue({ type: 'conversion', page: window.location.pathname, form });
+
+const setConsent = (next: Consent) => {
+  consent = next;
+  try {
+    if (next === 'unset') localStorage.removeItem(CONSENT_KEY);
+    else localStorage.setItem(CONSENT_KEY, next);
+  } catch {
+    // Without storage the choice lasts for this visit only.
+  }
+  if (next !== 'granted') {
+    queue = [];
+    depths.clear();
+  }
+  window.dispatchEvent(new Event(CONSENT_EVENT));
+};
+
+// Called once on boot. Time spent in a hidden tab does not count as dwell.
+export const initAnalytics = () => {
+  const leave = () => {
+    recordStay();
+    flush(true);
+  };
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') leave();
+    else if (stay) stay.since = Date.now();
+  });
+  window.addEventListener('pagehide', leave);
+};
+
+/** The visitor's choice; `canChoose` is false when the browser has already said no. */
+export const useAnalyticsConsent = () => {
+  const [value, setValue] = useState<Consent>(currentConsent);
+
+  useEffect(() => {
+    const update = () => setValue(currentConsent());
+    window.addEventListener(CONSENT_EVENT, update);
+    return () => window.removeEventListener(CONSENT_EVENT, update);
+  }, []);
+
+  return { consent: value, setConsent, canChoose: !browserOptsOut() };
+};
@@ -0,0 +1,403 @@
+// --- English Messages ---
+// The reference catalog: its shape is the `Messages` type every other locale
+// must match. Functions take the values they interpolate.
+
+const en = {
+  meta: {
+    title: 'SIRIZ Interiors · We Design Your Dream Home',
+  },
+  nav: {
+    main: 'Main',
+    mobile: 'Mobile',
+    about: 'About',
+    services: 'Services',
+    portfolio: 'Portfolio',
+    contact: 'Contact',
+    getQuote: (count: number) => (count > 0 ? `GET QUOTE (${count})` : 'GET QUOTE'),
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+    language: 'Language',
+  },
+  loader: {
+    loading: 'LOADING EXPERIENCE',
+  },
+  skipToContact: 'SKIP TO CONTACT FORM',
+  noWebgl: 'THE 3D WALKTHROUGH NEEDS WEBGL, WHICH THIS BROWSER CANNOT PROVIDE',
+  hero: {
+    company: 'INTERIORS PVT LTD',
+    tagline: '"We Design Your Dream Home"',
+    bookConsultation: 'BOOK FREE CONSULTATION',
+  },
+  about: {
+    heading: 'About SIRIZ',
+    body: 'With 11 years of solid experience, SIRIZ Interiors ensures we consistently exceed our customers\' expectations through quality service. We provide special and unique touches to interiors and make your dreams come true.',
+    creativity: 'Creativity',
+    precision: 'Precision',
+  },
+  services: {
+    heading: 'What We Master',
+    items: ['Residential Interiors', 'Commercial Spaces', '3D Visualization', 'Turnkey Execution'],
+    perks: ['💰 Lowest Price', '⏱️ 45-Day Delivery', '🛡️ 10-Year Warranty'],
+    portal: '🔐 Customer Portal',
+  },
+  portfolio: {
+    heading: 'Our Signature Work',
+    packagesFrom: (price: string) => `Packages starting from ${price}`,
+    packagesDetail: 'Kitchens, Wardrobes, and Full Home Interiors',
+    viewPricing: 'View Pricing',
+    unavailable: 'Our portfolio is unavailable right now. Please check back shortly.',
+    walkThrough: 'Walk Through',
+    viewProject: 'View Project',
+  },
+  project: {
+    allProjects: 'ALL PROJECTS',
+    loading: 'LOADING PROJECT...',
+    notFound: 'We could not find that project.',
+    loadFailed: 'This project could not be loaded. Please try again.',
+    home: 'Home',
+    budget: 'Budget',
+    scrollToWalk: 'SCROLL TO WALK THROUGH THIS HOME',
+    tourComingSoon: 'A WALKTHROUGH OF THIS HOME IS COMING SOON. MEANWHILE, EXPLORE OUR SHOW FLAT.',
+  },
+  testimonials: {
+    heading: 'Client Stories',
+    showStory: (author: string) => `Show story from ${author}`,
+    process: ['DESIGN', 'PLANNING', 'EXECUTION', 'DELIVERY'],
+  },
+  contact: {
+    heading: 'Let\'s Build Extraordinary',
+    subheading: 'Book your FREE design consultation today.',
+    callUs: 'Call Us',
+    email: 'Email',
+    visit: 'Visit',
+    address: 'Medavakkam, Chennai',
+    copyright: '© 2025 SIRIZ INTERIORS PVT LTD. ALL RIGHTS RESERVED.',
+    whatsapp: 'Chat with us on WhatsApp',
+    whatsappMessage: 'Hi I\'m Interested in your interior designing',
+  },
+  consent: {
+    label: 'Analytics',
+    message: 'May we count which rooms you visit and how far you scroll? It helps us improve the tour. No cookies, and nothing that identifies you.',
+    allow: 'Allow',
+    decline: 'No thanks',
+    choices: 'Analytics choices',
+  },
+  form: {
+    name: 'Your Name',
+    phone: 'Phone Number',
+    propertyType: 'Select Property Type',
+    message: 'Tell us about your dream home...',
+    submit: 'GET FREE CONSULTATION',
+    submitting: 'SENDING...',
+    thanks: 'Thank you!',
+    callback: 'Our design team will call you within one working day.',
+    another: 'Send another enquiry',
+    genericError: 'Something went wrong. Please try again.',
+  },
+  // Per-field stand-ins for the shared validators' English messages in other
+  // locales (see `localizeErrors`); other server messages are shown as sent.
+  errors: {
+    name: 'Please enter your name (up to 80 characters).',
+    phone: 'Please enter a valid 10-digit Indian mobile number.',
+    propertyType: 'Please select a property type.',
+    message: 'Message must be 1000 characters or fewer.',
+    notes: 'Notes must be 1000 characters or fewer.',
+    type: 'Please choose a showroom consultation or a site visit.',
+    date: 'Please pick a date.',
+    time: 'Please pick a time.',
+    address: 'Please enter the address we should visit (up to 300 characters).',
+  },
+  common: {
+    step: (step: number, total: number, name: string) => `Step ${step} of ${total} · ${name}`,
+    close: 'Close',
+    back: 'Back',
+    next: 'Next',
+  },
+  tour: {
+    nowShowing: (room: string) => `3D walkthrough, now showing ${room}`,
+    previousRoom: 'Previous room',
+    nextRoom: 'Next room',
+    walkHintKeys: 'WASD / ARROW KEYS TO WALK · DRAG TO LOOK',
+    walkHintTouch: 'DRAG LEFT TO WALK · DRAG RIGHT TO LOOK',
+    measureHint: 'TAP TWO POINTS ON A FLOOR OR WALL',
+    units: 'Units',
+    metres: 'METRES',
+    feet: 'FEET',
+    clear: 'CLEAR',
+    customise: 'CUSTOMISE',
+    askDesigner: 'ASK A DESIGNER',
+    walkAround: 'WALK AROUND',
+    backToTour: 'BACK TO TOUR',
+    measure: 'MEASURE',
+    doneMeasuring: 'DONE MEASURING',
+    lighting: 'LIGHTING',
+    arrange: 'ARRANGE',
+    doneArranging: 'DONE ARRANGING',
+    tourTogether: 'TOUR TOGETHER',
+    compare: (room: string) => `Before and after: ${room}`,
+  },
+  compare: {
+    before: 'BEFORE',
+    after: 'AFTER',
+    divider: 'Before and after divider',
+    position: (percent: number) => `${percent}% showing before`,
+  },
+  measure: {
+    roomSize: (width: string, depth: string, height: string) => `${width} × ${depth} · ${height} high`,
+    furniture: (name: string, width: string, depth: string, height: string) => `${name}: ${width} W × ${depth} D × ${height} H`,
+  },
+  lighting: {
+    label: 'Lighting',
+    presets: {
+      morning: 'Morning Daylight',
+      'golden-hour': 'Golden Hour',
+      evening: 'Evening Warm',
+      night: 'Night (Lamps Only)',
+    },
+    time: 'TIME',
+    lampHint: 'CLICK A LAMP TO SWITCH IT ON OR OFF',
+  },
+  layout: {
+    label: 'Furniture layout',
+    hint: 'DRAG TO MOVE · R TO TURN (SHIFT + R FOR 15°) · DELETE TO REMOVE',
+    piece: 'Piece to add',
+    add: 'ADD',
+    selected: (name: string) => `Selected: ${name}`,
+    nothingSelected: 'Click a piece to select it',
+    rotate: 'TURN 90°',
+    rotateFine: 'TURN 15°',
+    remove: 'REMOVE',
+    undo: 'Undo',
+    redo: 'Redo',
+    save: 'SAVE LAYOUT',
+    saving: 'SAVING…',
+    saved: 'Saved. This link opens your layout:',
+    saveFailed: 'The layout could not be saved. Please try again.',
+    loadFailed: 'That layout could not be opened, so the designer\'s furniture is shown.',
+    catalogue: {
+      sofa: 'Sofa',
+      armchair: 'Armchair',
+      bed: 'Queen bed',
+      'coffee-table': 'Coffee table',
+      'dining-table': 'Dining table',
+      'side-table': 'Side table',
+      'tv-cabinet': 'TV cabinet',
+      wardrobe: 'Wardrobe',
+      bookshelf: 'Bookshelf',
+      'floor-lamp': 'Floor lamp',
+    },
+  },
+  cobrowse: {
+    label: 'Shared session',
+    intro: 'Tour the home together with your designer while you talk: whoever leads, the others see the same view.',
+    start: 'START A SESSION',
+    starting: 'STARTING…',
+    code: 'Session code',
+    join: 'JOIN',
+    joining: 'JOINING…',
+    notFound: 'No session has that code. Please check it with your designer.',
+    full: 'This session is full.',
+    failed: 'Could not connect. Please try again.',
+    ended: 'The shared session has ended.',
+    share: 'Share this code, or the link, with your client:',
+    copyLink: 'COPY LINK',
+    copied: 'COPIED',
+    connecting: 'CONNECTING…',
+    reconnecting: 'RECONNECTING…',
+    inSession: (count: number) => `${count} in this session`,
+    roles: { designer: 'Designer', client: 'Client' },
+    you: 'you',
+    leading: 'leading',
+    takeLead: 'TAKE THE LEAD',
+    handOver: 'let them lead',
+    youLead: 'You are leading',
+    follow: 'Follow the leader',
+    leave: 'LEAVE',
+  },
+  minimap: {
+    title: 'FLOOR PLAN',
+    label: 'Floor plan',
+    rooms: 'Rooms',
+    goTo: (room: string) => `Go to ${room}`,
+  },
+  product: {
+    material: 'Material',
+    dimensions: 'Dimensions (W × H × D)',
+    price: 'Indicative Price',
+    add: 'ADD TO MY QUOTE',
+    added: 'ADDED TO MY QUOTE',
+  },
+  finishes: {
+    heading: 'Customise Finishes',
+    label: 'Finish configurator',
+    asDesigned: 'As designed',
+    slots: {
+      wall: 'Wall Paint',
+      floor: 'Flooring',
+      upholstery: 'Upholstery',
+      cabinet: 'Cabinet Finish',
+    },
+    copyLink: 'COPY SHAREABLE LINK',
+    linkCopied: 'LINK COPIED',
+    copyPrompt: 'Copy this link to share the look:',
+  },
+  assistant: {
+    heading: 'Design Assistant',
+    greeting: 'Hi! Tell me about the home you imagine, e.g. "warm minimal 2BHK, lots of storage", and I will suggest a look for the room you are in.',
+    preview: 'Preview in room',
+    undoPreview: 'Undo preview',
+    thinking: 'THINKING...',
+    placeholder: 'Describe your taste...',
+    message: 'Message',
+    send: 'Send',
+  },
+  quote: {
+    label: 'Quote builder',
+    heading: 'Estimate Your Interiors',
+    steps: ['Property', 'Rooms', 'Modules', 'Finish', 'Estimate'],
+    rooms: {
+      living: 'Living Room',
+      dining: 'Dining & Foyer',
+      kitchen: 'Kitchen',
+      'master-bedroom': 'Master Bedroom',
+      'bedroom-2': 'Bedroom 2',
+      'bedroom-3': 'Bedroom 3',
+      'bedroom-4': 'Bedroom 4',
+      study: 'Study',
+    },
+    modules: {
+      'modular-kitchen': 'Modular Kitchen',
+      wardrobe: 'Wardrobes',
+      'tv-unit': 'TV Unit',
+      'false-ceiling': 'False Ceiling',
+    },
+    tiers: {
+      essential: { label: 'Essential', description: 'Laminate finishes, standard hardware' },
+      premium: { label: 'Premium', description: 'Acrylic & veneer finishes, soft-close hardware' },
+      luxury: { label: 'Luxury', description: 'Lacquer, natural stone & imported fittings' },
+    },
+    includeFurniture: (count: number) => `Include ${count} piece${count > 1 ? 's' : ''} added from the walkthrough`,
+    furnitureOnly: 'No rooms selected; your estimate will cover the furniture you picked.',
+    calculating: 'CALCULATING...',
+    estimateFailed: 'Could not calculate your estimate.',
+    subtotal: 'Subtotal',
+    gst: (rate: number) => `GST @ ${rate}%`,
+    total: 'Total',
+    saveIntro: 'Save this estimate and our designer will call you to refine it.',
+    save: 'SAVE MY QUOTE',
+    saving: 'SAVING...',
+    saveFailed: 'Could not save your quote. Please try again.',
+    saved: 'Saved as',
+    savedCallback: 'Our team will call you within one working day.',
+    print: 'Print summary',
+    seeEstimate: 'See Estimate',
+    printTitle: (reference: string | null) => (reference ? `Quote ${reference}` : 'Indicative Estimate'),
+    printFinish: (tier: string) => `${tier} finish`,
+    printDisclaimer: 'Indicative estimate based on standard room sizes; the final quote follows a site measurement. Valid for 30 days.',
+  },
+  booking: {
+    label: 'Book a consultation',
+    heading: 'Book a Free Consultation',
+    steps: ['Visit', 'Date & Time', 'Your Details'],
+    types: {
+      showroom: { label: 'Showroom Consultation', description: 'Meet a designer at our Medavakkam studio and see materials in person.' },
+      'site-visit': { label: 'Site Visit', description: 'A designer visits your home to measure up and talk through ideas.' },
+    },
+    summary: (type: string, date: string, time: string) => `${type} on ${date} at ${time}`,
+    address: 'Address for the site visit',
+    notes: 'Anything we should know? (optional)',
+    confirm: 'CONFIRM BOOKING',
+    booking: 'BOOKING...',
+    bookFailed: 'Could not book your consultation. Please try again.',
+    loadingTimes: 'LOADING AVAILABLE TIMES...',
+    timesFailed: 'Could not load available times.',
+    fullyBooked: 'All consultations for the next few weeks are booked. Please call us on +91 84384 23938.',
+    date: 'Date',
+    time: 'Time',
+    booked: 'Booked',
+    seeYou: 'See You Soon',
+    reference: 'Reference',
+    consultation: 'Consultation',
+    when: 'When',
+    where: 'Where',
+    with: (type: string, designer: string) => `${type} with ${designer}`,
+    cancelled: 'Cancelled',
+    addToCalendar: 'Add to Calendar',
+    keepLink: 'Keep this link to reschedule or cancel:',
+    yourBooking: 'Your Booking',
+    details: 'Consultation Details',
+    pickNewTime: 'Pick a New Time',
+    loading: 'LOADING...',
+    loadFailed: 'Could not load your booking.',
+    updateFailed: 'Could not update your booking. Please try again.',
+    reschedule: 'Reschedule',
+    cancel: 'Cancel booking',
+    confirmCancel: 'Cancel this consultation?',
+    saving: 'Saving...',
+    confirmNewTime: 'Confirm New Time',
+  },
+  portal: {
+    title: 'Customer Portal',
+    signInHeading: 'Follow Your Project',
+    signInIntro: 'Enter the mobile number or email address you gave us and we will send you a one-time code.',
+    contact: 'Mobile number or email',
+    sendCode: 'SEND CODE',
+    sending: 'SENDING...',
+    codeSent: {
+      sms: 'If this number is on a SIRIZ project, a 6-digit code is on its way by SMS.',
+      email: 'If this address is on a SIRIZ project, a 6-digit code is on its way by email.',
+    },
+    code: '6-digit code',
+    signIn: 'SIGN IN',
+    signingIn: 'SIGNING IN...',
+    changeContact: 'Use a different number or email',
+    resend: 'Send a new code',
+    invalidContact: 'Please enter a 10-digit mobile number or an email address.',
+    failed: 'Something went wrong. Please try again.',
+    signOut: 'Sign out',
+    loading: 'LOADING YOUR PROJECT...',
+    loadFailed: 'Your project could not be loaded.',
+    retry: 'Try again',
+    reference: (reference: string) => `Project ${reference}`,
+    day: (day: number, total: number) => `Day ${day} of ${total}`,
+    promisedBy: (date: string) => `Promised by ${date}`,
+    startsOn: (date: string) => `Work starts on ${date}`,
+    handedOver: (date: string) => `Handed over on ${date}`,
+    onTrack: 'On track',
+    late: (days: number) => `${days} ${days === 1 ? 'day' : 'days'} past the promised date`,
+    timeline: 'Milestones',
+    stages: { design: 'Design', planning: 'Planning', execution: 'Execution', delivery: 'Delivery' },
+    due: (date: string) => `Due ${date}`,
+    completed: (date: string) => `Completed ${date}`,
+    overdue: 'Overdue',
+    noMilestones: 'Your designer will add your milestones shortly.',
+    designs: 'Approved Designs',
+    approvedOn: (date: string) => `Approved ${date}`,
+    noDesigns: 'Designs appear here once you approve them.',
+    photos: 'Site Photos',
+    noPhotos: 'Photos from your site will appear here once work begins.',
+    payments: 'Payment Schedule',
+    payment: 'Payment',
+    amount: 'Amount',
+    status: 'Status',
+    paidOn: (date: string) => `Paid ${date}`,
+    dueOn: (date: string) => `Due ${date}`,
+    paid: (amount: string) => `Paid: ${amount}`,
+    outstanding: (amount: string) => `Outstanding: ${amount}`,
+    noPayments: 'Your payment schedule will appear here.',
+    warranty: '10-Year Warranty',
+    warrantyValid: (from: string, until: string) => `Valid from ${from} to ${until}`,
+    warrantyPending: 'Your warranty starts on the day we hand over your home.',
+    warrantyCovers: [
+      'Kitchen and wardrobe carcasses, shutters and drawers',
+      'Laminates, veneers and edge banding against manufacturing defects',
+      'Hinges, channels and fittings we supplied and installed',
+    ],
+    warrantyExcludes: 'Not covered: damage from water leaks, pests, misuse or changes made by others.',
+    warrantyClaim: (reference: string) => `To make a claim, call or WhatsApp us quoting ${reference}.`,
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,399 @@
+import type { Messages } from './en';
+
+// --- Hindi Messages ---
+
+const hi: Messages = {
+  meta: {
+    title: 'SIRIZ इंटीरियर्स · हम आपके सपनों का घर डिज़ाइन करते हैं',
+  },
+  nav: {
+    main: 'मुख्य',
+    mobile: 'मोबाइल',
+    about: 'हमारे बारे में',
+    services: 'सेवाएँ',
+    portfolio: 'हमारा काम',
+    contact: 'संपर्क',
+    getQuote: (count: number) => (count > 0 ? `कोटेशन पाएँ (${count})` : 'कोटेशन पाएँ'),
+    openMenu: 'मेन्यू खोलें',
+    closeMenu: 'मेन्यू बंद करें',
+    language: 'भाषा',
+  },
+  loader: {
+    loading: 'लोड हो रहा है',
+  },
+  skipToContact: 'संपर्क फ़ॉर्म पर जाएँ',
+  noWebgl: '3D वॉकथ्रू के लिए WEBGL चाहिए, जो यह ब्राउज़र उपलब्ध नहीं करा सकता',
+  hero: {
+    company: 'इंटीरियर्स प्राइवेट लिमिटेड',
+    tagline: '"हम आपके सपनों का घर डिज़ाइन करते हैं"',
+    bookConsultation: 'मुफ़्त परामर्श बुक करें',
+  },
+  about: {
+    heading: 'SIRIZ के बारे में',
+    body: '11 वर्षों के ठोस अनुभव के साथ, SIRIZ इंटीरियर्स गुणवत्तापूर्ण सेवा से अपने ग्राहकों की अपेक्षाओं से बढ़कर काम करता है। हम इंटीरियर में ख़ास और अनोखा स्पर्श जोड़कर आपके सपनों को साकार करते हैं।',
+    creativity: 'रचनात्मकता',
+    precision: 'सटीकता',
+  },
+  services: {
+    heading: 'हमारी विशेषताएँ',
+    items: ['आवासीय इंटीरियर', 'व्यावसायिक स्थान', '3D विज़ुअलाइज़ेशन', 'टर्नकी निष्पादन'],
+    perks: ['💰 सबसे कम कीमत', '⏱️ 45 दिन में डिलीवरी', '🛡️ 10 साल की वारंटी'],
+    portal: '🔐 ग्राहक पोर्टल',
+  },
+  portfolio: {
+    heading: 'हमारे विशिष्ट काम',
+    packagesFrom: (price: string) => `${price} से शुरू होने वाले पैकेज`,
+    packagesDetail: 'किचन, वार्डरोब और पूरे घर का इंटीरियर',
+    viewPricing: 'कीमतें देखें',
+    unavailable: 'हमारा पोर्टफ़ोलियो अभी उपलब्ध नहीं है। कृपया थोड़ी देर बाद देखें।',
+    walkThrough: 'घूमकर देखें',
+    viewProject: 'प्रोजेक्ट देखें',
+  },
+  project: {
+    allProjects: 'सभी प्रोजेक्ट',
+    loading: 'प्रोजेक्ट लोड हो रहा है...',
+    notFound: 'हमें वह प्रोजेक्ट नहीं मिला।',
+    loadFailed: 'यह प्रोजेक्ट लोड नहीं हो सका। कृपया फिर से प्रयास करें।',
+    home: 'घर',
+    budget: 'बजट',
+    scrollToWalk: 'इस घर में घूमने के लिए स्क्रॉल करें',
+    tourComingSoon: 'इस घर का वॉकथ्रू जल्द आ रहा है। तब तक हमारा शो फ़्लैट देखें।',
+  },
+  testimonials: {
+    heading: 'ग्राहकों की कहानियाँ',
+    showStory: (author: string) => `${author} की कहानी दिखाएँ`,
+    process: ['डिज़ाइन', 'योजना', 'निष्पादन', 'डिलीवरी'],
+  },
+  contact: {
+    heading: 'आइए कुछ असाधारण बनाएँ',
+    subheading: 'आज ही अपना मुफ़्त डिज़ाइन परामर्श बुक करें।',
+    callUs: 'कॉल करें',
+    email: 'ईमेल',
+    visit: 'पता',
+    address: 'मेडवाक्कम, चेन्नई',
+    copyright: '© 2025 SIRIZ इंटीरियर्स प्राइवेट लिमिटेड। सर्वाधिकार सुरक्षित।',
+    whatsapp: 'व्हाट्सऐप पर हमसे बात करें',
+    whatsappMessage: 'नमस्ते, मुझे आपकी इंटीरियर डिज़ाइनिंग में रुचि है',
+  },
+  consent: {
+    label: 'एनालिटिक्स',
+    message: 'क्या हम गिन सकते हैं कि आप कौन-से कमरे देखते हैं और कितना स्क्रॉल करते हैं? इससे हमें टूर बेहतर बनाने में मदद मिलती है। कोई कुकी नहीं, और आपकी पहचान बताने वाला कुछ भी नहीं।',
+    allow: 'अनुमति दें',
+    decline: 'नहीं, धन्यवाद',
+    choices: 'एनालिटिक्स विकल्प',
+  },
+  form: {
+    name: 'आपका नाम',
+    phone: 'फ़ोन नंबर',
+    propertyType: 'प्रॉपर्टी का प्रकार चुनें',
+    message: 'अपने सपनों के घर के बारे में बताएँ...',
+    submit: 'मुफ़्त परामर्श पाएँ',
+    submitting: 'भेजा जा रहा है...',
+    thanks: 'धन्यवाद!',
+    callback: 'हमारी डिज़ाइन टीम एक कार्य दिवस के भीतर आपको कॉल करेगी।',
+    another: 'एक और पूछताछ भेजें',
+    genericError: 'कुछ गड़बड़ हो गई। कृपया फिर से प्रयास करें।',
+  },
+  errors: {
+    name: 'कृपया अपना नाम दर्ज करें (80 अक्षरों तक)।',
+    phone: 'कृपया 10 अंकों का मान्य भारतीय मोबाइल नंबर दर्ज करें।',
+    propertyType: 'कृपया प्रॉपर्टी का प्रकार चुनें।',
+    message: 'संदेश 1000 अक्षरों या उससे कम का होना चाहिए।',
+    notes: 'नोट्स 1000 अक्षरों या उससे कम के होने चाहिए।',
+    type: 'कृपया शोरूम परामर्श या साइट विज़िट चुनें।',
+    date: 'कृपया एक तारीख़ चुनें।',
+    time: 'कृपया एक समय चुनें।',
+    address: 'कृपया वह पता दर्ज करें जहाँ हमें आना है (300 अक्षरों तक)।',
+  },
+  common: {
+    step: (step: number, total: number, name: string) => `चरण ${step} / ${total} · ${name}`,
+    close: 'बंद करें',
+    back: 'पीछे',
+    next: 'आगे',
+  },
+  tour: {
+    nowShowing: (room: string) => `3D वॉकथ्रू, अभी ${room}`,
+    previousRoom: 'पिछला कमरा',
+    nextRoom: 'अगला कमरा',
+    walkHintKeys: 'चलने के लिए WASD / ऐरो कुंजियाँ · देखने के लिए खींचें',
+    walkHintTouch: 'चलने के लिए बाईं ओर खींचें · देखने के लिए दाईं ओर खींचें',
+    measureHint: 'फ़र्श या दीवार पर दो बिंदु टैप करें',
+    units: 'इकाइयाँ',
+    metres: 'मीटर',
+    feet: 'फ़ुट',
+    clear: 'साफ़ करें',
+    customise: 'अपने हिसाब से बदलें',
+    askDesigner: 'डिज़ाइनर से पूछें',
+    walkAround: 'घूमकर देखें',
+    backToTour: 'टूर पर लौटें',
+    measure: 'नापें',
+    doneMeasuring: 'नापना पूरा हुआ',
+    lighting: 'रोशनी',
+    arrange: 'फ़र्नीचर सजाएँ',
+    doneArranging: 'सजाना पूरा हुआ',
+    tourTogether: 'साथ में देखें',
+    compare: (room: string) => `पहले और बाद में: ${room}`,
+  },
+  compare: {
+    before: 'पहले',
+    after: 'बाद में',
+    divider: 'पहले / बाद में विभाजक',
+    position: (percent: number) => `${percent}% पहले वाला दिख रहा है`,
+  },
+  measure: {
+    roomSize: (width: string, depth: string, height: string) => `${width} × ${depth} · ऊँचाई ${height}`,
+    furniture: (name: string, width: string, depth: string, height: string) => `${name}: चौड़ाई ${width} × गहराई ${depth} × ऊँचाई ${height}`,
+  },
+  lighting: {
+    label: 'रोशनी',
+    presets: {
+      morning: 'सुबह की रोशनी',
+      'golden-hour': 'सुनहरी शाम',
+      evening: 'गर्म शाम',
+      night: 'रात (सिर्फ़ लैंप)',
+    },
+    time: 'समय',
+    lampHint: 'लैंप चालू / बंद करने के लिए उस पर क्लिक करें',
+  },
+  layout: {
+    label: 'फ़र्नीचर लेआउट',
+    hint: 'हिलाने के लिए खींचें · घुमाने के लिए R (15° के लिए SHIFT + R) · हटाने के लिए DELETE',
+    piece: 'जोड़ने के लिए फ़र्नीचर',
+    add: 'जोड़ें',
+    selected: (name: string) => `चुना गया: ${name}`,
+    nothingSelected: 'चुनने के लिए किसी फ़र्नीचर पर क्लिक करें',
+    rotate: '90° घुमाएँ',
+    rotateFine: '15° घुमाएँ',
+    remove: 'हटाएँ',
+    undo: 'पूर्ववत करें',
+    redo: 'फिर से करें',
+    save: 'लेआउट सहेजें',
+    saving: 'सहेजा जा रहा है…',
+    saved: 'सहेज लिया गया। यह लिंक आपका लेआउट खोलता है:',
+    saveFailed: 'लेआउट सहेजा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    loadFailed: 'वह लेआउट खुल नहीं सका, इसलिए डिज़ाइनर का फ़र्नीचर दिखाया जा रहा है।',
+    catalogue: {
+      sofa: 'सोफ़ा',
+      armchair: 'आरामकुर्सी',
+      bed: 'क्वीन बेड',
+      'coffee-table': 'कॉफ़ी टेबल',
+      'dining-table': 'डाइनिंग टेबल',
+      'side-table': 'साइड टेबल',
+      'tv-cabinet': 'टीवी कैबिनेट',
+      wardrobe: 'वार्डरोब',
+      bookshelf: 'बुकशेल्फ़',
+      'floor-lamp': 'फ़्लोर लैंप',
+    },
+  },
+  cobrowse: {
+    label: 'साझा सत्र',
+    intro: 'बात करते हुए अपने डिज़ाइनर के साथ घर घूमकर देखें: जो आगे चलता है, बाकी सब वही नज़ारा देखते हैं।',
+    start: 'सत्र शुरू करें',
+    starting: 'शुरू हो रहा है…',
+    code: 'सत्र कोड',
+    join: 'जुड़ें',
+    joining: 'जुड़ रहे हैं…',
+    notFound: 'इस कोड का कोई सत्र नहीं है। कृपया अपने डिज़ाइनर से जाँच लें।',
+    full: 'यह सत्र भर चुका है।',
+    failed: 'जुड़ नहीं सके। कृपया फिर से कोशिश करें।',
+    ended: 'साझा सत्र समाप्त हो गया।',
+    share: 'यह कोड या लिंक अपने क्लाइंट के साथ साझा करें:',
+    copyLink: 'लिंक कॉपी करें',
+    copied: 'कॉपी हो गया',
+    connecting: 'जुड़ रहे हैं…',
+    reconnecting: 'फिर से जुड़ रहे हैं…',
+    inSession: (count: number) => `इस सत्र में ${count} लोग`,
+    roles: { designer: 'डिज़ाइनर', client: 'क्लाइंट' },
+    you: 'आप',
+    leading: 'आगे चल रहे हैं',
+    takeLead: 'आगे चलें',
+    handOver: 'इन्हें आगे चलने दें',
+    youLead: 'आप आगे चल रहे हैं',
+    follow: 'आगे चलने वाले के साथ चलें',
+    leave: 'छोड़ें',
+  },
+  minimap: {
+    title: 'फ़्लोर प्लान',
+    label: 'फ़्लोर प्लान',
+    rooms: 'कमरे',
+    goTo: (room: string) => `${room} पर जाएँ`,
+  },
+  product: {
+    material: 'सामग्री',
+    dimensions: 'माप (चौ × ऊँ × ग)',
+    price: 'अनुमानित कीमत',
+    add: 'मेरे कोटेशन में जोड़ें',
+    added: 'कोटेशन में जोड़ा गया',
+  },
+  finishes: {
+    heading: 'फ़िनिश बदलें',
+    label: 'फ़िनिश चयनकर्ता',
+    asDesigned: 'डिज़ाइन के अनुसार',
+    slots: {
+      wall: 'दीवार का रंग',
+      floor: 'फ़्लोरिंग',
+      upholstery: 'अपहोल्स्ट्री',
+      cabinet: 'कैबिनेट फ़िनिश',
+    },
+    copyLink: 'शेयर करने योग्य लिंक कॉपी करें',
+    linkCopied: 'लिंक कॉपी हो गया',
+    copyPrompt: 'यह लुक शेयर करने के लिए यह लिंक कॉपी करें:',
+  },
+  assistant: {
+    heading: 'डिज़ाइन सहायक',
+    greeting: 'नमस्ते! जिस घर की आप कल्पना करते हैं उसके बारे में बताएँ, जैसे "गर्माहट भरा सादा 2BHK, ढेर सारा स्टोरेज", और मैं आपके मौजूदा कमरे के लिए एक लुक सुझाऊँगा।',
+    preview: 'कमरे में देखें',
+    undoPreview: 'प्रीव्यू हटाएँ',
+    thinking: 'सोच रहा है...',
+    placeholder: 'अपनी पसंद बताएँ...',
+    message: 'संदेश',
+    send: 'भेजें',
+  },
+  quote: {
+    label: 'कोटेशन बिल्डर',
+    heading: 'अपने इंटीरियर का अनुमान लगाएँ',
+    steps: ['प्रॉपर्टी', 'कमरे', 'मॉड्यूल', 'फ़िनिश', 'अनुमान'],
+    rooms: {
+      living: 'लिविंग रूम',
+      dining: 'डाइनिंग और फ़ोयर',
+      kitchen: 'किचन',
+      'master-bedroom': 'मास्टर बेडरूम',
+      'bedroom-2': 'बेडरूम 2',
+      'bedroom-3': 'बेडरूम 3',
+      'bedroom-4': 'बेडरूम 4',
+      study: 'स्टडी',
+    },
+    modules: {
+      'modular-kitchen': 'मॉड्यूलर किचन',
+      wardrobe: 'वार्डरोब',
+      'tv-unit': 'टीवी यूनिट',
+      'false-ceiling': 'फ़ॉल्स सीलिंग',
+    },
+    tiers: {
+      essential: { label: 'एसेंशियल', description: 'लैमिनेट फ़िनिश, स्टैंडर्ड हार्डवेयर' },
+      premium: { label: 'प्रीमियम', description: 'ऐक्रिलिक और विनियर फ़िनिश, सॉफ़्ट-क्लोज़ हार्डवेयर' },
+      luxury: { label: 'लग्ज़री', description: 'लैकर, प्राकृतिक पत्थर और इम्पोर्टेड फ़िटिंग्स' },
+    },
+    includeFurniture: (count: number) => `वॉकथ्रू से जोड़ी गई ${count} चीज़ें शामिल करें`,
+    furnitureOnly: 'कोई कमरा नहीं चुना गया; आपका अनुमान केवल आपके चुने फ़र्नीचर का होगा।',
+    calculating: 'गणना हो रही है...',
+    estimateFailed: 'आपका अनुमान नहीं निकाला जा सका।',
+    subtotal: 'उप-योग',
+    gst: (rate: number) => `जीएसटी @ ${rate}%`,
+    total: 'कुल',
+    saveIntro: 'यह अनुमान सहेजें, हमारे डिज़ाइनर इसे बेहतर बनाने के लिए आपको कॉल करेंगे।',
+    save: 'मेरा कोटेशन सहेजें',
+    saving: 'सहेजा जा रहा है...',
+    saveFailed: 'आपका कोटेशन सहेजा नहीं जा सका। कृपया फिर से प्रयास करें।',
+    saved: 'इस नंबर से सहेजा गया',
+    savedCallback: 'हमारी टीम एक कार्य दिवस के भीतर आपको कॉल करेगी।',
+    print: 'सारांश प्रिंट करें',
+    seeEstimate: 'अनुमान देखें',
+    printTitle: (reference: string | null) => (reference ? `कोटेशन ${reference}` : 'अनुमानित लागत'),
+    printFinish: (tier: string) => `${tier} फ़िनिश`,
+    printDisclaimer: 'मानक कमरों के आकार पर आधारित अनुमान; अंतिम कोटेशन साइट की नाप के बाद दिया जाएगा। 30 दिनों तक मान्य।',
+  },
+  booking: {
+    label: 'परामर्श बुक करें',
+    heading: 'मुफ़्त परामर्श बुक करें',
+    steps: ['मुलाक़ात', 'तारीख़ और समय', 'आपका विवरण'],
+    types: {
+      showroom: { label: 'शोरूम परामर्श', description: 'हमारे मेडवाक्कम स्टूडियो में डिज़ाइनर से मिलें और सामग्री ख़ुद देखें।' },
+      'site-visit': { label: 'साइट विज़िट', description: 'डिज़ाइनर आपके घर आकर नाप लेंगे और विचारों पर बात करेंगे।' },
+    },
+    summary: (type: string, date: string, time: string) => `${type}: ${date}, ${time}`,
+    address: 'साइट विज़िट का पता',
+    notes: 'कुछ और जो हमें जानना चाहिए? (वैकल्पिक)',
+    confirm: 'बुकिंग पक्की करें',
+    booking: 'बुक हो रहा है...',
+    bookFailed: 'आपका परामर्श बुक नहीं हो सका। कृपया फिर से प्रयास करें।',
+    loadingTimes: 'उपलब्ध समय लोड हो रहे हैं...',
+    timesFailed: 'उपलब्ध समय लोड नहीं हो सके।',
+    fullyBooked: 'अगले कुछ हफ़्तों के सभी परामर्श बुक हो चुके हैं। कृपया +91 84384 23938 पर कॉल करें।',
+    date: 'तारीख़',
+    time: 'समय',
+    booked: 'बुक हो गया',
+    seeYou: 'जल्द मिलते हैं',
+    reference: 'संदर्भ संख्या',
+    consultation: 'परामर्श',
+    when: 'कब',
+    where: 'कहाँ',
+    with: (type: string, designer: string) => `${designer} के साथ ${type}`,
+    cancelled: 'रद्द',
+    addToCalendar: 'कैलेंडर में जोड़ें',
+    keepLink: 'समय बदलने या रद्द करने के लिए यह लिंक संभालकर रखें:',
+    yourBooking: 'आपकी बुकिंग',
+    details: 'परामर्श विवरण',
+    pickNewTime: 'नया समय चुनें',
+    loading: 'लोड हो रहा है...',
+    loadFailed: 'आपकी बुकिंग लोड नहीं हो सकी।',
+    updateFailed: 'आपकी बुकिंग अपडेट नहीं हो सकी। कृपया फिर से प्रयास करें।',
+    reschedule: 'समय बदलें',
+    cancel: 'बुकिंग रद्द करें',
+    confirmCancel: 'यह परामर्श रद्द करें?',
+    saving: 'सहेजा जा रहा है...',
+    confirmNewTime: 'नया समय पक्का करें',
+  },
+  portal: {
+    title: 'ग्राहक पोर्टल',
+    signInHeading: 'अपने प्रोजेक्ट पर नज़र रखें',
+    signInIntro: 'हमें दिया गया मोबाइल नंबर या ईमेल पता डालें, हम आपको एक बार इस्तेमाल होने वाला कोड भेजेंगे।',
+    contact: 'मोबाइल नंबर या ईमेल',
+    sendCode: 'कोड भेजें',
+    sending: 'भेजा जा रहा है...',
+    codeSent: {
+      sms: 'अगर यह नंबर किसी SIRIZ प्रोजेक्ट से जुड़ा है, तो 6 अंकों का कोड SMS से आ रहा है।',
+      email: 'अगर यह पता किसी SIRIZ प्रोजेक्ट से जुड़ा है, तो 6 अंकों का कोड ईमेल से आ रहा है।',
+    },
+    code: '6 अंकों का कोड',
+    signIn: 'साइन इन करें',
+    signingIn: 'साइन इन हो रहा है...',
+    changeContact: 'दूसरा नंबर या ईमेल इस्तेमाल करें',
+    resend: 'नया कोड भेजें',
+    invalidContact: 'कृपया 10 अंकों का मोबाइल नंबर या ईमेल पता डालें।',
+    failed: 'कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।',
+    signOut: 'साइन आउट',
+    loading: 'आपका प्रोजेक्ट लोड हो रहा है...',
+    loadFailed: 'आपका प्रोजेक्ट लोड नहीं हो सका।',
+    retry: 'फिर से कोशिश करें',
+    reference: (reference: string) => `प्रोजेक्ट ${reference}`,
+    day: (day: number, total: number) => `${total} में से दिन ${day}`,
+    promisedBy: (date: string) => `${date} तक सौंपने का वादा`,
+    startsOn: (date: string) => `काम ${date} को शुरू होगा`,
+    handedOver: (date: string) => `${date} को सौंपा गया`,
+    onTrack: 'समय पर',
+    late: (days: number) => `वादे की तारीख से ${days} दिन ऊपर`,
+    timeline: 'पड़ाव',
+    stages: { design: 'डिज़ाइन', planning: 'योजना', execution: 'निर्माण', delivery: 'डिलीवरी' },
+    due: (date: string) => `नियत तारीख ${date}`,
+    completed: (date: string) => `${date} को पूरा हुआ`,
+    overdue: 'देर हो गई',
+    noMilestones: 'आपके डिज़ाइनर जल्द ही पड़ाव जोड़ेंगे।',
+    designs: 'मंज़ूर डिज़ाइन',
+    approvedOn: (date: string) => `${date} को मंज़ूर`,
+    noDesigns: 'मंज़ूरी देने के बाद डिज़ाइन यहाँ दिखेंगे।',
+    photos: 'साइट की तस्वीरें',
+    noPhotos: 'काम शुरू होने पर आपकी साइट की तस्वीरें यहाँ दिखेंगी।',
+    payments: 'भुगतान सूची',
+    payment: 'भुगतान',
+    amount: 'राशि',
+    status: 'स्थिति',
+    paidOn: (date: string) => `${date} को भुगतान हुआ`,
+    dueOn: (date: string) => `नियत तारीख ${date}`,
+    paid: (amount: string) => `भुगतान हुआ: ${amount}`,
+    outstanding: (amount: string) => `बाकी: ${amount}`,
+    noPayments: 'आपकी भुगतान सूची यहाँ दिखेगी।',
+    warranty: '10 साल की वारंटी',
+    warrantyValid: (from: string, until: string) => `${from} से ${until} तक मान्य`,
+    warrantyPending: 'आपकी वारंटी घर सौंपने के दिन से शुरू होगी।',
+    warrantyCovers: [
+      'किचन और वार्डरोब के ढाँचे, शटर और दराज़',
+      'लैमिनेट, विनियर और एज बैंडिंग में निर्माण दोष',
+      'हमारे द्वारा दिए और लगाए गए कब्ज़े, चैनल और फ़िटिंग',
+    ],
+    warrantyExcludes: 'शामिल नहीं: पानी के रिसाव, कीड़ों, गलत इस्तेमाल या दूसरों के बदलाव से हुआ नुकसान।',
+    warrantyClaim: (reference: string) => `दावा करने के लिए ${reference} बताकर हमें कॉल या WhatsApp करें।`,
+  },
+};
+
+export default hi;
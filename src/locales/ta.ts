@@ -0,0 +1,399 @@
+import type { Messages } from './en';
+
+// --- Tamil Messages ---
+
+const ta: Messages = {
+  meta: {
+    title: 'SIRIZ இன்டீரியர்ஸ் · உங்கள் கனவு இல்லத்தை நாங்கள் வடிவமைக்கிறோம்',
+  },
+  nav: {
+    main: 'முதன்மை',
+    mobile: 'மொபைல்',
+    about: 'எங்களைப் பற்றி',
+    services: 'சேவைகள்',
+    portfolio: 'எங்கள் பணிகள்',
+    contact: 'தொடர்பு',
+    getQuote: (count: number) => (count > 0 ? `விலைமதிப்பீடு (${count})` : 'விலைமதிப்பீடு'),
+    openMenu: 'மெனுவைத் திற',
+    closeMenu: 'மெனுவை மூடு',
+    language: 'மொழி',
+  },
+  loader: {
+    loading: 'ஏற்றப்படுகிறது',
+  },
+  skipToContact: 'தொடர்பு படிவத்திற்குச் செல்லவும்',
+  noWebgl: '3D சுற்றுப்பார்வைக்கு WEBGL தேவை; இந்த உலாவியில் அது இல்லை',
+  hero: {
+    company: 'இன்டீரியர்ஸ் பிரைவேட் லிமிடெட்',
+    tagline: '"உங்கள் கனவு இல்லத்தை நாங்கள் வடிவமைக்கிறோம்"',
+    bookConsultation: 'இலவச ஆலோசனைக்கு முன்பதிவு செய்யுங்கள்',
+  },
+  about: {
+    heading: 'SIRIZ பற்றி',
+    body: '11 ஆண்டுகால அனுபவத்துடன், தரமான சேவையின் மூலம் வாடிக்கையாளர்களின் எதிர்பார்ப்புகளை SIRIZ இன்டீரியர்ஸ் தொடர்ந்து மிஞ்சுகிறது. உள்அலங்காரத்திற்குத் தனித்துவமான தொடுதல்களைச் சேர்த்து உங்கள் கனவுகளை நனவாக்குகிறோம்.',
+    creativity: 'படைப்பாற்றல்',
+    precision: 'துல்லியம்',
+  },
+  services: {
+    heading: 'எங்கள் சிறப்புகள்',
+    items: ['வீட்டு உள்அலங்காரம்', 'வணிக இடங்கள்', '3D காட்சிப்படுத்தல்', 'முழுமையான செயல்படுத்தல்'],
+    perks: ['💰 குறைந்த விலை', '⏱️ 45 நாளில் ஒப்படைப்பு', '🛡️ 10 ஆண்டு உத்தரவாதம்'],
+    portal: '🔐 வாடிக்கையாளர் தளம்',
+  },
+  portfolio: {
+    heading: 'எங்கள் சிறந்த படைப்புகள்',
+    packagesFrom: (price: string) => `${price} முதல் தொகுப்புகள்`,
+    packagesDetail: 'சமையலறைகள், அலமாரிகள் மற்றும் முழு வீட்டு உள்அலங்காரம்',
+    viewPricing: 'விலைகளைப் பார்க்க',
+    unavailable: 'எங்கள் படைப்புகளை இப்போது காட்ட இயலவில்லை. சிறிது நேரம் கழித்துப் பார்க்கவும்.',
+    walkThrough: 'சுற்றிப் பாருங்கள்',
+    viewProject: 'திட்டத்தைப் பார்க்க',
+  },
+  project: {
+    allProjects: 'அனைத்து திட்டங்கள்',
+    loading: 'திட்டம் ஏற்றப்படுகிறது...',
+    notFound: 'அந்தத் திட்டத்தைக் கண்டுபிடிக்க இயலவில்லை.',
+    loadFailed: 'இந்தத் திட்டத்தை ஏற்ற இயலவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    home: 'வீடு',
+    budget: 'பட்ஜெட்',
+    scrollToWalk: 'இந்த வீட்டைச் சுற்றிப் பார்க்க ஸ்க்ரோல் செய்யுங்கள்',
+    tourComingSoon: 'இந்த வீட்டின் சுற்றுப்பார்வை விரைவில் வரும். அதுவரை எங்கள் மாதிரி வீட்டைப் பாருங்கள்.',
+  },
+  testimonials: {
+    heading: 'வாடிக்கையாளர் அனுபவங்கள்',
+    showStory: (author: string) => `${author} அவர்களின் அனுபவத்தைக் காட்டு`,
+    process: ['வடிவமைப்பு', 'திட்டமிடல்', 'செயல்படுத்தல்', 'ஒப்படைப்பு'],
+  },
+  contact: {
+    heading: 'அசாதாரணமானதை உருவாக்குவோம்',
+    subheading: 'இன்றே உங்கள் இலவச வடிவமைப்பு ஆலோசனையை முன்பதிவு செய்யுங்கள்.',
+    callUs: 'அழைக்க',
+    email: 'மின்னஞ்சல்',
+    visit: 'வருகை',
+    address: 'மேடவாக்கம், சென்னை',
+    copyright: '© 2025 SIRIZ இன்டீரியர்ஸ் பிரைவேட் லிமிடெட். அனைத்து உரிமைகளும் பாதுகாக்கப்பட்டவை.',
+    whatsapp: 'வாட்ஸ்அப்பில் எங்களுடன் பேசுங்கள்',
+    whatsappMessage: 'வணக்கம், உங்கள் உள்அலங்கார வடிவமைப்பில் எனக்கு ஆர்வம் உள்ளது',
+  },
+  consent: {
+    label: 'பகுப்பாய்வு',
+    message: 'நீங்கள் எந்த அறைகளைப் பார்க்கிறீர்கள், எவ்வளவு தூரம் ஸ்க்ரோல் செய்கிறீர்கள் என்பதைக் கணக்கிடலாமா? இது சுற்றுப்பயணத்தை மேம்படுத்த உதவும். குக்கீகள் இல்லை, உங்களை அடையாளம் காட்டும் எதுவும் இல்லை.',
+    allow: 'அனுமதி',
+    decline: 'வேண்டாம்',
+    choices: 'பகுப்பாய்வு விருப்பங்கள்',
+  },
+  form: {
+    name: 'உங்கள் பெயர்',
+    phone: 'தொலைபேசி எண்',
+    propertyType: 'வீட்டு வகையைத் தேர்ந்தெடுக்கவும்',
+    message: 'உங்கள் கனவு இல்லத்தைப் பற்றிச் சொல்லுங்கள்...',
+    submit: 'இலவச ஆலோசனை பெறுங்கள்',
+    submitting: 'அனுப்பப்படுகிறது...',
+    thanks: 'நன்றி!',
+    callback: 'ஒரு வேலை நாளுக்குள் எங்கள் வடிவமைப்புக் குழு உங்களை அழைக்கும்.',
+    another: 'மற்றொரு விசாரணையை அனுப்பவும்',
+    genericError: 'ஏதோ தவறு நடந்துவிட்டது. மீண்டும் முயற்சிக்கவும்.',
+  },
+  errors: {
+    name: 'உங்கள் பெயரை உள்ளிடவும் (80 எழுத்துகள் வரை).',
+    phone: 'சரியான 10 இலக்க இந்திய மொபைல் எண்ணை உள்ளிடவும்.',
+    propertyType: 'வீட்டு வகையைத் தேர்ந்தெடுக்கவும்.',
+    message: 'செய்தி 1000 எழுத்துகளுக்குள் இருக்க வேண்டும்.',
+    notes: 'குறிப்புகள் 1000 எழுத்துகளுக்குள் இருக்க வேண்டும்.',
+    type: 'ஷோரூம் ஆலோசனை அல்லது இட வருகையைத் தேர்ந்தெடுக்கவும்.',
+    date: 'ஒரு தேதியைத் தேர்ந்தெடுக்கவும்.',
+    time: 'ஒரு நேரத்தைத் தேர்ந்தெடுக்கவும்.',
+    address: 'நாங்கள் வர வேண்டிய முகவரியை உள்ளிடவும் (300 எழுத்துகள் வரை).',
+  },
+  common: {
+    step: (step: number, total: number, name: string) => `படி ${step} / ${total} · ${name}`,
+    close: 'மூடு',
+    back: 'பின்செல்',
+    next: 'அடுத்து',
+  },
+  tour: {
+    nowShowing: (room: string) => `3D சுற்றுப்பார்வை, இப்போது ${room}`,
+    previousRoom: 'முந்தைய அறை',
+    nextRoom: 'அடுத்த அறை',
+    walkHintKeys: 'நடக்க WASD / அம்பு விசைகள் · பார்க்க இழுக்கவும்',
+    walkHintTouch: 'நடக்க இடப்புறம் இழுக்கவும் · பார்க்க வலப்புறம் இழுக்கவும்',
+    measureHint: 'தரை அல்லது சுவரில் இரண்டு புள்ளிகளைத் தட்டவும்',
+    units: 'அலகுகள்',
+    metres: 'மீட்டர்',
+    feet: 'அடி',
+    clear: 'அழி',
+    customise: 'தனிப்பயனாக்கு',
+    askDesigner: 'வடிவமைப்பாளரிடம் கேளுங்கள்',
+    walkAround: 'சுற்றி நடங்கள்',
+    backToTour: 'சுற்றுப்பார்வைக்குத் திரும்பு',
+    measure: 'அளவிடு',
+    doneMeasuring: 'அளவீடு முடிந்தது',
+    lighting: 'வெளிச்சம்',
+    arrange: 'அமைப்பை மாற்று',
+    doneArranging: 'அமைப்பு முடிந்தது',
+    tourTogether: 'சேர்ந்து பாருங்கள்',
+    compare: (room: string) => `முன்பும் பின்பும்: ${room}`,
+  },
+  compare: {
+    before: 'முன்பு',
+    after: 'பின்பு',
+    divider: 'முன்பு / பின்பு பிரிப்பான்',
+    position: (percent: number) => `${percent}% முன்பு காட்டப்படுகிறது`,
+  },
+  measure: {
+    roomSize: (width: string, depth: string, height: string) => `${width} × ${depth} · உயரம் ${height}`,
+    furniture: (name: string, width: string, depth: string, height: string) => `${name}: அகலம் ${width} × ஆழம் ${depth} × உயரம் ${height}`,
+  },
+  lighting: {
+    label: 'வெளிச்சம்',
+    presets: {
+      morning: 'காலை வெளிச்சம்',
+      'golden-hour': 'பொன் மாலை',
+      evening: 'இதமான மாலை',
+      night: 'இரவு (விளக்குகள் மட்டும்)',
+    },
+    time: 'நேரம்',
+    lampHint: 'விளக்கை ஆன் / ஆஃப் செய்ய அதைக் கிளிக் செய்யுங்கள்',
+  },
+  layout: {
+    label: 'மரச்சாமான் அமைப்பு',
+    hint: 'நகர்த்த இழுக்கவும் · திருப்ப R (15°க்கு SHIFT + R) · நீக்க DELETE',
+    piece: 'சேர்க்க வேண்டிய பொருள்',
+    add: 'சேர்',
+    selected: (name: string) => `தேர்ந்தெடுத்தது: ${name}`,
+    nothingSelected: 'தேர்ந்தெடுக்க ஒரு பொருளைக் கிளிக் செய்யுங்கள்',
+    rotate: '90° திருப்பு',
+    rotateFine: '15° திருப்பு',
+    remove: 'நீக்கு',
+    undo: 'செயல்தவிர்',
+    redo: 'மீண்டும் செய்',
+    save: 'அமைப்பைச் சேமி',
+    saving: 'சேமிக்கிறது…',
+    saved: 'சேமிக்கப்பட்டது. இந்த இணைப்பு உங்கள் அமைப்பைத் திறக்கும்:',
+    saveFailed: 'அமைப்பைச் சேமிக்க முடியவில்லை. மீண்டும் முயலுங்கள்.',
+    loadFailed: 'அந்த அமைப்பைத் திறக்க முடியவில்லை, எனவே வடிவமைப்பாளரின் மரச்சாமான்கள் காட்டப்படுகின்றன.',
+    catalogue: {
+      sofa: 'சோபா',
+      armchair: 'கைநாற்காலி',
+      bed: 'குயின் கட்டில்',
+      'coffee-table': 'காபி மேசை',
+      'dining-table': 'சாப்பாட்டு மேசை',
+      'side-table': 'பக்க மேசை',
+      'tv-cabinet': 'டிவி அலமாரி',
+      wardrobe: 'உடை அலமாரி',
+      bookshelf: 'புத்தக அலமாரி',
+      'floor-lamp': 'தரை விளக்கு',
+    },
+  },
+  cobrowse: {
+    label: 'பகிர்ந்த அமர்வு',
+    intro: 'பேசிக்கொண்டே உங்கள் வடிவமைப்பாளருடன் சேர்ந்து வீட்டைச் சுற்றிப் பாருங்கள்: முன்னின்று வழிநடத்துபவரின் பார்வையையே மற்றவர்களும் பார்ப்பார்கள்.',
+    start: 'அமர்வைத் தொடங்கு',
+    starting: 'தொடங்குகிறது…',
+    code: 'அமர்வுக் குறியீடு',
+    join: 'சேர்',
+    joining: 'சேர்கிறது…',
+    notFound: 'இந்தக் குறியீட்டில் எந்த அமர்வும் இல்லை. உங்கள் வடிவமைப்பாளரிடம் சரிபார்க்கவும்.',
+    full: 'இந்த அமர்வு நிரம்பிவிட்டது.',
+    failed: 'இணைக்க முடியவில்லை. மீண்டும் முயலவும்.',
+    ended: 'பகிர்ந்த அமர்வு முடிந்தது.',
+    share: 'இந்தக் குறியீட்டையோ இணைப்பையோ உங்கள் வாடிக்கையாளருடன் பகிருங்கள்:',
+    copyLink: 'இணைப்பை நகலெடு',
+    copied: 'நகலெடுக்கப்பட்டது',
+    connecting: 'இணைக்கிறது…',
+    reconnecting: 'மீண்டும் இணைக்கிறது…',
+    inSession: (count: number) => `இந்த அமர்வில் ${count} பேர்`,
+    roles: { designer: 'வடிவமைப்பாளர்', client: 'வாடிக்கையாளர்' },
+    you: 'நீங்கள்',
+    leading: 'வழிநடத்துகிறார்',
+    takeLead: 'நான் வழிநடத்துகிறேன்',
+    handOver: 'இவர் வழிநடத்தட்டும்',
+    youLead: 'நீங்கள் வழிநடத்துகிறீர்கள்',
+    follow: 'வழிநடத்துபவரைப் பின்தொடர்',
+    leave: 'வெளியேறு',
+  },
+  minimap: {
+    title: 'தளவரைபடம்',
+    label: 'தளவரைபடம்',
+    rooms: 'அறைகள்',
+    goTo: (room: string) => `${room} செல்லவும்`,
+  },
+  product: {
+    material: 'பொருள்',
+    dimensions: 'அளவுகள் (அ × உ × ஆ)',
+    price: 'தோராய விலை',
+    add: 'என் மதிப்பீட்டில் சேர்',
+    added: 'மதிப்பீட்டில் சேர்க்கப்பட்டது',
+  },
+  finishes: {
+    heading: 'பூச்சுகளைத் தனிப்பயனாக்குங்கள்',
+    label: 'பூச்சு தேர்வி',
+    asDesigned: 'வடிவமைத்தபடி',
+    slots: {
+      wall: 'சுவர் வண்ணம்',
+      floor: 'தரைத்தளம்',
+      upholstery: 'மெத்தை துணி',
+      cabinet: 'அலமாரி பூச்சு',
+    },
+    copyLink: 'பகிரக்கூடிய இணைப்பை நகலெடு',
+    linkCopied: 'இணைப்பு நகலெடுக்கப்பட்டது',
+    copyPrompt: 'இந்தத் தோற்றத்தைப் பகிர இந்த இணைப்பை நகலெடுக்கவும்:',
+  },
+  assistant: {
+    heading: 'வடிவமைப்பு உதவியாளர்',
+    greeting: 'வணக்கம்! நீங்கள் கற்பனை செய்யும் வீட்டைப் பற்றிச் சொல்லுங்கள், எ.கா. "இதமான எளிய 2BHK, நிறைய சேமிப்பு இடம்". நீங்கள் இருக்கும் அறைக்கு ஒரு தோற்றத்தைப் பரிந்துரைக்கிறேன்.',
+    preview: 'அறையில் முன்னோட்டம்',
+    undoPreview: 'முன்னோட்டத்தை நீக்கு',
+    thinking: 'யோசிக்கிறது...',
+    placeholder: 'உங்கள் விருப்பத்தை விவரியுங்கள்...',
+    message: 'செய்தி',
+    send: 'அனுப்பு',
+  },
+  quote: {
+    label: 'மதிப்பீட்டுக் கருவி',
+    heading: 'உங்கள் உள்அலங்கார செலவை மதிப்பிடுங்கள்',
+    steps: ['வீடு', 'அறைகள்', 'தொகுதிகள்', 'பூச்சு', 'மதிப்பீடு'],
+    rooms: {
+      living: 'வரவேற்பறை',
+      dining: 'உணவறை & நுழைவு',
+      kitchen: 'சமையலறை',
+      'master-bedroom': 'பிரதான படுக்கையறை',
+      'bedroom-2': 'படுக்கையறை 2',
+      'bedroom-3': 'படுக்கையறை 3',
+      'bedroom-4': 'படுக்கையறை 4',
+      study: 'படிப்பறை',
+    },
+    modules: {
+      'modular-kitchen': 'மாடுலர் சமையலறை',
+      wardrobe: 'அலமாரிகள்',
+      'tv-unit': 'டிவி யூனிட்',
+      'false-ceiling': 'ஃபால்ஸ் சீலிங்',
+    },
+    tiers: {
+      essential: { label: 'எசென்ஷியல்', description: 'லேமினேட் பூச்சுகள், வழக்கமான ஹார்டுவேர்' },
+      premium: { label: 'பிரீமியம்', description: 'அக்ரிலிக் & வெனீர் பூச்சுகள், சாஃப்ட்-க்ளோஸ் ஹார்டுவேர்' },
+      luxury: { label: 'லக்சரி', description: 'லாக்கர், இயற்கைக் கல் & இறக்குமதி பொருத்துதல்கள்' },
+    },
+    includeFurniture: (count: number) => `சுற்றுப்பார்வையில் சேர்த்த ${count} பொருட்களையும் சேர்க்கவும்`,
+    furnitureOnly: 'அறைகள் எதுவும் தேர்ந்தெடுக்கப்படவில்லை; நீங்கள் தேர்ந்த தளபாடங்களுக்கு மட்டும் மதிப்பீடு கிடைக்கும்.',
+    calculating: 'கணக்கிடப்படுகிறது...',
+    estimateFailed: 'உங்கள் மதிப்பீட்டைக் கணக்கிட இயலவில்லை.',
+    subtotal: 'கூட்டுத்தொகை',
+    gst: (rate: number) => `ஜிஎஸ்டி @ ${rate}%`,
+    total: 'மொத்தம்',
+    saveIntro: 'இந்த மதிப்பீட்டைச் சேமியுங்கள்; எங்கள் வடிவமைப்பாளர் உங்களை அழைத்து அதை மெருகேற்றுவார்.',
+    save: 'என் மதிப்பீட்டைச் சேமி',
+    saving: 'சேமிக்கப்படுகிறது...',
+    saveFailed: 'உங்கள் மதிப்பீட்டைச் சேமிக்க இயலவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    saved: 'சேமிக்கப்பட்ட எண்',
+    savedCallback: 'ஒரு வேலை நாளுக்குள் எங்கள் குழு உங்களை அழைக்கும்.',
+    print: 'சுருக்கத்தை அச்சிடு',
+    seeEstimate: 'மதிப்பீட்டைப் பார்க்க',
+    printTitle: (reference: string | null) => (reference ? `மதிப்பீடு ${reference}` : 'தோராய மதிப்பீடு'),
+    printFinish: (tier: string) => `${tier} பூச்சு`,
+    printDisclaimer: 'வழக்கமான அறை அளவுகளின் அடிப்படையிலான தோராய மதிப்பீடு; இறுதி மதிப்பீடு இட அளவீட்டுக்குப் பின் வழங்கப்படும். 30 நாட்களுக்குச் செல்லுபடியாகும்.',
+  },
+  booking: {
+    label: 'ஆலோசனைக்கு முன்பதிவு',
+    heading: 'இலவச ஆலோசனைக்கு முன்பதிவு செய்யுங்கள்',
+    steps: ['வருகை', 'தேதி & நேரம்', 'உங்கள் விவரங்கள்'],
+    types: {
+      showroom: { label: 'ஷோரூம் ஆலோசனை', description: 'மேடவாக்கம் ஸ்டுடியோவில் வடிவமைப்பாளரைச் சந்தித்து பொருட்களை நேரில் பாருங்கள்.' },
+      'site-visit': { label: 'இட வருகை', description: 'வடிவமைப்பாளர் உங்கள் வீட்டுக்கு வந்து அளவெடுத்து யோசனைகளைப் பேசுவார்.' },
+    },
+    summary: (type: string, date: string, time: string) => `${type}: ${date}, ${time}`,
+    address: 'இட வருகைக்கான முகவரி',
+    notes: 'நாங்கள் தெரிந்துகொள்ள வேண்டியவை? (விருப்பத்தேர்வு)',
+    confirm: 'முன்பதிவை உறுதிசெய்',
+    booking: 'முன்பதிவு செய்யப்படுகிறது...',
+    bookFailed: 'உங்கள் ஆலோசனையை முன்பதிவு செய்ய இயலவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    loadingTimes: 'கிடைக்கும் நேரங்கள் ஏற்றப்படுகின்றன...',
+    timesFailed: 'கிடைக்கும் நேரங்களை ஏற்ற இயலவில்லை.',
+    fullyBooked: 'அடுத்த சில வாரங்களுக்கான ஆலோசனைகள் அனைத்தும் நிரம்பிவிட்டன. +91 84384 23938 என்ற எண்ணில் அழைக்கவும்.',
+    date: 'தேதி',
+    time: 'நேரம்',
+    booked: 'முன்பதிவு செய்யப்பட்டது',
+    seeYou: 'விரைவில் சந்திப்போம்',
+    reference: 'குறிப்பு எண்',
+    consultation: 'ஆலோசனை',
+    when: 'எப்போது',
+    where: 'எங்கே',
+    with: (type: string, designer: string) => `${designer} உடன் ${type}`,
+    cancelled: 'ரத்து செய்யப்பட்டது',
+    addToCalendar: 'நாட்காட்டியில் சேர்',
+    keepLink: 'நேரத்தை மாற்ற அல்லது ரத்து செய்ய இந்த இணைப்பை வைத்திருங்கள்:',
+    yourBooking: 'உங்கள் முன்பதிவு',
+    details: 'ஆலோசனை விவரங்கள்',
+    pickNewTime: 'புதிய நேரத்தைத் தேர்ந்தெடுக்கவும்',
+    loading: 'ஏற்றப்படுகிறது...',
+    loadFailed: 'உங்கள் முன்பதிவை ஏற்ற இயலவில்லை.',
+    updateFailed: 'உங்கள் முன்பதிவைப் புதுப்பிக்க இயலவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    reschedule: 'நேரத்தை மாற்று',
+    cancel: 'முன்பதிவை ரத்து செய்',
+    confirmCancel: 'இந்த ஆலோசனையை ரத்து செய்யவா?',
+    saving: 'சேமிக்கப்படுகிறது...',
+    confirmNewTime: 'புதிய நேரத்தை உறுதிசெய்',
+  },
+  portal: {
+    title: 'வாடிக்கையாளர் தளம்',
+    signInHeading: 'உங்கள் திட்டத்தைப் பின்தொடருங்கள்',
+    signInIntro: 'நீங்கள் எங்களிடம் கொடுத்த மொபைல் எண் அல்லது மின்னஞ்சலை உள்ளிடுங்கள்; ஒருமுறை பயன்படுத்தும் குறியீட்டை அனுப்புவோம்.',
+    contact: 'மொபைல் எண் அல்லது மின்னஞ்சல்',
+    sendCode: 'குறியீட்டை அனுப்பு',
+    sending: 'அனுப்புகிறது...',
+    codeSent: {
+      sms: 'இந்த எண் ஒரு SIRIZ திட்டத்தில் இருந்தால், 6 இலக்கக் குறியீடு SMS மூலம் வருகிறது.',
+      email: 'இந்த முகவரி ஒரு SIRIZ திட்டத்தில் இருந்தால், 6 இலக்கக் குறியீடு மின்னஞ்சலில் வருகிறது.',
+    },
+    code: '6 இலக்கக் குறியீடு',
+    signIn: 'உள்நுழை',
+    signingIn: 'உள்நுழைகிறது...',
+    changeContact: 'வேறு எண் அல்லது மின்னஞ்சலைப் பயன்படுத்து',
+    resend: 'புதிய குறியீட்டை அனுப்பு',
+    invalidContact: '10 இலக்க மொபைல் எண் அல்லது மின்னஞ்சல் முகவரியை உள்ளிடுங்கள்.',
+    failed: 'ஏதோ தவறு நடந்தது. மீண்டும் முயலுங்கள்.',
+    signOut: 'வெளியேறு',
+    loading: 'உங்கள் திட்டம் ஏற்றப்படுகிறது...',
+    loadFailed: 'உங்கள் திட்டத்தை ஏற்ற முடியவில்லை.',
+    retry: 'மீண்டும் முயல்',
+    reference: (reference: string) => `திட்டம் ${reference}`,
+    day: (day: number, total: number) => `${total} நாட்களில் ${day}வது நாள்`,
+    promisedBy: (date: string) => `${date}க்குள் ஒப்படைப்பதாக உறுதி`,
+    startsOn: (date: string) => `பணி ${date} அன்று தொடங்கும்`,
+    handedOver: (date: string) => `${date} அன்று ஒப்படைக்கப்பட்டது`,
+    onTrack: 'திட்டப்படி நடக்கிறது',
+    late: (days: number) => `உறுதியளித்த தேதியை ${days} நாள் தாண்டியுள்ளது`,
+    timeline: 'மைல்கற்கள்',
+    stages: { design: 'வடிவமைப்பு', planning: 'திட்டமிடல்', execution: 'செயல்படுத்தல்', delivery: 'ஒப்படைப்பு' },
+    due: (date: string) => `கெடு ${date}`,
+    completed: (date: string) => `${date} அன்று முடிந்தது`,
+    overdue: 'தாமதம்',
+    noMilestones: 'உங்கள் வடிவமைப்பாளர் விரைவில் மைல்கற்களைச் சேர்ப்பார்.',
+    designs: 'அங்கீகரித்த வடிவமைப்புகள்',
+    approvedOn: (date: string) => `${date} அன்று அங்கீகரிக்கப்பட்டது`,
+    noDesigns: 'நீங்கள் அங்கீகரித்ததும் வடிவமைப்புகள் இங்கே தோன்றும்.',
+    photos: 'தளப் புகைப்படங்கள்',
+    noPhotos: 'பணி தொடங்கியதும் உங்கள் தளத்தின் புகைப்படங்கள் இங்கே தோன்றும்.',
+    payments: 'கட்டண அட்டவணை',
+    payment: 'கட்டணம்',
+    amount: 'தொகை',
+    status: 'நிலை',
+    paidOn: (date: string) => `${date} அன்று செலுத்தப்பட்டது`,
+    dueOn: (date: string) => `கெடு ${date}`,
+    paid: (amount: string) => `செலுத்தியது: ${amount}`,
+    outstanding: (amount: string) => `நிலுவை: ${amount}`,
+    noPayments: 'உங்கள் கட்டண அட்டவணை இங்கே தோன்றும்.',
+    warranty: '10 ஆண்டு உத்தரவாதம்',
+    warrantyValid: (from: string, until: string) => `${from} முதல் ${until} வரை செல்லும்`,
+    warrantyPending: 'உங்கள் வீட்டை ஒப்படைக்கும் நாளில் உத்தரவாதம் தொடங்கும்.',
+    warrantyCovers: [
+      'சமையலறை மற்றும் அலமாரி கட்டமைப்புகள், கதவுகள் மற்றும் இழுப்பறைகள்',
+      'லேமினேட், வெனீர் மற்றும் விளிம்புப் பட்டைகளின் உற்பத்திக் குறைபாடுகள்',
+      'நாங்கள் வழங்கிப் பொருத்திய கீல்கள், சேனல்கள் மற்றும் பொருத்துகள்',
+    ],
+    warrantyExcludes: 'உள்ளடங்காதவை: நீர்க்கசிவு, பூச்சிகள், தவறான பயன்பாடு அல்லது பிறர் செய்த மாற்றங்களால் ஏற்படும் சேதம்.',
+    warrantyClaim: (reference: string) => `உரிமை கோர, ${reference} என்பதைக் குறிப்பிட்டு எங்களை அழையுங்கள் அல்லது WhatsApp செய்யுங்கள்.`,
+  },
+};
+
+export default ta;
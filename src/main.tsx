@@ -1,10 +1,32 @@
-import {StrictMode} from 'react';
+import {StrictMode, Suspense, lazy} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { initLocale } from './lib/i18n';
+import { initAnalytics } from './lib/tracking';
 import './index.css';
 
+// The admin console and the customer portal are separate bundles so
+// visitors to the tour never download them.
+const AdminApp = lazy(() => import('./components/admin/AdminApp.tsx'));
+const PortalApp = lazy(() => import('./components/portal/PortalApp.tsx'));
+
+const isAdmin = /^\/admin(\/|$)/.test(window.location.pathname);
+const isPortal = /^\/portal(\/|$)/.test(window.location.pathname);
+
+// The admin console stays in English, and visits to it are not tracked.
+if (!isAdmin) {
+  initLocale();
+  initAnalytics();
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isAdmin || isPortal ? (
+      <Suspense fallback={null}>
+        {isAdmin ? <AdminApp /> : <PortalApp />}
+      </Suspense>
+    ) : (
+      <App />
+    )}
   </StrictMode>,
 );
@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import type { SurfaceTexture } from './builders';
+import type { BuiltFurniture, BuiltRoom } from './loader';
+import type { ResourceCache } from './resources';
+import type { BoxFurniture } from './types';
+
+// --- Asset Cache ---
+// Models and textures are kept in Cache Storage so repeat visits load from
+// disk. Cached files are served immediately and refreshed in the background,
+// so a model swapped on the server shows up on the next visit.
+
+const ASSET_CACHE = 'siriz-assets-v1';
+
+export const fetchAsset = async (url: string): Promise<Response> => {
+  if (typeof caches === 'undefined') return checked(await fetch(url));
+
+  const cache = await caches.open(ASSET_CACHE);
+  const refresh = fetch(url).then(async response => {
+    if (response.ok) await cache.put(url, response.clone());
+    return checked(response);
+  });
+  const cached = await cache.match(url);
+  if (!cached) return refresh;
+  refresh.catch(() => undefined);
+  return cached;
+};
+
+const checked = (response: Response) => {
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return response;
+};
+
+// --- Asset Loading ---
+
+interface ModelSlot {
+  room: BuiltRoom;
+  piece: BuiltFurniture;
+  definition: BoxFurniture;
+  url: string;
+}
+
+const modelSlots = (rooms: BuiltRoom[]): ModelSlot[] =>
+  rooms.flatMap(room =>
+    room.furniture.flatMap(piece =>
+      piece.definition.kind === 'box' && piece.definition.model
+        ? [{ room, piece, definition: piece.definition, url: piece.definition.model }]
+        : []
+    )
+  );
+
+const texturedMaterials = (rooms: BuiltRoom[]) => {
+  const found = new Set<THREE.MeshStandardMaterial>();
+  rooms.forEach(room =>
+    room.group.traverse(object => {
+      if (object instanceof THREE.Mesh && object.material.userData?.texture) found.add(object.material);
+    })
+  );
+  return [...found];
+};
+
+// Scales the model uniformly to fit the placeholder box, centred on it and
+// standing on its bottom face, then hands over the placeholder's tags.
+const fitModel = (model: THREE.Object3D, { size }: BoxFurniture, placeholder: THREE.Object3D) => {
+  const bounds = new THREE.Box3().setFromObject(model);
+  const extent = bounds.getSize(new THREE.Vector3());
+  const scale = Math.min(size.width / (extent.x || 1), size.height / (extent.y || 1), size.depth / (extent.z || 1));
+  const centre = bounds.getCenter(new THREE.Vector3());
+  model.scale.setScalar(scale);
+  model.position.set(-centre.x * scale, -size.height / 2 - bounds.min.y * scale, -centre.z * scale);
+
+  const piece = new THREE.Group();
+  piece.name = placeholder.name;
+  piece.position.copy(placeholder.position);
+  piece.rotation.copy(placeholder.rotation);
+  piece.add(model);
+  model.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    object.castShadow = true;
+    object.receiveShadow = true;
+    object.userData.collider = true;
+    if (placeholder.userData.product) object.userData.product = placeholder.userData.product;
+    if (placeholder.userData.finishSlot) {
+      object.userData.finishSlot = placeholder.userData.finishSlot;
+      object.userData.designMaterial = object.material;
+    }
+  });
+  return piece;
+};
+
+const loadImage = async (url: string, resources: ResourceCache) => {
+  const blob = await (await fetchAsset(url)).blob();
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'flipY' });
+  return resources.texture(`image:${url}`, () => {
+    const texture = new THREE.Texture(bitmap);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+    texture.needsUpdate = true;
+    return texture;
+  });
+};
+
+/**
+ * Loads every model and texture the built apartment refers to, reporting each
+ * one to `manager` so its onProgress can drive the loading screen. Models
+ * replace their box placeholders and textures are attached to the tagged
+ * materials; anything that fails to load keeps the plain placeholder.
+ * Resolves once every asset has loaded or failed.
+ */
+export const loadSceneAssets = async (rooms: BuiltRoom[], resources: ResourceCache, manager: THREE.LoadingManager) => {
+  const models = modelSlots(rooms);
+  const materials = texturedMaterials(rooms);
+  const imageUrls = [...new Set(materials.map(material => (material.userData.texture as SurfaceTexture).url))];
+
+  // Register every asset up front so progress is measured against the full total.
+  models.forEach(({ url }) => manager.itemStart(url));
+  imageUrls.forEach(url => manager.itemStart(url));
+
+  const track = async <T>(url: string, load: () => Promise<T>) => {
+    try {
+      return await load();
+    } catch (error) {
+      console.warn(`Asset failed to load, keeping placeholder: ${url}`, error);
+      manager.itemError(url);
+      throw error;
+    } finally {
+      manager.itemEnd(url);
+    }
+  };
+
+  const gltfLoader = new GLTFLoader(manager);
+  const modelLoads = models.map(({ room, piece, definition, url }) =>
+    track(url, async () => {
+      const buffer = await (await fetchAsset(url)).arrayBuffer();
+      const gltf = await gltfLoader.parseAsync(buffer, THREE.LoaderUtils.extractUrlBase(url));
+      resources.adopt(gltf.scene);
+      const model = fitModel(gltf.scene, definition, piece.object);
+      room.group.remove(piece.object);
+      room.group.add(model);
+      piece.object = model;
+    })
+  );
+
+  const imageLoads = imageUrls.map(url =>
+    track(url, async () => {
+      const image = await loadImage(url, resources);
+      materials
+        .filter(material => (material.userData.texture as SurfaceTexture).url === url)
+        .forEach(material => {
+          const { repeat } = material.userData.texture as SurfaceTexture;
+          material.map = resources.texture(`image:${url}:${repeat.join('x')}`, () => {
+            const tiledImage = image.clone();
+            tiledImage.repeat.set(repeat[0], repeat[1]);
+            tiledImage.needsUpdate = true;
+            return tiledImage;
+          });
+          material.needsUpdate = true;
+        });
+    })
+  );
+
+  await Promise.allSettled([...modelLoads, ...imageLoads]);
+};
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import { createRoom } from './builders';
+import { roomOpenings, type BuiltRoom } from './loader';
+import type { ResourceCache } from './resources';
+
+// --- Shareable Links ---
+// ?compare=<roomId> opens the tour at that room with before/after on.
+
+export const COMPARE_PARAM = 'compare';
+
+const BARE_PLASTER = 0xb7b1a6;
+const BARE_CEMENT = 0x8d8a84;
+
+/**
+ * Before/after mode: the frame is split at a draggable line, with the room
+ * in view as it was handed over (bare plaster walls, cement floor, nothing
+ * in it) on the left and as designed on the right. Both halves are drawn
+ * from the same camera, so they stay lined up wherever the tour goes.
+ */
+export const createBeforeAfterView = (
+  scene: THREE.Scene,
+  renderer: THREE.WebGLRenderer,
+  rooms: BuiltRoom[],
+  resources: ResourceCache,
+  onChange: () => void
+) => {
+  const shells = new Map<string, THREE.Group>();
+  const size = new THREE.Vector2();
+  let room: BuiltRoom | null = null;
+  let split = 0.5;
+
+  // A room's bare shell is built the first time it is compared.
+  const shellFor = ({ definition }: BuiltRoom) => {
+    let shell = shells.get(definition.id);
+    if (!shell) {
+      const { position, size: { width, depth }, height } = definition;
+      shell = createRoom(resources, position.x, position.z, width, depth, height, BARE_PLASTER, BARE_CEMENT, {}, roomOpenings(definition), false);
+      shell.visible = false;
+      scene.add(shell);
+      shells.set(definition.id, shell);
+    }
+    return shell;
+  };
+
+  // The designed room's meshes are hidden for the "before" half, but its
+  // lights stay (lamps dimmed to zero): changing how many lights are visible
+  // would recompile every material's shader.
+  const drawBefore = (compared: BuiltRoom, camera: THREE.Camera) => {
+    const shell = shellFor(compared);
+    const hidden: THREE.Object3D[] = [];
+    const dimmed: [THREE.PointLight, number][] = [];
+    compared.group.traverse(object => {
+      if (object instanceof THREE.Mesh && object.visible) {
+        object.visible = false;
+        hidden.push(object);
+      } else if (object instanceof THREE.PointLight && object.userData.lamp) {
+        dimmed.push([object, object.intensity]);
+        object.intensity = 0;
+      }
+    });
+    shell.visible = true;
+    renderer.render(scene, camera);
+    shell.visible = false;
+    hidden.forEach(object => {
+      object.visible = true;
+    });
+    dimmed.forEach(([light, intensity]) => {
+      light.intensity = intensity;
+    });
+  };
+
+  return {
+    /** Compares the given room, or turns the split off with null. */
+    setRoom: (roomId: string | null) => {
+      room = rooms.find(candidate => candidate.definition.id === roomId) ?? null;
+      onChange();
+    },
+    /** Where the split sits, as a fraction of the width from the left. */
+    setSplit: (fraction: number) => {
+      split = THREE.MathUtils.clamp(fraction, 0, 1);
+      onChange();
+    },
+    /** Draws a frame: split in two while comparing, whole otherwise. */
+    render: (camera: THREE.Camera) => {
+      if (!room) {
+        renderer.render(scene, camera);
+        return;
+      }
+      renderer.getSize(size);
+      const divide = Math.round(size.x * split);
+      renderer.setScissorTest(true);
+      renderer.setScissor(0, 0, divide, size.y);
+      drawBefore(room, camera);
+      renderer.setScissor(divide, 0, size.x - divide, size.y);
+      renderer.render(scene, camera);
+      renderer.setScissorTest(false);
+    },
+    dispose: () => {
+      shells.forEach(shell => scene.remove(shell));
+      shells.clear();
+    },
+  };
+};
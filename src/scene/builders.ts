@@ -0,0 +1,187 @@
+import * as THREE from 'three';
+import type { ResourceCache } from './resources';
+import type { ProductInfo, WallSide, WindowDefinition } from './types';
+
+export const LAMP_SIZE = { width: 0.6, height: 1.8, depth: 0.6 };
+
+// Flat and boxy pieces share one unit geometry each and are sized by scale,
+// so a whole apartment needs only a handful of geometry buffers.
+const unitPlane = (resources: ResourceCache) => resources.geometry('unit-plane', () => new THREE.PlaneGeometry(1, 1));
+const unitBox = (resources: ResourceCache) => resources.geometry('unit-box', () => new THREE.BoxGeometry(1, 1, 1));
+
+/** Image URL tiled `repeat` times across a surface; the asset loader fills in the map. */
+export interface SurfaceTexture {
+  url: string;
+  repeat: [number, number];
+}
+
+// Textured surfaces get a material of their own (per image and tiling), tagged
+// so the asset loader can find it and attach the map once the image arrives.
+const surface = (resources: ResourceCache, params: THREE.MeshStandardMaterialParameters & { color: number }, texture?: SurfaceTexture) => {
+  if (!texture) return resources.standard(params);
+  return resources.material(`textured:${texture.url}:${texture.repeat.join('x')}:${JSON.stringify(params)}`, () => {
+    const material = new THREE.MeshStandardMaterial(params);
+    material.userData.texture = texture;
+    return material;
+  });
+};
+
+const tiled = (url: string | undefined, repeatX: number, repeatY: number): SurfaceTexture | undefined =>
+  url ? { url, repeat: [repeatX, repeatY] } : undefined;
+
+// --- Room Builders ---
+// An unfinished room is the bare shell shown by before/after mode: matte
+// surfaces and no baseboard.
+export const createRoom = (
+  resources: ResourceCache,
+  x: number, z: number, width: number, depth: number, height: number,
+  wallColor: number, floorColor: number,
+  textures: { wall?: string; floor?: string } = {},
+  openings: WindowDefinition[] = [],
+  finished = true
+) => {
+  const group = new THREE.Group();
+  const plane = unitPlane(resources);
+
+  // Floor
+  const floorParams = finished ? { color: floorColor, roughness: 0.3, metalness: 0.1 } : { color: floorColor, roughness: 0.95 };
+  const floor = new THREE.Mesh(plane, surface(resources, floorParams, tiled(textures.floor, width, depth)));
+  floor.scale.set(width, depth, 1);
+  floor.rotation.x = -Math.PI / 2;
+  floor.receiveShadow = true;
+  floor.userData.finishSlot = 'floor';
+  group.add(floor);
+
+  // Ceiling
+  const ceiling = new THREE.Mesh(plane, resources.standard({ color: 0xdddddd, roughness: 0.8 }));
+  ceiling.scale.set(width, depth, 1);
+  ceiling.rotation.x = Math.PI / 2;
+  ceiling.position.y = height;
+  ceiling.castShadow = true; // keeps the sun out except through windows
+  group.add(ceiling);
+
+  // Walls Helper
+  const createWall = (w: number, h: number, px: number, py: number, pz: number, ry: number) => {
+    const wall = new THREE.Mesh(plane, surface(resources, { color: wallColor, roughness: finished ? 0.5 : 0.9 }, tiled(textures.wall, w, h)));
+    wall.scale.set(w, h, 1);
+    wall.position.set(px, py, pz);
+    wall.rotation.y = ry;
+    wall.castShadow = true;
+    wall.receiveShadow = true;
+    wall.userData.collider = true;
+    wall.userData.finishSlot = 'wall';
+    group.add(wall);
+  };
+
+  // Baseboards (Gold) run along the foot of every wall panel that meets the
+  // floor, so they stop at doorways. They all share one geometry and
+  // material, so a room's baseboards are drawn as one instanced mesh.
+  const baseboards: THREE.Matrix4[] = [];
+  const createBaseboard = (length: number, px: number, pz: number, ry: number) => {
+    baseboards.push(new THREE.Matrix4().compose(
+      new THREE.Vector3(px + Math.sin(ry) * 0.025, 0.05, pz + Math.cos(ry) * 0.025),
+      new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), ry),
+      new THREE.Vector3(length, 0.1, 0.05)
+    ));
+  };
+
+  // A wall is built in panels around its window and door openings: full-height
+  // panels between them, and a panel below and above each one (a doorway has
+  // none below). `from`/`to` run along the wall (x on the back wall, z on the
+  // side walls).
+  const wallSides: Record<WallSide, { length: number; place: (along: number) => [number, number]; ry: number }> = {
+    back: { length: width, place: along => [along, -depth/2], ry: 0 },
+    left: { length: depth, place: along => [-width/2, along], ry: Math.PI/2 },
+    right: { length: depth, place: along => [width/2, along], ry: -Math.PI/2 },
+  };
+  const buildWall = (side: WallSide) => {
+    const { length, place, ry } = wallSides[side];
+    const panel = (from: number, to: number, bottom: number, top: number) => {
+      if (to - from <= 0 || top - bottom <= 0) return;
+      const [px, pz] = place((from + to) / 2);
+      createWall(to - from, top - bottom, px, (bottom + top) / 2, pz, ry);
+      if (finished && bottom === 0) createBaseboard(to - from, px, pz, ry);
+    };
+    let cursor = -length / 2;
+    openings
+      .filter(opening => opening.wall === side)
+      .sort((a, b) => a.offset - b.offset)
+      .forEach(({ offset, width: openingWidth, sill, height: openingHeight }) => {
+        const from = offset - openingWidth / 2;
+        const to = offset + openingWidth / 2;
+        panel(cursor, from, 0, height);
+        panel(from, to, 0, sill);
+        panel(from, to, sill + openingHeight, height);
+        cursor = Math.max(cursor, to);
+      });
+    panel(cursor, length / 2, 0, height);
+  };
+
+  buildWall('back');
+  buildWall('left');
+  buildWall('right');
+
+  if (baseboards.length > 0) {
+    const trim = new THREE.InstancedMesh(unitBox(resources), resources.standard({ color: 0xc9a96e, metalness: 0.8, roughness: 0.2 }), baseboards.length);
+    baseboards.forEach((matrix, i) => trim.setMatrixAt(i, matrix));
+    group.add(trim);
+  }
+
+  group.position.set(x, 0, z);
+  return group;
+};
+
+// --- Furniture Helpers ---
+export const createBox = (resources: ResourceCache, w: number, h: number, d: number, color: number, x: number, y: number, z: number, product?: ProductInfo, texture?: string) => {
+  const mesh = new THREE.Mesh(unitBox(resources), surface(resources, { color, roughness: 0.6 }, tiled(texture, 1, 1)));
+  mesh.scale.set(w, h, d);
+  mesh.position.set(x, y, z);
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  mesh.userData.collider = true;
+  if (product) mesh.userData.product = product;
+  return mesh;
+};
+
+export const createLamp = (resources: ResourceCache, x: number, y: number, z: number, product?: ProductInfo) => {
+  const group = new THREE.Group();
+  const stand = new THREE.Mesh(
+    resources.geometry('lamp-stand', () => new THREE.CylinderGeometry(0.05, 0.1, 1.5, 16)),
+    resources.standard({ color: 0xc9a96e, metalness: 0.8, roughness: 0.2 })
+  );
+  stand.position.y = 0.75;
+  stand.userData.collider = true;
+  group.add(stand);
+
+  const shade = new THREE.Mesh(
+    resources.geometry('lamp-shade', () => new THREE.ConeGeometry(0.3, 0.4, 32, 1, true)),
+    resources.material('lamp-shade', () => new THREE.MeshStandardMaterial({ color: 0xffffff, transparent: true, opacity: 0.9, side: THREE.DoubleSide }))
+  );
+  shade.position.y = 1.6;
+  group.add(shade);
+
+  const light = new THREE.PointLight(0xffaa00, 0.8, 5);
+  light.position.set(0, 1.5, 0);
+  light.userData.lamp = true;
+  light.userData.shade = shade;
+  group.add(light);
+  // Clicking either part of the lamp switches its light.
+  stand.userData.lampLight = light;
+  shade.userData.lampLight = light;
+
+  if (product) {
+    stand.userData.product = product;
+    shade.userData.product = product;
+  }
+
+  group.position.set(x, y, z);
+  return group;
+};
+
+export const createMirror = (resources: ResourceCache, w: number, h: number, x: number, y: number, z: number, product?: ProductInfo) => {
+  const mirror = new THREE.Mesh(unitPlane(resources), resources.standard({ color: 0xffffff, metalness: 0.9, roughness: 0.1 }));
+  mirror.scale.set(w, h, 1);
+  mirror.position.set(x, y, z);
+  if (product) mirror.userData.product = product;
+  return mirror;
+};
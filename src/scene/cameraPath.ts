@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import type { CameraKeyframe } from './types';
+
+const toVector = ({ x, y, z }: CameraKeyframe['pos']) => new THREE.Vector3(x, y, z);
+
+export interface RoomStop {
+  roomId: string;
+  scroll: number;
+}
+
+/**
+ * Smooth camera path through the scene's keyframes. Position and look target
+ * each follow a centripetal Catmull-Rom spline (no overshoot at tight turns),
+ * and every keyframe is reached exactly at its own scroll value.
+ */
+export const createCameraPath = (keyframes: CameraKeyframe[]) => {
+  const positions = new THREE.CatmullRomCurve3(keyframes.map(frame => toVector(frame.pos)), false, 'centripetal');
+  const targets = new THREE.CatmullRomCurve3(keyframes.map(frame => toVector(frame.look)), false, 'centripetal');
+  const last = keyframes.length - 1;
+
+  // Index of the keyframe segment containing this scroll progress.
+  const segmentAt = (progress: number) => {
+    let i = 0;
+    while (i < last - 1 && progress >= keyframes[i + 1].scroll) i++;
+    return i;
+  };
+
+  // Curve parameters are spaced evenly per keyframe, so remap scroll progress
+  // to the matching fraction of its segment.
+  const curveParameter = (progress: number) => {
+    const clamped = THREE.MathUtils.clamp(progress, 0, 1);
+    const i = segmentAt(clamped);
+    const from = keyframes[i].scroll;
+    const to = keyframes[i + 1].scroll;
+    return (i + (clamped - from) / (to - from)) / last;
+  };
+
+  // Where each room's part of the tour begins, in tour order.
+  const stops: RoomStop[] = [];
+  keyframes.forEach(frame => {
+    if (stops[stops.length - 1]?.roomId !== frame.room) stops.push({ roomId: frame.room, scroll: frame.scroll });
+  });
+
+  return {
+    stops,
+    /** Moves the camera to its place on the path for this scroll progress (0–1). */
+    place: (camera: THREE.Camera, progress: number) => {
+      const t = curveParameter(progress);
+      camera.position.copy(positions.getPoint(t));
+      camera.lookAt(targets.getPoint(t));
+    },
+    /** The stop whose room this scroll progress is in, e.g. to hold the camera still per room. */
+    stopAt: (progress: number) => stops.reduce((found, stop) => (progress >= stop.scroll ? stop : found), stops[0]),
+    /** The room of the last keyframe reached at this scroll progress. */
+    roomAt: (progress: number) => {
+      const clamped = THREE.MathUtils.clamp(progress, 0, 1);
+      return clamped >= 1 ? keyframes[last].room : keyframes[segmentAt(clamped)].room;
+    },
+  };
+};
+
+export type CameraPath = ReturnType<typeof createCameraPath>;
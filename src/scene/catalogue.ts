@@ -0,0 +1,63 @@
+import type { FurnitureItem } from './types';
+
+// --- Furniture Catalogue ---
+// Pieces the layout editor can add to a room. Item positions are relative to
+// the piece's centre on the floor; the editor moves them into place. Products
+// are priced like scene furniture, so added pieces can go into a quote.
+
+export type CatalogueId =
+  | 'sofa' | 'armchair' | 'bed' | 'coffee-table' | 'dining-table'
+  | 'side-table' | 'tv-cabinet' | 'wardrobe' | 'bookshelf' | 'floor-lamp';
+
+export interface CatalogueEntry {
+  id: CatalogueId;
+  items: FurnitureItem[];
+}
+
+const box = (
+  name: string,
+  width: number,
+  height: number,
+  depth: number,
+  color: string,
+  product: { id: string; name: string; material: string; price: number },
+  extra: Partial<Extract<FurnitureItem, { kind: 'box' }>> = {}
+): FurnitureItem => ({
+  kind: 'box',
+  name,
+  size: { width, height, depth },
+  position: { x: 0, y: height / 2, z: 0 },
+  color,
+  product,
+  ...extra,
+});
+
+const SOFA = { id: 'catalogue-sofa', name: 'Three-Seater Sofa', material: 'Linen blend, solid wood frame', price: 52000 };
+const ARMCHAIR = { id: 'catalogue-armchair', name: 'Lounge Armchair', material: 'Bouclé, oak legs', price: 24000 };
+const BED = { id: 'catalogue-queen-bed', name: 'Queen Bed', material: 'Engineered wood, upholstered headboard', price: 46000 };
+const COFFEE_TABLE = { id: 'catalogue-coffee-table', name: 'Coffee Table', material: 'Walnut veneer', price: 14000 };
+const DINING_TABLE = { id: 'catalogue-dining-table', name: 'Six-Seater Dining Table', material: 'Solid sheesham', price: 38000 };
+const SIDE_TABLE = { id: 'catalogue-side-table', name: 'Side Table', material: 'Marble top, brass base', price: 9000 };
+const TV_CABINET = { id: 'catalogue-tv-cabinet', name: 'Low TV Cabinet', material: 'Matte laminate', price: 21000 };
+const WARDROBE = { id: 'catalogue-wardrobe', name: 'Two-Door Wardrobe', material: 'Acrylic shutters, soft-close hinges', price: 58000 };
+const BOOKSHELF = { id: 'catalogue-bookshelf', name: 'Open Bookshelf', material: 'Oak veneer', price: 16000 };
+const FLOOR_LAMP = { id: 'catalogue-floor-lamp', name: 'Arc Floor Lamp', material: 'Brushed brass, linen shade', price: 11000 };
+
+export const FURNITURE_CATALOGUE: CatalogueEntry[] = [
+  { id: 'sofa', items: [box('Sofa', 2.2, 0.8, 0.9, '#9fb8ad', SOFA, { finish: 'upholstery' })] },
+  { id: 'armchair', items: [box('Armchair', 0.9, 0.8, 0.85, '#d8c8b0', ARMCHAIR, { finish: 'upholstery' })] },
+  {
+    id: 'bed',
+    items: [
+      box('Bed', 1.6, 0.5, 2.1, '#f1ece4', BED, { position: { x: 0, y: 0.25, z: 0.08 } }),
+      box('Headboard', 1.7, 1, 0.15, '#b9a58c', BED, { position: { x: 0, y: 0.5, z: -1.05 }, finish: 'upholstery' }),
+    ],
+  },
+  { id: 'coffee-table', items: [box('Coffee Table', 1.1, 0.4, 0.6, '#6b4f3a', COFFEE_TABLE)] },
+  { id: 'dining-table', items: [box('Dining Table', 1.8, 0.75, 0.9, '#8a6a4f', DINING_TABLE)] },
+  { id: 'side-table', items: [box('Side Table', 0.5, 0.55, 0.5, '#e8e4dc', SIDE_TABLE)] },
+  { id: 'tv-cabinet', items: [box('TV Cabinet', 1.8, 0.5, 0.4, '#3d3d3d', TV_CABINET, { finish: 'cabinet' })] },
+  { id: 'wardrobe', items: [box('Wardrobe', 1.8, 2.1, 0.6, '#f5f2ea', WARDROBE, { finish: 'cabinet' })] },
+  { id: 'bookshelf', items: [box('Bookshelf', 1, 1.8, 0.35, '#a07d5a', BOOKSHELF, { finish: 'cabinet' })] },
+  { id: 'floor-lamp', items: [{ kind: 'lamp', name: 'Floor Lamp', position: { x: 0, y: 0, z: 0 }, product: FLOOR_LAMP }] },
+];
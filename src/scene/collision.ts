@@ -0,0 +1,18 @@
+import * as THREE from 'three';
+
+// Meshes flagged with userData.collider (walls, furniture, lamp stands) block
+// movement if any part of them sits between the floor and eye level.
+export const collectColliders = (root: THREE.Object3D, eyeHeight: number) => {
+  root.updateMatrixWorld(true);
+  const boxes: THREE.Box3[] = [];
+  root.traverse(object => {
+    if (!object.visible || !object.userData.collider) return;
+    const box = new THREE.Box3().setFromObject(object);
+    if (box.min.y < eyeHeight && box.max.y > 0.1) boxes.push(box);
+  });
+  return boxes;
+};
+
+/** True if a circle of `radius` at (x, z) overlaps the footprint of the box. */
+export const hitsBox = (box: THREE.Box3, x: number, z: number, radius: number) =>
+  x > box.min.x - radius && x < box.max.x + radius && z > box.min.z - radius && z < box.max.z + radius;
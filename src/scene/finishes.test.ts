@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { decodeFinishes, encodeFinishes, type FinishConfig } from './finishes';
+import apartmentDefinition from './apartments/siriz-showflat.json';
+import { validateScene } from './validate';
+
+const SHOWFLAT = validateScene(apartmentDefinition);
+
+describe('finish links', () => {
+  test('round-trip through encode and decode', () => {
+    const config: FinishConfig = { 'living-room': { wall: 'sage', floor: 'teak' }, bedroom: { upholstery: 'navy' } };
+    const encoded = encodeFinishes(config);
+    assert.equal(encoded, 'living-room:wall.sage,floor.teak;bedroom:upholstery.navy');
+    assert.deepEqual(decodeFinishes(encoded, SHOWFLAT), config);
+  });
+
+  test('leave out rooms with no choices', () => {
+    assert.equal(encodeFinishes({ foyer: {}, kitchen: { cabinet: 'walnut' } }), 'kitchen:cabinet.walnut');
+  });
+
+  test('drop unknown rooms, slots and finishes', () => {
+    assert.deepEqual(decodeFinishes('attic:wall.sage;kitchen:roof.sage,wall.neon,cabinet.walnut', SHOWFLAT), { kitchen: { cabinet: 'walnut' } });
+  });
+
+  test('ignore inherited object keys as slots', () => {
+    for (const slot of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      assert.deepEqual(decodeFinishes(`foyer:${slot}.x`, SHOWFLAT), {});
+    }
+  });
+
+  test('survive malformed input', () => {
+    for (const value of ['', ';;;', ':', 'foyer', 'foyer:', 'foyer:.', 'foyer:wall', 'foyer:wall.sage.extra', '%00:wall.sage']) {
+      assert.doesNotThrow(() => decodeFinishes(value, SHOWFLAT));
+    }
+    assert.deepEqual(decodeFinishes(null, SHOWFLAT), {});
+  });
+});
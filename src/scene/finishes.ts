@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import type { ResourceCache } from './resources';
+import type { FurnitureFinish, SceneDefinition } from './types';
+
+// --- Finish Palettes ---
+
+export type FinishSlot = 'wall' | 'floor' | FurnitureFinish;
+
+export interface FinishOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const FINISH_SLOTS: { slot: FinishSlot; label: string }[] = [
+  { slot: 'wall', label: 'Wall Paint' },
+  { slot: 'floor', label: 'Flooring' },
+  { slot: 'upholstery', label: 'Upholstery' },
+  { slot: 'cabinet', label: 'Cabinet Finish' },
+];
+
+export const FINISH_PALETTES: Record<FinishSlot, FinishOption[]> = {
+  wall: [
+    { id: 'ivory', name: 'Ivory Mist', color: '#f7f3ea' },
+    { id: 'sage', name: 'Soft Sage', color: '#c9d5c0' },
+    { id: 'blush', name: 'Desert Blush', color: '#ead4c8' },
+    { id: 'greige', name: 'Warm Greige', color: '#d6cfc4' },
+    { id: 'powder-blue', name: 'Powder Blue', color: '#d4e2ec' },
+    { id: 'charcoal', name: 'Accent Charcoal', color: '#5b5b5b' },
+  ],
+  floor: [
+    { id: 'statuario', name: 'Statuario Marble', color: '#eeebe6' },
+    { id: 'light-oak', name: 'Light Oak', color: '#c8a97e' },
+    { id: 'teak', name: 'Burma Teak', color: '#8b5a2b' },
+    { id: 'terrazzo', name: 'Grey Terrazzo', color: '#b9b6b0' },
+    { id: 'kota', name: 'Kota Stone', color: '#7d8b8a' },
+  ],
+  upholstery: [
+    { id: 'mint', name: 'Mint Velvet', color: '#aaddcc' },
+    { id: 'navy', name: 'Navy Linen', color: '#2f3e5c' },
+    { id: 'terracotta', name: 'Terracotta Boucle', color: '#c8704f' },
+    { id: 'mustard', name: 'Mustard Weave', color: '#d6a63c' },
+    { id: 'oatmeal', name: 'Oatmeal Cotton', color: '#e3d9c6' },
+  ],
+  cabinet: [
+    { id: 'white-gloss', name: 'White High-Gloss', color: '#fafafa' },
+    { id: 'walnut', name: 'Walnut Veneer', color: '#6b4a2f' },
+    { id: 'sage-matte', name: 'Sage Matte Lacquer', color: '#9aab93' },
+    { id: 'graphite', name: 'Graphite Laminate', color: '#3f4145' },
+    { id: 'ash', name: 'Natural Ash', color: '#d9c3a0' },
+  ],
+};
+
+/** Chosen finish id per slot, per room id. Missing entries keep the designed colour. */
+export type FinishConfig = Record<string, Partial<Record<FinishSlot, string>>>;
+
+const findOption = (slot: FinishSlot, id: string | undefined) => FINISH_PALETTES[slot].find(option => option.id === id);
+
+// Checked against the slot list, not `in`, which also matches inherited keys like "constructor".
+const isFinishSlot = (slot: string): slot is FinishSlot => FINISH_SLOTS.some(entry => entry.slot === slot);
+
+/** Slots that have at least one surface in the given room. */
+export const roomFinishSlots = (scene: SceneDefinition, roomId: string): FinishSlot[] => {
+  const room = scene.rooms.find(r => r.id === roomId);
+  if (!room) return [];
+  const furnitureSlots = new Set(room.furniture.map(item => (item.kind === 'box' ? item.finish : undefined)));
+  return FINISH_SLOTS.map(({ slot }) => slot).filter(slot => slot === 'wall' || slot === 'floor' || furnitureSlots.has(slot as FurnitureFinish));
+};
+
+/**
+ * Recolours every mesh tagged with userData.finishSlot inside each room group
+ * (groups are named after their room id). Materials are shared, so a mesh is
+ * switched to a recoloured variant of its designed material rather than
+ * edited; clearing a choice switches it back.
+ */
+export const applyFinishes = (rooms: THREE.Object3D[], config: FinishConfig, resources: ResourceCache) => {
+  rooms.forEach(room => {
+    const choices = config[room.name] ?? {};
+    room.traverse(object => {
+      const slot = object.userData.finishSlot as FinishSlot | undefined;
+      if (!slot || !(object instanceof THREE.Mesh)) return;
+      const design = object.userData.designMaterial as THREE.MeshStandardMaterial;
+      const option = findOption(slot, choices[slot]);
+      object.material = option
+        ? resources.variant(design, `finish:${option.color}`, copy => copy.color.set(option.color))
+        : design;
+    });
+  });
+};
+
+// --- Shareable Links ---
+// Encoded as ?finish=living-room:wall.sage,floor.teak;bedroom:upholstery.navy
+
+export const FINISH_PARAM = 'finish';
+
+export const encodeFinishes = (config: FinishConfig) =>
+  Object.entries(config)
+    .map(([roomId, choices]) => {
+      const pairs = Object.entries(choices).filter(([, id]) => id).map(([slot, id]) => `${slot}.${id}`);
+      return pairs.length ? `${roomId}:${pairs.join(',')}` : '';
+    })
+    .filter(Boolean)
+    .join(';');
+
+/** Parses a finish link, dropping unknown rooms, slots and finishes. */
+export const decodeFinishes = (value: string | null, scene: SceneDefinition): FinishConfig => {
+  const config: FinishConfig = {};
+  if (!value) return config;
+  value.split(';').forEach(entry => {
+    const [roomId, pairs = ''] = entry.split(':');
+    if (!scene.rooms.some(room => room.id === roomId)) return;
+    pairs.split(',').forEach(pair => {
+      const [slot, id] = pair.split('.');
+      if (!isFinishSlot(slot) || !findOption(slot, id)) return;
+      config[roomId] = { ...config[roomId], [slot]: id };
+    });
+  });
+  return config;
+};
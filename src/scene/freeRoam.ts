@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { collectColliders, hitsBox } from './collision';
+import { isUiTarget } from './input';
+
+export const EYE_HEIGHT = 1.6;
+
+const WALK_SPEED = 2.2; // metres per second
+const BODY_RADIUS = 0.3;
+const LOOK_SENSITIVITY = 0.004; // radians per pixel
+const MAX_PITCH = Math.PI / 2 - 0.1;
+const JOYSTICK_RADIUS = 60; // pixels of touch travel for full speed
+
+const KEY_BINDINGS: Record<string, 'forward' | 'back' | 'left' | 'right'> = {
+  KeyW: 'forward', ArrowUp: 'forward',
+  KeyS: 'back', ArrowDown: 'back',
+  KeyA: 'left', ArrowLeft: 'left',
+  KeyD: 'right', ArrowRight: 'right',
+};
+
+export interface FreeRoamControls {
+  enable: () => void;
+  disable: () => void;
+  isEnabled: () => boolean;
+  /** Advances movement by `delta` seconds; returns true if the camera moved. */
+  update: (delta: number) => boolean;
+  dispose: () => void;
+}
+
+/**
+ * First-person walking controls: WASD / arrow keys to move, mouse drag to look.
+ * On touch screens a drag on the left half of the screen walks and a drag on
+ * the right half looks around. Movement is blocked by collider bounds.
+ */
+export const createFreeRoamControls = (camera: THREE.PerspectiveCamera, world: THREE.Object3D): FreeRoamControls => {
+  let enabled = false;
+  let colliders: THREE.Box3[] = [];
+  let yaw = 0;
+  let pitch = 0;
+  let lookChanged = false;
+  const keys = new Set<string>();
+  const joystick = { id: -1, startX: 0, startY: 0, x: 0, y: 0 };
+  const look = { id: -1, lastX: 0, lastY: 0 };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!KEY_BINDINGS[e.code] || isUiTarget(e.target)) return;
+    keys.add(KEY_BINDINGS[e.code]);
+    e.preventDefault();
+  };
+  const onKeyUp = (e: KeyboardEvent) => {
+    if (KEY_BINDINGS[e.code]) keys.delete(KEY_BINDINGS[e.code]);
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (isUiTarget(e.target)) return;
+    if (e.pointerType === 'touch' && e.clientX < window.innerWidth / 2) {
+      if (joystick.id !== -1) return;
+      Object.assign(joystick, { id: e.pointerId, startX: e.clientX, startY: e.clientY, x: 0, y: 0 });
+    } else if (look.id === -1) {
+      Object.assign(look, { id: e.pointerId, lastX: e.clientX, lastY: e.clientY });
+    }
+  };
+  const onPointerMove = (e: PointerEvent) => {
+    if (e.pointerId === joystick.id) {
+      joystick.x = THREE.MathUtils.clamp((e.clientX - joystick.startX) / JOYSTICK_RADIUS, -1, 1);
+      joystick.y = THREE.MathUtils.clamp((e.clientY - joystick.startY) / JOYSTICK_RADIUS, -1, 1);
+    } else if (e.pointerId === look.id) {
+      yaw -= (e.clientX - look.lastX) * LOOK_SENSITIVITY;
+      pitch = THREE.MathUtils.clamp(pitch - (e.clientY - look.lastY) * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH);
+      look.lastX = e.clientX;
+      look.lastY = e.clientY;
+      lookChanged = true;
+    }
+  };
+  const onPointerUp = (e: PointerEvent) => {
+    if (e.pointerId === joystick.id) Object.assign(joystick, { id: -1, x: 0, y: 0 });
+    if (e.pointerId === look.id) look.id = -1;
+  };
+
+  const blocked = (x: number, z: number, ignore: Set<THREE.Box3>) =>
+    colliders.some(box => !ignore.has(box) && hitsBox(box, x, z, BODY_RADIUS));
+
+  const enable = () => {
+    if (enabled) return;
+    enabled = true;
+    colliders = collectColliders(world, EYE_HEIGHT);
+    const euler = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ');
+    yaw = euler.y;
+    pitch = euler.x;
+    camera.position.y = EYE_HEIGHT;
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+  };
+
+  const disable = () => {
+    if (!enabled) return;
+    enabled = false;
+    keys.clear();
+    Object.assign(joystick, { id: -1, x: 0, y: 0 });
+    look.id = -1;
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('pointerdown', onPointerDown);
+    window.removeEventListener('pointermove', onPointerMove);
+    window.removeEventListener('pointerup', onPointerUp);
+    window.removeEventListener('pointercancel', onPointerUp);
+  };
+
+  const update = (delta: number) => {
+    if (!enabled) return false;
+    let moved = lookChanged;
+    lookChanged = false;
+    camera.quaternion.setFromEuler(new THREE.Euler(pitch, yaw, 0, 'YXZ'));
+
+    const forwardInput = (keys.has('forward') ? 1 : 0) - (keys.has('back') ? 1 : 0) - joystick.y;
+    const strafeInput = (keys.has('right') ? 1 : 0) - (keys.has('left') ? 1 : 0) + joystick.x;
+    if (forwardInput === 0 && strafeInput === 0) return moved;
+
+    const input = new THREE.Vector2(strafeInput, forwardInput);
+    if (input.length() > 1) input.normalize();
+    const step = WALK_SPEED * Math.min(delta, 0.1);
+    const sin = Math.sin(yaw);
+    const cos = Math.cos(yaw);
+    const dx = (input.x * cos - input.y * sin) * step;
+    const dz = (-input.x * sin - input.y * cos) * step;
+
+    // Colliders we already overlap (e.g. after entering mid-wall) are ignored so the visitor can walk out.
+    const { x, z } = camera.position;
+    const ignore = new Set(colliders.filter(box => hitsBox(box, x, z, BODY_RADIUS)));
+    if (!blocked(x + dx, z, ignore)) camera.position.x += dx;
+    if (!blocked(camera.position.x, z + dz, ignore)) camera.position.z += dz;
+    moved = moved || camera.position.x !== x || camera.position.z !== z;
+    return moved;
+  };
+
+  return { enable, disable, isEnabled: () => enabled, update, dispose: disable };
+};
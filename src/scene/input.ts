@@ -0,0 +1,8 @@
+// Pointer and keyboard events that land on page UI (overlays, buttons, form
+// fields) should not also drive the 3D scene.
+export const isUiTarget = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest('a, button, input, select, textarea, .glass-panel');
+
+// Keyboard shortcuts are ignored while the visitor is typing.
+export const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,163 @@
+import { LAMP_SIZE } from './builders';
+import type { FurnitureItem } from './types';
+
+// --- Room Layouts ---
+// The layout editor works on pieces: the furniture items that move together
+// (a bed and its headboard), placed by their centre on the floor and a turn.
+// Everything here is room-local and in metres; turns are in degrees,
+// counter-clockwise seen from above, like Object3D.rotation.y.
+
+export interface LayoutPiece {
+  key: string;
+  /** Positions relative to the piece's centre, rotations relative to its turn. */
+  items: FurnitureItem[];
+  x: number;
+  z: number;
+  rotation: number;
+}
+
+export interface Footprint {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/** Pieces snap flush to a wall or a neighbour when an edge comes this close. */
+export const SNAP_DISTANCE = 0.2;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeTurn = (degrees: number) => round(((degrees % 360) + 360) % 360);
+
+/** (x, z) turned about the origin, matching a parent rotated by `degrees` about y. */
+export const turn = (x: number, z: number, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: x * cos + z * sin, z: -x * sin + z * cos };
+};
+
+const halfSize = (item: FurnitureItem) =>
+  item.kind === 'box'
+    ? { x: item.size.width / 2, z: item.size.depth / 2 }
+    : { x: LAMP_SIZE.width / 2, z: LAMP_SIZE.depth / 2 };
+
+const itemCorners = (item: FurnitureItem) => {
+  const half = halfSize(item);
+  const rotation = item.kind === 'mirror' ? 0 : item.rotation ?? 0;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sz]) => {
+    const corner = turn(sx * half.x, sz * half.z, rotation);
+    return { x: item.position.x + corner.x, z: item.position.z + corner.z };
+  });
+};
+
+const bounds = (points: { x: number; z: number }[]): Footprint => ({
+  minX: Math.min(...points.map(p => p.x)),
+  maxX: Math.max(...points.map(p => p.x)),
+  minZ: Math.min(...points.map(p => p.z)),
+  maxZ: Math.max(...points.map(p => p.z)),
+});
+
+/** The floor area a piece covers, as an axis-aligned box in room coordinates. */
+export const footprint = ({ items, x, z, rotation }: Pick<LayoutPiece, 'items' | 'x' | 'z' | 'rotation'>): Footprint =>
+  bounds(items.flatMap(itemCorners).map(corner => {
+    const turned = turn(corner.x, corner.z, rotation);
+    return { x: x + turned.x, z: z + turned.z };
+  }));
+
+/** The piece the i-th item of a room belongs to: its `piece`, else its product; null for mirrors. */
+export const pieceKey = (item: FurnitureItem, i: number) =>
+  item.kind === 'mirror' ? null : item.piece ?? item.product?.id ?? `item-${i}`;
+
+/**
+ * Splits a room's furniture into movable pieces, grouped by `piece` or else
+ * by product, and the wall-mounted items that stay put.
+ */
+export const piecesOf = (furniture: FurnitureItem[]) => {
+  const groups = new Map<string, FurnitureItem[]>();
+  const fixed: FurnitureItem[] = [];
+  furniture.forEach((item, i) => {
+    const key = pieceKey(item, i);
+    if (key === null) {
+      fixed.push(item);
+      return;
+    }
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  const pieces = [...groups].map(([key, items]): LayoutPiece => {
+    const area = bounds(items.flatMap(itemCorners));
+    const x = round((area.minX + area.maxX) / 2);
+    const z = round((area.minZ + area.maxZ) / 2);
+    return {
+      key,
+      items: items.map(item => ({ ...item, position: { ...item.position, x: item.position.x - x, z: item.position.z - z } })),
+      x,
+      z,
+      rotation: 0,
+    };
+  });
+  return { pieces, fixed };
+};
+
+/** The room's furniture list for a layout: every piece where it now stands. */
+export const furnitureOf = (pieces: LayoutPiece[], fixed: FurnitureItem[]): FurnitureItem[] => [
+  ...pieces.flatMap(piece =>
+    piece.items.map(item => {
+      if (item.kind === 'mirror') return item;
+      const offset = turn(item.position.x, item.position.z, piece.rotation);
+      const rotation = normalizeTurn((item.rotation ?? 0) + piece.rotation);
+      return {
+        ...item,
+        position: { x: round(piece.x + offset.x), y: item.position.y, z: round(piece.z + offset.z) },
+        rotation: rotation === 0 ? undefined : rotation,
+      };
+    })
+  ),
+  ...fixed,
+];
+
+/** The nearest snap within SNAP_DISTANCE: `edges` are the piece's own, `targets` what they may meet. */
+const snapAxis = (edges: [number, number], targets: { low: number[]; high: number[] }) => {
+  let best = 0;
+  let distance = SNAP_DISTANCE;
+  // A low edge meets the high edge of a neighbour (or a low wall) and vice versa.
+  targets.low.forEach(target => {
+    if (Math.abs(target - edges[0]) < distance) [best, distance] = [target - edges[0], Math.abs(target - edges[0])];
+  });
+  targets.high.forEach(target => {
+    if (Math.abs(target - edges[1]) < distance) [best, distance] = [target - edges[1], Math.abs(target - edges[1])];
+  });
+  return best;
+};
+
+const overlaps = (fromA: number, toA: number, fromB: number, toB: number) => fromA < toB && fromB < toA;
+
+/**
+ * Where a piece dragged to (x, z) ends up: snapped flush to a wall or a
+ * neighbouring piece it is close to, and kept inside the room's floor.
+ */
+export const placePiece = (
+  piece: Pick<LayoutPiece, 'items' | 'rotation'>,
+  x: number,
+  z: number,
+  room: { width: number; depth: number },
+  others: Footprint[]
+) => {
+  const area = footprint({ ...piece, x, z });
+  const halfWidth = room.width / 2;
+  const halfDepth = room.depth / 2;
+
+  // Neighbours only count along an axis if the piece lines up with them on the other one.
+  const besideX = others.filter(o => overlaps(area.minZ, area.maxZ, o.minZ, o.maxZ));
+  const besideZ = others.filter(o => overlaps(area.minX, area.maxX, o.minX, o.maxX));
+  let nextX = x + snapAxis([area.minX, area.maxX], { low: [-halfWidth, ...besideX.map(o => o.maxX)], high: [halfWidth, ...besideX.map(o => o.minX)] });
+  let nextZ = z + snapAxis([area.minZ, area.maxZ], { low: [-halfDepth, ...besideZ.map(o => o.maxZ)], high: [halfDepth, ...besideZ.map(o => o.minZ)] });
+
+  // A piece wider than the room is centred; otherwise it is kept off the walls.
+  const clamp = (value: number, low: number, high: number) => (low > high ? (low + high) / 2 : Math.min(high, Math.max(low, value)));
+  nextX = clamp(nextX, -halfWidth + (x - area.minX), halfWidth - (area.maxX - x));
+  nextZ = clamp(nextZ, -halfDepth + (z - area.minZ), halfDepth - (area.maxZ - z));
+  return { x: round(nextX), z: round(nextZ) };
+};
@@ -0,0 +1,320 @@
+import * as THREE from 'three';
+import type { CatalogueEntry } from './catalogue';
+import { isTyping, isUiTarget } from './input';
+import { footprint, furnitureOf, pieceKey, piecesOf, placePiece, type LayoutPiece } from './layout';
+import { buildFurniture, type BuiltRoom } from './loader';
+import type { ResourceCache } from './resources';
+import type { FurnitureItem } from './types';
+
+const OUTLINE_COLOR = 0xc9a96e;
+const CLICK_TOLERANCE = 6; // pixels a pointer may travel and still count as a click
+const MAX_HISTORY = 50;
+
+export interface LayoutEditorStatus {
+  /** Name of the selected piece, or null when nothing is selected. */
+  selected: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Whether any room has been rearranged since the scene was built. */
+  changed: boolean;
+}
+
+interface LayoutEditorCallbacks {
+  onChange: () => void;
+  onUpdate: (status: LayoutEditorStatus) => void;
+  /** Called with each newly added piece, so lights and finishes can pick it up. */
+  onAdd: (object: THREE.Object3D) => void;
+}
+
+// Each room keeps its own pieces and history while the scene lives. Pieces
+// are immutable, so a history entry is simply the list as it was.
+interface RoomSession {
+  room: BuiltRoom;
+  pivots: Map<string, THREE.Group>;
+  pieces: LayoutPiece[];
+  fixed: FurnitureItem[];
+  undo: LayoutPiece[][];
+  redo: LayoutPiece[][];
+  changed: boolean;
+}
+
+const pieceName = (piece: LayoutPiece) =>
+  piece.items.find(item => item.product)?.product?.name ?? piece.items.find(item => item.name)?.name ?? piece.key;
+
+/**
+ * Rearranges the furniture of one room at a time: pieces are dragged across
+ * the floor (snapping to walls and neighbours), turned, added from the
+ * catalogue and removed, with undo and redo. Every piece is moved as one
+ * pivot group holding the objects the loader built for it.
+ */
+export const createLayoutEditor = (
+  camera: THREE.Camera,
+  rooms: BuiltRoom[],
+  resources: ResourceCache,
+  { onChange, onUpdate, onAdd }: LayoutEditorCallbacks
+) => {
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+  const floorPoint = new THREE.Vector3();
+  const sessions = new Map<string, RoomSession>();
+  let session: RoomSession | null = null;
+  let enabled = false;
+  let selected: string | null = null;
+  let drag: { key: string; offsetX: number; offsetZ: number; startX: number; startY: number; x: number; z: number; moved: boolean } | null = null;
+  let pressed: { x: number; y: number } | null = null;
+
+  const outline = new THREE.LineLoop(
+    new THREE.BufferGeometry(),
+    resources.material('layout-outline', () => new THREE.LineBasicMaterial({ color: OUTLINE_COLOR, depthTest: false, transparent: true }))
+  );
+  outline.renderOrder = 10;
+  outline.raycast = () => undefined;
+  outline.visible = false;
+
+  // The loader's objects are regrouped under one pivot per piece, keeping
+  // where they stand; the pivots then carry every move and turn.
+  const openSession = (room: BuiltRoom): RoomSession => {
+    const { pieces, fixed } = piecesOf(room.furniture.map(built => built.definition));
+    const pivots = new Map<string, THREE.Group>();
+    room.group.updateMatrixWorld(true);
+    pieces.forEach(piece => {
+      const pivot = new THREE.Group();
+      pivot.userData.layoutPiece = piece.key;
+      pivot.position.set(piece.x, 0, piece.z);
+      room.group.add(pivot);
+      pivot.updateMatrixWorld(true);
+      pivots.set(piece.key, pivot);
+    });
+    room.furniture.forEach(({ definition, object }, i) => {
+      const key = pieceKey(definition, i);
+      const pivot = key === null ? undefined : pivots.get(key);
+      if (pivot) pivot.attach(object);
+    });
+    return { room, pivots, pieces, fixed, undo: [], redo: [], changed: false };
+  };
+
+  const current = () => session?.pieces.find(piece => piece.key === selected) ?? null;
+
+  const report = () =>
+    onUpdate({
+      selected: current() && pieceName(current()!),
+      canUndo: !!session?.undo.length,
+      canRedo: !!session?.redo.length,
+      changed: [...sessions.values()].some(s => s.changed),
+    });
+
+  const drawOutline = (piece: Pick<LayoutPiece, 'items' | 'x' | 'z' | 'rotation'> | null) => {
+    outline.removeFromParent();
+    outline.visible = !!piece && !!session;
+    if (!piece || !session) return;
+    const area = footprint(piece);
+    outline.geometry.dispose();
+    outline.geometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(area.minX, 0.02, area.minZ),
+      new THREE.Vector3(area.maxX, 0.02, area.minZ),
+      new THREE.Vector3(area.maxX, 0.02, area.maxZ),
+      new THREE.Vector3(area.minX, 0.02, area.maxZ),
+    ]);
+    session.room.group.add(outline);
+  };
+
+  const select = (key: string | null) => {
+    selected = key;
+    drawOutline(current());
+    report();
+    onChange();
+  };
+
+  /** Shows the room as `pieces` describes it: pivots moved, turned, added or taken away. */
+  const show = (target: RoomSession, pieces: LayoutPiece[]) => {
+    target.pieces = pieces;
+    target.pivots.forEach((pivot, key) => {
+      const piece = pieces.find(p => p.key === key);
+      if (!piece) {
+        pivot.removeFromParent();
+        return;
+      }
+      if (!pivot.parent) target.room.group.add(pivot);
+      pivot.position.set(piece.x, 0, piece.z);
+      pivot.rotation.y = THREE.MathUtils.degToRad(piece.rotation);
+    });
+    select(pieces.some(p => p.key === selected) ? selected : null);
+  };
+
+  const commit = (pieces: LayoutPiece[]) => {
+    if (!session) return;
+    session.undo = [...session.undo, session.pieces].slice(-MAX_HISTORY);
+    session.redo = [];
+    session.changed = true;
+    show(session, pieces);
+  };
+
+  const place = (piece: Pick<LayoutPiece, 'items' | 'rotation'>, x: number, z: number, key: string | null) => {
+    const { width, depth } = session!.room.definition.size;
+    return placePiece(piece, x, z, { width, depth }, session!.pieces.filter(p => p.key !== key).map(footprint));
+  };
+
+  // --- Pointer ---
+  const setPointer = (clientX: number, clientY: number) => {
+    pointer.set((clientX / window.innerWidth) * 2 - 1, -(clientY / window.innerHeight) * 2 + 1);
+    raycaster.setFromCamera(pointer, camera);
+  };
+
+  /** Where the pointer meets the floor, in the room's coordinates. */
+  const pointOnFloor = () => {
+    if (!session || !raycaster.ray.intersectPlane(floor, floorPoint)) return null;
+    return { x: floorPoint.x - session.room.group.position.x, z: floorPoint.z - session.room.group.position.z };
+  };
+
+  const pieceAt = () => {
+    if (!session) return null;
+    const hit = raycaster.intersectObjects([...session.pivots.values()].filter(pivot => pivot.parent), true).find(i => i.object.visible);
+    let object: THREE.Object3D | null = hit?.object ?? null;
+    while (object && object.userData.layoutPiece === undefined) object = object.parent;
+    return (object?.userData.layoutPiece as string | undefined) ?? null;
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    pressed = null;
+    if (!enabled || !session || isUiTarget(e.target)) return;
+    pressed = { x: e.clientX, y: e.clientY };
+    setPointer(e.clientX, e.clientY);
+    const key = pieceAt();
+    const piece = session.pieces.find(p => p.key === key);
+    const point = pointOnFloor();
+    if (!piece || !point) return;
+    drag = { key: piece.key, offsetX: piece.x - point.x, offsetZ: piece.z - point.z, startX: e.clientX, startY: e.clientY, x: piece.x, z: piece.z, moved: false };
+    select(piece.key);
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!drag || !session) return;
+    if (!drag.moved && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) <= CLICK_TOLERANCE) return;
+    drag.moved = true;
+    setPointer(e.clientX, e.clientY);
+    const point = pointOnFloor();
+    const piece = current();
+    if (!point || !piece) return;
+    Object.assign(drag, place(piece, point.x + drag.offsetX, point.z + drag.offsetZ, piece.key));
+    session.pivots.get(piece.key)!.position.set(drag.x, 0, drag.z);
+    drawOutline({ ...piece, x: drag.x, z: drag.z });
+    onChange();
+  };
+
+  // A drag becomes one undoable move; a click on bare floor clears the selection.
+  const onPointerUp = (e: PointerEvent) => {
+    const moving = drag;
+    const click = pressed && Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) <= CLICK_TOLERANCE;
+    drag = null;
+    pressed = null;
+    if (!session) return;
+    if (moving) {
+      const piece = session.pieces.find(p => p.key === moving.key);
+      if (moving.moved && piece && (piece.x !== moving.x || piece.z !== moving.z)) {
+        commit(session.pieces.map(p => (p === piece ? { ...p, x: moving.x, z: moving.z } : p)));
+      }
+    } else if (click) {
+      select(null);
+    }
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!enabled || isTyping(e.target)) return;
+    const key = e.key.toLowerCase();
+    if (e.ctrlKey || e.metaKey) {
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) editor.redo();
+        else editor.undo();
+      }
+      return;
+    }
+    if (e.altKey) return;
+    if (key === 'r') editor.rotate(e.shiftKey ? 15 : 90);
+    else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      editor.remove();
+    } else if (e.key === 'Escape') select(null);
+  };
+
+  window.addEventListener('pointerdown', onPointerDown);
+  window.addEventListener('pointermove', onPointerMove);
+  window.addEventListener('pointerup', onPointerUp);
+  window.addEventListener('keydown', onKeyDown);
+
+  const editor = {
+    isEnabled: () => enabled,
+    /** Starts editing the given room; its earlier changes and history are kept. */
+    enable: (roomId: string) => {
+      const room = rooms.find(r => r.definition.id === roomId);
+      if (!room) return;
+      session = sessions.get(roomId) ?? openSession(room);
+      sessions.set(roomId, session);
+      enabled = true;
+      select(null);
+    },
+    disable: () => {
+      enabled = false;
+      drag = null;
+      select(null);
+    },
+    /** Adds a catalogue piece, as close to the middle of the room as it fits, and selects it. */
+    add: (entry: CatalogueEntry) => {
+      if (!enabled || !session) return;
+      let n = 1;
+      while (session.pivots.has(`${entry.id}-${n}`)) n += 1;
+      const key = `${entry.id}-${n}`;
+      const items = entry.items.map(item => ({ ...item, piece: key }));
+      const pivot = new THREE.Group();
+      pivot.userData.layoutPiece = key;
+      items.forEach(item => pivot.add(buildFurniture(resources, item)));
+      session.pivots.set(key, pivot);
+      session.room.group.add(pivot);
+      onAdd(pivot);
+      commit([...session.pieces, { key, items, rotation: 0, ...place({ items, rotation: 0 }, 0, 0, key) }]);
+      select(key);
+    },
+    /** Turns the selected piece by `degrees` (counter-clockwise), keeping it inside the room. */
+    rotate: (degrees: number) => {
+      const piece = current();
+      if (!enabled || !piece) return;
+      const rotation = (((piece.rotation + degrees) % 360) + 360) % 360;
+      const next = { ...piece, rotation, ...place({ ...piece, rotation }, piece.x, piece.z, piece.key) };
+      commit(session!.pieces.map(p => (p === piece ? next : p)));
+    },
+    remove: () => {
+      const piece = current();
+      if (!enabled || !piece) return;
+      commit(session!.pieces.filter(p => p !== piece));
+    },
+    undo: () => {
+      const previous = session?.undo.at(-1);
+      if (!enabled || !session || !previous) return;
+      session.undo = session.undo.slice(0, -1);
+      session.redo = [...session.redo, session.pieces];
+      show(session, previous);
+    },
+    redo: () => {
+      const next = session?.redo.at(-1);
+      if (!enabled || !session || !next) return;
+      session.redo = session.redo.slice(0, -1);
+      session.undo = [...session.undo, session.pieces];
+      show(session, next);
+    },
+    /** The furniture of every rearranged room, ready to save as a layout. */
+    rooms: (): Record<string, FurnitureItem[]> =>
+      Object.fromEntries(
+        [...sessions].filter(([, s]) => s.changed).map(([roomId, s]) => [roomId, furnitureOf(s.pieces, s.fixed)])
+      ),
+    dispose: () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('keydown', onKeyDown);
+      outline.removeFromParent();
+      outline.geometry.dispose();
+    },
+  };
+  return editor;
+};
@@ -0,0 +1,207 @@
+import * as THREE from 'three';
+import { isUiTarget } from './input';
+import type { BuiltApartment } from './loader';
+import type { ResourceCache } from './resources';
+
+// --- Lighting Presets ---
+
+export type LightingPresetId = 'morning' | 'golden-hour' | 'evening' | 'night';
+
+export interface LightingPreset {
+  id: LightingPresetId;
+  name: string;
+  hour: number;
+}
+
+export const LIGHTING_PRESETS: LightingPreset[] = [
+  { id: 'morning', name: 'Morning Daylight', hour: 9 },
+  { id: 'golden-hour', name: 'Golden Hour', hour: 17.5 },
+  { id: 'evening', name: 'Evening Warm', hour: 19.5 },
+  { id: 'night', name: 'Night (Lamps Only)', hour: 22.5 },
+];
+
+export const DEFAULT_HOUR = LIGHTING_PRESETS[0].hour;
+export const MIN_HOUR = 6;
+export const MAX_HOUR = 23;
+export const LAMPS_ON_HOUR = 17; // lamps switch themselves on from here unless clicked off
+
+/** "7:30 pm" for a fractional hour of the day, in the given Intl locale. */
+export const formatHour = (hour: number, locale = 'en-IN') =>
+  new Date(Math.round(hour * 60) * 60_000).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+
+// --- Time of Day ---
+// Samples through the day, interpolated by hour. `sky: null` keeps the
+// scene's own background colour (daytime); multipliers scale the scene's
+// ambient and ceiling light intensities as designed.
+
+interface DaySample {
+  hour: number;
+  sun: number;
+  sunColor: string;
+  ambient: number;
+  ceiling: number;
+  exposure: number;
+  sky: string | null;
+}
+
+const DAY: DaySample[] = [
+  { hour: 6, sun: 0.3, sunColor: '#ffb27a', ambient: 0.9, ceiling: 0.5, exposure: 1.05, sky: '#f0d8c4' },
+  { hour: 8, sun: 1.6, sunColor: '#fff0d9', ambient: 1.3, ceiling: 0, exposure: 1.15, sky: null },
+  { hour: 12, sun: 2.2, sunColor: '#ffffff', ambient: 1.4, ceiling: 0, exposure: 1.2, sky: null },
+  { hour: 16, sun: 1.6, sunColor: '#ffe0b5', ambient: 1.3, ceiling: 0, exposure: 1.2, sky: null },
+  { hour: 17.5, sun: 1.3, sunColor: '#ffa552', ambient: 1.1, ceiling: 0.3, exposure: 1.15, sky: '#f1c08a' },
+  { hour: 19, sun: 0, sunColor: '#ff8a3d', ambient: 1, ceiling: 1, exposure: 1.2, sky: '#6e5d72' },
+  { hour: 21, sun: 0, sunColor: '#ff8a3d', ambient: 0.6, ceiling: 1, exposure: 1.05, sky: '#1d2030' },
+  { hour: 22, sun: 0, sunColor: '#ff8a3d', ambient: 0.3, ceiling: 0, exposure: 0.9, sky: '#15171f' },
+  { hour: 23, sun: 0, sunColor: '#ff8a3d', ambient: 0.25, ceiling: 0, exposure: 0.85, sky: '#111318' },
+];
+
+const sampleDay = (hour: number, daySky: THREE.Color) => {
+  const clamped = THREE.MathUtils.clamp(hour, DAY[0].hour, DAY[DAY.length - 1].hour);
+  const i = Math.max(0, DAY.findIndex(sample => sample.hour >= clamped) - 1);
+  const a = DAY[i];
+  const b = DAY[Math.min(i + 1, DAY.length - 1)];
+  const t = b.hour === a.hour ? 0 : (clamped - a.hour) / (b.hour - a.hour);
+  const lerp = (from: number, to: number) => THREE.MathUtils.lerp(from, to, t);
+  const sky = (color: string | null) => (color ? new THREE.Color(color) : daySky.clone());
+  return {
+    sun: lerp(a.sun, b.sun),
+    sunColor: new THREE.Color(a.sunColor).lerp(new THREE.Color(b.sunColor), t),
+    ambient: lerp(a.ambient, b.ambient),
+    ceiling: lerp(a.ceiling, b.ceiling),
+    exposure: lerp(a.exposure, b.exposure),
+    sky: sky(a.sky).lerp(sky(b.sky), t),
+  };
+};
+
+// The sun rises in the east (+x), peaks to the north (-z) and sets in the west.
+const sunDirection = (hour: number) => {
+  const arc = THREE.MathUtils.clamp((hour - 6) / 13, 0, 1) * Math.PI;
+  const elevation = Math.max(0.08, Math.sin(arc)) * THREE.MathUtils.degToRad(65);
+  return new THREE.Vector3(Math.cos(arc) * Math.cos(elevation), Math.sin(elevation), -0.4 * Math.cos(elevation)).normalize();
+};
+
+// --- Lighting Rig ---
+
+const CLICK_TOLERANCE = 6; // pixels a pointer may travel and still count as a click
+const LIT_SHADE_EMISSIVE = 0xffb060;
+
+/**
+ * Drives the apartment's lights from a time of day: a shadow-casting sun that
+ * only reaches in through window openings, the ambient and ceiling lights,
+ * tone-mapping exposure and the background/fog colour. Lamps follow the clock
+ * until clicked, after which they stay as the visitor left them.
+ */
+export const createLightingRig = (
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  renderer: THREE.WebGLRenderer,
+  { rooms, ambientLight }: BuiltApartment,
+  resources: ResourceCache,
+  onChange: () => void
+) => {
+  const daySky = (scene.background as THREE.Color).clone();
+  const ambientBase = ambientLight.intensity;
+  const ceilingLights: THREE.PointLight[] = [];
+  const lamps: THREE.PointLight[] = [];
+  const collectLights = (root: THREE.Object3D) =>
+    root.traverse(object => {
+      if (!(object instanceof THREE.PointLight) || object.userData.baseIntensity !== undefined) return;
+      object.userData.baseIntensity = object.intensity;
+      (object.userData.lamp ? lamps : ceilingLights).push(object);
+    });
+  rooms.forEach(({ group }) => collectLights(group));
+  const switched = new Map<THREE.PointLight, boolean>();
+  let hour = DEFAULT_HOUR;
+
+  // The sun's shadow camera covers the whole apartment.
+  const bounds = new THREE.Box3();
+  rooms.forEach(({ group }) => bounds.expandByObject(group));
+  const centre = bounds.getCenter(new THREE.Vector3());
+  const radius = bounds.getBoundingSphere(new THREE.Sphere()).radius;
+  const sun = new THREE.DirectionalLight(0xffffff, 0);
+  sun.castShadow = true;
+  sun.shadow.mapSize.set(2048, 2048);
+  sun.shadow.bias = -0.0005;
+  Object.assign(sun.shadow.camera, { left: -radius, right: radius, top: radius, bottom: -radius, near: 0.5, far: radius * 4 });
+  sun.shadow.camera.updateProjectionMatrix();
+  sun.target.position.copy(centre);
+  scene.add(sun, sun.target);
+
+  // Lights are dimmed to zero rather than hidden: changing how many lights
+  // are visible would recompile every material's shader.
+  const isLampOn = (lamp: THREE.PointLight) => switched.get(lamp) ?? hour >= LAMPS_ON_HOUR;
+
+  const setLamp = (lamp: THREE.PointLight, on: boolean) => {
+    lamp.intensity = on ? lamp.userData.baseIntensity : 0;
+    const shade = lamp.userData.shade as THREE.Mesh | undefined;
+    if (!shade) return;
+    const unlit = (shade.userData.unlitMaterial ??= shade.material) as THREE.MeshStandardMaterial;
+    shade.material = on ? resources.variant(unlit, 'lit', copy => copy.emissive.setHex(LIT_SHADE_EMISSIVE)) : unlit;
+  };
+
+  const apply = () => {
+    const day = sampleDay(hour, daySky);
+    sun.intensity = day.sun;
+    sun.color.copy(day.sunColor);
+    sun.position.copy(centre).addScaledVector(sunDirection(hour), radius * 2);
+    ambientLight.intensity = ambientBase * day.ambient;
+    ceilingLights.forEach(light => {
+      light.intensity = light.userData.baseIntensity * day.ceiling;
+    });
+    lamps.forEach(lamp => setLamp(lamp, isLampOn(lamp)));
+    renderer.toneMappingExposure = day.exposure;
+    (scene.background as THREE.Color).copy(day.sky);
+    scene.fog?.color.copy(day.sky);
+    onChange();
+  };
+
+  // Clicking a lamp toggles it.
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const pressed = { x: 0, y: 0, active: false };
+
+  const onPointerDown = (e: PointerEvent) => {
+    Object.assign(pressed, { x: e.clientX, y: e.clientY, active: !isUiTarget(e.target) });
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pressed.active) return;
+    pressed.active = false;
+    if (Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) > CLICK_TOLERANCE) return;
+    pointer.set((e.clientX / window.innerWidth) * 2 - 1, -(e.clientY / window.innerHeight) * 2 + 1);
+    raycaster.setFromCamera(pointer, camera);
+    const hit = raycaster.intersectObjects(rooms.map(room => room.group), true).find(intersection => intersection.object.visible);
+    const lamp = hit?.object.userData.lampLight as THREE.PointLight | undefined;
+    if (!lamp) return;
+    switched.set(lamp, !isLampOn(lamp));
+    apply();
+  };
+
+  window.addEventListener('pointerdown', onPointerDown);
+  window.addEventListener('pointerup', onPointerUp);
+  apply();
+
+  return {
+    setHour: (next: number) => {
+      hour = next;
+      apply();
+    },
+    /** Puts lamps added to the scene later (e.g. by the layout editor) on the clock too. */
+    trackLamps: (root: THREE.Object3D) => {
+      collectLights(root);
+      apply();
+    },
+    /** Hands every lamp back to the clock, e.g. when a preset is picked. */
+    resetLamps: () => {
+      switched.clear();
+      apply();
+    },
+    dispose: () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointerup', onPointerUp);
+      sun.shadow.dispose();
+      scene.remove(sun, sun.target);
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { LAMP_SIZE, createBox, createLamp, createMirror, createRoom } from './builders';
+import type { ResourceCache } from './resources';
+import type { FurnitureItem, LightDefinition, ProductDetails, ProductInfo, RoomDefinition, SceneDefinition, Size3, WindowDefinition } from './types';
+
+export interface BuiltFurniture {
+  definition: FurnitureItem;
+  object: THREE.Object3D;
+}
+
+export interface BuiltRoom {
+  definition: RoomDefinition;
+  group: THREE.Group;
+  furniture: BuiltFurniture[];
+}
+
+export interface BuiltApartment {
+  rooms: BuiltRoom[];
+  ambientLight: THREE.AmbientLight;
+}
+
+export const hexToNumber = (hex: string) => parseInt(hex.slice(1), 16);
+
+const withDimensions = (product: ProductDetails | undefined, size: Size3): ProductInfo | undefined =>
+  product && { ...product, dimensions: product.dimensions ?? size };
+
+const createFurniture = (resources: ResourceCache, item: FurnitureItem): THREE.Object3D => {
+  const { x, y, z } = item.position;
+  switch (item.kind) {
+    case 'box':
+      return createBox(resources, item.size.width, item.size.height, item.size.depth, hexToNumber(item.color), x, y, z, withDimensions(item.product, item.size), item.texture);
+    case 'lamp':
+      return createLamp(resources, x, y, z, withDimensions(item.product, LAMP_SIZE));
+    case 'mirror':
+      return createMirror(resources, item.size.width, item.size.height, x, y, z, withDimensions(item.product, { ...item.size, depth: 0.02 }));
+  }
+};
+
+/**
+ * One furniture item, named, turned and tagged for finishes as its definition
+ * says. Used for whole rooms here and for pieces the layout editor adds.
+ */
+export const buildFurniture = (resources: ResourceCache, item: FurnitureItem): THREE.Object3D => {
+  const object = createFurniture(resources, item);
+  if (item.name) object.name = item.name;
+  if (item.kind !== 'mirror' && item.rotation) object.rotation.y = THREE.MathUtils.degToRad(item.rotation);
+  if (item.kind === 'box' && item.finish) {
+    object.userData.finishSlot = item.finish;
+    object.userData.designMaterial = (object as THREE.Mesh).material;
+  }
+  return object;
+};
+
+const buildLight = (light: LightDefinition) => {
+  const pointLight = new THREE.PointLight(hexToNumber(light.color), light.intensity, light.distance);
+  pointLight.position.set(light.position.x, light.position.y, light.position.z);
+  return pointLight;
+};
+
+/** Every opening in the room's walls; a doorway is an opening with no sill. */
+export const roomOpenings = (room: RoomDefinition): WindowDefinition[] => [
+  ...room.windows,
+  ...room.doorways.map(doorway => ({ ...doorway, sill: 0 })),
+];
+
+const buildRoom = (resources: ResourceCache, room: RoomDefinition): BuiltRoom => {
+  const group = createRoom(
+    resources,
+    room.position.x,
+    room.position.z,
+    room.size.width,
+    room.size.depth,
+    room.height,
+    hexToNumber(room.wallColor),
+    hexToNumber(room.floorColor),
+    { wall: room.wallTexture, floor: room.floorTexture },
+    roomOpenings(room)
+  );
+  group.name = room.id;
+  const furniture = room.furniture.map(item => {
+    const object = buildFurniture(resources, item);
+    group.add(object);
+    return { definition: item, object };
+  });
+  room.lights.forEach(light => {
+    const object = buildLight(light);
+    if (light.name) object.name = light.name;
+    group.add(object);
+  });
+  // Finishes swap materials on these meshes; remember what the designer chose.
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh && object.userData.finishSlot) object.userData.designMaterial = object.material;
+  });
+  return { definition: room, group, furniture };
+};
+
+/**
+ * Adds every room, light and the scene environment from a validated
+ * definition. Geometry and materials come from `resources`, which owns them.
+ */
+export const buildApartment = (scene: THREE.Scene, definition: SceneDefinition, resources: ResourceCache): BuiltApartment => {
+  const { environment } = definition;
+  scene.background = new THREE.Color(environment.background);
+  scene.fog = new THREE.Fog(environment.background, environment.fog.near, environment.fog.far);
+
+  const rooms = definition.rooms.map(room => {
+    const built = buildRoom(resources, room);
+    scene.add(built.group);
+    return built;
+  });
+
+  const ambientLight = new THREE.AmbientLight(hexToNumber(environment.ambient.color), environment.ambient.intensity);
+  scene.add(ambientLight);
+
+  return { rooms, ambientLight };
+};
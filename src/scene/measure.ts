@@ -0,0 +1,261 @@
+import * as THREE from 'three';
+import { CSS2DObject, CSS2DRenderer } from 'three/addons/renderers/CSS2DRenderer.js';
+import { formatLength, type LengthUnit } from '../lib/format';
+import en, { type Messages } from '../locales/en';
+import { isUiTarget } from './input';
+import type { BuiltRoom } from './loader';
+import type { ResourceCache } from './resources';
+import type { ProductInfo, Vec3 } from './types';
+
+const CLICK_TOLERANCE = 6; // pixels a pointer may travel and still count as a click
+const MAX_MEASUREMENTS = 20;
+const MEASURE_COLOR = 0xc9a96e;
+
+/** A distance the visitor measured between two points on floors or walls (metres, world space). */
+export interface Measurement {
+  from: Vec3;
+  to: Vec3;
+}
+
+// --- Shareable Links ---
+// Encoded as ?measure=1.2,0,-3.4_2,0,-3.4~... (centimetre precision) and
+// ?units=ft when the visitor switched to feet.
+
+export const MEASURE_PARAM = 'measure';
+export const UNIT_PARAM = 'units';
+
+const encodePoint = ({ x, y, z }: Vec3) => [x, y, z].map(n => Number(n.toFixed(2))).join(',');
+
+const decodePoint = (value: string): Vec3 | null => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(n => !Number.isFinite(n))) return null;
+  const [x, y, z] = parts;
+  return { x, y, z };
+};
+
+export const encodeMeasurements = (measurements: Measurement[]) =>
+  measurements.map(({ from, to }) => `${encodePoint(from)}_${encodePoint(to)}`).join('~');
+
+/** Parses a measurement link, dropping malformed entries. */
+export const decodeMeasurements = (value: string | null): Measurement[] => {
+  if (!value) return [];
+  return value.split('~').slice(0, MAX_MEASUREMENTS).flatMap(entry => {
+    const [from, to] = entry.split('_').map(decodePoint);
+    return from && to ? [{ from, to }] : [];
+  });
+};
+
+export const decodeUnit = (value: string | null): LengthUnit => (value === 'ft' ? 'ft' : 'm');
+
+// --- Measure Tool ---
+
+interface MeasureCallbacks {
+  onMeasure: (measurement: Measurement) => void;
+  /** Something visible changed; the scene needs a new frame. */
+  onChange: () => void;
+}
+
+/** Label wording, from the visitor's message catalog. */
+export type MeasureLabels = Messages['measure'];
+
+const toVector = ({ x, y, z }: Vec3) => new THREE.Vector3(x, y, z);
+
+const createLabel = (className: string) => {
+  const element = document.createElement('div');
+  element.className = `measure-label ${className}`;
+  return new CSS2DObject(element);
+};
+
+const setLabel = (label: CSS2DObject, text: string) => {
+  label.element.textContent = text;
+};
+
+/**
+ * Measure mode: room sizes labelled on each floor, furniture sizes on hover,
+ * and click-two-points distances on floor and wall surfaces. Saved
+ * measurements are drawn whether or not the mode is on, so shared links show
+ * them. Labels are DOM elements laid over the canvas by a CSS2DRenderer;
+ * call `render` whenever the scene itself is rendered.
+ */
+export const createMeasureTool = (
+  camera: THREE.Camera,
+  scene: THREE.Scene,
+  rooms: BuiltRoom[],
+  resources: ResourceCache,
+  labelLayer: HTMLElement,
+  { onMeasure, onChange }: MeasureCallbacks
+) => {
+  const labelRenderer = new CSS2DRenderer({ element: labelLayer });
+  labelRenderer.setSize(window.innerWidth, window.innerHeight);
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const pressed = { x: 0, y: 0, active: false };
+  let enabled = false;
+  let unit: LengthUnit = 'm';
+  let labels: MeasureLabels = en.measure;
+  let measurements: Measurement[] = [];
+  let pending: THREE.Vector3 | null = null;
+
+  const lineMaterial = resources.material('measure-line', () =>
+    new THREE.LineBasicMaterial({ color: MEASURE_COLOR, depthTest: false, transparent: true })
+  );
+  const dotMaterial = resources.material('measure-dot', () =>
+    new THREE.MeshBasicMaterial({ color: MEASURE_COLOR, depthTest: false, transparent: true })
+  );
+  const dotGeometry = resources.geometry('measure-dot', () => new THREE.SphereGeometry(0.05, 12, 8));
+
+  // Everything the tool draws lives in one layer, drawn on top of the room.
+  const layer = new THREE.Group();
+  scene.add(layer);
+  const roomLabels = new THREE.Group();
+  layer.add(roomLabels);
+  const hoverLabel = createLabel('measure-label-hover');
+  hoverLabel.visible = false;
+  layer.add(hoverLabel);
+  const drawn = new THREE.Group();
+  layer.add(drawn);
+
+  // Lines and dots must not catch the furniture picker's or this tool's raycasts.
+  const overlay = <T extends THREE.Object3D>(object: T) => {
+    object.renderOrder = 10;
+    object.raycast = () => undefined;
+    return object;
+  };
+
+  const dot = (position: THREE.Vector3) => {
+    const mesh = overlay(new THREE.Mesh(dotGeometry, dotMaterial));
+    mesh.position.copy(position);
+    return mesh;
+  };
+
+  const clearDrawn = () => {
+    drawn.traverse(object => {
+      if (object instanceof THREE.Line) object.geometry.dispose();
+      if (object instanceof CSS2DObject) object.element.remove();
+    });
+    drawn.clear();
+  };
+
+  const redraw = () => {
+    clearDrawn();
+    measurements.forEach(({ from, to }) => {
+      const start = toVector(from);
+      const end = toVector(to);
+      const line = overlay(new THREE.Line(new THREE.BufferGeometry().setFromPoints([start, end]), lineMaterial));
+      const label = createLabel('measure-label-distance');
+      setLabel(label, formatLength(start.distanceTo(end), unit));
+      label.position.lerpVectors(start, end, 0.5);
+      drawn.add(line, dot(start), dot(end), label);
+    });
+    if (pending) drawn.add(dot(pending));
+    onChange();
+  };
+
+  const relabelRooms = () => {
+    roomLabels.children.forEach(object => object instanceof CSS2DObject && object.element.remove());
+    roomLabels.clear();
+    rooms.forEach(({ definition }) => {
+      const { width, depth } = definition.size;
+      const label = createLabel('measure-label-room');
+      setLabel(label, labels.roomSize(formatLength(width, unit), formatLength(depth, unit), formatLength(definition.height, unit)));
+      label.position.set(definition.position.x, 0.05, definition.position.z);
+      roomLabels.add(label);
+    });
+    roomLabels.visible = enabled;
+  };
+
+  const hit = (clientX: number, clientY: number) => {
+    pointer.set((clientX / window.innerWidth) * 2 - 1, -(clientY / window.innerHeight) * 2 + 1);
+    raycaster.setFromCamera(pointer, camera);
+    return raycaster.intersectObjects(rooms.map(room => room.group), true).find(intersection => intersection.object.visible);
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!enabled || e.pointerType === 'touch') return;
+    const found = isUiTarget(e.target) ? undefined : hit(e.clientX, e.clientY);
+    const product = found?.object.userData.product as ProductInfo | undefined;
+    if (product && found) {
+      const { width, height, depth } = product.dimensions;
+      setLabel(hoverLabel, labels.furniture(product.name, formatLength(width, unit), formatLength(depth, unit), formatLength(height, unit)));
+      hoverLabel.position.copy(found.point);
+      hoverLabel.visible = true;
+      onChange();
+    } else if (hoverLabel.visible) {
+      hoverLabel.visible = false;
+      onChange();
+    }
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    Object.assign(pressed, { x: e.clientX, y: e.clientY, active: enabled && !isUiTarget(e.target) });
+  };
+
+  // Only floors and walls can be measured; clicks on furniture or ceilings are ignored.
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pressed.active) return;
+    pressed.active = false;
+    if (Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) > CLICK_TOLERANCE) return;
+    const found = hit(e.clientX, e.clientY);
+    const slot = found?.object.userData.finishSlot;
+    if (!found || (slot !== 'floor' && slot !== 'wall')) return;
+    if (!pending) {
+      pending = found.point.clone();
+      redraw();
+      return;
+    }
+    const from = pending;
+    pending = null;
+    const round = (v: THREE.Vector3): Vec3 => ({ x: Number(v.x.toFixed(2)), y: Number(v.y.toFixed(2)), z: Number(v.z.toFixed(2)) });
+    onMeasure({ from: round(from), to: round(found.point) });
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && pending) {
+      pending = null;
+      redraw();
+    }
+  };
+
+  window.addEventListener('pointermove', onPointerMove);
+  window.addEventListener('pointerdown', onPointerDown);
+  window.addEventListener('pointerup', onPointerUp);
+  window.addEventListener('keydown', onKeyDown);
+  relabelRooms();
+
+  return {
+    isEnabled: () => enabled,
+    setEnabled: (on: boolean) => {
+      enabled = on;
+      roomLabels.visible = on;
+      hoverLabel.visible = false;
+      if (!on) pending = null;
+      redraw();
+    },
+    /** Draws the saved measurements and labels everything in this unit. */
+    show: (next: Measurement[], nextUnit: LengthUnit) => {
+      measurements = next;
+      if (nextUnit !== unit) {
+        unit = nextUnit;
+        relabelRooms();
+      }
+      redraw();
+    },
+    setLabels: (next: MeasureLabels) => {
+      labels = next;
+      hoverLabel.visible = false;
+      relabelRooms();
+      onChange();
+    },
+    render: () => labelRenderer.render(scene, camera),
+    resize: () => labelRenderer.setSize(window.innerWidth, window.innerHeight),
+    dispose: () => {
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('keydown', onKeyDown);
+      clearDrawn();
+      scene.remove(layer);
+      labelLayer.replaceChildren();
+    },
+  };
+};
@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import { isUiTarget } from './input';
+import type { ResourceCache } from './resources';
+import type { ProductInfo } from './types';
+
+const HIGHLIGHT_EMISSIVE = 0x3a2a10;
+const CLICK_TOLERANCE = 6; // pixels a pointer may travel and still count as a click
+
+interface PickerCallbacks {
+  onHover: (product: ProductInfo | null) => void;
+  onSelect: (product: ProductInfo) => void;
+}
+
+/**
+ * Raycast picking for meshes tagged with userData.product. Hovering
+ * highlights every mesh of the same piece; a click or tap selects it.
+ */
+export const createFurniturePicker = (camera: THREE.Camera, world: THREE.Object3D, resources: ResourceCache, { onHover, onSelect }: PickerCallbacks) => {
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  const pressed = { x: 0, y: 0, active: false };
+  let hovered: ProductInfo | null = null;
+
+  const productMeshes = (id: string) => {
+    const meshes: THREE.Mesh[] = [];
+    world.traverse(object => {
+      if (object instanceof THREE.Mesh && object.userData.product?.id === id) meshes.push(object);
+    });
+    return meshes;
+  };
+
+  // Materials are shared, so highlighting swaps in a glowing variant. If the
+  // mesh was recoloured meanwhile, its new material is left alone.
+  const setHighlight = (product: ProductInfo | null, on: boolean) => {
+    if (!product) return;
+    productMeshes(product.id).forEach(mesh => {
+      if (on) {
+        const highlight = resources.variant(mesh.material as THREE.MeshStandardMaterial, 'highlight', copy => copy.emissive.setHex(HIGHLIGHT_EMISSIVE));
+        mesh.userData.highlight = { from: mesh.material, to: highlight };
+        mesh.material = highlight;
+      } else if (mesh.userData.highlight) {
+        if (mesh.material === mesh.userData.highlight.to) mesh.material = mesh.userData.highlight.from;
+        delete mesh.userData.highlight;
+      }
+    });
+  };
+
+  const pick = (clientX: number, clientY: number): ProductInfo | null => {
+    pointer.set((clientX / window.innerWidth) * 2 - 1, -(clientY / window.innerHeight) * 2 + 1);
+    raycaster.setFromCamera(pointer, camera);
+    const hit = raycaster.intersectObject(world, true).find(intersection => intersection.object.visible);
+    return (hit?.object.userData.product as ProductInfo | undefined) ?? null;
+  };
+
+  const hover = (product: ProductInfo | null) => {
+    if (product?.id === hovered?.id) return;
+    setHighlight(hovered, false);
+    setHighlight(product, true);
+    hovered = product;
+    onHover(product);
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (e.pointerType === 'touch') return;
+    hover(isUiTarget(e.target) ? null : pick(e.clientX, e.clientY));
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    Object.assign(pressed, { x: e.clientX, y: e.clientY, active: !isUiTarget(e.target) });
+  };
+
+  const onPointerUp = (e: PointerEvent) => {
+    if (!pressed.active) return;
+    pressed.active = false;
+    if (Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) > CLICK_TOLERANCE) return;
+    const product = pick(e.clientX, e.clientY);
+    if (product) onSelect(product);
+  };
+
+  window.addEventListener('pointermove', onPointerMove);
+  window.addEventListener('pointerdown', onPointerDown);
+  window.addEventListener('pointerup', onPointerUp);
+
+  return {
+    dispose: () => {
+      hover(null);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointerup', onPointerUp);
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+
+// --- Adaptive Quality ---
+
+export interface QualityTier {
+  name: 'high' | 'medium' | 'low';
+  maxPixelRatio: number;
+  shadows: boolean;
+  softShadows: boolean;
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'high', maxPixelRatio: 2, shadows: true, softShadows: true },
+  { name: 'medium', maxPixelRatio: 1.5, shadows: true, softShadows: false },
+  { name: 'low', maxPixelRatio: 1, shadows: false, softShadows: false },
+];
+
+const SAMPLE_SIZE = 45; // consecutive rendered frames averaged per decision
+const SLOW_FRAME_MS = 1000 / 45;
+const MAX_SAMPLE_MS = 250; // longer gaps are tab switches or stalls, not render cost
+
+/**
+ * Measures frame time while the scene is animating and steps the renderer
+ * down a tier (pixel ratio, then shadows) when frames run slow. It never steps
+ * back up, so quality does not oscillate on devices near the threshold.
+ * Touch devices start one tier down.
+ */
+export const createAdaptiveQuality = (renderer: THREE.WebGLRenderer, onChange: (tier: QualityTier) => void) => {
+  let index = window.matchMedia('(pointer: coarse)').matches ? 1 : 0;
+  let samples: number[] = [];
+  let lastTime: number | null = null;
+  let lastRendered = false;
+
+  const apply = () => {
+    const tier = QUALITY_TIERS[index];
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, tier.maxPixelRatio));
+    renderer.shadowMap.enabled = tier.shadows;
+    renderer.shadowMap.type = tier.softShadows ? THREE.PCFSoftShadowMap : THREE.PCFShadowMap;
+    onChange(tier);
+  };
+  apply();
+
+  return {
+    tier: () => QUALITY_TIERS[index],
+    /** Call once per animation frame; only back-to-back rendered frames are measured. */
+    frame: (time: number, rendered: boolean) => {
+      if (rendered && lastRendered && lastTime !== null && time - lastTime < MAX_SAMPLE_MS) samples.push(time - lastTime);
+      lastRendered = rendered;
+      lastTime = time;
+      if (samples.length < SAMPLE_SIZE) return;
+
+      const average = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+      samples = [];
+      if (average > SLOW_FRAME_MS && index < QUALITY_TIERS.length - 1) {
+        index++;
+        apply();
+      }
+    },
+  };
+};
@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+
+// --- Shared GPU Resources ---
+// Builders ask the cache for geometry and materials by key so identical
+// pieces share one buffer / shader program, and everything an apartment
+// allocated can be released in one call when it is torn down.
+
+export const createResourceCache = () => {
+  const geometries = new Map<string, THREE.BufferGeometry>();
+  const materials = new Map<string, THREE.Material>();
+  const textures = new Map<string, THREE.Texture>();
+
+  const geometry = <T extends THREE.BufferGeometry>(key: string, create: () => T): T => {
+    if (!geometries.has(key)) geometries.set(key, create());
+    return geometries.get(key) as T;
+  };
+
+  const material = <T extends THREE.Material>(key: string, create: () => T): T => {
+    if (!materials.has(key)) materials.set(key, create());
+    return materials.get(key) as T;
+  };
+
+  const texture = <T extends THREE.Texture>(key: string, create: () => T): T => {
+    if (!textures.has(key)) textures.set(key, create());
+    return textures.get(key) as T;
+  };
+
+  return {
+    geometry,
+    material,
+    texture,
+
+    /** Standard material looked up by its colour and surface settings. */
+    standard: (params: THREE.MeshStandardMaterialParameters & { color: number }) =>
+      material(`standard:${JSON.stringify(params)}`, () => new THREE.MeshStandardMaterial(params)),
+
+    /**
+     * A cached copy of `base` with `tweak` applied, e.g. a recoloured finish or
+     * a hover highlight. Meshes swap to the variant instead of editing the
+     * shared material, which would change every mesh using it.
+     */
+    variant: <T extends THREE.Material>(base: T, key: string, tweak: (copy: T) => void): T =>
+      material(`${base.uuid}:${key}`, () => {
+        const copy = base.clone() as T;
+        tweak(copy);
+        return copy;
+      }),
+
+    /**
+     * Takes ownership of everything a loaded model allocated (geometry,
+     * materials and their texture maps) so it is released with the apartment.
+     */
+    adopt: (root: THREE.Object3D) => {
+      root.traverse(object => {
+        if (!(object instanceof THREE.Mesh)) return;
+        geometry(`adopted:${object.geometry.uuid}`, () => object.geometry);
+        const meshMaterials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+        meshMaterials.forEach(m => {
+          material(`adopted:${m.uuid}`, () => m);
+          Object.values(m).forEach(value => {
+            if (value instanceof THREE.Texture) texture(`adopted:${value.uuid}`, () => value);
+          });
+        });
+      });
+    },
+
+    /** Every cached material, e.g. to recompile them after a shadow setting change. */
+    materials: () => [...materials.values()],
+
+    dispose: () => {
+      geometries.forEach(g => g.dispose());
+      materials.forEach(m => m.dispose());
+      textures.forEach(t => t.dispose());
+      geometries.clear();
+      materials.clear();
+      textures.clear();
+    },
+  };
+};
+
+export type ResourceCache = ReturnType<typeof createResourceCache>;
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { describe, test } from 'node:test';
+import * as THREE from 'three';
+import { buildApartment } from './loader';
+import { createResourceCache } from './resources';
+import { checkSceneLayout } from './sceneCheck';
+import type { BoxFurniture, FurnitureItem, RoomDefinition, SceneDefinition } from './types';
+import { validateScene } from './validate';
+
+const APARTMENTS = new URL('./apartments/', import.meta.url);
+
+const room = (overrides: Partial<RoomDefinition> = {}): RoomDefinition => ({
+  id: 'room',
+  name: 'Room',
+  position: { x: 0, z: 0 },
+  size: { width: 4, depth: 4 },
+  height: 3,
+  wallColor: '#ffffff',
+  floorColor: '#cccccc',
+  windows: [],
+  doorways: [],
+  furniture: [],
+  lights: [],
+  ...overrides,
+});
+
+const box = (name: string, x: number, z: number, width = 1, depth = 1): BoxFurniture => ({
+  kind: 'box',
+  size: { width, height: 0.8, depth },
+  position: { x, y: 0.4, z },
+  color: '#888888',
+  piece: name,
+});
+
+const scene = (rooms: RoomDefinition[], camera: SceneDefinition['camera'] = [
+  { pos: { x: 0, y: 1.6, z: 4 }, look: { x: 0, y: 1.6, z: 0 }, scroll: 0, room: 'room' },
+  { pos: { x: 0, y: 1.6, z: 1 }, look: { x: 0, y: 1.6, z: -2 }, scroll: 1, room: 'room' },
+]): SceneDefinition => ({
+  version: 1,
+  id: 'test',
+  name: 'Test',
+  environment: { background: '#ffffff', fog: { near: 10, far: 50 }, ambient: { color: '#ffffff', intensity: 0.5 } },
+  rooms,
+  camera,
+});
+
+// Two rooms one behind the other, toured front to back.
+const throughBackWall = (doorways: RoomDefinition['doorways']) => scene(
+  [room({ doorways }), room({ id: 'next', position: { x: 0, z: -4 } })],
+  [
+    { pos: { x: 0, y: 1.6, z: 1 }, look: { x: 0, y: 1.6, z: -4 }, scroll: 0, room: 'room' },
+    { pos: { x: 0, y: 1.6, z: -4 }, look: { x: 0, y: 1.6, z: -6 }, scroll: 1, room: 'next' },
+  ]
+);
+
+describe('scene definitions', () => {
+  readdirSync(APARTMENTS).filter(file => file.endsWith('.json')).forEach(file => {
+    test(`${file} builds and passes the layout check`, () => {
+      const definition = validateScene(JSON.parse(readFileSync(new URL(file, APARTMENTS), 'utf8')));
+      assert.deepEqual(checkSceneLayout(definition), []);
+    });
+  });
+});
+
+describe('checkSceneLayout', () => {
+  test('accepts furniture that only touches', () => {
+    assert.deepEqual(checkSceneLayout(scene([room({ furniture: [box('a', -0.5, 0), box('b', 0.5, 0)] })])), []);
+  });
+
+  test('reports overlapping furniture', () => {
+    const issues = checkSceneLayout(scene([room({ furniture: [box('a', 0, 0), box('b', 0.5, 0)] })]));
+    assert.deepEqual(issues, ['scene.rooms[0].furniture[0]: overlaps furniture[1] by 0.50 m']);
+  });
+
+  test('lets items of one piece meet', () => {
+    const issues = checkSceneLayout(scene([room({ furniture: [box('bed', 0, 0), box('bed', 0, 0.5)] })]));
+    assert.deepEqual(issues, []);
+  });
+
+  test('reports furniture through a wall, including turned pieces', () => {
+    const turned: FurnitureItem = { ...box('shelf', 1.8, 0, 3, 0.4), rotation: 90 };
+    const issues = checkSceneLayout(scene([room({ furniture: [box('a', -1.8, 0), turned] })]));
+    assert.deepEqual(issues, ['scene.rooms[0].furniture[0]: extends 0.30 m outside the room']);
+  });
+
+  test('reports lights and lamps outside their room', () => {
+    const issues = checkSceneLayout(scene([room({
+      furniture: [{ kind: 'lamp', position: { x: 0, y: 2, z: 0 } }],
+      lights: [{ kind: 'point', color: '#ffffff', intensity: 1, distance: 5, position: { x: 0, y: 3.5, z: 0 } }],
+    })]));
+    assert.deepEqual(issues, [
+      'scene.rooms[0].furniture[0]: extends 0.80 m outside the room',
+      'scene.rooms[0].lights[0]: light at (0.00, 0.00), 3.50 m up, is outside the room',
+      'scene.rooms[0].furniture[0]: light at (0.00, 0.00), 3.50 m up, is outside the room',
+    ]);
+  });
+
+  test('reports a tour that passes through a wall', () => {
+    const issues = checkSceneLayout(throughBackWall([]));
+    assert.deepEqual(issues, ['scene.camera[0]: the tour to the next keyframe passes through a wall of "room" at (0.00, -2.00)']);
+  });
+
+  test('lets the tour through a doorway', () => {
+    assert.deepEqual(checkSceneLayout(throughBackWall([{ wall: 'back', offset: 0, width: 1.2, height: 2.2 }])), []);
+  });
+});
+
+describe('buildApartment', () => {
+  test('builds without a renderer', () => {
+    const threeScene = new THREE.Scene();
+    const { rooms } = buildApartment(threeScene, scene([room({ furniture: [box('a', 0, 0)] })]), createResourceCache());
+    assert.equal(rooms.length, 1);
+    assert.equal(rooms[0].group.name, 'room');
+    assert.equal(rooms[0].furniture.length, 1);
+    assert.ok(threeScene.children.includes(rooms[0].group));
+  });
+
+  test('runs a baseboard along every wall, broken by doorways', () => {
+    const baseboards = (definition: RoomDefinition) => {
+      const { rooms } = buildApartment(new THREE.Scene(), scene([definition]), createResourceCache());
+      const trim = rooms[0].group.children.find(child => child instanceof THREE.InstancedMesh);
+      return trim instanceof THREE.InstancedMesh ? trim.count : 0;
+    };
+    assert.equal(baseboards(room()), 3);
+    assert.equal(baseboards(room({ doorways: [{ wall: 'left', offset: 0, width: 1, height: 2 }] })), 4);
+  });
+});
@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { createCameraPath } from './cameraPath';
+import { pieceKey } from './layout';
+import { buildApartment, type BuiltRoom } from './loader';
+import { createResourceCache } from './resources';
+import type { SceneDefinition } from './types';
+
+// --- Layout Check ---
+// Catches placement mistakes the schema cannot: furniture that overlaps or
+// pokes through a wall, lights outside their room and a tour that walks
+// through walls. The apartment is built exactly as the tour builds it, but
+// without a renderer, so this runs in Node as well as the browser.
+
+// Pieces may touch; they only count as overlapping beyond this (metres).
+const TOLERANCE = 0.01;
+// The tour path is checked as straight steps about this long (metres).
+const PATH_STEP = 0.05;
+
+const formatPoint = ({ x, z }: THREE.Vector3) => `(${x.toFixed(2)}, ${z.toFixed(2)})`;
+
+const interior = ({ definition: { position, size, height } }: BuiltRoom) =>
+  new THREE.Box3(new THREE.Vector3(position.x - size.width / 2, 0, position.z - size.depth / 2), new THREE.Vector3(position.x + size.width / 2, height, position.z + size.depth / 2));
+
+const overlapDepth = (a: THREE.Box3, b: THREE.Box3) =>
+  Math.min(a.max.x - b.min.x, b.max.x - a.min.x, a.max.y - b.min.y, b.max.y - a.min.y, a.max.z - b.min.z, b.max.z - a.min.z);
+
+const outside = (box: THREE.Box3, bounds: THREE.Box3) =>
+  Math.max(bounds.min.x - box.min.x, box.max.x - bounds.max.x, bounds.min.y - box.min.y, box.max.y - bounds.max.y, bounds.min.z - box.min.z, box.max.z - bounds.max.z);
+
+const checkFurniture = (room: BuiltRoom, path: string, issues: string[]) => {
+  const bounds = interior(room);
+  const boxes = room.furniture.map(({ object }) => new THREE.Box3().setFromObject(object));
+
+  boxes.forEach((box, i) => {
+    const by = outside(box, bounds);
+    if (by > TOLERANCE) issues.push(`${path}.furniture[${i}]: extends ${by.toFixed(2)} m outside the room`);
+  });
+
+  // Items of one piece (a bed and its headboard) are meant to meet.
+  room.furniture.forEach(({ definition }, i) => {
+    const key = pieceKey(definition, i) ?? `fixed-${i}`;
+    for (let j = i + 1; j < room.furniture.length; j++) {
+      if ((pieceKey(room.furniture[j].definition, j) ?? `fixed-${j}`) === key) continue;
+      const by = overlapDepth(boxes[i], boxes[j]);
+      if (by > TOLERANCE) issues.push(`${path}.furniture[${i}]: overlaps furniture[${j}] by ${by.toFixed(2)} m`);
+    }
+  });
+};
+
+// Ceiling lights and lamps alike must light the room they belong to.
+const checkLights = (room: BuiltRoom, path: string, issues: string[]) => {
+  const bounds = interior(room);
+  const position = new THREE.Vector3();
+  const report = (light: THREE.PointLight, subject: string) => {
+    light.getWorldPosition(position);
+    if (!bounds.containsPoint(position)) issues.push(`${subject}: light at ${formatPoint(position)}, ${position.y.toFixed(2)} m up, is outside the room`);
+  };
+  // Room lights are added after the furniture, in definition order.
+  room.group.children
+    .filter((child): child is THREE.PointLight => child instanceof THREE.PointLight)
+    .forEach((light, i) => report(light, `${path}.lights[${i}]`));
+  room.furniture.forEach(({ object }, i) =>
+    object.traverse(child => child instanceof THREE.PointLight && report(child, `${path}.furniture[${i}]`))
+  );
+};
+
+// Walls are single-sided planes, so each step is cast both ways: one of the
+// two rays meets the face that points at it.
+const checkCameraPath = (definition: SceneDefinition, rooms: BuiltRoom[], issues: string[]) => {
+  const walls: THREE.Object3D[] = [];
+  rooms.forEach(room => room.group.traverse(object => object.userData.finishSlot === 'wall' && walls.push(object)));
+  const cameraPath = createCameraPath(definition.camera);
+  const camera = new THREE.PerspectiveCamera();
+  const raycaster = new THREE.Raycaster();
+  const direction = new THREE.Vector3();
+
+  const wallBetween = (from: THREE.Vector3, to: THREE.Vector3) => {
+    const distance = from.distanceTo(to);
+    if (distance === 0) return null;
+    raycaster.far = distance;
+    raycaster.set(from, direction.subVectors(to, from).normalize());
+    const forward = raycaster.intersectObjects(walls, false)[0];
+    if (forward) return forward;
+    raycaster.set(to, direction.negate());
+    return raycaster.intersectObjects(walls, false)[0] ?? null;
+  };
+
+  definition.camera.slice(0, -1).forEach((frame, i) => {
+    const next = definition.camera[i + 1];
+    const length = new THREE.Vector3(frame.pos.x, frame.pos.y, frame.pos.z).distanceTo(new THREE.Vector3(next.pos.x, next.pos.y, next.pos.z));
+    const steps = Math.max(1, Math.ceil(length / PATH_STEP));
+    cameraPath.place(camera, frame.scroll);
+    const previous = camera.position.clone();
+    for (let step = 1; step <= steps; step++) {
+      cameraPath.place(camera, frame.scroll + ((next.scroll - frame.scroll) * step) / steps);
+      const hit = wallBetween(previous, camera.position);
+      if (hit) {
+        issues.push(`scene.camera[${i}]: the tour to the next keyframe passes through a wall of "${hit.object.parent?.name}" at ${formatPoint(hit.point)}`);
+        return;
+      }
+      previous.copy(camera.position);
+    }
+  });
+};
+
+/**
+ * Builds a validated scene without rendering it and lists every placement
+ * problem found, each prefixed with the path of the offending definition
+ * like validateScene's. An empty list means the layout is sound.
+ */
+export const checkSceneLayout = (definition: SceneDefinition): string[] => {
+  const resources = createResourceCache();
+  const scene = new THREE.Scene();
+  const { rooms } = buildApartment(scene, definition, resources);
+  scene.updateMatrixWorld(true);
+
+  const issues: string[] = [];
+  rooms.forEach((room, i) => {
+    checkFurniture(room, `scene.rooms[${i}]`, issues);
+    checkLights(room, `scene.rooms[${i}]`, issues);
+  });
+  checkCameraPath(definition, rooms, issues);
+  resources.dispose();
+  return issues;
+};
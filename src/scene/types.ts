@@ -0,0 +1,162 @@
+// --- Scene Definition Schema ---
+// Colours are "#rrggbb" strings, distances are metres. Room-local positions
+// (furniture, lights) are relative to the room centre at floor level.
+
+export const SCENE_SCHEMA_VERSION = 1;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Size3 {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+/**
+ * Catalogue details shown when a visitor inspects a piece. Meshes that make up
+ * one piece (e.g. a desk top and its legs) share the same `id`. Dimensions
+ * default to the mesh size when omitted; prices are indicative, in rupees.
+ */
+export interface ProductDetails {
+  id: string;
+  name: string;
+  material: string;
+  price: number;
+  dimensions?: Size3;
+}
+
+export type ProductInfo = ProductDetails & { dimensions: Size3 };
+
+/** Furniture surfaces that can be re-finished from the configurator palette. */
+export type FurnitureFinish = 'upholstery' | 'cabinet';
+
+/**
+ * Placement shared by free-standing furniture. `rotation` turns the item about
+ * its centre, in degrees counter-clockwise seen from above. Items with the
+ * same `piece` are moved together in the layout editor (a bed and its
+ * headboard); it defaults to the product id.
+ */
+interface Placement {
+  position: Vec3;
+  rotation?: number;
+  piece?: string;
+}
+
+/**
+ * A piece drawn as a coloured box. With `model` (a .glb/.gltf URL) the box is
+ * only a placeholder: the model replaces it once loaded, scaled to fit inside
+ * `size`, and the box stays if the model fails. `texture` is an image URL
+ * (wood, marble, fabric...) mapped over the box and tinted by `color`.
+ */
+export interface BoxFurniture extends Placement {
+  kind: 'box';
+  name?: string;
+  size: Size3;
+  color: string;
+  finish?: FurnitureFinish;
+  model?: string;
+  texture?: string;
+  product?: ProductDetails;
+}
+
+export interface LampFurniture extends Placement {
+  kind: 'lamp';
+  name?: string;
+  product?: ProductDetails;
+}
+
+/** Mirrors hang on a wall and stay where the scene puts them. */
+export interface MirrorFurniture {
+  kind: 'mirror';
+  name?: string;
+  size: { width: number; height: number };
+  position: Vec3;
+  product?: ProductDetails;
+}
+
+export type FurnitureItem = BoxFurniture | LampFurniture | MirrorFurniture;
+
+export interface PointLightDefinition {
+  kind: 'point';
+  name?: string;
+  color: string;
+  intensity: number;
+  distance: number;
+  position: Vec3;
+}
+
+export type LightDefinition = PointLightDefinition;
+
+export type WallSide = 'back' | 'left' | 'right';
+
+/**
+ * An opening in one of the room's walls that daylight shines through.
+ * `offset` places its centre along the wall from the wall's midpoint (+x on
+ * the back wall, +z on the side walls); `sill` is its height above the floor.
+ */
+export interface WindowDefinition {
+  wall: WallSide;
+  offset: number;
+  width: number;
+  height: number;
+  sill: number;
+}
+
+/**
+ * A full-height opening from the floor, e.g. where the tour passes from one
+ * room into the next. Placed along its wall like a window.
+ */
+export interface DoorwayDefinition {
+  wall: WallSide;
+  offset: number;
+  width: number;
+  height: number;
+}
+
+export interface RoomDefinition {
+  id: string;
+  name: string;
+  /** Optional translations of `name`, keyed by locale ("ta", "hi"); missing ones fall back to `name`. */
+  names?: Record<string, string>;
+  position: { x: number; z: number };
+  size: { width: number; depth: number };
+  height: number;
+  wallColor: string;
+  floorColor: string;
+  /** Optional image URLs tiled once per metre and tinted by the matching colour. */
+  wallTexture?: string;
+  floorTexture?: string;
+  /** Optional in scene files; defaults to none. */
+  windows: WindowDefinition[];
+  /** Optional in scene files; defaults to none. */
+  doorways: DoorwayDefinition[];
+  furniture: FurnitureItem[];
+  lights: LightDefinition[];
+}
+
+export interface CameraKeyframe {
+  pos: Vec3;
+  look: Vec3;
+  scroll: number;
+  /** Id of the room this part of the tour shows. Optional in scene files; defaults to the room containing `pos`. */
+  room: string;
+}
+
+export interface EnvironmentDefinition {
+  background: string;
+  fog: { near: number; far: number };
+  ambient: { color: string; intensity: number };
+}
+
+export interface SceneDefinition {
+  version: typeof SCENE_SCHEMA_VERSION;
+  id: string;
+  name: string;
+  environment: EnvironmentDefinition;
+  rooms: RoomDefinition[];
+  camera: CameraKeyframe[];
+}
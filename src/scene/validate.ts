@@ -0,0 +1,320 @@
+import {
+  SCENE_SCHEMA_VERSION,
+  type CameraKeyframe,
+  type DoorwayDefinition,
+  type EnvironmentDefinition,
+  type FurnitureFinish,
+  type FurnitureItem,
+  type LightDefinition,
+  type ProductDetails,
+  type RoomDefinition,
+  type SceneDefinition,
+  type Vec3,
+  type WallSide,
+  type WindowDefinition,
+} from './types';
+
+export class SceneValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid scene definition:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'SceneValidationError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MODEL_URL = /^(https?:\/\/|\/)\S+\.(glb|gltf)$/i;
+const TEXTURE_URL = /^(https?:\/\/|\/)\S+\.(jpe?g|png|webp)$/i;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each reader records a problem against its path and returns a placeholder so
+// validation can keep going and report every issue in one pass.
+// Fields under an object that is itself missing are not reported separately.
+const createReader = (issues: string[]) => {
+  const missing: string[] = [];
+
+  const fail = <T>(path: string, message: string, fallback: T): T => {
+    const underMissing = missing.some(parent => path.startsWith(`${parent}.`) || path.startsWith(`${parent}[`));
+    if (!underMissing) issues.push(`${path}: ${message}`);
+    return fallback;
+  };
+
+  const object = (value: unknown, path: string): Json => {
+    if (isObject(value)) return value;
+    fail(path, 'expected an object', null);
+    missing.push(path);
+    return {};
+  };
+
+  const array = (value: unknown, path: string): unknown[] =>
+    Array.isArray(value) ? value : fail(path, 'expected an array', []);
+
+  const string = (value: unknown, path: string): string =>
+    typeof value === 'string' && value.trim() !== '' ? value : fail(path, 'expected a non-empty string', '');
+
+  const optionalString = (value: unknown, path: string): string | undefined =>
+    value === undefined ? undefined : string(value, path);
+
+  const number = (value: unknown, path: string): number =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'expected a finite number', 0);
+
+  const optionalNumber = (value: unknown, path: string): number | undefined =>
+    value === undefined ? undefined : number(value, path);
+
+  const positive = (value: unknown, path: string): number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fail(path, 'expected a positive number', 0);
+
+  const color = (value: unknown, path: string): string =>
+    typeof value === 'string' && HEX_COLOR.test(value) ? value : fail(path, 'expected a "#rrggbb" colour', '#000000');
+
+  const optionalUrl = (value: unknown, path: string, pattern: RegExp, expected: string): string | undefined => {
+    if (value === undefined) return undefined;
+    return typeof value === 'string' && pattern.test(value) ? value : fail(path, `expected ${expected}`, undefined);
+  };
+
+  const vec3 = (value: unknown, path: string): Vec3 => {
+    const v = object(value, path);
+    return { x: number(v.x, `${path}.x`), y: number(v.y, `${path}.y`), z: number(v.z, `${path}.z`) };
+  };
+
+  return { fail, object, array, string, optionalString, optionalUrl, number, optionalNumber, positive, color, vec3 };
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+const readProduct = (r: Reader, value: unknown, path: string): ProductDetails | undefined => {
+  if (value === undefined) return undefined;
+  const product = r.object(value, path);
+  const dimensions = product.dimensions === undefined ? undefined : r.object(product.dimensions, `${path}.dimensions`);
+  return {
+    id: r.string(product.id, `${path}.id`),
+    name: r.string(product.name, `${path}.name`),
+    material: r.string(product.material, `${path}.material`),
+    price: r.positive(product.price, `${path}.price`),
+    dimensions: dimensions && {
+      width: r.positive(dimensions.width, `${path}.dimensions.width`),
+      height: r.positive(dimensions.height, `${path}.dimensions.height`),
+      depth: r.positive(dimensions.depth, `${path}.dimensions.depth`),
+    },
+  };
+};
+
+const readFinish = (r: Reader, value: unknown, path: string): FurnitureFinish | undefined => {
+  if (value === undefined) return undefined;
+  if (value === 'upholstery' || value === 'cabinet') return value;
+  return r.fail(path, `expected "upholstery" or "cabinet", got ${JSON.stringify(value)}`, undefined);
+};
+
+const readFurniture = (r: Reader, value: unknown, path: string): FurnitureItem => {
+  const item = r.object(value, path);
+  const name = r.optionalString(item.name, `${path}.name`);
+  const position = r.vec3(item.position, `${path}.position`);
+  const product = readProduct(r, item.product, `${path}.product`);
+  const rotation = r.optionalNumber(item.rotation, `${path}.rotation`);
+  const piece = r.optionalString(item.piece, `${path}.piece`);
+
+  switch (item.kind) {
+    case 'box': {
+      const size = r.object(item.size, `${path}.size`);
+      return {
+        kind: 'box',
+        name,
+        size: {
+          width: r.positive(size.width, `${path}.size.width`),
+          height: r.positive(size.height, `${path}.size.height`),
+          depth: r.positive(size.depth, `${path}.size.depth`),
+        },
+        position,
+        rotation,
+        piece,
+        color: r.color(item.color, `${path}.color`),
+        finish: readFinish(r, item.finish, `${path}.finish`),
+        model: r.optionalUrl(item.model, `${path}.model`, MODEL_URL, 'a .glb or .gltf URL'),
+        texture: r.optionalUrl(item.texture, `${path}.texture`, TEXTURE_URL, 'a .jpg, .png or .webp URL'),
+        product,
+      };
+    }
+    case 'lamp':
+      return { kind: 'lamp', name, position, rotation, piece, product };
+    case 'mirror': {
+      const size = r.object(item.size, `${path}.size`);
+      return {
+        kind: 'mirror',
+        name,
+        size: {
+          width: r.positive(size.width, `${path}.size.width`),
+          height: r.positive(size.height, `${path}.size.height`),
+        },
+        position,
+        product,
+      };
+    }
+    default:
+      return r.fail(`${path}.kind`, `expected "box", "lamp" or "mirror", got ${JSON.stringify(item.kind)}`, { kind: 'lamp', name, position });
+  }
+};
+
+const readLight = (r: Reader, value: unknown, path: string): LightDefinition => {
+  const light = r.object(value, path);
+  if (light.kind !== 'point') {
+    r.fail(`${path}.kind`, `expected "point", got ${JSON.stringify(light.kind)}`, null);
+  }
+  return {
+    kind: 'point',
+    name: r.optionalString(light.name, `${path}.name`),
+    color: r.color(light.color, `${path}.color`),
+    intensity: r.number(light.intensity, `${path}.intensity`),
+    distance: r.positive(light.distance, `${path}.distance`),
+    position: r.vec3(light.position, `${path}.position`),
+  };
+};
+
+type RoomShape = Pick<RoomDefinition, 'size' | 'height'>;
+
+// Openings must sit inside their wall, below the ceiling.
+const readOpening = (r: Reader, opening: Json, path: string, room: RoomShape, sill: number) => {
+  const wall: WallSide = opening.wall === 'back' || opening.wall === 'left' || opening.wall === 'right'
+    ? opening.wall
+    : r.fail(`${path}.wall`, `expected "back", "left" or "right", got ${JSON.stringify(opening.wall)}`, 'back' as const);
+  const offset = r.number(opening.offset, `${path}.offset`);
+  const width = r.positive(opening.width, `${path}.width`);
+  const height = r.positive(opening.height, `${path}.height`);
+  const wallLength = wall === 'back' ? room.size.width : room.size.depth;
+  if (Math.abs(offset) + width / 2 > wallLength / 2) r.fail(path, `extends past the ends of the ${wall} wall`, null);
+  if (sill < 0 || sill + height > room.height) r.fail(path, 'must fit between the floor and the ceiling', null);
+  return { wall, offset, width, height };
+};
+
+const readWindow = (r: Reader, value: unknown, path: string, room: RoomShape): WindowDefinition => {
+  const opening = r.object(value, path);
+  const sill = r.number(opening.sill, `${path}.sill`);
+  return { ...readOpening(r, opening, path, room, sill), sill };
+};
+
+const readDoorway = (r: Reader, value: unknown, path: string, room: RoomShape): DoorwayDefinition =>
+  readOpening(r, r.object(value, path), path, room, 0);
+
+const readNames = (r: Reader, value: unknown, path: string): Record<string, string> | undefined => {
+  if (value === undefined) return undefined;
+  const names = r.object(value, path);
+  return Object.fromEntries(Object.entries(names).map(([locale, name]) => [locale, r.string(name, `${path}.${locale}`)]));
+};
+
+const readRoom = (r: Reader, value: unknown, path: string): RoomDefinition => {
+  const room = r.object(value, path);
+  const position = r.object(room.position, `${path}.position`);
+  const size = r.object(room.size, `${path}.size`);
+  const width = r.positive(size.width, `${path}.size.width`);
+  const depth = r.positive(size.depth, `${path}.size.depth`);
+  const height = r.positive(room.height, `${path}.height`);
+  return {
+    id: r.string(room.id, `${path}.id`),
+    name: r.string(room.name, `${path}.name`),
+    names: readNames(r, room.names, `${path}.names`),
+    position: { x: r.number(position.x, `${path}.position.x`), z: r.number(position.z, `${path}.position.z`) },
+    size: { width, depth },
+    height,
+    wallColor: r.color(room.wallColor, `${path}.wallColor`),
+    floorColor: r.color(room.floorColor, `${path}.floorColor`),
+    wallTexture: r.optionalUrl(room.wallTexture, `${path}.wallTexture`, TEXTURE_URL, 'a .jpg, .png or .webp URL'),
+    floorTexture: r.optionalUrl(room.floorTexture, `${path}.floorTexture`, TEXTURE_URL, 'a .jpg, .png or .webp URL'),
+    windows: r.array(room.windows ?? [], `${path}.windows`).map((opening, i) => readWindow(r, opening, `${path}.windows[${i}]`, { size: { width, depth }, height })),
+    doorways: r.array(room.doorways ?? [], `${path}.doorways`).map((opening, i) => readDoorway(r, opening, `${path}.doorways[${i}]`, { size: { width, depth }, height })),
+    furniture: r.array(room.furniture ?? [], `${path}.furniture`).map((item, i) => readFurniture(r, item, `${path}.furniture[${i}]`)),
+    lights: r.array(room.lights ?? [], `${path}.lights`).map((light, i) => readLight(r, light, `${path}.lights[${i}]`)),
+  };
+};
+
+const readEnvironment = (r: Reader, value: unknown, path: string): EnvironmentDefinition => {
+  const env = r.object(value, path);
+  const fog = r.object(env.fog, `${path}.fog`);
+  const ambient = r.object(env.ambient, `${path}.ambient`);
+  return {
+    background: r.color(env.background, `${path}.background`),
+    fog: { near: r.number(fog.near, `${path}.fog.near`), far: r.positive(fog.far, `${path}.fog.far`) },
+    ambient: { color: r.color(ambient.color, `${path}.ambient.color`), intensity: r.number(ambient.intensity, `${path}.ambient.intensity`) },
+  };
+};
+
+const readKeyframe = (r: Reader, value: unknown, path: string): CameraKeyframe => {
+  const frame = r.object(value, path);
+  const scroll = r.number(frame.scroll, `${path}.scroll`);
+  if (scroll < 0 || scroll > 1) r.fail(`${path}.scroll`, 'expected a value between 0 and 1', null);
+  return {
+    pos: r.vec3(frame.pos, `${path}.pos`),
+    look: r.vec3(frame.look, `${path}.look`),
+    scroll,
+    room: r.optionalString(frame.room, `${path}.room`) ?? '',
+  };
+};
+
+// The room whose floor contains the point, or failing that the nearest room centre.
+const roomContaining = (rooms: RoomDefinition[], { x, z }: Vec3) =>
+  rooms.find(room => Math.abs(x - room.position.x) <= room.size.width / 2 && Math.abs(z - room.position.z) <= room.size.depth / 2) ??
+  rooms.reduce((best, room) =>
+    Math.hypot(x - room.position.x, z - room.position.z) < Math.hypot(x - best.position.x, z - best.position.z) ? room : best
+  );
+
+/**
+ * Checks a room's furniture list on its own, e.g. a saved layout. Throws a
+ * SceneValidationError listing every problem found.
+ */
+export const validateFurniture = (input: unknown, path = 'furniture'): FurnitureItem[] => {
+  const issues: string[] = [];
+  const r = createReader(issues);
+  const furniture = r.array(input, path).map((item, i) => readFurniture(r, item, `${path}[${i}]`));
+  if (issues.length > 0) throw new SceneValidationError(issues);
+  return furniture;
+};
+
+/**
+ * Checks an untrusted scene file (parsed JSON) against the schema and returns
+ * it typed. Throws a SceneValidationError listing every problem found.
+ */
+export const validateScene = (input: unknown): SceneDefinition => {
+  const issues: string[] = [];
+  const r = createReader(issues);
+  const root = r.object(input, 'scene');
+
+  if (root.version !== SCENE_SCHEMA_VERSION) {
+    r.fail('scene.version', `unsupported version ${JSON.stringify(root.version)}, expected ${SCENE_SCHEMA_VERSION}`, null);
+  }
+
+  const scene: SceneDefinition = {
+    version: SCENE_SCHEMA_VERSION,
+    id: r.string(root.id, 'scene.id'),
+    name: r.string(root.name, 'scene.name'),
+    environment: readEnvironment(r, root.environment, 'scene.environment'),
+    rooms: r.array(root.rooms, 'scene.rooms').map((room, i) => readRoom(r, room, `scene.rooms[${i}]`)),
+    camera: r.array(root.camera, 'scene.camera').map((frame, i) => readKeyframe(r, frame, `scene.camera[${i}]`)),
+  };
+
+  if (Array.isArray(root.rooms) && scene.rooms.length === 0) r.fail('scene.rooms', 'expected at least one room', null);
+  if (Array.isArray(root.camera) && scene.camera.length < 2) r.fail('scene.camera', 'expected at least two keyframes', null);
+
+  const seen = new Set<string>();
+  scene.rooms.forEach((room, i) => {
+    if (room.id && seen.has(room.id)) r.fail(`scene.rooms[${i}].id`, `duplicate room id "${room.id}"`, null);
+    seen.add(room.id);
+  });
+
+  scene.camera.forEach((frame, i) => {
+    if (!frame.room) {
+      if (scene.rooms.length > 0) frame.room = roomContaining(scene.rooms, frame.pos).id;
+    } else if (!seen.has(frame.room)) {
+      r.fail(`scene.camera[${i}].room`, `unknown room id "${frame.room}"`, null);
+    }
+    if (i > 0 && frame.scroll <= scene.camera[i - 1].scroll) {
+      r.fail(`scene.camera[${i}].scroll`, 'keyframes must be in strictly increasing scroll order', null);
+    }
+  });
+  if (scene.camera.length >= 2 && (scene.camera[0].scroll !== 0 || scene.camera[scene.camera.length - 1].scroll !== 1)) {
+    r.fail('scene.camera', 'keyframes must start at scroll 0 and end at scroll 1', null);
+  }
+
+  if (issues.length > 0) throw new SceneValidationError(issues);
+  return scene;
+};